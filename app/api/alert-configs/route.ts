@@ -0,0 +1,63 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getAlertConfigStore } from "@/lib/server/alert-config-store"
+import { getIngestionWorker, isIngestionWorkerEnabled } from "@/lib/server/ingestion-worker"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+import { inactivityAlertConfigsSchema, type InactivityAlertConfigs } from "@/utils/inactivity-config"
+
+export const dynamic = "force-dynamic"
+
+const unknownFeed = (feed: string) => NextResponse.json({ error: `Unknown feed: ${feed}` }, { status: 404 })
+
+// The server-side monitor alerts on the same configurations as the dashboards
+const applyToMonitor = (feed: string, configurations: InactivityAlertConfigs) => {
+  if (!isIngestionWorkerEnabled()) return
+  const monitor = getIngestionWorker().getMonitor(feed)
+  if (!monitor) return
+  Object.entries(configurations).forEach(([key, config]) => monitor.setInactivityConfig(key, config))
+}
+
+// GET /api/alert-configs?feed=kite — every saved inactivity alert configuration, by instrument key
+export async function GET(request: NextRequest) {
+  const feed = request.nextUrl.searchParams.get("feed") ?? "kite"
+  if (!getFeedAdapter(feed)) return unknownFeed(feed)
+
+  return NextResponse.json({ feed, configurations: await getAlertConfigStore().list(feed) })
+}
+
+// PUT /api/alert-configs?feed=kite with { configurations: { [instrumentKey]: InactivityAlertConfig } }
+// Adds or replaces those instruments; others are left as they are
+export async function PUT(request: NextRequest) {
+  const feed = request.nextUrl.searchParams.get("feed") ?? "kite"
+  if (!getFeedAdapter(feed)) return unknownFeed(feed)
+
+  const body = await request.json().catch(() => null)
+  const result = inactivityAlertConfigsSchema.safeParse(body?.configurations)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    return NextResponse.json({ error: "Invalid configurations", issues }, { status: 400 })
+  }
+
+  const configurations = await getAlertConfigStore().upsert(feed, result.data)
+  applyToMonitor(feed, result.data)
+  return NextResponse.json({ feed, configurations })
+}
+
+// DELETE /api/alert-configs?feed=kite&instrument=<key>
+export async function DELETE(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const feed = params.get("feed") ?? "kite"
+  const instrument = params.get("instrument")
+  if (!getFeedAdapter(feed)) return unknownFeed(feed)
+  if (!instrument) {
+    return NextResponse.json({ error: "instrument is required" }, { status: 400 })
+  }
+
+  const store = getAlertConfigStore()
+  const existing = (await store.list(feed))[instrument]
+  if (!existing || !(await store.remove(feed, instrument))) {
+    return NextResponse.json({ error: `No configuration for ${instrument}` }, { status: 404 })
+  }
+  // The monitor has no notion of removal; a disabled configuration stops its alerts
+  applyToMonitor(feed, { [instrument]: { ...existing, enabled: false } })
+  return NextResponse.json({ feed, configurations: await store.list(feed) })
+}
@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { DAY_PATTERN, getTickStore, getTradingDay } from "@/lib/server/tick-store"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+
+export const dynamic = "force-dynamic"
+
+const DEFAULT_LIMIT = 10_000
+const MAX_LIMIT = 100_000
+
+// Accepts epoch milliseconds or anything Date can parse (ISO strings, YYYY-MM-DD)
+const parseTime = (value: string | null) => {
+  if (!value) return null
+  const time = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+  return Number.isFinite(time) ? time : Number.NaN
+}
+
+// GET /api/history?instrument=<key>&feed=kite&from=&to=&limit=
+// Without from/to, returns the current IST trading day.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const feed = params.get("feed") ?? "kite"
+  const instrument = params.get("instrument")
+  const store = getTickStore()
+
+  if (!getFeedAdapter(feed)) {
+    return NextResponse.json({ error: `Unknown feed: ${feed}` }, { status: 400 })
+  }
+
+  if (!instrument) {
+    const day = params.get("day") ?? getTradingDay(Date.now())
+    if (!DAY_PATTERN.test(day)) {
+      return NextResponse.json({ error: "day must be YYYY-MM-DD" }, { status: 400 })
+    }
+    return NextResponse.json({ feed, day, instruments: await store.listInstruments(feed, day) })
+  }
+
+  const now = Date.now()
+  const from = parseTime(params.get("from")) ?? new Date(`${getTradingDay(now)}T00:00:00+05:30`).getTime()
+  const to = parseTime(params.get("to")) ?? now
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+    return NextResponse.json({ error: "from and to must be valid times with from <= to" }, { status: 400 })
+  }
+
+  const limit = Math.min(Math.max(Math.floor(Number(params.get("limit")) || DEFAULT_LIMIT), 1), MAX_LIMIT)
+  const ticks = await store.query({ feed, instrument, from, to, limit })
+
+  return NextResponse.json({ feed, instrument, from, to, count: ticks.length, truncated: ticks.length >= limit, ticks })
+}
@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { ensureInstrumentsLoaded } from "@/lib/server/instrument-store"
+import { getInstrumentMaster } from "@/utils/instrument-master"
+import { suggestInstrumentPairs } from "@/utils/instrument-pairs"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/instruments/pairs?q=RELIANCE (or an ISIN) — suggested Kite/Upstox pairs
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q")
+  if (!query) {
+    return NextResponse.json({ error: "q is required" }, { status: 400 })
+  }
+
+  await ensureInstrumentsLoaded()
+  return NextResponse.json({ pairs: suggestInstrumentPairs(getInstrumentMaster(), query) })
+}
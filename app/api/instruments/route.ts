@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { ensureInstrumentsLoaded } from "@/lib/server/instrument-store"
+import { getInstrumentMaster, type InstrumentRecord } from "@/utils/instrument-master"
+
+export const dynamic = "force-dynamic"
+
+const MAX_KEYS = 500
+const MAX_RESULTS = 100
+
+// GET /api/instruments?keys=256265,NSE_EQ|INE002A01018 — records for those instrument keys
+// GET /api/instruments?q=NIFTY&limit=20 — search by tradingsymbol or name
+// GET /api/instruments — which dumps are loaded
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const dumps = await ensureInstrumentsLoaded()
+  const master = getInstrumentMaster()
+
+  const keys = params.get("keys")
+  if (keys) {
+    const requested = keys.split(",").filter(Boolean)
+    if (requested.length > MAX_KEYS) {
+      return NextResponse.json({ error: `At most ${MAX_KEYS} keys per request` }, { status: 400 })
+    }
+    const instruments = requested
+      .map((key) => master.get(key))
+      .filter((record): record is InstrumentRecord => record !== undefined)
+    return NextResponse.json({ instruments })
+  }
+
+  const query = params.get("q")
+  if (query) {
+    const limit = Math.min(Number(params.get("limit")) || 20, MAX_RESULTS)
+    return NextResponse.json({ instruments: master.search(query, limit) })
+  }
+
+  return NextResponse.json({ size: master.size(), dumps })
+}
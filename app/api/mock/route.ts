@@ -0,0 +1,59 @@
+import type { NextRequest } from "next/server"
+import { createMockFeed, parseMockFeedOptions } from "@/lib/server/mock-feed"
+import { EVENT_STREAM_HEADERS, formatServerSentEvent } from "@/lib/server/event-stream"
+
+export const dynamic = "force-dynamic"
+
+// Local stand-in for the relay endpoints, for offline development and CI.
+// Point a feed at it with NEXT_PUBLIC_KITE_TICKS_URL / NEXT_PUBLIC_UPSTOX_FEED_URL, e.g.
+// http://localhost:3000/api/mock?feed=upstox&rate=2&flat=NSE_INDEX|Nifty%2050
+export async function GET(request: NextRequest) {
+  const options = parseMockFeedOptions(request.nextUrl.searchParams)
+  const mockFeed = createMockFeed(options)
+  const encoder = new TextEncoder()
+  const startedAt = Date.now()
+  let cleanup = () => {}
+
+  const customReadable = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // already closed
+        }
+      }
+
+      const interval = setInterval(() => {
+        const now = Date.now()
+        const elapsed = now - startedAt
+        if (mockFeed.shouldDisconnect(elapsed)) {
+          console.log(`🧪 Mock ${options.format} feed dropping the connection after ${options.disconnectAfter}s`)
+          close()
+          return
+        }
+        // A frozen feed keeps the connection open but sends nothing
+        if (mockFeed.isFrozen(elapsed)) return
+
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(mockFeed.next(now))))
+        } catch {
+          cleanup()
+        }
+      }, 1000 / options.rate)
+
+      cleanup = () => {
+        clearInterval(interval)
+        cleanup = () => {}
+      }
+
+      request.signal.addEventListener("abort", close)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(customReadable, { headers: EVENT_STREAM_HEADERS })
+}
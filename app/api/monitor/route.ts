@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getIngestionWorker } from "@/lib/server/ingestion-worker"
+
+export const dynamic = "force-dynamic"
+
+// Server-side monitoring state for every feed: connection, freeze and inactivity results
+export async function GET() {
+  return NextResponse.json(getIngestionWorker().snapshot())
+}
+
+// Body: { feed: "kite" | "upstox", instrumentKey: string, config: InactivityAlertConfig }
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const monitor = body?.feed ? getIngestionWorker().getMonitor(body.feed) : undefined
+
+  if (!monitor) {
+    return NextResponse.json({ error: `Unknown feed: ${body?.feed}` }, { status: 404 })
+  }
+  if (typeof body.instrumentKey !== "string" || !body.config || typeof body.config.enabled !== "boolean") {
+    return NextResponse.json({ error: "instrumentKey and config are required" }, { status: 400 })
+  }
+
+  monitor.setInactivityConfig(body.instrumentKey, {
+    enabled: body.config.enabled,
+    mode: body.config.mode === "adaptive" ? "adaptive" : "deviation",
+    deviation: Number(body.config.deviation) || 0.1,
+    duration: Number(body.config.duration) || 30,
+    respectMarketHours: body.config.respectMarketHours !== false,
+  })
+
+  return NextResponse.json(monitor.snapshot())
+}
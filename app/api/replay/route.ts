@@ -0,0 +1,85 @@
+import type { NextRequest } from "next/server"
+import { getSessionRecorder } from "@/lib/server/session-recorder"
+import { EVENT_STREAM_HEADERS, formatServerSentEvent } from "@/lib/server/event-stream"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+import { formatReplayEventId, parseReplayEventId } from "@/utils/feeds/replay-adapter"
+
+export const dynamic = "force-dynamic"
+
+const SESSION_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Resolves after `ms`, or straight away once the client has gone
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal.aborted) return resolve()
+    const timeout = setTimeout(resolve, ms)
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout)
+      resolve()
+    })
+  })
+
+// SSE replay of a recorded session:
+// /api/replay?feed=kite&session=YYYY-MM-DD&speed=1|10|0&from=<ms>&after=<line>
+// Payloads keep their original event names and gaps (divided by speed; 0 = as fast as
+// the client reads). Each event id holds its line in the recording, to resume after, and
+// its recorded time, so the client can track position.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const feed = params.get("feed") ?? "kite"
+  const session = params.get("session") ?? ""
+  const speed = Math.max(0, Number(params.get("speed") ?? 1) || 0)
+
+  if (!getFeedAdapter(feed) || !SESSION_PATTERN.test(session)) {
+    return new Response("Unknown feed or session", { status: 404 })
+  }
+
+  const recorder = getSessionRecorder()
+  if (!(await recorder.hasSession(feed, session))) {
+    return new Response(`No recording for ${feed} on ${session}`, { status: 404 })
+  }
+
+  // A browser reconnect resumes just after the last event it saw
+  const lastEvent = parseReplayEventId(request.headers.get("last-event-id") ?? "")
+  const after = lastEvent?.line ?? Number.parseInt(params.get("after") ?? "-1", 10)
+  const from = lastEvent ? 0 : Number(params.get("from")) || 0
+
+  const encoder = new TextEncoder()
+  const records = recorder.readSession(feed, session, { from, after })
+  let previous: number | null = null
+
+  const customReadable = new ReadableStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(`retry: 5000\n\n`))
+    },
+    async pull(controller) {
+      const { value: record, done } = await records.next()
+      if (request.signal.aborted) return
+      if (done) {
+        controller.enqueue(encoder.encode(formatServerSentEvent({ event: "end", data: session })))
+        controller.close()
+        return
+      }
+
+      if (speed > 0 && previous !== null) {
+        await sleep((record.t - previous) / speed, request.signal)
+        if (request.signal.aborted) return
+      }
+      previous = record.t
+      controller.enqueue(
+        encoder.encode(
+          formatServerSentEvent({
+            id: formatReplayEventId(record.line, record.t),
+            event: record.event,
+            data: record.data,
+          }),
+        ),
+      )
+    },
+    cancel() {
+      records.return(undefined)
+    },
+  })
+
+  return new Response(customReadable, { headers: EVENT_STREAM_HEADERS })
+}
@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getSessionRecorder } from "@/lib/server/session-recorder"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/sessions?feed=kite — recorded sessions available for replay, newest first
+export async function GET(request: NextRequest) {
+  const feed = request.nextUrl.searchParams.get("feed") ?? "kite"
+  if (!getFeedAdapter(feed)) {
+    return NextResponse.json({ error: `Unknown feed: ${feed}` }, { status: 404 })
+  }
+
+  return NextResponse.json({ feed, sessions: await getSessionRecorder().listSessions(feed) })
+}
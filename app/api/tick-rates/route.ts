@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { isTickStoreEnabled } from "@/lib/server/tick-store"
+import { getTickRateLearner } from "@/lib/server/tick-rate-learner"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/tick-rates?feed=kite&instrument=<key>
+// The instrument's inter-tick gap distribution per 15-minute session bucket,
+// learned from the stored tick history (see utils/tick-rate-profile.ts)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const feed = params.get("feed") ?? "kite"
+  const instrument = params.get("instrument")
+
+  if (!getFeedAdapter(feed)) {
+    return NextResponse.json({ error: `Unknown feed: ${feed}` }, { status: 400 })
+  }
+  if (!instrument) {
+    return NextResponse.json({ error: "instrument is required" }, { status: 400 })
+  }
+  if (!isTickStoreEnabled()) {
+    return NextResponse.json({ error: "Tick store is disabled; there is no history to learn from" }, { status: 503 })
+  }
+
+  return NextResponse.json(await getTickRateLearner().get(feed, instrument))
+}
@@ -1,49 +1,71 @@
 import type { NextRequest } from "next/server"
+import { getFeedHub } from "@/lib/server/feed-hub"
+import { EVENT_STREAM_HEADERS, formatServerSentEvent } from "@/lib/server/event-stream"
 
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL = 15_000
+const CLIENT_RETRY = 5_000
+
+// SSE proxy: /api/ticks?feed=kite|upstox. All clients of a feed share one
+// upstream connection; reconnecting clients resume from Last-Event-ID.
 export async function GET(request: NextRequest) {
+  const feed = request.nextUrl.searchParams.get("feed") ?? "kite"
+  const hub = getFeedHub(feed)
+  if (!hub) {
+    return new Response(`Unknown feed: ${feed}`, { status: 404 })
+  }
+
+  const lastEventIdHeader = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId")
+  const lastEventId = lastEventIdHeader ? Number.parseInt(lastEventIdHeader, 10) : Number.NaN
+
   const encoder = new TextEncoder()
+  let cleanup = () => {}
 
   const customReadable = new ReadableStream({
     start(controller) {
-      // Create EventSource connection to the external endpoint
-      const eventSource = new EventSource("https://ticks.rvinod.com/ticks")
-
-      eventSource.onopen = () => {
-        console.log("✅ Connected to external tick stream")
-      }
-
-      eventSource.addEventListener("tick", (event) => {
+      const send = (chunk: string) => {
         try {
-          // Forward the tick data to the client
-          const data = `event: tick\ndata: ${event.data}\n\n`
-          controller.enqueue(encoder.encode(data))
+          controller.enqueue(encoder.encode(chunk))
         } catch (error) {
-          console.error("❌ Error processing tick:", error)
+          console.error("❌ Error forwarding event:", error)
+          cleanup()
         }
-      })
+      }
 
-      eventSource.onerror = (error) => {
-        console.error("❌ EventSource error:", error)
-        controller.error(error)
+      send(`retry: ${CLIENT_RETRY}\n\n`)
+
+      const unsubscribe = hub.subscribe(
+        {
+          onEvent: (event) => send(formatServerSentEvent(event)),
+          onStatus: (status) => send(`: upstream ${status}\n\n`),
+        },
+        Number.isNaN(lastEventId) ? undefined : lastEventId,
+      )
+
+      const heartbeat = setInterval(() => send(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_INTERVAL)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        cleanup = () => {}
       }
 
       // Clean up on close
       request.signal.addEventListener("abort", () => {
-        console.log("🔌 Client disconnected, closing EventSource")
-        eventSource.close()
-        controller.close()
+        console.log(`🔌 Client disconnected from ${feed} feed`)
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // already closed
+        }
       })
     },
-  })
-
-  return new Response(customReadable, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET",
-      "Access-Control-Allow-Headers": "Cache-Control",
+    cancel() {
+      cleanup()
     },
   })
+
+  return new Response(customReadable, { headers: EVENT_STREAM_HEADERS })
 }
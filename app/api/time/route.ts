@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+// Server clock for NTP-style offset estimation (utils/clock-sync.ts): when the
+// request arrived and when the response left, both in epoch milliseconds
+export async function GET() {
+  const receivedAt = Date.now()
+  return NextResponse.json({ receivedAt, sentAt: Date.now() }, { headers: { "Cache-Control": "no-store" } })
+}
@@ -1,7 +1,8 @@
 "use client"
 
-import { useState } from "react"
-import { AreaChartIcon,Activity, TrendingUp, Wifi, Clock, Settings, Bell, History, Sliders, GitCompare } from "lucide-react"
+import { Fragment, useMemo, useState } from "react"
+import { AreaChartIcon,Activity, TrendingUp, Wifi, Clock, Settings, Bell, History, Sliders, GitCompare, Server } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { MarketDataGrid } from "@/components/market-data-grid"
@@ -9,93 +10,143 @@ import { UpstoxMarketDataGrid } from "@/components/upstox-market-data-grid"
 import { DebugDashboard } from "@/components/debug-dashboard"
 import { AlertSettingsTab } from "@/components/alert-settings-tab"
 import { ComparisonView } from "@/components/comparison-view"
-import { useTickData } from "@/hooks/use-tick-data"
+import { ReplayControls } from "@/components/replay-controls"
+import { FeedSettings } from "@/components/feed-settings"
+import { FeedsProvider, type FeedState } from "@/components/feeds-provider"
 import { InactivityAlertsLog } from "@/components/inactivity-alerts-log"
-import { useUpstoxTickData } from "@/hooks/use-upstox-tick-data"
-import { useInactivityAlerts } from "@/hooks/use-inactivity-alerts"
+import { InstrumentMappingEditor } from "@/components/instrument-mapping-editor"
+import { DivergenceAlertSettings } from "@/components/divergence-alert-settings"
+import { DivergenceAlertsLog } from "@/components/divergence-alerts-log"
+import { AlertRulesEditor } from "@/components/alert-rules-editor"
+import { RuleAlertsLog } from "@/components/rule-alerts-log"
+import { ProfileSwitchLog } from "@/components/profile-switch-log"
+import { LeadLagPanel } from "@/components/lead-lag-panel"
+import { ClockSkewBanner } from "@/components/clock-skew-banner"
+import { useFeedRegistry } from "@/hooks/use-feed-registry"
+import { useInstrumentPairs } from "@/hooks/use-instrument-pairs"
+import { useDivergenceAlerts } from "@/hooks/use-divergence-alerts"
+import { useLeadLag } from "@/hooks/use-lead-lag"
+import { useClockSync } from "@/hooks/use-clock-sync"
+import { useAlertLifecycleSettings } from "@/hooks/use-alert-lifecycle-settings"
+import { createFeedAdapter } from "@/utils/feeds/registry"
+import { getReplayAdapter, type FeedSource } from "@/utils/feeds/replay-adapter"
+import type { TrackedInactivityAlert } from "@/hooks/use-inactivity-alerts"
+import type { FeedDefinition } from "@/utils/feeds/types"
+import type { TimingThresholds } from "@/utils/feeds/latency"
+import { CLOCK_SKEW_WARNING_THRESHOLD } from "@/utils/clock-sync"
 
-export default function MarketDashboard() {
-  const {
-    ticks,
-    isConnected,
-    isFrozen,
-    lastTickTime,
-    averageDelay,
-    totalTicks,
-    freezingIncidents,
-    alerts: systemAlerts, // Renamed to avoid conflict
-    connectionStatus,
-    clearAlerts,
-    rawMessages,
-    debugInfo,
-    addTestTick,
-  } = useTickData()
+// Market grid used for each wire format; both take the same props
+const FEED_GRIDS: Record<string, typeof MarketDataGrid> = {
+  kite: MarketDataGrid,
+  upstox: UpstoxMarketDataGrid,
+}
 
-  const {
-    ticks: upstoxTicks,
-    isConnected: upstoxIsConnected,
-    isFrozen: upstoxIsFrozen,
-    lastTickTime: upstoxLastTickTime,
-    averageDelay: upstoxAverageDelay,
-    totalTicks: upstoxTotalTicks,
-    freezingIncidents: upstoxFreezingIncidents,
-    alerts: upstoxSystemAlerts,
-    connectionStatus: upstoxConnectionStatus,
-    clearAlerts: upstoxClearAlerts,
-    rawMessages: upstoxRawMessages,
-    debugInfo: upstoxDebugInfo,
-    addTestTick: upstoxAddTestTick,
-  } = useUpstoxTickData()
+const countInstruments = (feed: FeedState) => new Set(feed.ticks.map((tick) => tick.instrument_key)).size
 
-  // ORIGINAL feed
-  const {
-    alerts: inactivityAlerts,
-    inactiveSymbols,
-    configurations,
-    updateConfiguration,
-    clearAllAlerts,
-  } = useInactivityAlerts(ticks)
+const timingThresholds = (feed: FeedState): TimingThresholds => ({
+  latency: feed.adapter.latencyThreshold,
+  interval: feed.adapter.intervalThreshold,
+})
 
-  // UPSTOX feed - need to create a compatible adapter for the hook
-  const upstoxTicksForAlerts = upstoxTicks.map((tick) => ({
-    ...tick,
-    instrument_token: Number.parseInt(tick.instrument_token.replace(/[^0-9]/g, "")) || 0, // Convert string to number for compatibility
-  }))
+// Stable stand-in while a Kite or Upstox feed is missing
+const NO_TICKS: FeedState["ticks"] = []
 
-  const {
-    alerts: upstoxInactivityAlerts,
-    inactiveSymbols: upstoxInactiveSymbols,
-    configurations: upstoxConfigurations,
-    updateConfiguration: upstoxUpdateConfiguration,
-    clearAllAlerts: upstoxClearAllAlerts,
-  } = useInactivityAlerts(upstoxTicksForAlerts)
+export default function MarketDashboard() {
+  // Live endpoints or recorded sessions; everything downstream behaves the same
+  const [feedSource, setFeedSource] = useState<FeedSource>("live")
+  const { feeds: feedDefinitions, isLoaded, isCustomized, saveFeeds, resetFeeds } = useFeedRegistry()
+  const [selectedTab, setSelectedTab] = useState<string | null>(null)
 
-  const [selectedTab, setSelectedTab] = useState("kite")
+  const enabledFeeds = useMemo(() => feedDefinitions.filter((definition) => definition.enabled), [feedDefinitions])
+  const runnableFeeds = useMemo(
+    () =>
+      enabledFeeds.map((definition) => {
+        const adapter = createFeedAdapter(definition)
+        return { definition, adapter: feedSource === "replay" ? getReplayAdapter(adapter) : adapter }
+      }),
+    [enabledFeeds, feedSource],
+  )
 
-  // Get unique instruments from both feeds
-  const uniqueInstruments = ticks.reduce(
-    (acc, tick) => {
-      if (!acc.find((t) => t.instrument_token === tick.instrument_token)) {
-        acc.push(tick)
-      }
-      return acc
-    },
-    [] as typeof ticks,
+  return (
+    <FeedsProvider feeds={isLoaded ? runnableFeeds : []}>
+      {(feeds) => (
+        <Dashboard
+          feeds={feeds}
+          feedSource={feedSource}
+          onFeedSourceChange={setFeedSource}
+          feedDefinitions={feedDefinitions}
+          isCustomized={isCustomized}
+          onSaveFeeds={saveFeeds}
+          onResetFeeds={resetFeeds}
+          selectedTab={selectedTab}
+          onSelectTab={setSelectedTab}
+        />
+      )}
+    </FeedsProvider>
   )
+}
 
-  const upstoxUniqueInstruments = upstoxTicks.reduce(
-    (acc, tick) => {
-      if (!acc.find((t) => t.instrument_token === tick.instrument_token)) {
-        acc.push(tick)
-      }
-      return acc
-    },
-    [] as typeof upstoxTicks,
+interface DashboardProps {
+  feeds: FeedState[]
+  feedSource: FeedSource
+  onFeedSourceChange: (source: FeedSource) => void
+  feedDefinitions: FeedDefinition[]
+  isCustomized: boolean
+  onSaveFeeds: (feeds: FeedDefinition[]) => void
+  onResetFeeds: () => void
+  selectedTab: string | null
+  onSelectTab: (tab: string) => void
+}
+
+function Dashboard({
+  feeds,
+  feedSource,
+  onFeedSourceChange,
+  feedDefinitions,
+  isCustomized,
+  onSaveFeeds,
+  onResetFeeds,
+  selectedTab,
+  onSelectTab,
+}: DashboardProps) {
+  const [debugFeedId, setDebugFeedId] = useState<string | null>(null)
+  const [alertSettingsFeedId, setAlertSettingsFeedId] = useState<string | null>(null)
+  const instrumentPairs = useInstrumentPairs()
+  const clock = useClockSync()
+  const [lifecycleSettings, updateLifecycleSettings] = useAlertLifecycleSettings()
+
+  // The Compare tab works on the first Kite- and Upstox-format feeds
+  const kiteFeed = feeds.find((feed) => feed.definition.adapter === "kite")
+  const upstoxFeed = feeds.find((feed) => feed.definition.adapter === "upstox")
+  const divergence = useDivergenceAlerts(
+    kiteFeed?.ticks ?? NO_TICKS,
+    upstoxFeed?.ticks ?? NO_TICKS,
+    instrumentPairs.pairs,
+  )
+  const leadLag = useLeadLag(
+    kiteFeed?.ticks ?? NO_TICKS,
+    upstoxFeed?.ticks ?? NO_TICKS,
+    instrumentPairs.pairs,
   )
+  // Alert Settings edits one feed at a time, the first Kite-format feed until another is picked
+  const alertSettingsFeed = feeds.find((feed) => feed.definition.id === alertSettingsFeedId) ?? kiteFeed ?? feeds[0]
+  const debugFeed = feeds.find((feed) => feed.definition.id === debugFeedId) ?? feeds[0]
+  const activeTab = selectedTab ?? feeds[0]?.definition.id ?? "feeds"
 
-  const enabledAlertsCount = Array.from(configurations.values()).filter((c) => c.enabled).length
-  const upstoxEnabledAlertsCount = Array.from(upstoxConfigurations.values()).filter((c) => c.enabled).length
-  const totalEnabledAlerts = enabledAlertsCount + upstoxEnabledAlertsCount
+  const isConnected = feeds.length > 0 && feeds.every((feed) => feed.isConnected)
+  const totalInstruments = feeds.reduce((sum, feed) => sum + countInstruments(feed), 0)
+  const enabledAlertsCount = (feed: FeedState) =>
+    Array.from(feed.inactivity.configurations.values()).filter((c) => c.enabled).length
+  const totalEnabledAlerts = feeds.reduce((sum, feed) => sum + enabledAlertsCount(feed), 0)
+  const totalInactiveSymbols = feeds.reduce((sum, feed) => sum + feed.inactivity.inactiveSymbols.size, 0)
+  const inactivityAlerts = feeds.flatMap((feed) => feed.inactivity.alerts)
+  // The log merges every feed's alerts, so actions go back to the feed that raised them
+  const feedOfAlert = (alert: TrackedInactivityAlert) => feeds.find((feed) => feed.inactivity.alerts.includes(alert))
+  const ruleAlerts = feeds.flatMap((feed) => feed.rules.alerts).sort((a, b) => b.timestamp - a.timestamp)
+  const profileSwitches = feeds
+    .flatMap((feed) => feed.inactivity.profiles.switches)
+    .sort((a, b) => b.timestamp - a.timestamp)
+  const alertLogCount = inactivityAlerts.length + divergence.alerts.length + ruleAlerts.length
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
@@ -114,12 +165,24 @@ export default function MarketDashboard() {
             </div>
           </div>
 
-          <div className="flex items-center gap-2"></div>
+          <div className="flex items-center gap-2">
+            <Select value={feedSource} onValueChange={(value: FeedSource) => onFeedSourceChange(value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="live">Live feeds</SelectItem>
+                <SelectItem value="replay">Replay sessions</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </div>
 
       {/* Main Dashboard */}
       <div className="space-y-6 pt-24">
+        <ClockSkewBanner clock={clock} threshold={CLOCK_SKEW_WARNING_THRESHOLD} />
+
         {/* Dashboard Title and Time */}
         <div className="flex items-center justify-between">
           <div>
@@ -145,6 +208,20 @@ export default function MarketDashboard() {
           </div>
         </div>
 
+        {/* Replay Controls */}
+        {feedSource === "replay" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {feeds.map((feed) => (
+              <ReplayControls
+                key={feed.definition.id}
+                feed={feed.definition.id}
+                name={feed.definition.name}
+                controller={getReplayAdapter(createFeedAdapter(feed.definition)).replay}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="bg-purple-50 border-purple-200">
@@ -155,9 +232,7 @@ export default function MarketDashboard() {
                 </div>
                 <div>
                   <p className="text-sm text-gray-600">Instruments</p>
-                  <p className="text-2xl font-bold text-gray-900">
-                    {uniqueInstruments.length + upstoxUniqueInstruments.length}
-                  </p>
+                  <p className="text-2xl font-bold text-gray-900">{totalInstruments}</p>
                 </div>
               </div>
             </CardContent>
@@ -172,18 +247,16 @@ export default function MarketDashboard() {
                 <div>
                   <p className="text-sm text-gray-600">Connection</p>
                   <div className="flex items-center gap-x-2.5 mx-0 my-0 py-0.5 font-semibold">
-                    <span className="text-sm text-gray-700">Kite:</span>
-                    <div
-                      className={`w-4 h-4 rounded-full flex items-center justify-center text-xs ${isConnected ? "bg-green-500 text-white" : "bg-red-500 text-white"}`}
-                    >
-                      {isConnected ? "✓" : "✕"}
-                    </div>
-                    <span className="text-sm text-gray-700">Upstox:</span>
-                    <div
-                      className={`w-4 h-4 rounded-full flex items-center justify-center text-xs ${upstoxIsConnected ? "bg-green-500 text-white" : "bg-red-500 text-white"}`}
-                    >
-                      {upstoxIsConnected ? "✓" : "✕"}
-                    </div>
+                    {feeds.map((feed) => (
+                      <Fragment key={feed.definition.id}>
+                        <span className="text-sm text-gray-700">{feed.definition.name}:</span>
+                        <div
+                          className={`w-4 h-4 rounded-full flex items-center justify-center text-xs ${feed.isConnected ? "bg-green-500 text-white" : "bg-red-500 text-white"}`}
+                        >
+                          {feed.isConnected ? "✓" : "✕"}
+                        </div>
+                      </Fragment>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -212,9 +285,7 @@ export default function MarketDashboard() {
                 </div>
                 <div>
                   <p className="text-sm text-gray-600">Currently Alerting</p>
-                  <p className="text-2xl font-bold text-gray-900">
-                    {inactiveSymbols.size + upstoxInactiveSymbols.size}
-                  </p>
+                  <p className="text-2xl font-bold text-gray-900">{totalInactiveSymbols}</p>
                 </div>
               </div>
             </CardContent>
@@ -222,7 +293,7 @@ export default function MarketDashboard() {
         </div>
 
         {/* Connection Status Debug */}
-        {(!isConnected || !upstoxIsConnected) && (
+        {feedSource === "live" && !isConnected && (
           <Card className="bg-yellow-50 border-yellow-200">
             <CardContent className="p-4">
               <div className="flex items-center gap-2 mb-2">
@@ -230,153 +301,254 @@ export default function MarketDashboard() {
                 <h3 className="font-medium text-yellow-800">Connection Status</h3>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                <div>
-                  <p className="font-medium">Kite Feed:</p>
-                  <p className={`${isConnected ? "text-green-600" : "text-red-600"}`}>
-                    {isConnected ? "✅" : "❌"} {isConnected ? "Connected" : "Disconnected"} ({connectionStatus})
-                  </p>
-                  <p className="text-gray-600">Endpoint: https://ticks.rvinod.com/ticks</p>
-                </div>
-                <div>
-                  <p className="font-medium">Upstox Feed:</p>
-                  <p className={`${upstoxIsConnected ? "text-green-600" : "text-red-600"}`}>
-                    {upstoxIsConnected ? "✅" : "❌"} {upstoxIsConnected ? "Connected" : "Disconnected"} (
-                    {upstoxConnectionStatus})
-                  </p>
-                  <p className="text-gray-600">Endpoint: https://ticks.rvinod.com/upstox</p>
-                  {upstoxSystemAlerts.length > 0 && (
-                    <p className="text-xs text-red-600 mt-1">Latest: {upstoxSystemAlerts[0]?.message}</p>
-                  )}
-                </div>
+                {feeds.map((feed) => (
+                  <div key={feed.definition.id}>
+                    <p className="font-medium">{feed.definition.name} Feed:</p>
+                    <p className={`${feed.isConnected ? "text-green-600" : "text-red-600"}`}>
+                      {feed.isConnected ? "✅" : "❌"} {feed.isConnected ? "Connected" : "Disconnected"} (
+                      {feed.connectionStatus})
+                    </p>
+                    <p className="text-gray-600">
+                      Endpoint: {feed.definition.url} ({feed.definition.protocol.toUpperCase()})
+                    </p>
+                    {!feed.isConnected && feed.alerts.length > 0 && (
+                      <p className="text-xs text-red-600 mt-1">Latest: {feed.alerts[0]?.message}</p>
+                    )}
+                  </div>
+                ))}
               </div>
             </CardContent>
           </Card>
         )}
 
         {/* Tabs */}
-        <Tabs value={selectedTab} onValueChange={setSelectedTab} className="space-y-4">
+        <Tabs value={activeTab} onValueChange={onSelectTab} className="space-y-4">
           <TabsList className="bg-white border">
-            <TabsTrigger value="kite" className="flex items-center gap-2">
-              <AreaChartIcon className="w-4 h-4" />
-              Kite
-              {uniqueInstruments.length > 0 && (
-                <span className="ml-2 flex items-center justify-center rounded-full text-xs font-medium text-green-600 bg-white w-3.5 h-3.5">
-                  {uniqueInstruments.length}
-                </span>
-              )}
-            </TabsTrigger>
-            <TabsTrigger value="upstox" className="flex items-center gap-2">
-              <Activity className="w-4 h-4" />
-              Upstox
-              {upstoxUniqueInstruments.length > 0 && (
-                <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-blue-100 text-xs font-medium text-blue-600">
-                  {upstoxUniqueInstruments.length}
-                </span>
-              )}
-              {!upstoxIsConnected && (
-                <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-red-100 text-xs font-medium text-red-600">
-                  !
-                </span>
-              )}
-            </TabsTrigger>
-            <TabsTrigger value="compare" className="flex items-center gap-2">
-              <GitCompare className="w-4 h-4" />
-              Compare
-              <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-purple-100 text-xs font-medium text-purple-600">
-                6
-              </span>
-            </TabsTrigger>
-            <TabsTrigger value="alert-settings" className="flex items-center gap-2">
-              <Sliders className="w-4 h-4" />
-              Alert Settings
-              {enabledAlertsCount > 0 && (
-                <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-green-100 text-xs font-medium text-green-600">
-                  {enabledAlertsCount}
+            {feeds.map((feed) => {
+              const instrumentCount = countInstruments(feed)
+              return (
+                <TabsTrigger key={feed.definition.id} value={feed.definition.id} className="flex items-center gap-2">
+                  {feed.definition.adapter === "kite" ? (
+                    <AreaChartIcon className="w-4 h-4" />
+                  ) : (
+                    <Activity className="w-4 h-4" />
+                  )}
+                  {feed.definition.name}
+                  {instrumentCount > 0 && (
+                    <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-blue-100 text-xs font-medium text-blue-600">
+                      {instrumentCount}
+                    </span>
+                  )}
+                  {!feed.isConnected && (
+                    <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-red-100 text-xs font-medium text-red-600">
+                      !
+                    </span>
+                  )}
+                </TabsTrigger>
+              )
+            })}
+            {kiteFeed && upstoxFeed && (
+              <TabsTrigger value="compare" className="flex items-center gap-2">
+                <GitCompare className="w-4 h-4" />
+                Compare
+                <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-purple-100 text-xs font-medium text-purple-600">
+                  {instrumentPairs.pairs.length}
                 </span>
-              )}
-            </TabsTrigger>
+              </TabsTrigger>
+            )}
+            {alertSettingsFeed && (
+              <TabsTrigger value="alert-settings" className="flex items-center gap-2">
+                <Sliders className="w-4 h-4" />
+                Alert Settings
+                {enabledAlertsCount(alertSettingsFeed) > 0 && (
+                  <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-green-100 text-xs font-medium text-green-600">
+                    {enabledAlertsCount(alertSettingsFeed)}
+                  </span>
+                )}
+              </TabsTrigger>
+            )}
             <TabsTrigger value="inactivity-log" className="flex items-center gap-2">
               <History className="w-4 h-4" />
               Alert Log
-              {inactivityAlerts.length > 0 && (
+              {alertLogCount > 0 && (
                 <span className="ml-2 flex h-5 w-5 items-center justify-center rounded-full bg-red-100 text-xs font-medium text-red-600">
-                  {inactivityAlerts.length}
+                  {alertLogCount}
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger value="feeds" className="flex items-center gap-2">
+              <Server className="w-4 h-4" />
+              Feeds
+            </TabsTrigger>
             <TabsTrigger value="debug" className="flex items-center gap-2">
               <Settings className="w-4 h-4" />
               Debug
             </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="kite">
-            <MarketDataGrid
-              ticks={ticks}
-              inactiveSymbols={inactiveSymbols}
-              alertConfigurations={configurations}
-              onConfigurationChange={updateConfiguration}
-            />
-          </TabsContent>
-
-          <TabsContent value="upstox">
-            <UpstoxMarketDataGrid
-              ticks={upstoxTicks}
-              inactiveSymbols={new Set(Array.from(upstoxInactiveSymbols).map(String))} // Convert to string set
-              alertConfigurations={new Map(Array.from(upstoxConfigurations.entries()).map(([k, v]) => [String(k), v]))} // Convert to string keys
-              onConfigurationChange={(token, config) =>
-                upstoxUpdateConfiguration(Number.parseInt(token.replace(/[^0-9]/g, "")) || 0, config)
-              } // Convert back to number
-            />
-          </TabsContent>
+          {feeds.map((feed) => {
+            const Grid = FEED_GRIDS[feed.definition.adapter] ?? MarketDataGrid
+            return (
+              <TabsContent key={feed.definition.id} value={feed.definition.id}>
+                <Grid
+                  ticks={feed.ticks}
+                  inactiveSymbols={feed.inactivity.inactiveSymbols}
+                  frozenSymbols={feed.frozenInstruments}
+                  alertConfigurations={feed.inactivity.configurations}
+                  onConfigurationChange={feed.inactivity.updateConfiguration}
+                  liveAlerts={feed.inactivity.liveAlerts}
+                  onAcknowledgeAlert={feed.inactivity.acknowledgeAlert}
+                  onSnoozeAlert={feed.inactivity.snoozeAlert}
+                  thresholds={timingThresholds(feed)}
+                />
+              </TabsContent>
+            )
+          })}
 
-          <TabsContent value="compare">
-            <ComparisonView
-              kiteTicks={ticks}
-              upstoxTicks={upstoxTicks}
-              kiteConnected={isConnected}
-              upstoxConnected={upstoxIsConnected}
-            />
-          </TabsContent>
+          {kiteFeed && upstoxFeed && (
+            <TabsContent value="compare" className="space-y-6">
+              <ComparisonView
+                kiteTicks={kiteFeed.ticks}
+                upstoxTicks={upstoxFeed.ticks}
+                kiteConnected={kiteFeed.isConnected}
+                upstoxConnected={upstoxFeed.isConnected}
+                pairs={instrumentPairs.pairs}
+                divergedPairs={divergence.divergedPairs}
+                leadLag={leadLag.results}
+              />
+              <LeadLagPanel results={leadLag.results} onReset={leadLag.reset} />
+              <DivergenceAlertSettings
+                config={divergence.config}
+                divergedCount={divergence.divergedPairs.size}
+                onSave={divergence.updateConfig}
+              />
+              <InstrumentMappingEditor
+                pairs={instrumentPairs.pairs}
+                isCustomized={instrumentPairs.isCustomized}
+                onAdd={instrumentPairs.addPair}
+                onRemove={instrumentPairs.removePair}
+                onReset={instrumentPairs.resetPairs}
+              />
+            </TabsContent>
+          )}
 
           {/* NSE / MCX alert settings */}
-          <TabsContent value="alert-settings">
-            <AlertSettingsTab
-              ticks={ticks}
-              alertConfigurations={configurations}
-              onConfigurationChange={updateConfiguration}
-              inactiveSymbols={inactiveSymbols}
-            />
-          </TabsContent>
+          {alertSettingsFeed && (
+            <TabsContent value="alert-settings" className="space-y-6">
+              {feeds.length > 1 && (
+                <Select value={alertSettingsFeed.definition.id} onValueChange={setAlertSettingsFeedId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {feeds.map((feed) => (
+                      <SelectItem key={feed.definition.id} value={feed.definition.id}>
+                        {feed.definition.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {/* Keyed by feed, so switching feeds drops any half-edited form */}
+              <AlertSettingsTab
+                key={`settings-${alertSettingsFeed.definition.id}`}
+                feed={alertSettingsFeed.definition.id}
+                ticks={alertSettingsFeed.ticks}
+                alertConfigurations={alertSettingsFeed.inactivity.savedConfigurations}
+                onConfigurationChange={alertSettingsFeed.inactivity.updateConfiguration}
+                onConfigurationRemove={alertSettingsFeed.inactivity.removeConfiguration}
+                inactiveSymbols={alertSettingsFeed.inactivity.inactiveSymbols}
+                syncStatus={alertSettingsFeed.inactivity.configSyncStatus}
+                profiles={alertSettingsFeed.inactivity.profiles.profiles}
+                activeProfile={alertSettingsFeed.inactivity.profiles.activeProfile}
+                onSaveProfiles={alertSettingsFeed.inactivity.profiles.saveProfiles}
+                groups={alertSettingsFeed.inactivity.groups}
+                groupConfigurations={alertSettingsFeed.inactivity.groupConfigurations}
+                onSaveGroups={alertSettingsFeed.inactivity.saveGroups}
+              />
+              <AlertRulesEditor
+                key={`rules-${alertSettingsFeed.definition.id}`}
+                ticks={alertSettingsFeed.ticks}
+                rules={alertSettingsFeed.rules.rules}
+                triggeredCount={alertSettingsFeed.rules.triggeredSymbols.size}
+                onSave={alertSettingsFeed.rules.saveRules}
+              />
+            </TabsContent>
+          )}
 
-          {/* Alert Log for BOTH feeds (merge arrays) */}
-          <TabsContent value="inactivity-log">
+          {/* Alert Log for every feed (merge arrays) */}
+          <TabsContent value="inactivity-log" className="space-y-6">
             <InactivityAlertsLog
-              alerts={[...inactivityAlerts, ...upstoxInactivityAlerts]}
+              alerts={inactivityAlerts}
               onClearAlerts={() => {
-                clearAllAlerts()
-                upstoxClearAllAlerts()
+                feeds.forEach((feed) => {
+                  feed.inactivity.clearAllAlerts()
+                  feed.rules.clearAllAlerts()
+                  feed.inactivity.profiles.clearSwitches()
+                })
+                divergence.clearAllAlerts()
               }}
+              onAcknowledge={(alert) => feedOfAlert(alert)?.inactivity.acknowledgeAlert(alert.instrumentKey)}
+              onSnooze={(alert, minutes) => feedOfAlert(alert)?.inactivity.snoozeAlert(alert.instrumentKey, minutes)}
+              lifecycleSettings={lifecycleSettings}
+              onLifecycleSettingsChange={updateLifecycleSettings}
             />
+            {kiteFeed && upstoxFeed && <DivergenceAlertsLog alerts={divergence.alerts} />}
+            <RuleAlertsLog alerts={ruleAlerts} />
+            <ProfileSwitchLog switches={profileSwitches} />
           </TabsContent>
 
-          <TabsContent value="debug">
-            <DebugDashboard
-              ticks={ticks}
-              isConnected={isConnected}
-              isFrozen={isFrozen}
-              lastTickTime={lastTickTime}
-              averageDelay={averageDelay}
-              totalTicks={totalTicks}
-              freezingIncidents={freezingIncidents}
-              alerts={systemAlerts}
-              connectionStatus={connectionStatus}
-              clearAlerts={clearAlerts}
-              rawMessages={rawMessages}
-              debugInfo={debugInfo}
-              addTestTick={addTestTick}
+          <TabsContent value="feeds">
+            <FeedSettings
+              feeds={feedDefinitions}
+              isCustomized={isCustomized}
+              onSave={onSaveFeeds}
+              onReset={onResetFeeds}
             />
           </TabsContent>
+
+          <TabsContent value="debug" className="space-y-4">
+            {feeds.length > 1 && (
+              <Select value={debugFeed?.definition.id} onValueChange={setDebugFeedId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {feeds.map((feed) => (
+                    <SelectItem key={feed.definition.id} value={feed.definition.id}>
+                      {feed.definition.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {debugFeed && (
+              <DebugDashboard
+                feeds={feedDefinitions.filter((definition) => definition.enabled)}
+                endpoint={debugFeed.definition.url}
+                ticks={debugFeed.ticks}
+                isConnected={debugFeed.isConnected}
+                isFrozen={debugFeed.isFrozen}
+                lastTickTime={debugFeed.lastTickTime}
+                averageInterval={debugFeed.averageInterval}
+                averageLatency={debugFeed.averageLatency}
+                clockOffset={debugFeed.clockOffset}
+                thresholds={timingThresholds(debugFeed)}
+                totalTicks={debugFeed.totalTicks}
+                freezingIncidents={debugFeed.freezingIncidents}
+                instrumentFreezes={debugFeed.instrumentFreezes}
+                freezeCounts={debugFeed.freezeCounts}
+                frozenInstruments={debugFeed.frozenInstruments}
+                dataQuality={debugFeed.dataQuality}
+                alerts={debugFeed.alerts}
+                connectionStatus={debugFeed.connectionStatus}
+                clearAlerts={debugFeed.clearAlerts}
+                rawMessages={debugFeed.rawMessages}
+                debugInfo={debugFeed.debugInfo}
+                addTestTick={debugFeed.addTestTick}
+              />
+            )}
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,260 @@
+"use client"
+
+import { useState, useMemo, type ChangeEvent } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, FileUp, Check, X } from "lucide-react"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import {
+  CONFIG_FIELDS,
+  diffAlertConfigs,
+  parseAlertConfigs,
+  serializeAlertConfigs,
+  type AlertConfigFile,
+  type AlertConfigFileFormat,
+} from "@/utils/alert-config-file"
+
+interface AlertConfigTransferProps {
+  feed: string
+  configurations: Map<string, InactivityAlertConfig>
+  instrumentNames: Map<string, string> // By instrument key, for instruments the feed has sent
+  onApply: (changes: [string, InactivityAlertConfig][]) => void
+}
+
+const CHANGE_STYLES = {
+  added: "text-green-600 border-green-300",
+  changed: "text-blue-600 border-blue-300",
+  disabled: "text-orange-600 border-orange-300",
+}
+
+const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+const fileSlug = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+
+function ConfigSummary({ config, highlight }: { config?: InactivityAlertConfig; highlight: string[] }) {
+  if (!config) return <span className="text-gray-400">none</span>
+  return (
+    <div className="flex flex-wrap gap-x-2 text-xs font-mono">
+      {CONFIG_FIELDS.map((field) => (
+        <span key={field} className={highlight.includes(field) ? "font-bold text-gray-900" : "text-gray-500"}>
+          {field}={String(config[field])}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+// Exports the feed's inactivity alert configurations as a named profile and
+// imports one back, previewing the changes before anything is applied
+export function AlertConfigTransfer({ feed, configurations, instrumentNames, onApply }: AlertConfigTransferProps) {
+  const [profileName, setProfileName] = useState("")
+  const [importText, setImportText] = useState("")
+  const [imported, setImported] = useState<AlertConfigFile | null>(null)
+  const [replace, setReplace] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const changes = useMemo(
+    () => (imported ? diffAlertConfigs(configurations, imported.configurations, replace) : []),
+    [imported, configurations, replace],
+  )
+
+  const handleExport = (format: AlertConfigFileFormat) => {
+    const name = profileName.trim() || undefined
+    const file: AlertConfigFile = {
+      version: 1,
+      name,
+      feed,
+      exportedAt: new Date().toISOString(),
+      configurations: Object.fromEntries(configurations),
+    }
+    const filename = `alerts-${feed}${name ? `-${fileSlug(name)}` : ""}.${format === "json" ? "json" : "yaml"}`
+    downloadFile(serializeAlertConfigs(file, format), filename, format === "json" ? "application/json" : "text/yaml")
+  }
+
+  const handlePreview = (text: string) => {
+    try {
+      setImported(parseAlertConfigs(text))
+      setError(null)
+    } catch (e) {
+      setImported(null)
+      setError(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = "" // Picking the same file again should reload it
+    if (!file) return
+    const text = await file.text()
+    setImportText(text)
+    handlePreview(text)
+  }
+
+  const handleApply = () => {
+    onApply(changes.map((change) => [change.instrumentKey, change.after]))
+    setImported(null)
+    setImportText("")
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Download className="w-5 h-5" />
+            Export
+          </CardTitle>
+          <CardDescription>
+            Download all {configurations.size} configurations as a profile to keep in version control
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="profile-name">Profile name</Label>
+            <Input
+              id="profile-name"
+              placeholder="e.g. expiry day, normal day, MCX night"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport("yaml")} disabled={configurations.size === 0}>
+              Export YAML
+            </Button>
+            <Button variant="outline" onClick={() => handleExport("json")} disabled={configurations.size === 0}>
+              Export JSON
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5" />
+            Import
+          </CardTitle>
+          <CardDescription>Load a JSON or YAML profile. Nothing changes until you apply the preview.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input type="file" accept=".json,.yaml,.yml,application/json,text/yaml" onChange={handleFile} />
+          <Textarea
+            rows={6}
+            className="font-mono text-xs"
+            placeholder="…or paste a profile here"
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="import-replace" checked={replace} onCheckedChange={setReplace} />
+              <Label htmlFor="import-replace">Switch off alerts not in the profile</Label>
+            </div>
+            <Button variant="outline" onClick={() => handlePreview(importText)} disabled={!importText.trim()}>
+              Preview
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-600 whitespace-pre-line">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {imported && (
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <div>
+              <CardTitle>
+                Preview{imported.name ? `: ${imported.name}` : ""}
+                <Badge variant="outline" className="ml-2">
+                  {changes.length} changes
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                {Object.keys(imported.configurations).length} configurations exported from {imported.feed}
+                {imported.exportedAt && ` on ${new Date(imported.exportedAt).toLocaleString("en-IN")}`}
+                {imported.feed !== feed && (
+                  <span className="text-orange-600">
+                    {" "}
+                    · Exported from a different feed; instrument keys may not match
+                  </span>
+                )}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setImported(null)}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button onClick={handleApply} disabled={changes.length === 0}>
+                <Check className="w-4 h-4 mr-2" />
+                Apply {changes.length} changes
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="max-h-[50vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Instrument</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>After import</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changes.length > 0 ? (
+                    changes.map((change) => (
+                      <TableRow key={change.instrumentKey}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {instrumentNames.get(change.instrumentKey) ?? change.instrumentKey}
+                          </div>
+                          <div className="text-xs text-gray-500 font-mono">{change.instrumentKey}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={`text-xs ${CHANGE_STYLES[change.kind]}`}>
+                            {change.kind}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <ConfigSummary config={change.before} highlight={change.fields} />
+                        </TableCell>
+                        <TableCell>
+                          <ConfigSummary config={change.after} highlight={change.fields} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="h-24 text-center text-gray-500">
+                        The profile matches the current configurations.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
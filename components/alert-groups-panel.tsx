@@ -0,0 +1,341 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowDown, ArrowUp, Layers, Plus, Save, Trash2 } from "lucide-react"
+import type { InactivityAlertConfig, InactivityAlertMode } from "@/hooks/use-inactivity-alerts"
+import {
+  ALERT_GROUP_MATCHES,
+  alertGroupsSchema,
+  groupMatches,
+  type AlertGroup,
+  type AlertGroupMatch,
+  type AlertGroupMatchKind,
+  type AlertGroupTarget,
+} from "@/utils/alert-groups"
+import { MARKET_TIMINGS, type MarketType } from "@/utils/market-timings"
+
+interface AlertGroupsPanelProps {
+  groups: AlertGroup[]
+  targets: AlertGroupTarget[] // Instruments the feed has sent, to preview matches
+  onSave: (groups: AlertGroup[]) => void
+}
+
+const DEFAULT_MATCHES: Record<AlertGroupMatchKind, AlertGroupMatch> = {
+  exchange: { kind: "exchange", exchange: "NSE" },
+  market_type: { kind: "market_type", marketType: "equity" },
+  pattern: { kind: "pattern", pattern: "NIFTY*FUT" },
+  watchlist: { kind: "watchlist", instruments: [] },
+}
+
+const newGroup = (): AlertGroup => ({
+  id: crypto.randomUUID(),
+  name: "New group",
+  match: DEFAULT_MATCHES.pattern,
+  config: { enabled: true, mode: "deviation", deviation: 0.1, duration: 30, respectMarketHours: true },
+})
+
+// Watchlist lines are kept while editing, blank ones included, and tidied on save
+const tidy = (groups: AlertGroup[]) =>
+  groups.map((group) =>
+    group.match.kind === "watchlist"
+      ? {
+          ...group,
+          match: { ...group.match, instruments: group.match.instruments.map((i) => i.trim()).filter(Boolean) },
+        }
+      : group,
+  )
+
+function MatchEditor({
+  match,
+  exchanges,
+  onChange,
+}: {
+  match: AlertGroupMatch
+  exchanges: string[]
+  onChange: (match: AlertGroupMatch) => void
+}) {
+  switch (match.kind) {
+    case "exchange":
+      return (
+        <Select value={match.exchange} onValueChange={(exchange) => onChange({ ...match, exchange })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from(new Set([...exchanges, match.exchange])).map((exchange) => (
+              <SelectItem key={exchange} value={exchange}>
+                {exchange}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    case "market_type":
+      return (
+        <Select
+          value={match.marketType}
+          onValueChange={(marketType) => onChange({ ...match, marketType: marketType as MarketType })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.keys(MARKET_TIMINGS).map((marketType) => (
+              <SelectItem key={marketType} value={marketType}>
+                {marketType}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    case "pattern":
+      return (
+        <Input
+          className="font-mono"
+          placeholder="NIFTY*FUT"
+          value={match.pattern}
+          onChange={(e) => onChange({ ...match, pattern: e.target.value })}
+        />
+      )
+    case "watchlist":
+      return (
+        <Textarea
+          rows={3}
+          className="font-mono text-xs"
+          placeholder="One trading symbol or instrument key per line"
+          value={match.instruments.join("\n")}
+          onChange={(e) => onChange({ ...match, instruments: e.target.value.split("\n") })}
+        />
+      )
+  }
+}
+
+// Inactivity alert settings for groups of instruments. Each instrument takes
+// the first matching group; its own settings, if any, win over the group.
+export function AlertGroupsPanel({ groups, targets, onSave }: AlertGroupsPanelProps) {
+  const [draft, setDraft] = useState<AlertGroup[]>(groups)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    setDraft(groups)
+  }, [groups])
+
+  const exchanges = useMemo(() => Array.from(new Set(targets.map((t) => t.exchange))).sort(), [targets])
+
+  // Instruments each group would get, after earlier groups have taken theirs
+  const matched = useMemo(() => {
+    const byGroup = new Map<string, string[]>(draft.map((group) => [group.id, []]))
+    targets.forEach((target) => {
+      const group = draft.find((candidate) => groupMatches(candidate.match, target))
+      if (group) byGroup.get(group.id)?.push(target.name)
+    })
+    return byGroup
+  }, [draft, targets])
+
+  const updateGroup = (group: AlertGroup) => setDraft((prev) => prev.map((g) => (g.id === group.id ? group : g)))
+
+  const updateConfig = (group: AlertGroup, config: Partial<InactivityAlertConfig>) =>
+    updateGroup({ ...group, config: { ...group.config, ...config } })
+
+  const move = (index: number, offset: number) =>
+    setDraft((prev) => {
+      const next = [...prev]
+      const [group] = next.splice(index, 1)
+      next.splice(index + offset, 0, group)
+      return next
+    })
+
+  const handleSave = () => {
+    const tidied = tidy(draft)
+    const result = alertGroupsSchema.safeParse(tidied)
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map((issue) => {
+          const group = tidied[Number(issue.path[0])]
+          return `${group?.name || "Group"} · ${issue.path.slice(1).join(".")}: ${issue.message}`
+        }),
+      )
+      return
+    }
+    setErrors([])
+    onSave(result.data)
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(groups)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="w-5 h-5" />
+            Symbol Groups
+          </CardTitle>
+          <CardDescription>
+            Alert settings for every instrument on an exchange, of a market type, matching a pattern or on a
+            watchlist, including instruments that appear later. An instrument takes the first group that matches;
+            its own settings win over any group. Saved in this browser.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setDraft((prev) => [...prev, newGroup()])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Group
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No groups yet. Add one to cover, say, all NIFTY futures with a single setting.
+          </p>
+        )}
+
+        {draft.map((group, index) => {
+          const names = matched.get(group.id) ?? []
+          return (
+            <div key={group.id} className="border rounded-lg p-4 space-y-4">
+              <div className="flex items-center gap-3">
+                <Input
+                  className="max-w-xs font-medium"
+                  value={group.name}
+                  onChange={(e) => updateGroup({ ...group, name: e.target.value })}
+                />
+                <Badge variant="outline" title={names.join(", ")}>
+                  {names.length} instruments now
+                </Badge>
+                <div className="ml-auto flex items-center gap-1">
+                  <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => move(index, -1)}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === draft.length - 1}
+                    onClick={() => move(index, 1)}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDraft((prev) => prev.filter((g) => g.id !== group.id))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label>Match by</Label>
+                  <Select
+                    value={group.match.kind}
+                    onValueChange={(kind) =>
+                      updateGroup({ ...group, match: DEFAULT_MATCHES[kind as AlertGroupMatchKind] })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ALERT_GROUP_MATCHES).map(([kind, label]) => (
+                        <SelectItem key={kind} value={kind}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label>{ALERT_GROUP_MATCHES[group.match.kind]}</Label>
+                  <MatchEditor
+                    match={group.match}
+                    exchanges={exchanges}
+                    onChange={(match) => updateGroup({ ...group, match })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`group-${group.id}-enabled`}
+                    checked={group.config.enabled}
+                    onCheckedChange={(enabled) => updateConfig(group, { enabled })}
+                  />
+                  <Label htmlFor={`group-${group.id}-enabled`}>Alerts enabled</Label>
+                </div>
+                <div className="space-y-1">
+                  <Label>Mode</Label>
+                  <Select
+                    value={group.config.mode}
+                    onValueChange={(mode: InactivityAlertMode) => updateConfig(group, { mode })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="deviation">Deviation</SelectItem>
+                      <SelectItem value="adaptive">Adaptive</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`group-${group.id}-deviation`}>Deviation (±₹)</Label>
+                  <Input
+                    id={`group-${group.id}-deviation`}
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={group.config.deviation}
+                    disabled={group.config.mode === "adaptive"}
+                    onChange={(e) => updateConfig(group, { deviation: Number.parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`group-${group.id}-duration`}>Duration (s)</Label>
+                  <Input
+                    id={`group-${group.id}-duration`}
+                    type="number"
+                    min="1"
+                    value={group.config.duration}
+                    onChange={(e) => updateConfig(group, { duration: Number.parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`group-${group.id}-hours`}
+                    checked={group.config.respectMarketHours}
+                    onCheckedChange={(respectMarketHours) => updateConfig(group, { respectMarketHours })}
+                  />
+                  <Label htmlFor={`group-${group.id}-hours`}>Trading hours only</Label>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+
+        {errors.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
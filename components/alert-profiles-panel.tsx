@@ -0,0 +1,262 @@
+"use client"
+
+import { useState, useEffect, type ChangeEvent } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowDown, ArrowUp, CalendarClock, Plus, Save, Trash2 } from "lucide-react"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { alertProfilesSchema, describeSchedule, WEEKDAYS, type AlertProfile } from "@/utils/alert-profiles"
+import { parseAlertConfigs } from "@/utils/alert-config-file"
+import { MARKET_TIMINGS, type MarketType } from "@/utils/market-timings"
+
+interface AlertProfilesPanelProps {
+  profiles: AlertProfile[]
+  activeProfileId: string | null
+  configurations: Map<string, InactivityAlertConfig> // What "Save current settings" captures
+  onSave: (profiles: AlertProfile[]) => void
+}
+
+const newProfile = (name: string, configurations: AlertProfile["configurations"]): AlertProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  configurations,
+  schedule: { enabled: false, marketType: "equity", days: [1, 2, 3, 4, 5], fromMinute: 0, toMinute: null },
+})
+
+export function AlertProfilesPanel({ profiles, activeProfileId, configurations, onSave }: AlertProfilesPanelProps) {
+  const [draft, setDraft] = useState<AlertProfile[]>(profiles)
+  const [errors, setErrors] = useState<string[]>([])
+  const [newName, setNewName] = useState("")
+
+  useEffect(() => {
+    setDraft(profiles)
+  }, [profiles])
+
+  const updateProfile = (profile: AlertProfile) =>
+    setDraft((prev) => prev.map((p) => (p.id === profile.id ? profile : p)))
+
+  const updateSchedule = (profile: AlertProfile, schedule: Partial<AlertProfile["schedule"]>) =>
+    updateProfile({ ...profile, schedule: { ...profile.schedule, ...schedule } })
+
+  const move = (index: number, offset: number) =>
+    setDraft((prev) => {
+      const next = [...prev]
+      const [profile] = next.splice(index, 1)
+      next.splice(index + offset, 0, profile)
+      return next
+    })
+
+  const handleCapture = () => {
+    setDraft((prev) => [...prev, newProfile(newName.trim() || "New profile", Object.fromEntries(configurations))])
+    setNewName("")
+  }
+
+  // A profile exported from the Import / Export tab
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    try {
+      const imported = parseAlertConfigs(await file.text())
+      const name = imported.name ?? file.name.replace(/\.(json|ya?ml)$/i, "")
+      setDraft((prev) => [...prev, newProfile(name, imported.configurations)])
+      setErrors([])
+    } catch (e) {
+      setErrors([`${file.name}: ${e instanceof Error ? e.message : String(e)}`])
+    }
+  }
+
+  const handleSave = () => {
+    const result = alertProfilesSchema.safeParse(draft)
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map((issue) => {
+          const profile = draft[Number(issue.path[0])]
+          return `${profile?.name || "Profile"} · ${issue.path.slice(1).join(".")}: ${issue.message}`
+        }),
+      )
+      return
+    }
+    setErrors([])
+    onSave(result.data)
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(profiles)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Alert Profiles
+          </CardTitle>
+          <CardDescription>
+            Named sets of alert settings that take over on a schedule, measured from the market&apos;s open. When
+            several match, the highest in the list wins. Outside every schedule the saved settings apply. Saved in
+            this browser.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={!isDirty}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="new-profile-name">New profile</Label>
+            <Input
+              id="new-profile-name"
+              className="w-64"
+              placeholder="e.g. First 15 minutes"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleCapture}>
+            <Plus className="w-4 h-4 mr-2" />
+            From current settings ({configurations.size})
+          </Button>
+          <div className="space-y-1">
+            <Label htmlFor="import-profile">Or from an exported file</Label>
+            <Input id="import-profile" type="file" accept=".json,.yaml,.yml" onChange={handleImport} />
+          </div>
+        </div>
+
+        {draft.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No profiles yet. Set up alerts for one part of the day, then save them as a profile.
+          </p>
+        )}
+
+        {draft.map((profile, index) => (
+          <div key={profile.id} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center gap-3">
+              <Input
+                className="max-w-xs font-medium"
+                value={profile.name}
+                onChange={(e) => updateProfile({ ...profile, name: e.target.value })}
+              />
+              <Badge variant="outline">{Object.keys(profile.configurations).length} instruments</Badge>
+              {profile.id === activeProfileId && <Badge className="bg-green-600">Active now</Badge>}
+              <span className="text-xs text-gray-500">{describeSchedule(profile.schedule)}</span>
+              <div className="ml-auto flex items-center gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Replace with the current settings"
+                  onClick={() => updateProfile({ ...profile, configurations: Object.fromEntries(configurations) })}
+                >
+                  Recapture
+                </Button>
+                <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="ghost" disabled={index === draft.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setDraft((prev) => prev.filter((p) => p.id !== profile.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`profile-${profile.id}-enabled`}
+                  checked={profile.schedule.enabled}
+                  onCheckedChange={(enabled) => updateSchedule(profile, { enabled })}
+                />
+                <Label htmlFor={`profile-${profile.id}-enabled`}>Scheduled</Label>
+              </div>
+              <div className="space-y-1">
+                <Label>Market</Label>
+                <Select
+                  value={profile.schedule.marketType}
+                  onValueChange={(marketType) => updateSchedule(profile, { marketType: marketType as MarketType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MARKET_TIMINGS).map(([marketType, timings]) => (
+                      <SelectItem key={marketType} value={marketType}>
+                        {marketType} (opens {timings.normal.start})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`profile-${profile.id}-from`}>From (min after open)</Label>
+                <Input
+                  id={`profile-${profile.id}-from`}
+                  type="number"
+                  min="0"
+                  value={profile.schedule.fromMinute}
+                  onChange={(e) => updateSchedule(profile, { fromMinute: Number.parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`profile-${profile.id}-to`}>Until (min after open)</Label>
+                <Input
+                  id={`profile-${profile.id}-to`}
+                  type="number"
+                  min="1"
+                  placeholder="Close"
+                  value={profile.schedule.toMinute ?? ""}
+                  onChange={(e) =>
+                    updateSchedule(profile, {
+                      toMinute: e.target.value === "" ? null : Number.parseInt(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Days</Label>
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAYS.map((label, day) => (
+                    <label key={label} className="flex items-center gap-1 text-xs">
+                      <Checkbox
+                        checked={profile.schedule.days.includes(day)}
+                        onCheckedChange={(checked) =>
+                          updateSchedule(profile, {
+                            days:
+                              checked === true
+                                ? [...profile.schedule.days, day].sort()
+                                : profile.schedule.days.filter((d) => d !== day),
+                          })
+                        }
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {errors.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,368 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ListChecks, Plus, Save, Trash2 } from "lucide-react"
+import type { TickData } from "@/hooks/use-tick-data"
+import { getInstrumentName } from "@/utils/instruments"
+import { ALERT_RULE_TYPES, alertRulesSchema, type AlertRule, type AlertRuleType } from "@/utils/alert-rules"
+
+interface AlertRulesEditorProps {
+  ticks: TickData[]
+  rules: AlertRule[]
+  triggeredCount: number
+  onSave: (rules: AlertRule[]) => void
+}
+
+const newRule = (type: AlertRuleType): AlertRule => {
+  const base = {
+    id: crypto.randomUUID(),
+    name: ALERT_RULE_TYPES[type],
+    enabled: true,
+    instrumentKeys: [],
+    severity: "medium" as const,
+    cooldown: 60,
+    respectMarketHours: true,
+  }
+  switch (type) {
+    case "price_cross":
+      return { ...base, type, level: 0, direction: "either" }
+    case "percent_move":
+      return { ...base, type, percent: 1, windowSeconds: 60 }
+    case "volume_spike":
+      return { ...base, type, multiplier: 3, windowSeconds: 60 }
+    case "spread_widening":
+      return { ...base, type, maxSpread: 0.1, unit: "percent" }
+    case "tick_rate_drop":
+      return { ...base, type, dropPercent: 80, windowSeconds: 30 }
+    case "zero_price":
+    case "volume_regression":
+      return { ...base, type }
+  }
+}
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: number
+  step?: string
+  onChange: (value: number) => void
+}
+
+function NumberField({ id, label, value, step = "1", onChange }: NumberFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        min="0"
+        value={value}
+        onChange={(e) => onChange(Number.parseFloat(e.target.value) || 0)}
+      />
+    </div>
+  )
+}
+
+// The type-specific part of a rule
+function RuleParameters({ rule, onChange }: { rule: AlertRule; onChange: (rule: AlertRule) => void }) {
+  const field = (suffix: string) => `rule-${rule.id}-${suffix}`
+
+  switch (rule.type) {
+    case "price_cross":
+      return (
+        <>
+          <NumberField
+            id={field("level")}
+            label="Level (₹)"
+            step="0.05"
+            value={rule.level}
+            onChange={(level) => onChange({ ...rule, level })}
+          />
+          <div className="space-y-1">
+            <Label>Direction</Label>
+            <Select
+              value={rule.direction}
+              onValueChange={(direction) => onChange({ ...rule, direction: direction as typeof rule.direction })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="either">Either way</SelectItem>
+                <SelectItem value="above">Upwards</SelectItem>
+                <SelectItem value="below">Downwards</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      )
+    case "percent_move":
+      return (
+        <>
+          <NumberField
+            id={field("percent")}
+            label="Move (%)"
+            step="0.1"
+            value={rule.percent}
+            onChange={(percent) => onChange({ ...rule, percent })}
+          />
+          <NumberField
+            id={field("window")}
+            label="Within (seconds)"
+            value={rule.windowSeconds}
+            onChange={(windowSeconds) => onChange({ ...rule, windowSeconds })}
+          />
+        </>
+      )
+    case "volume_spike":
+      return (
+        <>
+          <NumberField
+            id={field("multiplier")}
+            label="Times the usual volume"
+            step="0.5"
+            value={rule.multiplier}
+            onChange={(multiplier) => onChange({ ...rule, multiplier })}
+          />
+          <NumberField
+            id={field("window")}
+            label="Per window (seconds)"
+            value={rule.windowSeconds}
+            onChange={(windowSeconds) => onChange({ ...rule, windowSeconds })}
+          />
+        </>
+      )
+    case "spread_widening":
+      return (
+        <>
+          <div className="space-y-1">
+            <Label>Spread</Label>
+            <Select
+              value={rule.unit}
+              onValueChange={(unit) => onChange({ ...rule, unit: unit as typeof rule.unit })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">% of mid price</SelectItem>
+                <SelectItem value="absolute">Absolute (₹)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <NumberField
+            id={field("spread")}
+            label={`Wider than (${rule.unit === "absolute" ? "₹" : "%"})`}
+            step="0.01"
+            value={rule.maxSpread}
+            onChange={(maxSpread) => onChange({ ...rule, maxSpread })}
+          />
+        </>
+      )
+    case "tick_rate_drop":
+      return (
+        <>
+          <NumberField
+            id={field("drop")}
+            label="Drop (%)"
+            value={rule.dropPercent}
+            onChange={(dropPercent) => onChange({ ...rule, dropPercent })}
+          />
+          <NumberField
+            id={field("window")}
+            label="Per window (seconds)"
+            value={rule.windowSeconds}
+            onChange={(windowSeconds) => onChange({ ...rule, windowSeconds })}
+          />
+        </>
+      )
+    case "zero_price":
+    case "volume_regression":
+      return <p className="text-sm text-gray-500 self-center">No parameters</p>
+  }
+}
+
+export function AlertRulesEditor({ ticks, rules, triggeredCount, onSave }: AlertRulesEditorProps) {
+  const [draft, setDraft] = useState<AlertRule[]>(rules)
+  const [errors, setErrors] = useState<string[]>([])
+  const [newType, setNewType] = useState<AlertRuleType>("price_cross")
+
+  useEffect(() => {
+    setDraft(rules)
+  }, [rules])
+
+  // Latest tick per instrument, for the instrument checklist
+  const instruments = useMemo(() => {
+    const latest = new Map<string, TickData>()
+    ticks.forEach((tick) => {
+      if (!latest.has(tick.instrument_key)) latest.set(tick.instrument_key, tick)
+    })
+    return Array.from(latest.values())
+      .map((tick) => ({ key: tick.instrument_key, name: getInstrumentName(tick) }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [ticks])
+
+  const updateRule = (rule: AlertRule) => setDraft((prev) => prev.map((r) => (r.id === rule.id ? rule : r)))
+
+  const toggleInstrument = (rule: AlertRule, key: string, checked: boolean) =>
+    updateRule({
+      ...rule,
+      instrumentKeys: checked ? [...rule.instrumentKeys, key] : rule.instrumentKeys.filter((k) => k !== key),
+    })
+
+  const handleSave = () => {
+    const result = alertRulesSchema.safeParse(draft)
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map((issue) => {
+          const rule = draft[Number(issue.path[0])]
+          return `${rule?.name ?? "Rule"} · ${issue.path.slice(1).join(".")}: ${issue.message}`
+        }),
+      )
+      return
+    }
+    setErrors([])
+    onSave(result.data)
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5" />
+            Alert Rules
+            {triggeredCount > 0 && <Badge variant="destructive">{triggeredCount} triggered</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Price, volume, spread and feed-integrity rules for chosen instruments. A rule fires once when its
+            condition starts to hold, then waits for it to clear and the cooldown to pass. Saved in this browser.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={newType} onValueChange={(value) => setNewType(value as AlertRuleType)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ALERT_RULE_TYPES).map(([type, label]) => (
+                <SelectItem key={type} value={type}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => setDraft((prev) => [...prev, newRule(newType)])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">No rules yet. Pick a rule type and add one.</p>
+        )}
+
+        {draft.map((rule) => (
+          <div key={rule.id} className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center gap-4">
+              <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule({ ...rule, enabled })} />
+              <Input
+                className="max-w-xs font-medium"
+                value={rule.name}
+                onChange={(e) => updateRule({ ...rule, name: e.target.value })}
+              />
+              <Badge variant="outline">{ALERT_RULE_TYPES[rule.type]}</Badge>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto"
+                onClick={() => setDraft((prev) => prev.filter((r) => r.id !== rule.id))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <RuleParameters rule={rule} onChange={updateRule} />
+              <div className="space-y-1">
+                <Label>Severity</Label>
+                <Select
+                  value={rule.severity}
+                  onValueChange={(severity) => updateRule({ ...rule, severity: severity as AlertRule["severity"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High (sounds)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <NumberField
+                id={`rule-${rule.id}-cooldown`}
+                label="Cooldown (seconds)"
+                value={rule.cooldown}
+                onChange={(cooldown) => updateRule({ ...rule, cooldown: Math.round(cooldown) })}
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`rule-${rule.id}-market-hours`}
+                  checked={rule.respectMarketHours}
+                  onCheckedChange={(respectMarketHours) => updateRule({ ...rule, respectMarketHours })}
+                />
+                <Label htmlFor={`rule-${rule.id}-market-hours`}>Market hours only</Label>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Instruments ({rule.instrumentKeys.length} selected)</Label>
+              <ScrollArea className="h-32 border rounded-md p-2">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {instruments.map((instrument) => (
+                    <label key={instrument.key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={rule.instrumentKeys.includes(instrument.key)}
+                        onCheckedChange={(checked) => toggleInstrument(rule, instrument.key, checked === true)}
+                      />
+                      {instrument.name}
+                    </label>
+                  ))}
+                  {instruments.length === 0 && (
+                    <p className="text-sm text-gray-500">Instruments appear here once the feed sends ticks.</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        ))}
+
+        {errors.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
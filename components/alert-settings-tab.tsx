@@ -15,24 +15,41 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import type { TickData } from "@/hooks/use-tick-data"
-import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import type { InactivityAlertConfig, InactivityAlertMode } from "@/hooks/use-inactivity-alerts"
+import type { AlertConfigSyncStatus } from "@/hooks/use-alert-configs"
+import type { AlertProfile } from "@/utils/alert-profiles"
+import { describeInstrument, type AlertGroup, type GroupConfiguration } from "@/utils/alert-groups"
+import { AlertConfigTransfer } from "./alert-config-transfer"
+import { AlertProfilesPanel } from "./alert-profiles-panel"
+import { AlertGroupsPanel } from "./alert-groups-panel"
 import { getInstrumentName, getExchange } from "./market-data-grid"
 import { getDetailedMarketStatus } from "@/utils/market-timings"
 
 interface AlertSettingsTabProps {
+  feed: string // Feed id, recorded in exported profiles
   ticks: TickData[]
-  alertConfigurations: Map<number, InactivityAlertConfig>
-  onConfigurationChange: (token: number, config: InactivityAlertConfig) => void
-  inactiveSymbols: Set<number>
+  alertConfigurations: Map<string, InactivityAlertConfig> // Per-instrument settings
+  onConfigurationChange: (token: string, config: InactivityAlertConfig) => void
+  onConfigurationRemove: (token: string) => void // Back to the group's settings
+  inactiveSymbols: Set<string>
+  syncStatus?: AlertConfigSyncStatus // Whether saved configurations have reached the server
+  profiles: AlertProfile[]
+  activeProfile: AlertProfile | null // Overrides alertConfigurations while its schedule matches
+  onSaveProfiles: (profiles: AlertProfile[]) => void
+  groups: AlertGroup[]
+  groupConfigurations: Map<string, GroupConfiguration> // By instrument key, for instruments a group matches
+  onSaveGroups: (groups: AlertGroup[]) => void
 }
 
 interface SymbolInfo {
-  token: number
+  token: string
   name: string
   exchange: string
   lastPrice: number
   isActive: boolean
-  config?: InactivityAlertConfig
+  config?: InactivityAlertConfig // Its own, or else its group's
+  group?: GroupConfiguration
+  hasOwnConfig: boolean
   marketStatus: ReturnType<typeof getDetailedMarketStatus>
 }
 
@@ -55,47 +72,68 @@ const PRESET_DEVIATIONS = [
 ]
 
 export function AlertSettingsTab({
+  feed,
   ticks,
   alertConfigurations,
   onConfigurationChange,
+  onConfigurationRemove,
   inactiveSymbols,
+  syncStatus,
+  profiles,
+  activeProfile,
+  onSaveProfiles,
+  groups,
+  groupConfigurations,
+  onSaveGroups,
 }: AlertSettingsTabProps) {
   const [searchTerm, setSearchTerm] = useState("")
   const [filterStatus, setFilterStatus] = useState<"all" | "enabled" | "disabled">("all")
-  const [selectedSymbols, setSelectedSymbols] = useState<Set<number>>(new Set())
+  const [selectedSymbols, setSelectedSymbols] = useState<Set<string>>(new Set())
   const [bulkConfig, setBulkConfig] = useState<InactivityAlertConfig>({
     enabled: true,
+    mode: "deviation",
     deviation: 0.1,
     duration: 30,
     respectMarketHours: true,
   })
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
-  const [pendingConfigs, setPendingConfigs] = useState<Map<number, InactivityAlertConfig>>(new Map())
+  const [pendingConfigs, setPendingConfigs] = useState<Map<string, InactivityAlertConfig>>(new Map())
 
   // Get unique symbols from ticks
   const availableSymbols = useMemo(() => {
-    const symbolMap = new Map<number, SymbolInfo>()
+    const symbolMap = new Map<string, SymbolInfo>()
 
     ticks.forEach((tick) => {
-      if (!symbolMap.has(tick.instrument_token) || tick.receivedAt > symbolMap.get(tick.instrument_token)!.lastPrice) {
-        const config = alertConfigurations.get(tick.instrument_token)
+      if (!symbolMap.has(tick.instrument_key) || tick.receivedAt > symbolMap.get(tick.instrument_key)!.lastPrice) {
+        const ownConfig = alertConfigurations.get(tick.instrument_key)
+        const group = groupConfigurations.get(tick.instrument_key)
         const instrumentName = getInstrumentName(tick)
         const marketStatus = getDetailedMarketStatus(instrumentName)
 
-        symbolMap.set(tick.instrument_token, {
-          token: tick.instrument_token,
+        symbolMap.set(tick.instrument_key, {
+          token: tick.instrument_key,
           name: instrumentName,
           exchange: getExchange(tick),
           lastPrice: tick.last_price,
-          isActive: !inactiveSymbols.has(tick.instrument_token),
-          config,
+          isActive: !inactiveSymbols.has(tick.instrument_key),
+          config: ownConfig ?? group?.config,
+          group,
+          hasOwnConfig: ownConfig !== undefined,
           marketStatus,
         })
       }
     })
 
     return Array.from(symbolMap.values()).sort((a, b) => a.name.localeCompare(b.name))
-  }, [ticks, alertConfigurations, inactiveSymbols])
+  }, [ticks, alertConfigurations, groupConfigurations, inactiveSymbols])
+
+  const groupTargets = useMemo(() => {
+    const targets = new Map<string, ReturnType<typeof describeInstrument>>()
+    ticks.forEach((tick) => {
+      if (!targets.has(tick.instrument_key)) targets.set(tick.instrument_key, describeInstrument(tick))
+    })
+    return Array.from(targets.values())
+  }, [ticks])
 
   // Filter symbols based on search and status
   const filteredSymbols = useMemo(() => {
@@ -123,7 +161,7 @@ export function AlertSettingsTab({
     return { total, enabled, alerting, marketOpen }
   }, [availableSymbols])
 
-  const handleSymbolConfigChange = (token: number, config: InactivityAlertConfig) => {
+  const handleSymbolConfigChange = (token: string, config: InactivityAlertConfig) => {
     setPendingConfigs((prev) => new Map(prev).set(token, config))
     setHasUnsavedChanges(true)
   }
@@ -143,6 +181,15 @@ export function AlertSettingsTab({
     setHasUnsavedChanges(false)
   }
 
+  // Imports were previewed already, so they are applied straight away
+  const handleImport = (changes: [string, InactivityAlertConfig][]) => {
+    changes.forEach(([token, config]) => onConfigurationChange(token, config))
+    const stillPending = new Map(pendingConfigs)
+    changes.forEach(([token]) => stillPending.delete(token))
+    setPendingConfigs(stillPending)
+    setHasUnsavedChanges(stillPending.size > 0)
+  }
+
   const handleSelectAll = () => {
     if (selectedSymbols.size === filteredSymbols.length) {
       setSelectedSymbols(new Set())
@@ -156,6 +203,7 @@ export function AlertSettingsTab({
       pendingConfigs.get(symbol.token) ||
       symbol.config || {
         enabled: false,
+        mode: "deviation",
         deviation: 0.1,
         duration: 30,
         respectMarketHours: true,
@@ -172,6 +220,16 @@ export function AlertSettingsTab({
           <p className="text-sm text-gray-500">Configure price inactivity alerts for trading symbols</p>
         </div>
         <div className="flex items-center gap-2">
+          {syncStatus === "synced" && (
+            <Badge variant="outline" className="text-green-600 border-green-200">
+              Saved on server
+            </Badge>
+          )}
+          {syncStatus === "offline" && (
+            <Badge variant="outline" className="text-orange-600 border-orange-200">
+              Server unreachable, saved in this browser
+            </Badge>
+          )}
           {hasUnsavedChanges && (
             <Badge variant="outline" className="text-orange-600 border-orange-200">
               Unsaved Changes
@@ -247,8 +305,19 @@ export function AlertSettingsTab({
         <TabsList>
           <TabsTrigger value="individual">Individual Settings</TabsTrigger>
           <TabsTrigger value="bulk">Bulk Configuration</TabsTrigger>
+          <TabsTrigger value="groups">Groups</TabsTrigger>
+          <TabsTrigger value="transfer">Import / Export</TabsTrigger>
+          <TabsTrigger value="profiles">Profiles</TabsTrigger>
         </TabsList>
 
+        {activeProfile && (
+          <div className="rounded-md border border-blue-200 bg-blue-50 px-4 py-2 text-sm text-blue-800">
+            The &quot;{activeProfile.name}&quot; profile is active and overrides{" "}
+            {Object.keys(activeProfile.configurations).length} of these settings until its schedule ends. Changes here
+            update the saved settings.
+          </div>
+        )}
+
         <TabsContent value="individual" className="space-y-4">
           {/* Search and Filter */}
           <Card>
@@ -297,6 +366,7 @@ export function AlertSettingsTab({
                       <TableHead>Status</TableHead>
                       <TableHead>Enabled</TableHead>
                       <TableHead>Market Hours</TableHead>
+                      <TableHead>Mode</TableHead>
                       <TableHead>Threshold</TableHead>
                       <TableHead>Duration</TableHead>
                       <TableHead>Preview</TableHead>
@@ -330,6 +400,27 @@ export function AlertSettingsTab({
                             <div>
                               <div className="font-medium">{symbol.name}</div>
                               <div className="text-xs text-gray-500">{symbol.exchange}</div>
+                              {symbol.group && !symbol.hasOwnConfig && (
+                                <Badge variant="outline" className="text-xs mt-1">
+                                  Group: {symbol.group.groupName}
+                                </Badge>
+                              )}
+                              {symbol.group && symbol.hasOwnConfig && (
+                                <button
+                                  type="button"
+                                  className="text-xs text-blue-600 hover:underline mt-1"
+                                  title={`Overrides the "${symbol.group.groupName}" group`}
+                                  onClick={() => {
+                                    onConfigurationRemove(symbol.token)
+                                    const stillPending = new Map(pendingConfigs)
+                                    stillPending.delete(symbol.token)
+                                    setPendingConfigs(stillPending)
+                                    setHasUnsavedChanges(stillPending.size > 0)
+                                  }}
+                                >
+                                  Use group settings
+                                </button>
+                              )}
                             </div>
                           </TableCell>
                           <TableCell>
@@ -368,6 +459,23 @@ export function AlertSettingsTab({
                               disabled={!config.enabled}
                             />
                           </TableCell>
+                          <TableCell>
+                            <Select
+                              value={config.mode}
+                              onValueChange={(mode: InactivityAlertMode) =>
+                                handleSymbolConfigChange(symbol.token, { ...config, mode })
+                              }
+                              disabled={!config.enabled}
+                            >
+                              <SelectTrigger className="w-28">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="deviation">Deviation</SelectItem>
+                                <SelectItem value="adaptive">Adaptive</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
                           <TableCell>
                             <Input
                               type="number"
@@ -381,7 +489,7 @@ export function AlertSettingsTab({
                               step="0.01"
                               min="0.01"
                               className="w-20"
-                              disabled={!config.enabled}
+                              disabled={!config.enabled || config.mode === "adaptive"}
                             />
                           </TableCell>
                           <TableCell>
@@ -407,7 +515,9 @@ export function AlertSettingsTab({
                           <TableCell>
                             {config.enabled ? (
                               <div className="text-xs text-gray-600">
-                                Alert if price doesn't move ±{config.deviation} for {config.duration}s
+                                {config.mode === "adaptive"
+                                  ? `Alert on abnormal silence (${config.duration}s until learned)`
+                                  : `Alert if price doesn't move ±${config.deviation} for ${config.duration}s`}
                                 {config.respectMarketHours ? " (trading hours only)" : " (24/7)"}
                               </div>
                             ) : (
@@ -468,6 +578,29 @@ export function AlertSettingsTab({
 
                 <Separator />
 
+                <div className="space-y-3">
+                  <Label className="text-base font-medium">Alert Mode</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(["deviation", "adaptive"] as const).map((mode) => (
+                      <Button
+                        key={mode}
+                        variant={bulkConfig.mode === mode ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setBulkConfig((prev) => ({ ...prev, mode }))}
+                        disabled={!bulkConfig.enabled}
+                      >
+                        {mode === "deviation" ? "Price Deviation" : "Adaptive Silence"}
+                      </Button>
+                    ))}
+                  </div>
+                  {bulkConfig.mode === "adaptive" && (
+                    <p className="text-sm text-muted-foreground">
+                      Alerts when a symbol is silent for longer than is normal at that time of day, learned from its
+                      tick history. The duration below applies until there is enough history.
+                    </p>
+                  )}
+                </div>
+
                 <div className="space-y-3">
                   <Label className="text-base font-medium">Price Deviation Threshold</Label>
                   <div className="grid grid-cols-3 gap-2">
@@ -477,7 +610,7 @@ export function AlertSettingsTab({
                         variant={bulkConfig.deviation === preset.value ? "default" : "outline"}
                         size="sm"
                         onClick={() => setBulkConfig((prev) => ({ ...prev, deviation: preset.value }))}
-                        disabled={!bulkConfig.enabled}
+                        disabled={!bulkConfig.enabled || bulkConfig.mode === "adaptive"}
                       >
                         {preset.label}
                       </Button>
@@ -497,7 +630,7 @@ export function AlertSettingsTab({
                       step="0.01"
                       min="0.01"
                       className="w-24"
-                      disabled={!bulkConfig.enabled}
+                      disabled={!bulkConfig.enabled || bulkConfig.mode === "adaptive"}
                     />
                   </div>
                 </div>
@@ -546,7 +679,8 @@ export function AlertSettingsTab({
                   <div className="space-y-2 text-sm text-blue-800">
                     <div>Status: {bulkConfig.enabled ? "Enabled" : "Disabled"}</div>
                     <div>Market Hours: {bulkConfig.respectMarketHours ? "Respected" : "Ignored (24/7)"}</div>
-                    <div>Threshold: ±{bulkConfig.deviation}</div>
+                    <div>Mode: {bulkConfig.mode === "adaptive" ? "Adaptive silence" : "Price deviation"}</div>
+                    {bulkConfig.mode === "deviation" && <div>Threshold: ±{bulkConfig.deviation}</div>}
                     <div>Duration: {bulkConfig.duration} seconds</div>
                     <div>Will apply to: {selectedSymbols.size} symbols</div>
                   </div>
@@ -585,9 +719,10 @@ export function AlertSettingsTab({
                   <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                     <p className="text-sm font-medium text-yellow-800">Alert Preview:</p>
                     <p className="text-sm text-yellow-700 mt-1">
-                      You'll be alerted if selected symbols' prices don't move by ±{bulkConfig.deviation} for{" "}
-                      {bulkConfig.duration} seconds{bulkConfig.respectMarketHours ? " during trading hours" : " (24/7)"}
-                      .
+                      {bulkConfig.mode === "adaptive"
+                        ? "You'll be alerted if selected symbols stop ticking for abnormally long"
+                        : `You'll be alerted if selected symbols' prices don't move by ±${bulkConfig.deviation} for ${bulkConfig.duration} seconds`}
+                      {bulkConfig.respectMarketHours ? " during trading hours" : " (24/7)"}.
                     </p>
                   </div>
                 )}
@@ -595,6 +730,28 @@ export function AlertSettingsTab({
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="groups" className="space-y-4">
+          <AlertGroupsPanel groups={groups} targets={groupTargets} onSave={onSaveGroups} />
+        </TabsContent>
+
+        <TabsContent value="transfer" className="space-y-4">
+          <AlertConfigTransfer
+            feed={feed}
+            configurations={alertConfigurations}
+            instrumentNames={new Map(availableSymbols.map((symbol) => [symbol.token, symbol.name]))}
+            onApply={handleImport}
+          />
+        </TabsContent>
+
+        <TabsContent value="profiles" className="space-y-4">
+          <AlertProfilesPanel
+            profiles={profiles}
+            activeProfileId={activeProfile?.id ?? null}
+            configurations={alertConfigurations}
+            onSave={onSaveProfiles}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   )
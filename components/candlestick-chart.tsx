@@ -5,7 +5,7 @@ import type { TickData } from "@/hooks/use-tick-data"
 
 interface CandlestickChartProps {
   ticks: TickData[]
-  instrumentToken: number
+  instrumentKey: string
   height?: number
   width?: number
 }
@@ -21,9 +21,9 @@ interface Candle {
 }
 
 // Create candles from exactly 3 ticks each
-function createCandlesFromTicks(ticks: TickData[], instrumentToken: number): Candle[] {
+function createCandlesFromTicks(ticks: TickData[], instrumentKey: string): Candle[] {
   const instrumentTicks = ticks
-    .filter((tick) => tick.instrument_token === instrumentToken && tick.last_price > 0)
+    .filter((tick) => tick.instrument_key === instrumentKey && tick.last_price > 0)
     .sort((a, b) => a.timestamp - b.timestamp)
 
   const candles: Candle[] = []
@@ -59,18 +59,18 @@ function createCandlesFromTicks(ticks: TickData[], instrumentToken: number): Can
   return candles.slice(-15) // Show last 15 candles
 }
 
-export function CandlestickChart({ ticks, instrumentToken, height = 96, width = 252 }: CandlestickChartProps) {
+export function CandlestickChart({ ticks, instrumentKey, height = 96, width = 252 }: CandlestickChartProps) {
   const candles = useMemo(() => {
-    return createCandlesFromTicks(ticks, instrumentToken)
-  }, [ticks, instrumentToken])
+    return createCandlesFromTicks(ticks, instrumentKey)
+  }, [ticks, instrumentKey])
 
   // Get the most recent tick for this instrument even if we can't form candles
   const recentTicks = useMemo(() => {
     return ticks
-      .filter((tick) => tick.instrument_token === instrumentToken && tick.last_price > 0)
+      .filter((tick) => tick.instrument_key === instrumentKey && tick.last_price > 0)
       .sort((a, b) => b.timestamp - a.timestamp)
       .slice(0, 10) // Get last 10 ticks
-  }, [ticks, instrumentToken])
+  }, [ticks, instrumentKey])
 
   if (candles.length === 0 && recentTicks.length === 0) {
     return (
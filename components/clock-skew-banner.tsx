@@ -0,0 +1,29 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Clock } from "lucide-react"
+import type { ClockSyncState } from "@/utils/clock-sync"
+import { formatDuration } from "@/utils/feeds/latency"
+
+interface ClockSkewBannerProps {
+  clock: ClockSyncState
+  threshold: number // ms
+}
+
+// Shown while this machine's clock is off from the server's by more than the threshold
+export function ClockSkewBanner({ clock, threshold }: ClockSkewBannerProps) {
+  if (clock.syncedAt === null || Math.abs(clock.offset) <= threshold) return null
+
+  const direction = clock.offset > 0 ? "behind" : "ahead of"
+  return (
+    <Alert variant="destructive">
+      <Clock className="h-4 w-4" />
+      <AlertTitle>Clock skew detected</AlertTitle>
+      <AlertDescription>
+        This computer&apos;s clock is {formatDuration(Math.abs(clock.offset))} {direction} the server&apos;s (round
+        trip {formatDuration(clock.rtt ?? 0)}). Latencies are corrected for it, but syncing the system clock (NTP)
+        gives more reliable numbers.
+      </AlertDescription>
+    </Alert>
+  )
+}
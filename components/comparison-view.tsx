@@ -19,76 +19,30 @@ import {
   GitCompare,
 } from "lucide-react"
 import type { TickData } from "@/hooks/use-tick-data"
-import type { UpstoxTickData } from "@/hooks/use-upstox-tick-data"
+import { measureDivergence } from "@/hooks/use-divergence-alerts"
+import type { PairLeadLag } from "@/hooks/use-lead-lag"
+import { percentile } from "@/utils/lead-lag"
+import { getBestBidAsk } from "@/utils/quotes"
+import { getInstrumentMaster } from "@/utils/instrument-master"
+import { latestTicks, pairId, type InstrumentPair } from "@/utils/instrument-pairs"
 
 interface ComparisonViewProps {
   kiteTicks: TickData[]
-  upstoxTicks: UpstoxTickData[]
+  upstoxTicks: TickData[]
   kiteConnected: boolean
   upstoxConnected: boolean
+  pairs: InstrumentPair[]
+  divergedPairs?: Set<string> // Pair ids with an active divergence alert
+  leadLag?: PairLeadLag[]
 }
 
-interface InstrumentMapping {
-  segment: string
-  kiteName: string
-  upstoxPattern: string
-  displayName: string
-  description: string
-}
-
-// Instrument mappings as specified in requirements
-const INSTRUMENT_MAPPINGS: InstrumentMapping[] = [
-  {
-    segment: "NSE",
-    kiteName: "BHEL",
-    upstoxPattern: "NSE_EQ",
-    displayName: "BHEL",
-    description: "NSE Equity - BHEL",
-  },
-  {
-    segment: "BSE",
-    kiteName: "RELIANCE",
-    upstoxPattern: "BSE_EQ",
-    displayName: "RELIANCE",
-    description: "BSE Equity - RELIANCE",
-  },
-  {
-    segment: "CDS",
-    kiteName: "USDINR",
-    upstoxPattern: "NCD_FO",
-    displayName: "USDINR",
-    description: "Currency Derivatives - USDINR",
-  },
-  {
-    segment: "MCX",
-    kiteName: "CRUDEOIL",
-    upstoxPattern: "MCX_FO",
-    displayName: "CRUDEOIL",
-    description: "MCX Futures - CRUDEOIL",
-  },
-  {
-    segment: "NFO",
-    kiteName: "NIFTY",
-    upstoxPattern: "NSE_FO",
-    displayName: "NIFTY",
-    description: "NSE Futures - NIFTY",
-  },
-  {
-    segment: "BFO",
-    kiteName: "SENSEX",
-    upstoxPattern: "BSE_FO",
-    displayName: "SENSEX",
-    description: "BSE Futures - SENSEX",
-  },
-]
-
 interface ComparisonData {
-  mapping: InstrumentMapping
+  pair: InstrumentPair
+  segment: string
   kiteData: TickData | null
-  upstoxData: UpstoxTickData | null
+  upstoxData: TickData | null
   priceDifference: number
   percentageDifference: number
-  delayDifference: number
   lastUpdated: {
     kite: number | null
     upstox: number | null
@@ -96,52 +50,51 @@ interface ComparisonData {
   status: "both" | "kite-only" | "upstox-only" | "none"
 }
 
-export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxConnected }: ComparisonViewProps) {
-  // Helper function to find Kite instrument by name
-  const findKiteInstrument = (kiteName: string): TickData | null => {
-    // First try to find by tradingsymbol
-    let matchingTick = kiteTicks
-      .filter((tick) => tick.tradingsymbol && tick.tradingsymbol.toUpperCase().includes(kiteName.toUpperCase()))
-      .sort((a, b) => b.timestamp - a.timestamp)[0]
-
-    // If not found by tradingsymbol, try to find by known token mappings
-    if (!matchingTick) {
-      const tokenMap: Record<string, number> = {
-        BHEL: 281836549,
-        RELIANCE: 128083204,
-        USDINR: 408065,
-        CRUDEOIL: 134657,
-        NIFTY: 256265,
-        SENSEX: 265,
-      }
+const priceFormatter = new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
 
-      const expectedToken = tokenMap[kiteName.toUpperCase()]
-      if (expectedToken) {
-        matchingTick = kiteTicks
-          .filter((tick) => tick.instrument_token === expectedToken)
-          .sort((a, b) => b.timestamp - a.timestamp)[0]
-      }
-    }
+// Bid/ask, day range and OI under a price, for feeds that send quote or full mode
+function QuoteSummary({ tick }: { tick: TickData }) {
+  const { bid, ask } = getBestBidAsk(tick)
+  if (!bid && !ask && !tick.ohlc && tick.oi === undefined) return null
 
-    return matchingTick || null
-  }
-
-  // Helper function to find Upstox instrument by pattern
-  const findUpstoxInstrument = (upstoxPattern: string): UpstoxTickData | null => {
-    return (
-      upstoxTicks
-        .filter((tick) => tick.instrument_token.toUpperCase().includes(upstoxPattern.toUpperCase()))
-        .sort((a, b) => b.timestamp - a.timestamp)[0] || null
-    )
-  }
+  return (
+    <div className="text-xs text-gray-500 space-y-0.5">
+      {(bid || ask) && (
+        <div>
+          <span className="text-green-600">{bid ? priceFormatter.format(bid.price) : "-"}</span>
+          {" / "}
+          <span className="text-red-600">{ask ? priceFormatter.format(ask.price) : "-"}</span>
+        </div>
+      )}
+      {tick.ohlc && (
+        <div>
+          H {priceFormatter.format(tick.ohlc.high)} L {priceFormatter.format(tick.ohlc.low)}
+        </div>
+      )}
+      {tick.oi !== undefined && <div>OI: {tick.oi.toLocaleString()}</div>}
+    </div>
+  )
+}
 
+export function ComparisonView({
+  kiteTicks,
+  upstoxTicks,
+  kiteConnected,
+  upstoxConnected,
+  pairs,
+  divergedPairs,
+  leadLag,
+}: ComparisonViewProps) {
   const comparisonData = useMemo(() => {
     const data: ComparisonData[] = []
+    const kiteLatest = latestTicks(kiteTicks, new Set(pairs.map((pair) => pair.kiteKey)))
+    const upstoxLatest = latestTicks(upstoxTicks, new Set(pairs.map((pair) => pair.upstoxKey)))
+    const master = getInstrumentMaster()
 
-    for (const mapping of INSTRUMENT_MAPPINGS) {
-      // Find matching instruments
-      const kiteData = findKiteInstrument(mapping.kiteName)
-      const upstoxData = findUpstoxInstrument(mapping.upstoxPattern)
+    for (const pair of pairs) {
+      const kiteData = kiteLatest.get(pair.kiteKey) ?? null
+      const upstoxData = upstoxLatest.get(pair.upstoxKey) ?? null
+      const segment = master.get(pair.kiteKey)?.segment ?? pair.upstoxKey.split("|")[0]
 
       // Determine status
       let status: ComparisonData["status"] = "none"
@@ -152,21 +105,20 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
       // Calculate differences
       let priceDifference = 0
       let percentageDifference = 0
-      let delayDifference = 0
 
-      if (kiteData && upstoxData && kiteData.last_price > 0 && upstoxData.last_price > 0) {
-        priceDifference = kiteData.last_price - upstoxData.last_price
-        percentageDifference = (priceDifference / upstoxData.last_price) * 100
-        delayDifference = kiteData.delay - upstoxData.delay
+      const divergence = kiteData && upstoxData ? measureDivergence(kiteData.last_price, upstoxData.last_price) : null
+      if (kiteData && upstoxData && divergence) {
+        priceDifference = divergence.priceDifference
+        percentageDifference = divergence.percentageDifference
       }
 
       data.push({
-        mapping,
+        pair,
+        segment,
         kiteData,
         upstoxData,
         priceDifference,
         percentageDifference,
-        delayDifference,
         lastUpdated: {
           kite: kiteData?.timestamp || null,
           upstox: upstoxData?.timestamp || null,
@@ -176,7 +128,7 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
     }
 
     return data
-  }, [kiteTicks, upstoxTicks])
+  }, [kiteTicks, upstoxTicks, pairs])
 
   // Summary statistics
   const stats = useMemo(() => {
@@ -192,15 +144,12 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
             .reduce((sum, item) => sum + Math.abs(item.priceDifference), 0) / totalMatched
         : 0
 
-    const avgDelayDiff =
-      totalMatched > 0
-        ? comparisonData
-            .filter((item) => item.status === "both")
-            .reduce((sum, item) => sum + Math.abs(item.delayDifference), 0) / totalMatched
-        : 0
+    // Median of the per-pair median lags, from the lead/lag analysis
+    const medianLags = (leadLag ?? []).flatMap((result) => (result.stats ? [result.stats.p50] : []))
+    const medianLag = medianLags.length > 0 ? percentile([...medianLags].sort((a, b) => a - b), 50) : null
 
-    return { bothFeeds, kiteOnly, upstoxOnly, totalMatched, avgPriceDiff, avgDelayDiff }
-  }, [comparisonData])
+    return { bothFeeds, kiteOnly, upstoxOnly, totalMatched, avgPriceDiff, medianLag }
+  }, [comparisonData, leadLag])
 
   const formatPrice = (price: number) =>
     new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(price)
@@ -332,7 +281,7 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
               <GitCompare className="w-8 h-8 text-purple-600" />
               <div>
                 <p className="text-sm text-gray-600">Total Instruments</p>
-                <p className="text-2xl font-bold text-gray-900">{INSTRUMENT_MAPPINGS.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{pairs.length}</p>
               </div>
             </div>
           </CardContent>
@@ -356,12 +305,14 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
 
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium text-gray-600">Average Delay Difference</CardTitle>
+              <CardTitle className="text-sm font-medium text-gray-600">Median Upstox Lag</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-2">
                 <Clock className="w-4 h-4 text-gray-500" />
-                <span className="text-lg font-semibold">{formatDelay(stats.avgDelayDiff)}</span>
+                <span className="text-lg font-semibold">
+                  {stats.medianLag === null ? "N/A" : `${stats.medianLag > 0 ? "+" : ""}${stats.medianLag}ms`}
+                </span>
               </div>
             </CardContent>
           </Card>
@@ -384,14 +335,17 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
                   <TableHead>Kite Price</TableHead>
                   <TableHead>Upstox Price</TableHead>
                   <TableHead>Price Difference</TableHead>
-                  <TableHead>Kite Delay</TableHead>
-                  <TableHead>Upstox Delay</TableHead>
+                  <TableHead>Kite Interval</TableHead>
+                  <TableHead>Upstox Interval</TableHead>
                   <TableHead>Last Updated</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {comparisonData.map((item, index) => (
-                  <TableRow key={index}>
+                {comparisonData.map((item) => (
+                  <TableRow
+                    key={pairId(item.pair)}
+                    className={divergedPairs?.has(pairId(item.pair)) ? "bg-red-50" : ""}
+                  >
                     <TableCell>
                       <div className="flex items-center gap-2">
                         {getStatusIcon(item.status)}
@@ -427,13 +381,15 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
                     </TableCell>
                     <TableCell className="font-medium">
                       <div>
-                        <div className="font-semibold">{item.mapping.displayName}</div>
-                        <div className="text-xs text-gray-500">{item.mapping.description}</div>
+                        <div className="font-semibold">{item.pair.label}</div>
+                        <div className="text-xs text-gray-500 font-mono">
+                          {item.pair.kiteKey} ↔ {item.pair.upstoxKey}
+                        </div>
                       </div>
                     </TableCell>
                     <TableCell>
                       <Badge variant="outline" className="text-xs">
-                        {item.mapping.segment}
+                        {item.segment}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -441,6 +397,7 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
                         <div className="text-right">
                           <div className="font-mono">₹{formatPrice(item.kiteData.last_price)}</div>
                           <div className="text-xs text-gray-500">Vol: {item.kiteData.volume.toLocaleString()}</div>
+                          <QuoteSummary tick={item.kiteData} />
                         </div>
                       ) : (
                         <span className="text-gray-400">-</span>
@@ -451,6 +408,7 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
                         <div className="text-right">
                           <div className="font-mono">₹{formatPrice(item.upstoxData.last_price)}</div>
                           <div className="text-xs text-gray-500">Vol: {item.upstoxData.volume.toLocaleString()}</div>
+                          <QuoteSummary tick={item.upstoxData} />
                         </div>
                       ) : (
                         <span className="text-gray-400">-</span>
@@ -468,6 +426,11 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
                               {item.percentageDifference > 0 ? "+" : ""}
                               {item.percentageDifference.toFixed(3)}%
                             </div>
+                            {divergedPairs?.has(pairId(item.pair)) && (
+                              <Badge variant="destructive" className="text-xs">
+                                Diverged
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       ) : (
@@ -522,50 +485,14 @@ export function ComparisonView({ kiteTicks, upstoxTicks, kiteConnected, upstoxCo
         </CardContent>
       </Card>
 
-      {/* Matching Strategy Info */}
-      <Card className="bg-blue-50 border-blue-200">
-        <CardHeader>
-          <CardTitle className="text-lg font-bold text-blue-800">Matching Strategy</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-sm text-blue-700 space-y-2">
-            <p>
-              <strong>Instrument Matching Logic:</strong> This comparison uses segment-based matching with predefined
-              instrument mappings.
-            </p>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
-              <div>
-                <strong>Kite Matching:</strong>
-                <ul className="list-disc list-inside ml-2 text-xs space-y-1">
-                  <li>Matches by trading symbol (tradingsymbol field)</li>
-                  <li>Falls back to known token mappings</li>
-                  <li>Case-insensitive partial matching</li>
-                </ul>
-              </div>
-              <div>
-                <strong>Upstox Matching:</strong>
-                <ul className="list-disc list-inside ml-2 text-xs space-y-1">
-                  <li>Matches by instrument token containing segment pattern</li>
-                  <li>Example: NSE_EQ matches tokens like "NSE_EQ|INE123A01012"</li>
-                  <li>Segment-specific pattern matching</li>
-                </ul>
-              </div>
-            </div>
-            <div className="mt-4">
-              <strong>Supported Segments:</strong>
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2 text-xs">
-                {INSTRUMENT_MAPPINGS.map((mapping) => (
-                  <div key={mapping.segment} className="bg-blue-100 p-2 rounded">
-                    <div className="font-medium">{mapping.segment}</div>
-                    <div>Kite: {mapping.kiteName}</div>
-                    <div>Upstox: {mapping.upstoxPattern}</div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      {pairs.length === 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            No instrument pairs configured. Add some in the Instrument Pairs editor below.
+          </AlertDescription>
+        </Alert>
+      )}
     </div>
   )
 }
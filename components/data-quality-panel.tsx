@@ -0,0 +1,93 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Badge } from "@/components/ui/badge"
+import { ShieldAlert } from "lucide-react"
+import { TICK_VIOLATIONS, type DataQualitySummary, type TickViolation } from "@/utils/tick-validator"
+
+interface DataQualityPanelProps {
+  dataQuality: DataQualitySummary
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour12: false })
+
+export function DataQualityPanel({ dataQuality }: DataQualityPanelProps) {
+  const { accepted, rejected, violationCounts, samples } = dataQuality
+  const total = accepted + rejected
+  const rejectedShare = total > 0 ? (rejected / total) * 100 : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Data Quality
+          {rejected > 0 && <Badge variant="destructive">{rejected} quarantined</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ticks that failed validation are quarantined: they are not displayed, and only the zero-price and
+          volume-regression alert rules see them. {accepted} accepted, {rejected} rejected
+          ({rejectedShare.toFixed(2)}%).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          {(Object.keys(TICK_VIOLATIONS) as TickViolation[]).map((violation) => (
+            <div key={violation} className="p-3 border rounded-lg">
+              <div className="text-xs text-gray-500">{TICK_VIOLATIONS[violation]}</div>
+              <div className={`text-xl font-bold ${violationCounts[violation] > 0 ? "text-red-600" : ""}`}>
+                {violationCounts[violation]}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <ScrollArea className="max-h-[40vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Instrument</TableHead>
+                <TableHead>Violations</TableHead>
+                <TableHead>Payload</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {samples.length > 0 ? (
+                samples.map((sample) => (
+                  <TableRow key={sample.id} className="align-top">
+                    <TableCell className="font-mono text-sm">{formatTime(sample.receivedAt)}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{sample.instrumentName}</div>
+                      <div className="text-xs text-gray-500 font-mono">{sample.instrumentKey}</div>
+                    </TableCell>
+                    <TableCell className="space-y-1">
+                      {sample.violations.map((violation, index) => (
+                        <div key={violation} className="text-sm">
+                          <Badge variant="outline" className="text-xs text-red-600 border-red-300 mr-2">
+                            {TICK_VIOLATIONS[violation]}
+                          </Badge>
+                          <span className="text-gray-600">{sample.details[index]}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs break-all max-w-md">{sample.payload}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center text-gray-500">
+                    No ticks have been rejected.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,21 +1,37 @@
 "use client"
 
-import { AlertTriangle, Activity, Clock, Bell, Bug, Play, TestTube, TrendingUp } from "lucide-react"
+import { AlertTriangle, Activity, Clock, Bell, Bug, Play, TestTube, TrendingUp, Timer } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import type { TickData, Alert as AlertType } from "@/hooks/use-tick-data"
+import type { FeedDefinition } from "@/utils/feeds/types"
+import { formatDuration, type TimingThresholds } from "@/utils/feeds/latency"
 import { findAvailableEndpoints } from "@/utils/endpoint-tester"
 import { useState } from "react"
+import { PerformanceMetrics } from "./performance-metrics"
+import { InstrumentFreezeLog } from "./instrument-freeze-log"
+import { DataQualityPanel } from "./data-quality-panel"
+import type { InstrumentFreeze } from "@/utils/freeze-detector"
+import type { DataQualitySummary } from "@/utils/tick-validator"
 
 interface DebugDashboardProps {
+  feeds: FeedDefinition[] // Every registered feed, for the connection tests
+  endpoint: string // URL of the feed whose data this dashboard shows
   ticks: TickData[]
   isConnected: boolean
   isFrozen: boolean
   lastTickTime: number | null
-  averageDelay: number
+  averageInterval: number // Inter-tick interval
+  averageLatency: number // Exchange timestamp to receipt
+  clockOffset: number // Skew correction applied to latencies
+  thresholds: TimingThresholds
   totalTicks: number
-  freezingIncidents: number
+  freezingIncidents: number // Whole-feed freezes
+  instrumentFreezes: InstrumentFreeze[]
+  freezeCounts: Record<string, number> // Per-instrument freeze incidents
+  frozenInstruments: Set<string>
+  dataQuality: DataQualitySummary // Quarantined ticks
   alerts: AlertType[]
   connectionStatus: string
   clearAlerts: () => void
@@ -26,13 +42,22 @@ interface DebugDashboardProps {
 }
 
 export function DebugDashboard({
+  feeds,
+  endpoint,
   ticks,
   isConnected,
   isFrozen,
   lastTickTime,
-  averageDelay,
+  averageInterval,
+  averageLatency,
+  clockOffset,
+  thresholds,
   totalTicks,
   freezingIncidents,
+  instrumentFreezes,
+  freezeCounts,
+  frozenInstruments,
+  dataQuality,
   alerts,
   connectionStatus,
   clearAlerts,
@@ -59,17 +84,17 @@ export function DebugDashboard({
     }
   }
 
-  const testDirectConnection = async () => {
+  const testDirectConnection = async (feed: FeedDefinition) => {
     try {
-      console.log("🧪 Testing direct fetch to endpoint...")
-      const response = await fetch("https://ticks.rvinod.com/ticks", {
+      console.log(`🧪 Testing direct fetch to ${feed.name} endpoint...`)
+      const response = await fetch(feed.url, {
         headers: {
           Accept: "text/event-stream",
         },
       })
 
-      console.log("📡 Response status:", response.status)
-      console.log("📡 Response headers:", Object.fromEntries(response.headers.entries()))
+      console.log(`📡 ${feed.name} Response status:`, response.status)
+      console.log(`📡 ${feed.name} Response headers:`, Object.fromEntries(response.headers.entries()))
 
       if (response.body) {
         const reader = response.body.getReader()
@@ -80,44 +105,13 @@ export function DebugDashboard({
           if (done) break
 
           const chunk = decoder.decode(value)
-          console.log(`📦 Chunk ${i + 1}:`, chunk)
+          console.log(`📦 ${feed.name} Chunk ${i + 1}:`, chunk)
         }
 
         reader.releaseLock()
       }
     } catch (error) {
-      console.error("❌ Direct fetch error:", error)
-    }
-  }
-
-  const testUpstoxDirectConnection = async () => {
-    try {
-      console.log("🧪 Testing direct fetch to Upstox endpoint...")
-      const response = await fetch("https://ticks.rvinod.com/upstox", {
-        headers: {
-          Accept: "text/event-stream",
-        },
-      })
-
-      console.log("📡 Upstox Response status:", response.status)
-      console.log("📡 Upstox Response headers:", Object.fromEntries(response.headers.entries()))
-
-      if (response.body) {
-        const reader = response.body.getReader()
-        const decoder = new TextDecoder()
-
-        for (let i = 0; i < 3; i++) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          const chunk = decoder.decode(value)
-          console.log(`📦 Upstox Chunk ${i + 1}:`, chunk)
-        }
-
-        reader.releaseLock()
-      }
-    } catch (error) {
-      console.error("❌ Upstox Direct fetch error:", error)
+      console.error(`❌ ${feed.name} Direct fetch error:`, error)
     }
   }
 
@@ -127,13 +121,13 @@ export function DebugDashboard({
     // Group ticks by instrument
     const instrumentGroups = ticks.reduce(
       (acc, tick) => {
-        if (!acc[tick.instrument_token]) {
-          acc[tick.instrument_token] = []
+        if (!acc[tick.instrument_key]) {
+          acc[tick.instrument_key] = []
         }
-        acc[tick.instrument_token].push(tick)
+        acc[tick.instrument_key].push(tick)
         return acc
       },
-      {} as Record<number, TickData[]>,
+      {} as Record<string, TickData[]>,
     )
 
     Object.entries(instrumentGroups).forEach(([token, instrumentTicks]) => {
@@ -162,7 +156,7 @@ export function DebugDashboard({
 
   const checkDataAuthenticity = () => {
     console.log("🔍 REAL DATA VERIFICATION:")
-    console.log("📡 Endpoint:", "https://ticks.rvinod.com/ticks")
+    console.log("📡 Endpoint:", endpoint)
     console.log("📊 Recent raw messages:", rawMessages.slice(0, 3))
 
     const recentTicks = ticks.slice(0, 5)
@@ -172,7 +166,7 @@ export function DebugDashboard({
       try {
         const rawData = JSON.parse(tick.raw_data || "{}")
         console.log(`Tick ${i + 1}:`, {
-          instrument_token: tick.instrument_token,
+          instrument_key: tick.instrument_key,
           raw_last_price: rawData.last_price,
           displayed_last_price: tick.last_price,
           raw_volume: rawData.volume_traded,
@@ -193,7 +187,7 @@ export function DebugDashboard({
   const testAllEndpoints = async () => {
     addDebugInfo?.("Testing all available endpoints...")
     try {
-      const results = await findAvailableEndpoints()
+      const results = await findAvailableEndpoints(feeds)
       setEndpointResults(results)
       addDebugInfo?.(
         `Endpoint test completed. Found ${results.filter((r) => r.result.available).length} available endpoints`,
@@ -232,22 +226,18 @@ export function DebugDashboard({
             <Play className="w-4 h-4 mr-2" />
             Add Test Tick
           </Button>
-          <Button onClick={testDirectConnection} variant="outline">
-            <Bug className="w-4 h-4 mr-2" />
-            Test Direct Fetch
-          </Button>
-          <Button onClick={testUpstoxDirectConnection} variant="outline">
-            <Bug className="w-4 h-4 mr-2" />
-            Test Upstox Direct
-          </Button>
-          <Button onClick={() => window.open("https://ticks.rvinod.com/ticks", "_blank")} variant="outline">
-            <Activity className="w-4 h-4 mr-2" />
-            Open SSE in New Tab
-          </Button>
-          <Button onClick={() => window.open("https://ticks.rvinod.com/upstox", "_blank")} variant="outline">
-            <Activity className="w-4 h-4 mr-2" />
-            Open Upstox SSE
-          </Button>
+          {feeds.map((feed) => (
+            <Button key={`test-${feed.id}`} onClick={() => testDirectConnection(feed)} variant="outline">
+              <Bug className="w-4 h-4 mr-2" />
+              Test {feed.name} Direct
+            </Button>
+          ))}
+          {feeds.map((feed) => (
+            <Button key={`open-${feed.id}`} onClick={() => window.open(feed.url, "_blank")} variant="outline">
+              <Activity className="w-4 h-4 mr-2" />
+              Open {feed.name} SSE
+            </Button>
+          ))}
           <Button onClick={checkDataAuthenticity} variant="outline">
             <Bug className="w-4 h-4 mr-2" />
             Check Data Authenticity
@@ -291,7 +281,7 @@ export function DebugDashboard({
       )}
 
       {/* Quick Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Ticks</CardTitle>
@@ -313,12 +303,28 @@ export function DebugDashboard({
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Average Delay</CardTitle>
+            <CardTitle className="text-sm font-medium">Average Latency</CardTitle>
+            <Timer className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{averageLatency.toFixed(0)}ms</div>
+            <p className="text-xs text-muted-foreground">
+              {averageLatency > thresholds.latency ? "High latency detected" : "Normal"}
+              {clockOffset !== 0 && ` · clock corrected by ${formatDuration(clockOffset)}`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Average Tick Interval</CardTitle>
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{averageDelay.toFixed(0)}ms</div>
-            <p className="text-xs text-muted-foreground">{averageDelay > 1000 ? "High delay detected" : "Normal"}</p>
+            <div className="text-2xl font-bold">{averageInterval.toFixed(0)}ms</div>
+            <p className="text-xs text-muted-foreground">
+              {averageInterval > thresholds.interval ? "Long gaps between ticks" : "Normal"}
+            </p>
           </CardContent>
         </Card>
 
@@ -329,7 +335,10 @@ export function DebugDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{freezingIncidents}</div>
-            <p className="text-xs text-muted-foreground">{isFrozen ? "Currently frozen" : "Active"}</p>
+            <p className="text-xs text-muted-foreground">
+              {isFrozen ? "Currently frozen" : "Active"}
+              {frozenInstruments.size > 0 && ` · ${frozenInstruments.size} instruments frozen`}
+            </p>
           </CardContent>
         </Card>
 
@@ -345,6 +354,23 @@ export function DebugDashboard({
         </Card>
       </div>
 
+      <PerformanceMetrics
+        ticks={ticks}
+        averageInterval={averageInterval}
+        averageLatency={averageLatency}
+        thresholds={thresholds}
+        totalTicks={totalTicks}
+        freezingIncidents={freezingIncidents}
+      />
+
+      <InstrumentFreezeLog
+        freezes={instrumentFreezes}
+        freezeCounts={freezeCounts}
+        frozenInstruments={frozenInstruments}
+      />
+
+      <DataQualityPanel dataQuality={dataQuality} />
+
       {/* Debug Information */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -403,7 +429,7 @@ export function DebugDashboard({
               ticks.slice(0, 10).map((tick, i) => (
                 <div key={tick.id} className="mb-2 pb-2 border-b border-border last:border-b-0">
                   <div className="text-xs">
-                    #{i + 1} - {tick.tradingsymbol || `TOKEN_${tick.instrument_token}`}: ₹{tick.last_price}, Vol:{" "}
+                    #{i + 1} - {tick.tradingsymbol || `TOKEN_${tick.instrument_key}`}: ₹{tick.last_price}, Vol:{" "}
                     {tick.volume}
                   </div>
                   <div className="text-xs text-muted-foreground">Raw: {tick.raw_data}</div>
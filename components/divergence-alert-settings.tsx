@@ -0,0 +1,129 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Save, Split } from "lucide-react"
+import { divergenceAlertConfigSchema, type DivergenceAlertConfig } from "@/hooks/use-divergence-alerts"
+
+interface DivergenceAlertSettingsProps {
+  config: DivergenceAlertConfig
+  divergedCount: number
+  onSave: (config: DivergenceAlertConfig) => void
+}
+
+export function DivergenceAlertSettings({ config, divergedCount, onSave }: DivergenceAlertSettingsProps) {
+  const [draft, setDraft] = useState<DivergenceAlertConfig>(config)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    setDraft(config)
+  }, [config])
+
+  const handleSave = () => {
+    const result = divergenceAlertConfigSchema.safeParse(draft)
+    if (!result.success) {
+      setErrors(result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`))
+      return
+    }
+    setErrors([])
+    onSave(result.data)
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(config)
+  const unit = draft.thresholdType === "absolute" ? "₹" : "%"
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Split className="w-5 h-5" />
+            Divergence Alerts
+            {divergedCount > 0 && <Badge variant="destructive">{divergedCount} diverged</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Alert when Kite and Upstox disagree on a pair&apos;s price for longer than the duration. Saved in this
+            browser.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={!isDirty}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="divergence-enabled"
+              checked={draft.enabled}
+              onCheckedChange={(enabled) => setDraft((prev) => ({ ...prev, enabled }))}
+            />
+            <Label htmlFor="divergence-enabled">Enabled</Label>
+          </div>
+          <div className="space-y-1">
+            <Label>Threshold</Label>
+            <Select
+              value={draft.thresholdType}
+              onValueChange={(value) =>
+                setDraft((prev) => ({ ...prev, thresholdType: value as DivergenceAlertConfig["thresholdType"] }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">Percentage</SelectItem>
+                <SelectItem value="absolute">Absolute (₹)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="divergence-threshold">More than ({unit})</Label>
+            <Input
+              id="divergence-threshold"
+              type="number"
+              step="0.01"
+              min="0"
+              value={draft.threshold}
+              onChange={(e) => setDraft((prev) => ({ ...prev, threshold: Number.parseFloat(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="divergence-duration">For (seconds)</Label>
+            <Input
+              id="divergence-duration"
+              type="number"
+              step="1"
+              min="1"
+              value={draft.duration}
+              onChange={(e) => setDraft((prev) => ({ ...prev, duration: Number.parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="divergence-market-hours"
+              checked={draft.respectMarketHours}
+              onCheckedChange={(respectMarketHours) => setDraft((prev) => ({ ...prev, respectMarketHours }))}
+            />
+            <Label htmlFor="divergence-market-hours">Market hours only</Label>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,95 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Badge } from "@/components/ui/badge"
+import { Split } from "lucide-react"
+import type { DivergenceAlert } from "@/hooks/use-divergence-alerts"
+
+interface DivergenceAlertsLogProps {
+  alerts: DivergenceAlert[]
+}
+
+const priceFormatter = new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Cleared together with the inactivity log, from its Clear Log button
+export function DivergenceAlertsLog({ alerts }: DivergenceAlertsLogProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Split className="w-5 h-5" />
+          Divergence Alert Log
+        </CardTitle>
+        <CardDescription>Pairs whose Kite and Upstox prices disagreed beyond the threshold</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[40vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Pair</TableHead>
+                <TableHead>Kite</TableHead>
+                <TableHead>Upstox</TableHead>
+                <TableHead>Difference</TableHead>
+                <TableHead>Widest</TableHead>
+                <TableHead>Threshold</TableHead>
+                <TableHead>Session</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.length > 0 ? (
+                alerts.map((alert) => (
+                  <TableRow key={alert.id} className="hover:bg-gray-50">
+                    <TableCell className="font-mono text-sm">
+                      {new Date(alert.timestamp).toLocaleString("en-IN", {
+                        timeZone: "Asia/Kolkata",
+                        hour12: false,
+                        month: "short",
+                        day: "2-digit",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{alert.pairLabel}</div>
+                      <div className="text-xs text-gray-500 font-mono">
+                        {alert.kiteKey} ↔ {alert.upstoxKey}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono">₹{priceFormatter.format(alert.kitePrice)}</TableCell>
+                    <TableCell className="font-mono">₹{priceFormatter.format(alert.upstoxPrice)}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      <div className={alert.priceDifference > 0 ? "text-green-600" : "text-red-600"}>
+                        {alert.priceDifference > 0 ? "+" : ""}
+                        {alert.priceDifference.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-gray-500">{alert.percentageDifference.toFixed(3)}%</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{alert.maxPercentageDifference.toFixed(3)}%</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-xs">
+                        {alert.thresholdType === "absolute" ? `₹${alert.threshold}` : `${alert.threshold}%`} for{" "}
+                        {alert.duration}s
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{alert.marketSession}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-gray-500">
+                    No divergence alerts have been triggered yet. Enable them on the Compare tab.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
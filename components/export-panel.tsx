@@ -9,6 +9,8 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Checkbox } from "@/components/ui/checkbox"
 import type { TickData } from "@/hooks/use-tick-data"
+import { fetchTickHistory } from "@/hooks/use-tick-history"
+import { CONFIGURED_FEEDS } from "@/utils/feeds/registry"
 
 interface ExportPanelProps {
   ticks: TickData[]
@@ -17,6 +19,11 @@ interface ExportPanelProps {
 export function ExportPanel({ ticks }: ExportPanelProps) {
   const [exportFormat, setExportFormat] = useState<"csv" | "json" | "pdf">("csv")
   const [dateRange, setDateRange] = useState({ start: "", end: "" })
+  const [dataSource, setDataSource] = useState<"live" | "stored">("live")
+  const [storedFeed, setStoredFeed] = useState("kite")
+  const [storedInstrument, setStoredInstrument] = useState("")
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
   const [includeFields, setIncludeFields] = useState({
     timestamp: true,
     id: true,
@@ -25,11 +32,29 @@ export function ExportPanel({ ticks }: ExportPanelProps) {
     delay: true,
   })
 
-  const handleExport = () => {
+  const handleExport = async () => {
     let filteredTicks = ticks
 
-    // Apply date range filter
-    if (dateRange.start || dateRange.end) {
+    if (dataSource === "stored") {
+      // Whole sessions come from the server-side tick store, already range-filtered
+      setIsExporting(true)
+      setExportError(null)
+      try {
+        filteredTicks = await fetchTickHistory({
+          feed: storedFeed,
+          instrument: storedInstrument,
+          from: dateRange.start || undefined,
+          to: dateRange.end || undefined,
+          limit: 100_000,
+        })
+      } catch (error) {
+        setExportError(String(error))
+        return
+      } finally {
+        setIsExporting(false)
+      }
+    } else if (dateRange.start || dateRange.end) {
+      // Apply date range filter
       filteredTicks = ticks.filter((tick) => {
         const tickDate = new Date(tick.timestamp).toISOString().split("T")[0]
         if (dateRange.start && tickDate < dateRange.start) return false
@@ -215,6 +240,43 @@ export function ExportPanel({ ticks }: ExportPanelProps) {
             </Select>
           </div>
 
+          {/* Data Source */}
+          <div className="space-y-2">
+            <Label>Data Source</Label>
+            <Select value={dataSource} onValueChange={(value: any) => setDataSource(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="live">Live buffer ({ticks.length} ticks in memory)</SelectItem>
+                <SelectItem value="stored">Stored history (whole sessions)</SelectItem>
+              </SelectContent>
+            </Select>
+            {dataSource === "stored" && (
+              <div className="grid grid-cols-3 gap-4">
+                <Select value={storedFeed} onValueChange={setStoredFeed}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFIGURED_FEEDS.map((feed) => (
+                      <SelectItem key={feed.id} value={feed.id}>
+                        {feed.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  placeholder="Instrument key, e.g. 256265"
+                  value={storedInstrument}
+                  onChange={(e) => setStoredInstrument(e.target.value)}
+                />
+              </div>
+            )}
+            {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+          </div>
+
           {/* Date Range */}
           <div className="space-y-2">
             <Label>Date Range (Optional)</Label>
@@ -292,9 +354,16 @@ export function ExportPanel({ ticks }: ExportPanelProps) {
           </div>
 
           {/* Export Button */}
-          <Button onClick={handleExport} className="w-full" size="lg">
+          <Button
+            onClick={handleExport}
+            className="w-full"
+            size="lg"
+            disabled={isExporting || (dataSource === "stored" && !storedInstrument)}
+          >
             <Download className="w-4 h-4 mr-2" />
-            Export {ticks.length} Records as {exportFormat.toUpperCase()}
+            {dataSource === "stored"
+              ? `Export Stored Session as ${exportFormat.toUpperCase()}`
+              : `Export ${ticks.length} Records as ${exportFormat.toUpperCase()}`}
           </Button>
         </CardContent>
       </Card>
@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, RotateCcw, Save, Server, Trash2 } from "lucide-react"
+import type { FeedDefinition, FeedProtocol } from "@/utils/feeds/types"
+import { FEED_FORMATS, FEED_PROTOCOLS, feedDefinitionsSchema } from "@/utils/feeds/registry"
+
+interface FeedSettingsProps {
+  feeds: FeedDefinition[]
+  isCustomized: boolean
+  onSave: (feeds: FeedDefinition[]) => void
+  onReset: () => void
+}
+
+export function FeedSettings({ feeds, isCustomized, onSave, onReset }: FeedSettingsProps) {
+  const [draft, setDraft] = useState<FeedDefinition[]>(feeds)
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    setDraft(feeds)
+  }, [feeds])
+
+  const updateFeed = (index: number, patch: Partial<FeedDefinition>) => {
+    setDraft((prev) => prev.map((feed, i) => (i === index ? { ...feed, ...patch } : feed)))
+  }
+
+  const addFeed = () => {
+    let n = draft.length + 1
+    while (draft.some((feed) => feed.id === `feed-${n}`)) n++
+    setDraft((prev) => [
+      ...prev,
+      { id: `feed-${n}`, name: `Feed ${n}`, url: "", protocol: "sse", adapter: "kite", enabled: true },
+    ])
+  }
+
+  const handleSave = () => {
+    // Instruments are edited as comma-separated text; drop the empty entries that leaves behind
+    const cleaned = draft.map((feed) =>
+      feed.instruments ? { ...feed, instruments: feed.instruments.map((i) => i.trim()).filter(Boolean) } : feed,
+    )
+    const result = feedDefinitionsSchema.safeParse(cleaned)
+    if (!result.success) {
+      setErrors(result.error.issues.map((issue) => `${issue.path.join(".") || "feeds"}: ${issue.message}`))
+      return
+    }
+    setErrors([])
+    onSave(result.data)
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(feeds)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Server className="w-5 h-5" />
+            Feed Endpoints
+            {isCustomized && <Badge variant="outline">Customized</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Feeds the dashboard connects to. Defaults come from NEXT_PUBLIC_FEEDS; changes here are saved in this
+            browser only.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={addFeed}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Feed
+          </Button>
+          <Button variant="outline" size="sm" onClick={onReset} disabled={!isCustomized}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Id</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>URL</TableHead>
+              <TableHead>Protocol</TableHead>
+              <TableHead>Adapter</TableHead>
+              <TableHead>Instruments</TableHead>
+              <TableHead>Enabled</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {draft.map((feed, index) => (
+              <TableRow key={index}>
+                <TableCell className="w-32">
+                  <Input value={feed.id} onChange={(e) => updateFeed(index, { id: e.target.value })} />
+                </TableCell>
+                <TableCell className="w-40">
+                  <Input value={feed.name} onChange={(e) => updateFeed(index, { name: e.target.value })} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={feed.url}
+                    placeholder="https://host/ticks"
+                    onChange={(e) => updateFeed(index, { url: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell className="w-28">
+                  <Select
+                    value={feed.protocol}
+                    onValueChange={(value: FeedProtocol) => updateFeed(index, { protocol: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FEED_PROTOCOLS.map((protocol) => (
+                        <SelectItem key={protocol} value={protocol}>
+                          {protocol.toUpperCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="w-56">
+                  <Select value={feed.adapter} onValueChange={(value) => updateFeed(index, { adapter: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(FEED_FORMATS).map((format) => (
+                        <SelectItem key={format.id} value={format.id}>
+                          {format.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="w-48">
+                  <Input
+                    value={feed.instruments?.join(",") ?? ""}
+                    placeholder={feed.protocol === "websocket" ? "256265,260105" : "WebSocket only"}
+                    disabled={feed.protocol !== "websocket"}
+                    onChange={(e) =>
+                      updateFeed(index, { instruments: e.target.value ? e.target.value.split(",") : undefined })
+                    }
+                  />
+                </TableCell>
+                <TableCell>
+                  <Switch checked={feed.enabled} onCheckedChange={(enabled) => updateFeed(index, { enabled })} />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft((prev) => prev.filter((_, i) => i !== index))}
+                    title="Remove feed"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {errors.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,67 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { useFeed } from "@/hooks/use-feed"
+import { useInactivityAlerts } from "@/hooks/use-inactivity-alerts"
+import { useAlertRules } from "@/hooks/use-alert-rules"
+import { useInstrumentResolver } from "@/hooks/use-instrument-master"
+import type { FeedAdapter, FeedDefinition } from "@/utils/feeds/types"
+
+export interface FeedState extends ReturnType<typeof useFeed> {
+  definition: FeedDefinition
+  adapter: FeedAdapter
+  inactivity: ReturnType<typeof useInactivityAlerts>
+  rules: ReturnType<typeof useAlertRules>
+}
+
+export interface RunnableFeed {
+  definition: FeedDefinition
+  adapter: FeedAdapter // Live or replay adapter for this feed
+}
+
+interface FeedsProviderProps {
+  feeds: RunnableFeed[]
+  children: (feeds: FeedState[]) => ReactNode
+}
+
+// Runs useFeed, useInactivityAlerts, useAlertRules and instrument lookups for
+// every configured feed. Hooks can't be called in a loop, so each feed gets its
+// own nested component and passes the accumulated states down until the last
+// one renders the children.
+export function FeedsProvider({ feeds, children }: FeedsProviderProps) {
+  return <FeedLink feeds={feeds} index={0} states={[]} render={children} />
+}
+
+interface FeedLinkProps {
+  feeds: RunnableFeed[]
+  index: number
+  states: FeedState[]
+  render: (feeds: FeedState[]) => ReactNode
+}
+
+function FeedLink({ feeds, index, states, render }: FeedLinkProps) {
+  if (index >= feeds.length) return <>{render(states)}</>
+
+  // Keyed by feed id so a removed or reordered feed never inherits another's state.
+  // Adapter changes (settings, live <-> replay) are handled by useFeed itself and keep
+  // the feed's alert configurations.
+  return <FeedRunner key={feeds[index].definition.id} feeds={feeds} index={index} states={states} render={render} />
+}
+
+function FeedRunner({ feeds, index, states, render }: FeedLinkProps) {
+  const { definition, adapter } = feeds[index]
+  const feed = useFeed(adapter)
+  const inactivity = useInactivityAlerts(feed.ticks, adapter.id)
+  const rules = useAlertRules(feed.ticks, adapter.id, feed.quarantinedTicks)
+  // Re-renders the dashboard once names for this feed's instruments arrive
+  useInstrumentResolver(feed.ticks)
+
+  return (
+    <FeedLink
+      feeds={feeds}
+      index={index + 1}
+      states={[...states, { ...feed, definition, adapter, inactivity, rules }]}
+      render={render}
+    />
+  )
+}
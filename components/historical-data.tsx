@@ -1,14 +1,17 @@
 "use client"
 
 import { useState, useMemo } from "react"
-import { Calendar, Filter, Search } from "lucide-react"
+import { Calendar, Database, Filter, Search } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import type { TickData } from "@/hooks/use-tick-data"
+import { useTickHistory } from "@/hooks/use-tick-history"
+import { CONFIGURED_FEEDS } from "@/utils/feeds/registry"
 
 interface HistoricalDataProps {
   ticks: TickData[]
@@ -18,9 +21,25 @@ export function HistoricalData({ ticks }: HistoricalDataProps) {
   const [searchTerm, setSearchTerm] = useState("")
   const [dateFilter, setDateFilter] = useState("")
   const [delayFilter, setDelayFilter] = useState<"all" | "high" | "normal">("all")
+  const [sessionFeed, setSessionFeed] = useState("kite")
+  const [sessionInstrument, setSessionInstrument] = useState("")
+  const history = useTickHistory()
+
+  // Once a stored session is loaded it replaces the live in-memory buffer
+  const sourceTicks = history.ticks.length > 0 ? history.ticks : ticks
+
+  const loadSession = () => {
+    if (!sessionInstrument) return
+    history.load({
+      feed: sessionFeed,
+      instrument: sessionInstrument,
+      from: dateFilter || undefined,
+      to: dateFilter || undefined,
+    })
+  }
 
   const filteredTicks = useMemo(() => {
-    return ticks
+    return sourceTicks
       .filter((tick) => {
         // Date filter
         if (dateFilter) {
@@ -32,10 +51,15 @@ export function HistoricalData({ ticks }: HistoricalDataProps) {
         if (delayFilter === "high" && tick.delay <= 1000) return false
         if (delayFilter === "normal" && tick.delay > 1000) return false
 
-        // Search term (search in tick ID or value)
+        // Search term (search in tick ID, instrument or price)
         if (searchTerm) {
           const searchLower = searchTerm.toLowerCase()
-          if (!tick.id.toLowerCase().includes(searchLower) && !tick.value.toString().includes(searchTerm)) {
+          if (
+            !tick.id.toLowerCase().includes(searchLower) &&
+            !tick.instrument_key.toLowerCase().includes(searchLower) &&
+            !(tick.tradingsymbol ?? "").toLowerCase().includes(searchLower) &&
+            !tick.last_price.toString().includes(searchTerm)
+          ) {
             return false
           }
         }
@@ -43,7 +67,7 @@ export function HistoricalData({ ticks }: HistoricalDataProps) {
         return true
       })
       .slice(0, 100) // Limit to 100 results for performance
-  }, [ticks, searchTerm, dateFilter, delayFilter])
+  }, [sourceTicks, searchTerm, dateFilter, delayFilter])
 
   return (
     <Card>
@@ -52,6 +76,44 @@ export function HistoricalData({ ticks }: HistoricalDataProps) {
         <CardDescription>Browse and analyze historical tick data with filtering options</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Stored Session */}
+        <div className="flex flex-wrap items-end gap-4 p-3 border rounded-lg bg-muted/40">
+          <div>
+            <Label>Feed</Label>
+            <Select value={sessionFeed} onValueChange={setSessionFeed}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONFIGURED_FEEDS.map((feed) => (
+                  <SelectItem key={feed.id} value={feed.id}>
+                    {feed.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <Label htmlFor="session-instrument">Instrument</Label>
+            <Input
+              id="session-instrument"
+              placeholder="e.g. 256265 or NSE_EQ|INE257A01026"
+              value={sessionInstrument}
+              onChange={(e) => setSessionInstrument(e.target.value)}
+            />
+          </div>
+          <Button onClick={loadSession} disabled={!sessionInstrument || history.isLoading}>
+            <Database className="w-4 h-4 mr-2" />
+            {history.isLoading ? "Loading..." : "Load Stored Session"}
+          </Button>
+          {history.ticks.length > 0 && (
+            <Button variant="outline" onClick={history.clear}>
+              Back to Live
+            </Button>
+          )}
+          {history.error && <p className="w-full text-sm text-red-600">{history.error}</p>}
+        </div>
+
         {/* Filters */}
         <div className="flex flex-wrap gap-4">
           <div className="flex-1 min-w-[200px]">
@@ -113,7 +175,7 @@ export function HistoricalData({ ticks }: HistoricalDataProps) {
         {/* Results Summary */}
         <div className="flex items-center justify-between">
           <p className="text-sm text-muted-foreground">
-            Showing {filteredTicks.length} of {ticks.length} ticks
+            Showing {filteredTicks.length} of {sourceTicks.length} {history.ticks.length > 0 ? "stored" : "live"} ticks
           </p>
           <Button variant="outline" size="sm">
             <Filter className="w-4 h-4 mr-2" />
@@ -143,7 +205,7 @@ export function HistoricalData({ ticks }: HistoricalDataProps) {
                       hour12: false,
                     })}
                   </TableCell>
-                  <TableCell className="font-mono text-sm">{tick.instrument_token}</TableCell>
+                  <TableCell className="font-mono text-sm">{tick.instrument_key}</TableCell>
                   <TableCell>{tick.last_price.toFixed(2)}</TableCell>
                   <TableCell>{tick.volume.toLocaleString()}</TableCell>
                   <TableCell>
@@ -0,0 +1,60 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { BellOff, Check, Clock } from "lucide-react"
+import type { TrackedInactivityAlert } from "@/hooks/use-inactivity-alerts"
+import { ALERT_STATES, describeLifecycle, SNOOZE_MINUTES } from "@/utils/alert-lifecycle"
+
+interface InactivityAlertBannerProps {
+  alert?: TrackedInactivityAlert // The instrument's unresolved alert
+  onAcknowledge?: () => void
+  onSnooze?: (minutes: number) => void
+}
+
+// Top of an instrument card while it is inactive, with the alert's state and
+// the buttons to silence it
+export function InactivityAlertBanner({ alert, onAcknowledge, onSnooze }: InactivityAlertBannerProps) {
+  const escalated = alert?.state === "escalated"
+
+  return (
+    <div
+      className={`flex items-center gap-2 p-2 rounded-lg border ${
+        escalated ? "bg-red-100 border-red-300" : "bg-orange-100 border-orange-200"
+      }`}
+    >
+      <Clock className={`w-4 h-4 ${escalated ? "text-red-600" : "text-orange-600"}`} />
+      <div className="flex-1 min-w-0">
+        <span className={`text-sm font-medium ${escalated ? "text-red-800" : "text-orange-800"}`}>
+          Price Inactivity Alert!
+        </span>
+        {alert && alert.state !== "open" && (
+          <div className="text-xs text-gray-600 truncate">
+            {ALERT_STATES[alert.state].label} {describeLifecycle(alert)}
+          </div>
+        )}
+      </div>
+      {alert && onAcknowledge && alert.state !== "acknowledged" && (
+        <Button size="sm" variant="outline" className="h-7 px-2 bg-white" onClick={onAcknowledge}>
+          <Check className="w-3 h-3 mr-1" />
+          Ack
+        </Button>
+      )}
+      {alert && onSnooze && (
+        <Select value="" onValueChange={(minutes) => onSnooze(Number(minutes))}>
+          <SelectTrigger className="h-7 w-auto px-2 bg-white text-xs gap-1">
+            <BellOff className="w-3 h-3" />
+            <SelectValue placeholder="Snooze" />
+          </SelectTrigger>
+          <SelectContent>
+            {SNOOZE_MINUTES.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes} min
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
@@ -5,15 +5,37 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { History, X, TrendingUp, TrendingDown, Minus } from "lucide-react"
-import type { InactivityAlert } from "@/hooks/use-inactivity-alerts"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { History, X, TrendingUp, TrendingDown, Minus, Check } from "lucide-react"
+import type { InactivityAlert, TrackedInactivityAlert } from "@/hooks/use-inactivity-alerts"
+import { SILENCE_PERCENTILE } from "@/utils/tick-rate-profile"
+import {
+  ALERT_STATES,
+  describeLifecycle,
+  isLive,
+  SNOOZE_MINUTES,
+  type AlertLifecycleSettings,
+} from "@/utils/alert-lifecycle"
 
 interface InactivityAlertsLogProps {
-  alerts: InactivityAlert[]
+  alerts: TrackedInactivityAlert[]
   onClearAlerts: () => void
+  onAcknowledge: (alert: TrackedInactivityAlert) => void
+  onSnooze: (alert: TrackedInactivityAlert, minutes: number) => void
+  lifecycleSettings: AlertLifecycleSettings
+  onLifecycleSettingsChange: (changes: Partial<AlertLifecycleSettings>) => void
 }
 
-export function InactivityAlertsLog({ alerts, onClearAlerts }: InactivityAlertsLogProps) {
+export function InactivityAlertsLog({
+  alerts,
+  onClearAlerts,
+  onAcknowledge,
+  onSnooze,
+  lifecycleSettings,
+  onLifecycleSettingsChange,
+}: InactivityAlertsLogProps) {
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-IN", {
       minimumFractionDigits: 2,
@@ -35,6 +57,7 @@ export function InactivityAlertsLog({ alerts, onClearAlerts }: InactivityAlertsL
   }
 
   const getAlertSeverity = (alert: InactivityAlert) => {
+    if (alert.mode === "adaptive") return "high" // Already beyond nearly every silence seen before
     const priceRange = alert.priceRange.max - alert.priceRange.min
     if (priceRange < alert.deviation * 0.5) return "high" // Very little movement
     if (priceRange < alert.deviation * 0.8) return "medium" // Some movement but within threshold
@@ -82,10 +105,39 @@ export function InactivityAlertsLog({ alerts, onClearAlerts }: InactivityAlertsL
             Detailed log of all triggered price inactivity alerts with actual price information
           </CardDescription>
         </div>
-        <Button variant="outline" size="sm" onClick={onClearAlerts} disabled={alerts.length === 0}>
-          <X className="w-4 h-4 mr-2" />
-          Clear Log ({alerts.length})
-        </Button>
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="alert-operator" className="text-xs">
+              Your name
+            </Label>
+            <Input
+              id="alert-operator"
+              className="h-8 w-40"
+              placeholder="Recorded on ack"
+              value={lifecycleSettings.operator}
+              onChange={(e) => onLifecycleSettingsChange({ operator: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="alert-escalate-after" className="text-xs">
+              Escalate after (min)
+            </Label>
+            <Input
+              id="alert-escalate-after"
+              className="h-8 w-24"
+              type="number"
+              min="1"
+              value={lifecycleSettings.escalateAfterMinutes}
+              onChange={(e) =>
+                onLifecycleSettingsChange({ escalateAfterMinutes: Math.max(1, Number.parseInt(e.target.value) || 1) })
+              }
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={onClearAlerts} disabled={alerts.length === 0}>
+            <X className="w-4 h-4 mr-2" />
+            Clear Log ({alerts.length})
+          </Button>
+        </div>
       </CardHeader>
       <CardContent>
         <ScrollArea className="h-[60vh]">
@@ -100,6 +152,8 @@ export function InactivityAlertsLog({ alerts, onClearAlerts }: InactivityAlertsL
                 <TableHead>Duration</TableHead>
                 <TableHead>Threshold</TableHead>
                 <TableHead>Severity</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -153,14 +207,51 @@ export function InactivityAlertsLog({ alerts, onClearAlerts }: InactivityAlertsL
                           {alert.duration}s
                         </Badge>
                       </TableCell>
-                      <TableCell className="font-mono text-sm">±{alert.deviation.toFixed(2)}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {alert.mode === "adaptive" ? `Silence > p${SILENCE_PERCENTILE}` : `±${alert.deviation.toFixed(2)}`}
+                      </TableCell>
                       <TableCell>{getSeverityBadge(severity)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`text-xs ${ALERT_STATES[alert.state].className}`}>
+                          {ALERT_STATES[alert.state].label}
+                        </Badge>
+                        <div className="text-xs text-gray-500 mt-1">{describeLifecycle(alert)}</div>
+                      </TableCell>
+                      <TableCell>
+                        {isLive(alert) && (
+                          <div className="flex items-center gap-1">
+                            {alert.state !== "acknowledged" && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7 px-2"
+                                onClick={() => onAcknowledge(alert)}
+                              >
+                                <Check className="w-3 h-3 mr-1" />
+                                Ack
+                              </Button>
+                            )}
+                            <Select value="" onValueChange={(minutes) => onSnooze(alert, Number(minutes))}>
+                              <SelectTrigger className="h-7 w-24 text-xs">
+                                <SelectValue placeholder="Snooze" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {SNOOZE_MINUTES.map((minutes) => (
+                                  <SelectItem key={minutes} value={String(minutes)}>
+                                    {minutes} min
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                      </TableCell>
                     </TableRow>
                   )
                 })
               ) : (
                 <TableRow>
-                  <TableCell colSpan={8} className="h-24 text-center">
+                  <TableCell colSpan={10} className="h-24 text-center">
                     <div className="flex flex-col items-center gap-2 text-gray-500">
                       <History className="w-8 h-8" />
                       <p>No inactivity alerts have been triggered yet.</p>
@@ -189,6 +280,11 @@ export function InactivityAlertsLog({ alerts, onClearAlerts }: InactivityAlertsL
               <div>
                 <strong>Severity:</strong> Based on how little the price actually moved within the threshold
               </div>
+              <div>
+                <strong>Status:</strong> Open alerts sound until acknowledged, snoozed or resolved by the instrument
+                ticking again. Open alerts left for the escalation time are escalated with a higher tone. Snoozed
+                alerts sound again when the snooze ends.
+              </div>
             </div>
           </div>
         )}
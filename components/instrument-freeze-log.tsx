@@ -0,0 +1,87 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Badge } from "@/components/ui/badge"
+import { Snowflake } from "lucide-react"
+import { formatDuration } from "@/utils/feeds/latency"
+import type { InstrumentFreeze } from "@/utils/freeze-detector"
+
+interface InstrumentFreezeLogProps {
+  freezes: InstrumentFreeze[]
+  freezeCounts: Record<string, number>
+  frozenInstruments: Set<string>
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour12: false })
+
+export function InstrumentFreezeLog({ freezes, freezeCounts, frozenInstruments }: InstrumentFreezeLogProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Snowflake className="w-5 h-5" />
+          Instrument Freezes
+          {frozenInstruments.size > 0 && <Badge variant="destructive">{frozenInstruments.size} frozen</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Instruments that stopped ticking while their market was open, even though the rest of the feed kept
+          streaming. Allowed silence depends on the market type.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[40vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Instrument</TableHead>
+                <TableHead>Market</TableHead>
+                <TableHead>Last Tick</TableHead>
+                <TableHead>Detected</TableHead>
+                <TableHead>Threshold</TableHead>
+                <TableHead>Quiet For</TableHead>
+                <TableHead>Incidents</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {freezes.length > 0 ? (
+                freezes.map((freeze) => (
+                  <TableRow key={freeze.id} className={freeze.resumedAt === null ? "bg-sky-50" : ""}>
+                    <TableCell>
+                      <div className="font-medium">{freeze.instrumentName}</div>
+                      <div className="text-xs text-gray-500 font-mono">{freeze.instrumentKey}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {freeze.marketType} · {freeze.marketSession}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{formatTime(freeze.lastTickAt)}</TableCell>
+                    <TableCell className="font-mono text-sm">{formatTime(freeze.detectedAt)}</TableCell>
+                    <TableCell className="font-mono text-sm">{formatDuration(freeze.threshold)}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {freeze.resumedAt === null ? (
+                        <Badge variant="outline" className="text-xs text-sky-700 border-sky-300">
+                          Still frozen
+                        </Badge>
+                      ) : (
+                        formatDuration(freeze.resumedAt - freeze.lastTickAt)
+                      )}
+                    </TableCell>
+                    <TableCell>{freezeCounts[freeze.instrumentKey] ?? 0}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center text-gray-500">
+                    No instrument has frozen while its market was open.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
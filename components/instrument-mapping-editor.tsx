@@ -0,0 +1,213 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Link2, Plus, RotateCcw, Search, Trash2 } from "lucide-react"
+import { getInstrumentMaster } from "@/utils/instrument-master"
+import { instrumentPairsSchema, pairId, type InstrumentPair } from "@/utils/instrument-pairs"
+
+interface InstrumentMappingEditorProps {
+  pairs: InstrumentPair[]
+  isCustomized: boolean
+  onAdd: (pair: InstrumentPair) => void
+  onRemove: (pair: InstrumentPair) => void
+  onReset: () => void
+}
+
+const EMPTY_PAIR: InstrumentPair = { label: "", kiteKey: "", upstoxKey: "" }
+
+export function InstrumentMappingEditor({
+  pairs,
+  isCustomized,
+  onAdd,
+  onRemove,
+  onReset,
+}: InstrumentMappingEditorProps) {
+  const [draft, setDraft] = useState<InstrumentPair>(EMPTY_PAIR)
+  const [errors, setErrors] = useState<string[]>([])
+  const [query, setQuery] = useState("")
+  const [suggestions, setSuggestions] = useState<InstrumentPair[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const master = getInstrumentMaster()
+
+  const addPair = (pair: InstrumentPair) => {
+    const result = instrumentPairsSchema.safeParse([...pairs, pair])
+    if (!result.success) {
+      setErrors(result.error.issues.map((issue) => issue.message))
+      return false
+    }
+    setErrors([])
+    onAdd(pair)
+    return true
+  }
+
+  const handleAdd = () => {
+    const kiteKey = draft.kiteKey.trim()
+    if (addPair({ label: draft.label.trim() || kiteKey, kiteKey, upstoxKey: draft.upstoxKey.trim() })) {
+      setDraft(EMPTY_PAIR)
+    }
+  }
+
+  const handleSuggest = async () => {
+    if (!query.trim()) return
+    setIsSearching(true)
+    try {
+      const response = await fetch(`/api/instruments/pairs?q=${encodeURIComponent(query.trim())}`)
+      if (!response.ok) throw new Error(`Suggestion request failed with ${response.status}`)
+      const body = await response.json()
+      setSuggestions(body.pairs)
+      setErrors([])
+    } catch (error) {
+      setErrors([String(error)])
+      setSuggestions(null)
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const describe = (key: string) => {
+    const record = master.get(key)
+    return record ? `${record.tradingsymbol} · ${record.segment}` : "Not in instrument master"
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5" />
+            Instrument Pairs
+            <Badge variant="outline">{pairs.length}</Badge>
+            {isCustomized && <Badge variant="outline">Customized</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Exact Kite token to Upstox instrument key pairs compared above. Saved in this browser.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onReset} disabled={!isCustomized}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Suggestions from the loaded instrument dumps */}
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              placeholder="Symbol or ISIN, e.g. RELIANCE or INE002A01018"
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSuggest()}
+            />
+            <Button variant="outline" onClick={handleSuggest} disabled={isSearching || !query.trim()}>
+              <Search className="w-4 h-4 mr-2" />
+              {isSearching ? "Searching..." : "Suggest"}
+            </Button>
+          </div>
+          {suggestions && suggestions.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No pairs found. Suggestions need both brokers&apos; instrument dumps on the server.
+            </p>
+          )}
+          {suggestions && suggestions.length > 0 && (
+            <div className="space-y-1">
+              {suggestions.map((suggestion) => (
+                <div
+                  key={pairId(suggestion)}
+                  className="flex items-center justify-between text-sm bg-gray-50 rounded px-3 py-2"
+                >
+                  <span>
+                    <span className="font-medium">{suggestion.label}</span>
+                    <span className="text-gray-500">
+                      {" "}
+                      {suggestion.kiteKey} ↔ {suggestion.upstoxKey}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => addPair(suggestion)}
+                    disabled={pairs.some((pair) => pairId(pair) === pairId(suggestion))}
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Label</TableHead>
+              <TableHead>Kite Token</TableHead>
+              <TableHead>Upstox Instrument Key</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pairs.map((pair) => (
+              <TableRow key={pairId(pair)}>
+                <TableCell className="font-medium">{pair.label}</TableCell>
+                <TableCell>
+                  <div className="font-mono text-sm">{pair.kiteKey}</div>
+                  <div className="text-xs text-gray-500">{describe(pair.kiteKey)}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="font-mono text-sm">{pair.upstoxKey}</div>
+                  <div className="text-xs text-gray-500">{describe(pair.upstoxKey)}</div>
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => onRemove(pair)} title="Remove pair">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell>
+                <Input
+                  value={draft.label}
+                  placeholder="Label"
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={draft.kiteKey}
+                  placeholder="738561"
+                  onChange={(e) => setDraft({ ...draft, kiteKey: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={draft.upstoxKey}
+                  placeholder="NSE_EQ|INE002A01018"
+                  onChange={(e) => setDraft({ ...draft, upstoxKey: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Button size="sm" onClick={handleAdd} disabled={!draft.kiteKey.trim() || !draft.upstoxKey.trim()}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {errors.length > 0 && (
+          <div className="text-sm text-red-600 space-y-1">
+            {errors.map((error) => (
+              <p key={error}>{error}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { Button } from "@/components/ui/button"
+import { Timer, RotateCcw } from "lucide-react"
+import type { PairLeadLag } from "@/hooks/use-lead-lag"
+import { pairId } from "@/utils/instrument-pairs"
+import { lagHistogram } from "@/utils/lead-lag"
+
+interface LeadLagPanelProps {
+  results: PairLeadLag[]
+  onReset: () => void
+}
+
+const chartConfig = {
+  count: {
+    label: "Matched changes",
+    color: "hsl(var(--chart-1))",
+  },
+  lag: {
+    label: "Upstox lag (ms)",
+    color: "hsl(var(--chart-2))",
+  },
+}
+
+const formatLag = (lag: number) => `${lag > 0 ? "+" : ""}${Math.round(lag)}ms`
+
+export function LeadLagPanel({ results, onReset }: LeadLagPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const selected =
+    results.find((result) => pairId(result.pair) === selectedId) ?? results.find((result) => result.stats)
+
+  const histogram = useMemo(
+    () => lagHistogram(selected?.samples ?? []).map((bin) => ({ ...bin, range: `${bin.from}` })),
+    [selected],
+  )
+
+  const series = useMemo(
+    () =>
+      (selected?.samples ?? []).map((sample) => ({
+        time: new Date(sample.time).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour12: false }),
+        lag: sample.lag,
+      })),
+    [selected],
+  )
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="w-5 h-5" />
+            Lead / Lag
+          </CardTitle>
+          <CardDescription>
+            How long Upstox delivered the same price change after Kite (negative: Upstox was first). Changes are
+            matched by price and exchange timestamp within 5s of each other.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onReset}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead>Matched</TableHead>
+              <TableHead>p50</TableHead>
+              <TableHead>p95</TableHead>
+              <TableHead>p99</TableHead>
+              <TableHead>Mean</TableHead>
+              <TableHead>Kite First</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map(({ pair, stats }) => (
+              <TableRow
+                key={pairId(pair)}
+                onClick={() => setSelectedId(pairId(pair))}
+                className={`cursor-pointer ${selected?.pair === pair ? "bg-blue-50" : ""}`}
+              >
+                <TableCell className="font-medium">{pair.label}</TableCell>
+                <TableCell>{stats?.count ?? 0}</TableCell>
+                <TableCell className="font-mono">{stats ? formatLag(stats.p50) : "-"}</TableCell>
+                <TableCell className="font-mono">{stats ? formatLag(stats.p95) : "-"}</TableCell>
+                <TableCell className="font-mono">{stats ? formatLag(stats.p99) : "-"}</TableCell>
+                <TableCell className="font-mono">{stats ? formatLag(stats.mean) : "-"}</TableCell>
+                <TableCell>{stats ? `${(stats.kiteLeadShare * 100).toFixed(0)}%` : "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {selected && selected.samples.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium mb-2">{selected.pair.label}: lag distribution (50ms bins)</h4>
+              <ChartContainer config={chartConfig} className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={histogram}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="range" tick={{ fontSize: 12 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="count" fill="var(--color-count)" name="Matched changes" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-2">{selected.pair.label}: lag over time</h4>
+              <ChartContainer config={chartConfig} className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={series}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="time" tick={{ fontSize: 12 }} minTickGap={40} />
+                    <YAxis tick={{ fontSize: 12 }} />
+                    <ReferenceLine y={0} stroke="#9ca3af" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line
+                      type="monotone"
+                      dataKey="lag"
+                      stroke="var(--color-lag)"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </ChartContainer>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No matched price changes yet. Both feeds need to stream the same pairs.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,58 +4,35 @@ import { useMemo, useEffect, useState, memo, useRef } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { TrendingUp, TrendingDown, Minus, ChevronDown, Clock, Settings } from "lucide-react"
+import { TrendingUp, TrendingDown, Minus, ChevronDown, Settings, Snowflake } from "lucide-react"
 import type { TickData } from "@/hooks/use-tick-data"
 import { getCurrentMarketStatus, getMarketTypeForInstrument } from "@/utils/market-timings"
+import { getInstrumentName, getExchange, getInstrumentRecord } from "@/utils/instruments"
 import { calculatePriceTrend, calculateDayTrend } from "@/utils/price-trends"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { MiniPriceChart } from "./mini-price-chart"
 import { SymbolAlertSettingsDialog } from "./symbol-alert-settings-dialog"
-import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { InactivityAlertBanner } from "./inactivity-alert-banner"
+import type { InactivityAlertConfig, TrackedInactivityAlert } from "@/hooks/use-inactivity-alerts"
+import { isSounding } from "@/utils/alert-lifecycle"
+import { DEFAULT_TIMING_THRESHOLDS, formatDuration, timingColor, type TimingThresholds } from "@/utils/feeds/latency"
 
 // --- Helper functions ---
-export const getInstrumentName = (tick: TickData) => {
-  if (tick.tradingsymbol) return tick.tradingsymbol
-  const tokenMap: Record<number, string> = {
-    256265: "NIFTY",
-    265: "SENSEX",
-    128083204: "RELIANCE",
-    281836549: "BHEL",
-    408065: "USDINR",
-    134657: "CRUDEOIL",
-  }
-  return tokenMap[tick.instrument_token] || `TOKEN_${tick.instrument_token}`
-}
+export { getInstrumentName, getExchange } from "@/utils/instruments"
 
-export const getExchange = (tick: TickData) => {
-  const name = getInstrumentName(tick)
-  const marketType = getMarketTypeForInstrument(name)
-  switch (marketType) {
-    case "currency":
-      return "CDS"
-    case "commodity":
-      return "MCX"
-    default:
-      if (name.includes("NIFTY")) return "NFO"
-      if (name.includes("SENSEX")) return "BFO"
-      return "NSE"
-  }
-}
-
-const formatDelay = (delay: number) => {
-  if (delay === 0) return "N/A"
-  if (delay < 1000) return `${delay}ms`
-  if (delay < 60000) return `${(delay / 1000).toFixed(1)}s`
-  return `${(delay / 60000).toFixed(1)}m`
-}
 
 interface MarketDataGridProps {
   ticks: TickData[]
-  inactiveSymbols: Set<number>
-  alertConfigurations: Map<number, InactivityAlertConfig>
-  onConfigurationChange: (token: number, config: InactivityAlertConfig) => void
+  inactiveSymbols: Set<string>
+  frozenSymbols?: Set<string> // Instruments that stopped ticking while their market is open
+  alertConfigurations: Map<string, InactivityAlertConfig>
+  onConfigurationChange: (token: string, config: InactivityAlertConfig) => void
+  liveAlerts?: Map<string, TrackedInactivityAlert> // Unresolved inactivity alerts, by instrument key
+  onAcknowledgeAlert?: (token: string) => void
+  onSnoozeAlert?: (token: string, minutes: number) => void
+  thresholds?: TimingThresholds // Latency and inter-tick interval limits for colouring
 }
 
 interface InstrumentData extends TickData {
@@ -133,8 +110,13 @@ const InstrumentCard = memo(function InstrumentCard({
   onShowTrades,
   allTicks,
   isInactive,
+  isFrozen,
+  liveAlert,
+  onAcknowledge,
+  onSnooze,
   alertConfig,
   onAlertConfigChange,
+  thresholds,
 }: {
   instrument: InstrumentData
   instrumentTickCount: number
@@ -142,12 +124,18 @@ const InstrumentCard = memo(function InstrumentCard({
   onShowTrades: () => void
   allTicks: TickData[]
   isInactive: boolean
+  isFrozen: boolean
+  liveAlert?: TrackedInactivityAlert
+  onAcknowledge?: () => void
+  onSnooze?: (minutes: number) => void
   alertConfig?: InactivityAlertConfig
   onAlertConfigChange: (config: InactivityAlertConfig) => void
+  thresholds: TimingThresholds
 }) {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const name = getInstrumentName(instrument)
   const exchange = getExchange(instrument)
+  const record = getInstrumentRecord(instrument)
   const { trend, dayTrend, marketStatus } = instrument
   const displayTrend = dayTrend.change !== 0 ? dayTrend : trend
 
@@ -162,19 +150,30 @@ const InstrumentCard = memo(function InstrumentCard({
     new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(price)
 
   const cardClassName = `bg-white border transition-all duration-500 hover:shadow-lg ${
-    isInactive
-      ? "border-orange-500 bg-orange-50 shadow-orange-200 shadow-lg ring-2 ring-orange-400 animate-pulse"
-      : "border-gray-200"
+    isFrozen
+      ? "border-sky-500 bg-sky-50 shadow-sky-200 shadow-lg ring-2 ring-sky-400"
+      : isInactive
+        ? `border-orange-500 bg-orange-50 shadow-orange-200 shadow-lg ring-2 ring-orange-400 ${
+            liveAlert && !isSounding(liveAlert) ? "" : "animate-pulse"
+          }`
+        : "border-gray-200"
   }`
 
   return (
     <>
       <Card className={cardClassName}>
         <CardContent className="p-4 space-y-4">
-          {isInactive && (
-            <div className="flex items-center gap-2 p-2 bg-orange-100 border border-orange-200 rounded-lg">
-              <Clock className="w-4 h-4 text-orange-600" />
-              <span className="text-sm font-medium text-orange-800">Price Inactivity Alert!</span>
+          {isInactive && <InactivityAlertBanner alert={liveAlert} onAcknowledge={onAcknowledge} onSnooze={onSnooze} />}
+          {isFrozen && (
+            <div className="flex items-center gap-2 p-2 bg-sky-100 border border-sky-200 rounded-lg">
+              <Snowflake className="w-4 h-4 text-sky-600" />
+              <span className="text-sm font-medium text-sky-800">
+                No ticks since{" "}
+                {new Date(instrument.receivedAt).toLocaleTimeString("en-IN", {
+                  timeZone: "Asia/Kolkata",
+                  hour12: false,
+                })}
+              </span>
             </div>
           )}
 
@@ -185,6 +184,11 @@ const InstrumentCard = memo(function InstrumentCard({
               <Badge variant="secondary" className="text-xs font-medium bg-gray-100 text-gray-700">
                 {exchange}
               </Badge>
+              {record?.expiry && (
+                <span className="text-xs text-gray-500">
+                  {record.expiry} · Lot {record.lotSize}
+                </span>
+              )}
               <Badge
                 variant={marketStatus.session === "Open" ? "default" : "secondary"}
                 className={`text-xs font-medium ${
@@ -244,7 +248,7 @@ const InstrumentCard = memo(function InstrumentCard({
           <div className="-mx-4 px-0.5 pr-0 w-full my-0 mx-px pl-0">
             <MiniPriceChart
               ticks={allTicks}
-              instrumentToken={instrument.instrument_token}
+              instrumentKey={instrument.instrument_key}
               height={80}
               className="mb-2"
             />
@@ -269,17 +273,15 @@ const InstrumentCard = memo(function InstrumentCard({
               <span className="font-medium">{instrumentTickCount}</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-gray-500">Delay</span>
-              <span
-                className={`font-medium ${
-                  instrument.delay > 1000
-                    ? "text-red-600"
-                    : instrument.delay > 500
-                      ? "text-yellow-600"
-                      : "text-green-600"
-                }`}
-              >
-                {formatDelay(instrument.delay)}
+              <span className="text-gray-500">Latency</span>
+              <span className={`font-medium ${timingColor(instrument.latency, thresholds.latency)}`}>
+                {formatDuration(instrument.latency)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Interval</span>
+              <span className={`font-medium ${timingColor(instrument.delay, thresholds.interval)}`}>
+                {formatDuration(instrument.delay)}
               </span>
             </div>
             <div className="flex justify-between">
@@ -316,13 +318,18 @@ const InstrumentCard = memo(function InstrumentCard({
 export function MarketDataGrid({
   ticks,
   inactiveSymbols,
+  frozenSymbols,
   alertConfigurations,
   onConfigurationChange,
+  liveAlerts,
+  onAcknowledgeAlert,
+  onSnoozeAlert,
+  thresholds = DEFAULT_TIMING_THRESHOLDS,
 }: MarketDataGridProps) {
   const [currentTime, setCurrentTime] = useState(new Date())
-  const [previousPrices, setPreviousPrices] = useState<Record<number, number>>({})
+  const [previousPrices, setPreviousPrices] = useState<Record<string, number>>({})
   const [selectedInstrument, setSelectedInstrument] = useState<InstrumentData | null>(null)
-  const stableInstrumentOrder = useRef<number[]>([])
+  const stableInstrumentOrder = useRef<string[]>([])
 
   useEffect(() => {
     const interval = setInterval(() => setCurrentTime(new Date()), 60000)
@@ -330,18 +337,18 @@ export function MarketDataGrid({
   }, [])
 
   const instrumentData = useMemo(() => {
-    const grouped = new Map<number, TickData>()
+    const grouped = new Map<string, TickData>()
     const recentTicks = ticks.slice(0, 100)
     for (const tick of recentTicks) {
-      const key = tick.instrument_token
+      const key = tick.instrument_key
       if (!grouped.has(key) || tick.receivedAt > grouped.get(key)!.receivedAt) {
         grouped.set(key, tick)
       }
     }
     const validInstruments = Array.from(grouped.values()).filter((tick) => tick.last_price > 0)
-    const currentTokens = validInstruments.map((tick) => tick.instrument_token)
+    const currentTokens = validInstruments.map((tick) => tick.instrument_key)
     if (stableInstrumentOrder.current.length === 0) {
-      stableInstrumentOrder.current = currentTokens.sort((a, b) => a - b).slice(0, 6)
+      stableInstrumentOrder.current = currentTokens.sort((a, b) => Number(a) - Number(b)).slice(0, 6)
     } else {
       const newTokens = currentTokens.filter((token) => !stableInstrumentOrder.current.includes(token))
       if (stableInstrumentOrder.current.length < 6) {
@@ -365,16 +372,16 @@ export function MarketDataGrid({
   }, [ticks, currentTime])
 
   useEffect(() => {
-    const newPreviousPrices: Record<number, number> = {}
+    const newPreviousPrices: Record<string, number> = {}
     instrumentData.forEach((instrument) => {
-      newPreviousPrices[instrument.instrument_token] = instrument.last_price
+      newPreviousPrices[instrument.instrument_key] = instrument.last_price
     })
     setPreviousPrices(newPreviousPrices)
   }, [instrumentData])
 
-  const getLastTrades = (instrumentToken: number) => {
+  const getLastTrades = (instrumentKey: string) => {
     const instrumentTicks = ticks
-      .filter((tick) => tick.instrument_token === instrumentToken)
+      .filter((tick) => tick.instrument_key === instrumentKey)
       .sort((a, b) => b.timestamp - a.timestamp) // Sort from most recent to oldest
 
     const uniquePriceTrades: TickData[] = []
@@ -431,18 +438,23 @@ export function MarketDataGrid({
     <>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {instrumentData.map((instrument) => {
-          const instrumentTickCount = ticks.filter((t) => t.instrument_token === instrument.instrument_token).length
+          const instrumentTickCount = ticks.filter((t) => t.instrument_key === instrument.instrument_key).length
           return (
             <InstrumentCard
-              key={instrument.instrument_token}
+              key={instrument.instrument_key}
               instrument={instrument}
               instrumentTickCount={instrumentTickCount}
-              previousPrice={previousPrices[instrument.instrument_token] || null}
+              previousPrice={previousPrices[instrument.instrument_key] || null}
               onShowTrades={() => setSelectedInstrument(instrument)}
               allTicks={ticks}
-              isInactive={inactiveSymbols.has(instrument.instrument_token)}
-              alertConfig={alertConfigurations.get(instrument.instrument_token)}
-              onAlertConfigChange={(config) => onConfigurationChange(instrument.instrument_token, config)}
+              isInactive={inactiveSymbols.has(instrument.instrument_key)}
+              isFrozen={frozenSymbols?.has(instrument.instrument_key) ?? false}
+              liveAlert={liveAlerts?.get(instrument.instrument_key)}
+              onAcknowledge={onAcknowledgeAlert && (() => onAcknowledgeAlert(instrument.instrument_key))}
+              onSnooze={onSnoozeAlert && ((minutes) => onSnoozeAlert(instrument.instrument_key, minutes))}
+              alertConfig={alertConfigurations.get(instrument.instrument_key)}
+              onAlertConfigChange={(config) => onConfigurationChange(instrument.instrument_key, config)}
+              thresholds={thresholds}
             />
           )
         })}
@@ -468,13 +480,14 @@ export function MarketDataGrid({
                   <TableHead>Quantity</TableHead>
                   <TableHead>Volume</TableHead>
                   <TableHead>Change</TableHead>
-                  <TableHead>Delay</TableHead>
+                  <TableHead>Latency</TableHead>
+                  <TableHead>Interval</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {selectedInstrument &&
-                  getLastTrades(selectedInstrument.instrument_token).map((trade, index) => {
-                    const prevTrade = getLastTrades(selectedInstrument.instrument_token)[index + 1]
+                  getLastTrades(selectedInstrument.instrument_key).map((trade, index) => {
+                    const prevTrade = getLastTrades(selectedInstrument.instrument_key)[index + 1]
                     const priceChange = prevTrade ? trade.last_price - prevTrade.last_price : 0
                     const changePercent =
                       prevTrade && prevTrade.last_price > 0 ? (priceChange / prevTrade.last_price) * 100 : 0
@@ -500,10 +513,13 @@ export function MarketDataGrid({
                           </div>
                         </TableCell>
                         <TableCell>
-                          <span
-                            className={`text-xs font-medium ${trade.delay > 1000 ? "text-red-600" : trade.delay > 500 ? "text-yellow-600" : "text-green-600"}`}
-                          >
-                            {formatDelay(trade.delay)}
+                          <span className={`text-xs font-medium ${timingColor(trade.latency, thresholds.latency)}`}>
+                            {formatDuration(trade.latency)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <span className={`text-xs font-medium ${timingColor(trade.delay, thresholds.interval)}`}>
+                            {formatDuration(trade.delay)}
                           </span>
                         </TableCell>
                       </TableRow>
@@ -5,15 +5,15 @@ import type { TickData } from "@/hooks/use-tick-data"
 
 interface MiniPriceChartProps {
   ticks: TickData[]
-  instrumentToken: number
+  instrumentKey: string
   height?: number
   className?: string
 }
 
-export function MiniPriceChart({ ticks, instrumentToken, height = 60, className = "" }: MiniPriceChartProps) {
+export function MiniPriceChart({ ticks, instrumentKey, height = 60, className = "" }: MiniPriceChartProps) {
   const chartData = useMemo(() => {
     const instrumentTicks = ticks
-      .filter((tick) => tick.instrument_token === instrumentToken && tick.last_price > 0)
+      .filter((tick) => tick.instrument_key === instrumentKey && tick.last_price > 0)
       .sort((a, b) => a.timestamp - b.timestamp)
       .slice(-50) // Use last 50 ticks for smoother chart
 
@@ -110,7 +110,7 @@ export function MiniPriceChart({ ticks, instrumentToken, height = 60, className
       effectiveChartRange,
       getY, // Pass getY function to be used directly in JSX
     }
-  }, [ticks, instrumentToken, height])
+  }, [ticks, instrumentKey, height])
 
   if (!chartData.hasData) {
     return (
@@ -135,14 +135,14 @@ export function MiniPriceChart({ ticks, instrumentToken, height = 60, className
         <svg className="absolute inset-0 w-full h-full" viewBox={`0 0 100 ${height}`} preserveAspectRatio="none">
           {/* Gradient Definition */}
           <defs>
-            <linearGradient id={`gradient-${instrumentToken}`} x1="0%" y1="0%" x2="0%" y2="100%">
+            <linearGradient id={`gradient-${instrumentKey}`} x1="0%" y1="0%" x2="0%" y2="100%">
               <stop offset="0%" stopColor={chartData.color} stopOpacity="0.3" />
               <stop offset="100%" stopColor={chartData.color} stopOpacity="0.05" />
             </linearGradient>
           </defs>
 
           {/* Area fill */}
-          <path d={chartData.gradientPath} fill={`url(#gradient-${instrumentToken})`} stroke="none" />
+          <path d={chartData.gradientPath} fill={`url(#gradient-${instrumentKey})`} stroke="none" />
 
           {/* Main line */}
           <path
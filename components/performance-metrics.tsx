@@ -1,19 +1,29 @@
 "use client"
 
 import { useMemo } from "react"
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from "recharts"
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ReferenceLine, ResponsiveContainer } from "recharts"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
 import type { TickData } from "@/hooks/use-tick-data"
+import type { TimingThresholds } from "@/utils/feeds/latency"
 
 interface PerformanceMetricsProps {
   ticks: TickData[]
-  averageDelay: number
+  averageInterval: number
+  averageLatency: number
+  thresholds: TimingThresholds
   totalTicks: number
   freezingIncidents: number
 }
 
-export function PerformanceMetrics({ ticks, averageDelay, totalTicks, freezingIncidents }: PerformanceMetricsProps) {
+export function PerformanceMetrics({
+  ticks,
+  averageInterval,
+  averageLatency,
+  thresholds,
+  totalTicks,
+  freezingIncidents,
+}: PerformanceMetricsProps) {
   const performanceData = useMemo(() => {
     const now = Date.now()
     const intervals = []
@@ -25,13 +35,14 @@ export function PerformanceMetrics({ ticks, averageDelay, totalTicks, freezingIn
 
       const intervalTicks = ticks.filter((tick) => tick.timestamp >= intervalStart && tick.timestamp < intervalEnd)
 
-      const avgDelay =
-        intervalTicks.length > 0 ? intervalTicks.reduce((sum, tick) => sum + tick.delay, 0) / intervalTicks.length : 0
+      const average = (timing: "delay" | "latency") =>
+        intervalTicks.length > 0 ? intervalTicks.reduce((sum, tick) => sum + tick[timing], 0) / intervalTicks.length : 0
 
       intervals.push({
         time: new Date(intervalEnd).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
         tickCount: intervalTicks.length,
-        avgDelay: Math.round(avgDelay),
+        avgLatency: Math.round(average("latency")),
+        avgInterval: Math.round(average("delay")),
       })
     }
 
@@ -43,28 +54,46 @@ export function PerformanceMetrics({ ticks, averageDelay, totalTicks, freezingIn
       label: "Tick Count",
       color: "hsl(var(--chart-1))",
     },
-    avgDelay: {
-      label: "Avg Delay (ms)",
+    avgLatency: {
+      label: "Avg Latency (ms)",
       color: "hsl(var(--chart-2))",
     },
+    avgInterval: {
+      label: "Avg Tick Interval (ms)",
+      color: "hsl(var(--chart-3))",
+    },
   }
 
   return (
     <Card>
       <CardHeader>
         <CardTitle>Performance Metrics</CardTitle>
-        <CardDescription>Tick frequency and delay analysis over time</CardDescription>
+        <CardDescription>
+          Tick frequency, transport latency (exchange to receipt) and inter-tick interval over time
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="grid grid-cols-4 gap-4 text-center">
             <div>
               <div className="text-2xl font-bold text-blue-600">{totalTicks}</div>
               <div className="text-sm text-muted-foreground">Total Ticks</div>
             </div>
             <div>
-              <div className="text-2xl font-bold text-green-600">{averageDelay.toFixed(0)}ms</div>
-              <div className="text-sm text-muted-foreground">Avg Delay</div>
+              <div
+                className={`text-2xl font-bold ${averageLatency > thresholds.latency ? "text-red-600" : "text-green-600"}`}
+              >
+                {averageLatency.toFixed(0)}ms
+              </div>
+              <div className="text-sm text-muted-foreground">Avg Latency</div>
+            </div>
+            <div>
+              <div
+                className={`text-2xl font-bold ${averageInterval > thresholds.interval ? "text-red-600" : "text-green-600"}`}
+              >
+                {averageInterval.toFixed(0)}ms
+              </div>
+              <div className="text-sm text-muted-foreground">Avg Tick Interval</div>
             </div>
             <div>
               <div className="text-2xl font-bold text-red-600">{freezingIncidents}</div>
@@ -81,7 +110,28 @@ export function PerformanceMetrics({ ticks, averageDelay, totalTicks, freezingIn
                 <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 12 }} />
                 <ChartTooltip content={<ChartTooltipContent />} />
                 <Bar yAxisId="left" dataKey="tickCount" fill="var(--color-tickCount)" name="Tick Count" />
-                <Bar yAxisId="right" dataKey="avgDelay" fill="var(--color-avgDelay)" name="Avg Delay (ms)" />
+                <Bar yAxisId="right" dataKey="avgLatency" fill="var(--color-avgLatency)" name="Avg Latency (ms)" />
+                <Bar
+                  yAxisId="right"
+                  dataKey="avgInterval"
+                  fill="var(--color-avgInterval)"
+                  name="Avg Tick Interval (ms)"
+                />
+                {/* Replay feeds have no latency threshold */}
+                {Number.isFinite(thresholds.latency) && (
+                  <ReferenceLine
+                    yAxisId="right"
+                    y={thresholds.latency}
+                    stroke="var(--color-avgLatency)"
+                    strokeDasharray="4 4"
+                  />
+                )}
+                <ReferenceLine
+                  yAxisId="right"
+                  y={thresholds.interval}
+                  stroke="var(--color-avgInterval)"
+                  strokeDasharray="4 4"
+                />
               </BarChart>
             </ResponsiveContainer>
           </ChartContainer>
@@ -0,0 +1,71 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { CalendarClock } from "lucide-react"
+import type { AlertProfileSwitch } from "@/utils/alert-profiles"
+
+interface ProfileSwitchLogProps {
+  switches: AlertProfileSwitch[]
+}
+
+const profileLabel = (name: string | null) =>
+  name ?? <span className="text-gray-500">Saved settings</span>
+
+// Cleared together with the inactivity log, from its Clear Log button
+export function ProfileSwitchLog({ switches }: ProfileSwitchLogProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Profile Switches
+        </CardTitle>
+        <CardDescription>When scheduled alert profiles took over from each other</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[30vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Feed</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {switches.length > 0 ? (
+                switches.map((entry) => (
+                  <TableRow key={entry.id} className="hover:bg-gray-50">
+                    <TableCell className="font-mono text-sm">
+                      {new Date(entry.timestamp).toLocaleString("en-IN", {
+                        timeZone: "Asia/Kolkata",
+                        hour12: false,
+                        month: "short",
+                        day: "2-digit",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })}
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.feed}</TableCell>
+                    <TableCell className="text-sm">{profileLabel(entry.from)}</TableCell>
+                    <TableCell className="text-sm font-medium">{profileLabel(entry.to)}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center text-gray-500">
+                    No profile switches yet. Schedule profiles on the Alert Settings tab.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
@@ -21,7 +21,7 @@ export function RealTimeChart({ ticks }: RealTimeChartProps) {
         volume: tick.volume,
         delay: tick.delay,
         timestamp: new Date(tick.timestamp).toLocaleTimeString(),
-        instrument: tick.instrument_token,
+        instrument: tick.instrument_key,
       }))
   }, [ticks])
 
@@ -35,7 +35,7 @@ export function RealTimeChart({ ticks }: RealTimeChartProps) {
       color: "hsl(var(--chart-2))",
     },
     delay: {
-      label: "Delay (ms)",
+      label: "Tick Interval (ms)",
       color: "hsl(var(--chart-3))",
     },
   }
@@ -71,7 +71,7 @@ export function RealTimeChart({ ticks }: RealTimeChartProps) {
                 stroke="var(--color-delay)"
                 strokeWidth={2}
                 dot={false}
-                name="Delay (ms)"
+                name="Tick Interval (ms)"
               />
             </LineChart>
           </ResponsiveContainer>
@@ -0,0 +1,139 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Pause, Play, RefreshCw, Rewind } from "lucide-react"
+import { useReplayController } from "@/hooks/use-replay-controller"
+import type { ReplayController, ReplaySession, ReplaySpeed } from "@/utils/feeds/replay-adapter"
+
+interface ReplayControlsProps {
+  feed: string
+  name: string
+  controller: ReplayController
+}
+
+const SPEEDS: { value: ReplaySpeed; label: string }[] = [
+  { value: 1, label: "1x" },
+  { value: 10, label: "10x" },
+  { value: 0, label: "Max" },
+]
+
+const formatTime = (timestamp: number | null) =>
+  timestamp
+    ? new Date(timestamp).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour12: false })
+    : "--:--:--"
+
+export function ReplayControls({ feed, name, controller }: ReplayControlsProps) {
+  const state = useReplayController(controller)
+  const [sessions, setSessions] = useState<ReplaySession[]>([])
+  const [error, setError] = useState<string | null>(null)
+  // Slider position while dragging; committed as a seek on release
+  const [dragPosition, setDragPosition] = useState<number | null>(null)
+
+  const loadSessions = useCallback(async () => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/sessions?feed=${feed}`)
+      if (!response.ok) throw new Error(`Sessions request failed with ${response.status}`)
+      const body = await response.json()
+      setSessions(body.sessions)
+    } catch (err) {
+      setError(String(err))
+    }
+  }, [feed])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const session = state.session
+  const start = session?.start ?? 0
+  const end = session?.end ?? 0
+  const position = dragPosition ?? state.position ?? start
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Rewind className="w-4 h-4" />
+            {name} Replay
+          </span>
+          {session && (
+            <Badge variant={state.finished ? "secondary" : state.paused ? "outline" : "default"}>
+              {state.finished ? "Finished" : state.paused ? "Paused" : "Playing"}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Select
+            value={session?.session ?? ""}
+            onValueChange={(value) => {
+              const selected = sessions.find((s) => s.session === value)
+              if (selected) controller.load(selected)
+            }}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={sessions.length > 0 ? "Select a recorded session" : "No recorded sessions"} />
+            </SelectTrigger>
+            <SelectContent>
+              {sessions.map((s) => (
+                <SelectItem key={s.session} value={s.session}>
+                  {s.session} ({formatTime(s.start)} – {formatTime(s.end)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={loadSessions} title="Refresh sessions">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            disabled={!session}
+            onClick={() => (state.paused || state.finished ? controller.resume() : controller.pause())}
+          >
+            {state.paused || state.finished ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </Button>
+          {SPEEDS.map(({ value, label }) => (
+            <Button
+              key={label}
+              size="sm"
+              variant={state.speed === value ? "default" : "outline"}
+              disabled={!session}
+              onClick={() => controller.setSpeed(value)}
+            >
+              {label}
+            </Button>
+          ))}
+          <span className="ml-auto font-mono text-sm text-gray-600">
+            {formatTime(session ? position : null)} / {formatTime(session?.end ?? null)}
+          </span>
+        </div>
+
+        <Slider
+          min={start}
+          max={Math.max(end, start + 1)}
+          step={1000}
+          value={[position]}
+          disabled={!session || !session.start || !session.end}
+          onValueChange={([value]) => setDragPosition(value)}
+          onValueCommit={([value]) => {
+            setDragPosition(null)
+            controller.seek(value)
+          }}
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  )
+}
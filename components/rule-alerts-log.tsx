@@ -0,0 +1,95 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Badge } from "@/components/ui/badge"
+import { ListChecks } from "lucide-react"
+import { ALERT_RULE_TYPES, type RuleAlert } from "@/utils/alert-rules"
+
+interface RuleAlertsLogProps {
+  alerts: RuleAlert[]
+}
+
+const priceFormatter = new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const SEVERITY_STYLES: Record<RuleAlert["severity"], string> = {
+  low: "text-gray-600 border-gray-300",
+  medium: "text-orange-600 border-orange-300",
+  high: "text-red-600 border-red-300",
+}
+
+// Cleared together with the inactivity log, from its Clear Log button
+export function RuleAlertsLog({ alerts }: RuleAlertsLogProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="w-5 h-5" />
+          Rule Alert Log
+        </CardTitle>
+        <CardDescription>Price, volume, spread and feed-integrity rules that fired</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[40vh]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timestamp</TableHead>
+                <TableHead>Feed</TableHead>
+                <TableHead>Instrument</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Session</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {alerts.length > 0 ? (
+                alerts.map((alert) => (
+                  <TableRow key={alert.id} className="hover:bg-gray-50">
+                    <TableCell className="font-mono text-sm">
+                      {new Date(alert.timestamp).toLocaleString("en-IN", {
+                        timeZone: "Asia/Kolkata",
+                        hour12: false,
+                        month: "short",
+                        day: "2-digit",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })}
+                    </TableCell>
+                    <TableCell className="text-sm">{alert.feed}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{alert.instrumentName}</div>
+                      <div className="text-xs text-gray-500 font-mono">{alert.instrumentKey}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{alert.ruleName}</div>
+                      <div className="text-xs text-gray-500">{ALERT_RULE_TYPES[alert.ruleType]}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{alert.message}</TableCell>
+                    <TableCell className="font-mono">₹{priceFormatter.format(alert.price)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs ${SEVERITY_STYLES[alert.severity]}`}>
+                        {alert.severity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{alert.marketSession}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center text-gray-500">
+                    No rule alerts have been triggered yet. Add rules on the Alert Settings tab.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
@@ -15,8 +15,10 @@ import { Input } from "@/components/ui/input"
 import { Switch } from "@/components/ui/switch"
 import { Slider } from "@/components/ui/slider"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Clock, AlertTriangle } from "lucide-react"
-import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import type { InactivityAlertConfig, InactivityAlertMode } from "@/hooks/use-inactivity-alerts"
+import { SILENCE_PERCENTILE } from "@/utils/tick-rate-profile"
 import { getDetailedMarketStatus, getMarketTypeForInstrument } from "@/utils/market-timings"
 
 interface SymbolAlertSettingsDialogProps {
@@ -29,6 +31,7 @@ interface SymbolAlertSettingsDialogProps {
 
 const DEFAULT_CONFIG: InactivityAlertConfig = {
   enabled: false,
+  mode: "deviation",
   deviation: 0.1,
   duration: 30,
   respectMarketHours: true,
@@ -158,8 +161,34 @@ export function SymbolAlertSettingsDialog({
               </div>
             )}
 
-            {/* Price Deviation Threshold */}
+            {/* Alert Mode */}
             <div className="space-y-3">
+              <Label htmlFor="mode" className="text-base font-medium">
+                Alert Mode
+              </Label>
+              <Select
+                value={localConfig.mode}
+                onValueChange={(mode: InactivityAlertMode) => setLocalConfig((prev) => ({ ...prev, mode }))}
+                disabled={!localConfig.enabled}
+              >
+                <SelectTrigger id="mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deviation">Price stays within a fixed range</SelectItem>
+                  <SelectItem value="adaptive">Abnormal silence (learned from history)</SelectItem>
+                </SelectContent>
+              </Select>
+              {localConfig.mode === "adaptive" && (
+                <p className="text-sm text-muted-foreground">
+                  Alert when no ticks arrive for longer than {SILENCE_PERCENTILE}% of the silences seen at this time of
+                  day, learned per 15-minute bucket from the stored tick history.
+                </p>
+              )}
+            </div>
+
+            {/* Price Deviation Threshold */}
+            <div className={`space-y-3 ${localConfig.mode === "adaptive" ? "hidden" : ""}`}>
               <Label htmlFor="deviation" className="text-base font-medium">
                 Price Movement Threshold
               </Label>
@@ -191,7 +220,8 @@ export function SymbolAlertSettingsDialog({
             {/* Duration Slider */}
             <div className="space-y-3">
               <Label htmlFor="duration" className="text-base font-medium">
-                Monitoring Duration: {localConfig.duration} seconds
+                {localConfig.mode === "adaptive" ? "Fallback Duration" : "Monitoring Duration"}:{" "}
+                {localConfig.duration} seconds
               </Label>
               <Slider
                 id="duration"
@@ -209,7 +239,9 @@ export function SymbolAlertSettingsDialog({
                 <span>300s (Less Sensitive)</span>
               </div>
               <p className="text-sm text-muted-foreground">
-                How long to wait before triggering an alert if price stays within the threshold.
+                {localConfig.mode === "adaptive"
+                  ? "Used until there is enough tick history for the current time of day."
+                  : "How long to wait before triggering an alert if price stays within the threshold."}
               </p>
             </div>
 
@@ -218,8 +250,17 @@ export function SymbolAlertSettingsDialog({
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
                 <p className="text-sm font-medium text-blue-800">Alert Preview:</p>
                 <p className="text-sm text-blue-700 mt-1">
-                  You'll be alerted if <strong>{symbolName}</strong> price doesn't move by ±{localConfig.deviation} for{" "}
-                  {localConfig.duration} seconds{localConfig.respectMarketHours ? " during trading hours" : " (24/7)"}.
+                  {localConfig.mode === "adaptive" ? (
+                    <>
+                      You'll be alerted if <strong>{symbolName}</strong> stops ticking for abnormally long
+                    </>
+                  ) : (
+                    <>
+                      You'll be alerted if <strong>{symbolName}</strong> price doesn't move by ±
+                      {localConfig.deviation} for {localConfig.duration} seconds
+                    </>
+                  )}
+                  {localConfig.respectMarketHours ? " during trading hours" : " (24/7)"}.
                 </p>
                 {localConfig.respectMarketHours && (
                   <p className="text-xs text-blue-600 mt-1">Active during: {timingInfo.sessions}</p>
@@ -4,53 +4,56 @@ import { useMemo, useEffect, useState, memo, useRef } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { TrendingUp, TrendingDown, Minus, ChevronDown, Clock, Settings } from "lucide-react"
-import type { UpstoxTickData } from "@/hooks/use-upstox-tick-data"
+import { TrendingUp, TrendingDown, Minus, ChevronDown, Settings, Snowflake } from "lucide-react"
+import type { TickData } from "@/hooks/use-tick-data"
 import { getCurrentMarketStatus, getMarketTypeForInstrument } from "@/utils/market-timings"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { SymbolAlertSettingsDialog } from "./symbol-alert-settings-dialog"
-import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { InactivityAlertBanner } from "./inactivity-alert-banner"
+import type { InactivityAlertConfig, TrackedInactivityAlert } from "@/hooks/use-inactivity-alerts"
+import { isSounding } from "@/utils/alert-lifecycle"
+import { DEFAULT_TIMING_THRESHOLDS, formatDuration, timingColor, type TimingThresholds } from "@/utils/feeds/latency"
+import { getBestBidAsk } from "@/utils/quotes"
+import { getInstrumentName, getInstrumentRecord } from "@/utils/instruments"
+import { calculateChangeFromClose } from "@/utils/price-trends"
 
 // --- Helper functions ---
-export const getUpstoxInstrumentName = (tick: UpstoxTickData) => {
-  if (tick.tradingsymbol) return tick.tradingsymbol
-  return tick.instrument_key || tick.instrument_token
-}
+// Names come from the instrument master; the segment ("NSE_EQ") is more telling than the exchange here
+export const getUpstoxInstrumentName = getInstrumentName
 
-export const getUpstoxExchange = (tick: UpstoxTickData) => {
-  return tick.exchange || "UNK"
+export const getUpstoxExchange = (tick: TickData) => {
+  return getInstrumentRecord(tick)?.segment || tick.exchange || "UNK"
 }
 
-const formatDelay = (delay: number) => {
-  if (delay === 0) return "N/A"
-  if (delay < 1000) return `${delay}ms`
-  if (delay < 60000) return `${(delay / 1000).toFixed(1)}s`
-  return `${(delay / 60000).toFixed(1)}m`
-}
 
 interface UpstoxMarketDataGridProps {
-  ticks: UpstoxTickData[]
+  ticks: TickData[]
   inactiveSymbols: Set<string>
+  frozenSymbols?: Set<string> // Instruments that stopped ticking while their market is open
   alertConfigurations: Map<string, InactivityAlertConfig>
   onConfigurationChange: (token: string, config: InactivityAlertConfig) => void
+  liveAlerts?: Map<string, TrackedInactivityAlert> // Unresolved inactivity alerts, by instrument key
+  onAcknowledgeAlert?: (token: string) => void
+  onSnoozeAlert?: (token: string, minutes: number) => void
+  thresholds?: TimingThresholds // Latency and inter-tick interval limits for colouring
 }
 
-interface UpstoxInstrumentData extends UpstoxTickData {
+interface UpstoxInstrumentData extends TickData {
   marketStatus: { isOpen: boolean; session: string; reason: string }
   trend: { change: number; changePercent: number; direction: "up" | "down" | "neutral" }
   dayTrend: { change: number; changePercent: number; direction: "up" | "down" | "neutral" }
 }
 
 // Calculate price trend for Upstox data
-const calculateUpstoxPriceTrend = (tick: UpstoxTickData, previousTicks: UpstoxTickData[]) => {
-  const instrumentToken = tick.instrument_token
+const calculateUpstoxPriceTrend = (tick: TickData, previousTicks: TickData[]) => {
+  const instrumentKey = tick.instrument_key
   const currentPrice = tick.last_price
 
   // Get previous prices for this instrument, sorted by timestamp (oldest first)
   const instrumentTicks = previousTicks
-    .filter((t) => t.instrument_token === instrumentToken && t.timestamp < tick.timestamp)
+    .filter((t) => t.instrument_key === instrumentKey && t.timestamp < tick.timestamp)
     .sort((a, b) => b.timestamp - a.timestamp) // Most recent first
     .slice(0, 10) // Last 10 ticks before current
 
@@ -153,23 +156,35 @@ const UpstoxInstrumentCard = memo(function UpstoxInstrumentCard({
   onShowTrades,
   allTicks,
   isInactive,
+  isFrozen,
+  liveAlert,
+  onAcknowledge,
+  onSnooze,
   alertConfig,
   onAlertConfigChange,
+  thresholds,
 }: {
   instrument: UpstoxInstrumentData
   instrumentTickCount: number
   previousPrice: number | null
   onShowTrades: () => void
-  allTicks: UpstoxTickData[]
+  allTicks: TickData[]
   isInactive: boolean
+  isFrozen: boolean
+  liveAlert?: TrackedInactivityAlert
+  onAcknowledge?: () => void
+  onSnooze?: (minutes: number) => void
   alertConfig?: InactivityAlertConfig
   onAlertConfigChange: (config: InactivityAlertConfig) => void
+  thresholds: TimingThresholds
 }) {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
   const name = getUpstoxInstrumentName(instrument)
   const exchange = getUpstoxExchange(instrument)
+  const record = getInstrumentRecord(instrument)
   const { trend, dayTrend, marketStatus } = instrument
   const displayTrend = dayTrend.change !== 0 ? dayTrend : trend
+  const { bid, ask } = getBestBidAsk(instrument)
 
   const formatVolume = (volume: number) => {
     if (volume >= 10000000) return `${(volume / 10000000).toFixed(1)}Cr`
@@ -182,19 +197,30 @@ const UpstoxInstrumentCard = memo(function UpstoxInstrumentCard({
     new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(price)
 
   const cardClassName = `bg-white border transition-all duration-500 hover:shadow-lg ${
-    isInactive
-      ? "border-orange-500 bg-orange-50 shadow-orange-200 shadow-lg ring-2 ring-orange-400 animate-pulse"
-      : "border-gray-200"
+    isFrozen
+      ? "border-sky-500 bg-sky-50 shadow-sky-200 shadow-lg ring-2 ring-sky-400"
+      : isInactive
+        ? `border-orange-500 bg-orange-50 shadow-orange-200 shadow-lg ring-2 ring-orange-400 ${
+            liveAlert && !isSounding(liveAlert) ? "" : "animate-pulse"
+          }`
+        : "border-gray-200"
   }`
 
   return (
     <>
       <Card className={cardClassName}>
         <CardContent className="p-4 space-y-4">
-          {isInactive && (
-            <div className="flex items-center gap-2 p-2 bg-orange-100 border border-orange-200 rounded-lg">
-              <Clock className="w-4 h-4 text-orange-600" />
-              <span className="text-sm font-medium text-orange-800">Price Inactivity Alert!</span>
+          {isInactive && <InactivityAlertBanner alert={liveAlert} onAcknowledge={onAcknowledge} onSnooze={onSnooze} />}
+          {isFrozen && (
+            <div className="flex items-center gap-2 p-2 bg-sky-100 border border-sky-200 rounded-lg">
+              <Snowflake className="w-4 h-4 text-sky-600" />
+              <span className="text-sm font-medium text-sky-800">
+                No ticks since{" "}
+                {new Date(instrument.receivedAt).toLocaleTimeString("en-IN", {
+                  timeZone: "Asia/Kolkata",
+                  hour12: false,
+                })}
+              </span>
             </div>
           )}
 
@@ -203,6 +229,11 @@ const UpstoxInstrumentCard = memo(function UpstoxInstrumentCard({
             <div className="flex items-center gap-3">
               <h3 className="text-lg font-bold text-gray-900">{name}</h3>
               <span className="text-sm text-gray-500 font-medium">{exchange}</span>
+              {record?.expiry && (
+                <span className="text-xs text-gray-500">
+                  {record.expiry} · Lot {record.lotSize}
+                </span>
+              )}
               <Badge
                 variant={marketStatus.session === "Open" ? "default" : "secondary"}
                 className={`text-xs font-medium ${
@@ -277,17 +308,15 @@ const UpstoxInstrumentCard = memo(function UpstoxInstrumentCard({
               <span className="font-medium">{instrumentTickCount}</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-gray-500">Delay</span>
-              <span
-                className={`font-medium ${
-                  instrument.delay > 1000
-                    ? "text-red-600"
-                    : instrument.delay > 500
-                      ? "text-yellow-600"
-                      : "text-green-600"
-                }`}
-              >
-                {formatDelay(instrument.delay)}
+              <span className="text-gray-500">Latency</span>
+              <span className={`font-medium ${timingColor(instrument.latency, thresholds.latency)}`}>
+                {formatDuration(instrument.latency)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Interval</span>
+              <span className={`font-medium ${timingColor(instrument.delay, thresholds.interval)}`}>
+                {formatDuration(instrument.delay)}
               </span>
             </div>
             <div className="flex justify-between">
@@ -298,6 +327,62 @@ const UpstoxInstrumentCard = memo(function UpstoxInstrumentCard({
             </div>
           </div>
 
+          {/* Quote: best bid/ask, day OHLC and open interest (full-mode feeds only) */}
+          {(bid || ask || instrument.ohlc || instrument.oi !== undefined) && (
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm border-t pt-3">
+              {(bid || ask) && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Bid</span>
+                    <span className="font-medium text-green-600">
+                      {bid ? `${formatPrice(bid.price)} × ${formatVolume(bid.quantity)}` : "-"}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Ask</span>
+                    <span className="font-medium text-red-600">
+                      {ask ? `${formatPrice(ask.price)} × ${formatVolume(ask.quantity)}` : "-"}
+                    </span>
+                  </div>
+                </>
+              )}
+              {instrument.ohlc && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Open</span>
+                    <span className="font-medium">{formatPrice(instrument.ohlc.open)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Prev Close</span>
+                    <span className="font-medium">
+                      {instrument.previous_close ? formatPrice(instrument.previous_close) : "-"}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">High</span>
+                    <span className="font-medium">{formatPrice(instrument.ohlc.high)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Low</span>
+                    <span className="font-medium">{formatPrice(instrument.ohlc.low)}</span>
+                  </div>
+                </>
+              )}
+              {instrument.oi !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-gray-500">OI</span>
+                  <span className="font-medium">{formatVolume(instrument.oi)}</span>
+                </div>
+              )}
+              {instrument.greeks?.iv !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-gray-500">IV</span>
+                  <span className="font-medium">{instrument.greeks.iv.toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Show More Button */}
           <Button
             variant="ghost"
@@ -324,8 +409,13 @@ const UpstoxInstrumentCard = memo(function UpstoxInstrumentCard({
 export function UpstoxMarketDataGrid({
   ticks,
   inactiveSymbols,
+  frozenSymbols,
   alertConfigurations,
   onConfigurationChange,
+  liveAlerts,
+  onAcknowledgeAlert,
+  onSnoozeAlert,
+  thresholds = DEFAULT_TIMING_THRESHOLDS,
 }: UpstoxMarketDataGridProps) {
   const [currentTime, setCurrentTime] = useState(new Date())
   const [previousPrices, setPreviousPrices] = useState<Record<string, number>>({})
@@ -338,16 +428,16 @@ export function UpstoxMarketDataGrid({
   }, [])
 
   const instrumentData = useMemo(() => {
-    const grouped = new Map<string, UpstoxTickData>()
+    const grouped = new Map<string, TickData>()
     const recentTicks = ticks.slice(0, 100)
     for (const tick of recentTicks) {
-      const key = tick.instrument_token
+      const key = tick.instrument_key
       if (!grouped.has(key) || tick.receivedAt > grouped.get(key)!.receivedAt) {
         grouped.set(key, tick)
       }
     }
     const validInstruments = Array.from(grouped.values()).filter((tick) => tick.last_price > 0)
-    const currentTokens = validInstruments.map((tick) => tick.instrument_token)
+    const currentTokens = validInstruments.map((tick) => tick.instrument_key)
     if (stableInstrumentOrder.current.length === 0) {
       stableInstrumentOrder.current = currentTokens.sort().slice(0, 6)
     } else {
@@ -365,7 +455,7 @@ export function UpstoxMarketDataGrid({
         const marketType = getMarketTypeForInstrument(instrumentName)
         const marketStatus = getCurrentMarketStatus(marketType)
         const trend = calculateUpstoxPriceTrend(tick, ticks)
-        const dayTrend = trend // For now, use same as trend
+        const dayTrend = calculateChangeFromClose(tick) ?? trend
         orderedInstruments.push({ ...tick, marketStatus, trend, dayTrend })
       }
     }
@@ -375,17 +465,17 @@ export function UpstoxMarketDataGrid({
   useEffect(() => {
     const newPreviousPrices: Record<string, number> = {}
     instrumentData.forEach((instrument) => {
-      newPreviousPrices[instrument.instrument_token] = instrument.last_price
+      newPreviousPrices[instrument.instrument_key] = instrument.last_price
     })
     setPreviousPrices(newPreviousPrices)
   }, [instrumentData])
 
-  const getLastTrades = (instrumentToken: string) => {
+  const getLastTrades = (instrumentKey: string) => {
     const instrumentTicks = ticks
-      .filter((tick) => tick.instrument_token === instrumentToken)
+      .filter((tick) => tick.instrument_key === instrumentKey)
       .sort((a, b) => b.timestamp - a.timestamp) // Sort from most recent to oldest
 
-    const uniquePriceTrades: UpstoxTickData[] = []
+    const uniquePriceTrades: TickData[] = []
     if (instrumentTicks.length > 0) {
       uniquePriceTrades.push(instrumentTicks[0]) // Always add the most recent tick
 
@@ -439,18 +529,23 @@ export function UpstoxMarketDataGrid({
     <>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {instrumentData.map((instrument) => {
-          const instrumentTickCount = ticks.filter((t) => t.instrument_token === instrument.instrument_token).length
+          const instrumentTickCount = ticks.filter((t) => t.instrument_key === instrument.instrument_key).length
           return (
             <UpstoxInstrumentCard
-              key={instrument.instrument_token}
+              key={instrument.instrument_key}
               instrument={instrument}
               instrumentTickCount={instrumentTickCount}
-              previousPrice={previousPrices[instrument.instrument_token] || null}
+              previousPrice={previousPrices[instrument.instrument_key] || null}
               onShowTrades={() => setSelectedInstrument(instrument)}
               allTicks={ticks}
-              isInactive={inactiveSymbols.has(instrument.instrument_token)}
-              alertConfig={alertConfigurations.get(instrument.instrument_token)}
-              onAlertConfigChange={(config) => onConfigurationChange(instrument.instrument_token, config)}
+              isInactive={inactiveSymbols.has(instrument.instrument_key)}
+              isFrozen={frozenSymbols?.has(instrument.instrument_key) ?? false}
+              liveAlert={liveAlerts?.get(instrument.instrument_key)}
+              onAcknowledge={onAcknowledgeAlert && (() => onAcknowledgeAlert(instrument.instrument_key))}
+              onSnooze={onSnoozeAlert && ((minutes) => onSnoozeAlert(instrument.instrument_key, minutes))}
+              alertConfig={alertConfigurations.get(instrument.instrument_key)}
+              onAlertConfigChange={(config) => onConfigurationChange(instrument.instrument_key, config)}
+              thresholds={thresholds}
             />
           )
         })}
@@ -476,13 +571,14 @@ export function UpstoxMarketDataGrid({
                   <TableHead>Quantity</TableHead>
                   <TableHead>Volume</TableHead>
                   <TableHead>Change</TableHead>
-                  <TableHead>Delay</TableHead>
+                  <TableHead>Latency</TableHead>
+                  <TableHead>Interval</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {selectedInstrument &&
-                  getLastTrades(selectedInstrument.instrument_token).map((trade, index) => {
-                    const prevTrade = getLastTrades(selectedInstrument.instrument_token)[index + 1]
+                  getLastTrades(selectedInstrument.instrument_key).map((trade, index) => {
+                    const prevTrade = getLastTrades(selectedInstrument.instrument_key)[index + 1]
                     const priceChange = prevTrade ? trade.last_price - prevTrade.last_price : 0
                     return (
                       <TableRow key={trade.id}>
@@ -506,10 +602,13 @@ export function UpstoxMarketDataGrid({
                           </div>
                         </TableCell>
                         <TableCell>
-                          <span
-                            className={`text-xs font-medium ${trade.delay > 1000 ? "text-red-600" : trade.delay > 500 ? "text-yellow-600" : "text-green-600"}`}
-                          >
-                            {formatDelay(trade.delay)}
+                          <span className={`text-xs font-medium ${timingColor(trade.latency, thresholds.latency)}`}>
+                            {formatDuration(trade.latency)}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <span className={`text-xs font-medium ${timingColor(trade.delay, thresholds.interval)}`}>
+                            {formatDuration(trade.delay)}
                           </span>
                         </TableCell>
                       </TableRow>
@@ -0,0 +1,166 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { z } from "zod"
+import type { InactivityAlertConfig } from "./use-inactivity-alerts"
+import { inactivityAlertConfigsSchema, type InactivityAlertConfigs } from "@/utils/inactivity-config"
+
+const STORAGE_KEY = "inactivity-alert-configs"
+const SYNC_DELAY = 500 // Batches "Save All" into one request
+const RETRY_INTERVAL = 60_000 // While changes are waiting for the server
+
+export type AlertConfigSyncStatus = "loading" | "synced" | "offline"
+
+const savedSchema = z.object({
+  configurations: inactivityAlertConfigsSchema,
+  unsynced: z.array(z.string()), // Changed while the server was unreachable
+  removed: z.array(z.string()).default([]), // Removed while the server was unreachable
+})
+
+const alertConfigsUrl = (feed: string) => `/api/alert-configs?${new URLSearchParams({ feed })}`
+
+async function readConfigurations(response: Response): Promise<InactivityAlertConfigs> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Alert config request failed with ${response.status}`)
+  }
+  const body = await response.json()
+  return inactivityAlertConfigsSchema.parse(body.configurations)
+}
+
+export async function fetchAlertConfigs(feed: string) {
+  return readConfigurations(await fetch(alertConfigsUrl(feed), { cache: "no-store" }))
+}
+
+// Adds or replaces the given instruments; resolves to every configuration of the feed
+export async function putAlertConfigs(feed: string, configurations: InactivityAlertConfigs) {
+  const response = await fetch(alertConfigsUrl(feed), {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ configurations }),
+  })
+  return readConfigurations(response)
+}
+
+// Resolves once the server no longer has a configuration for the instrument
+export async function deleteAlertConfig(feed: string, instrumentKey: string) {
+  const response = await fetch(`/api/alert-configs?${new URLSearchParams({ feed, instrument: instrumentKey })}`, {
+    method: "DELETE",
+  })
+  if (response.status !== 404) await readConfigurations(response)
+}
+
+// Inactivity alert configurations for one feed, saved on the server so they
+// survive reloads and are shared between devices. A copy is kept in
+// localStorage: it is shown until the server answers, and changes made while
+// the server is unreachable are kept there and sent once it is back.
+export function useAlertConfigs(feed: string) {
+  const [configurations, setConfigurations] = useState<Map<string, InactivityAlertConfig>>(new Map())
+  const [syncStatus, setSyncStatus] = useState<AlertConfigSyncStatus>("loading")
+  // Read outside render by sync(), which must not depend on state
+  const latest = useRef(configurations)
+  const unsynced = useRef<Set<string>>(new Set())
+  const removed = useRef<Set<string>>(new Set())
+  const syncTimeout = useRef<NodeJS.Timeout | null>(null)
+  const storageKey = `${STORAGE_KEY}:${feed}`
+
+  const apply = useCallback(
+    (next: Map<string, InactivityAlertConfig>) => {
+      latest.current = next
+      setConfigurations(next)
+      localStorage.setItem(
+        storageKey,
+        JSON.stringify({
+          configurations: Object.fromEntries(next),
+          unsynced: Array.from(unsynced.current),
+          removed: Array.from(removed.current),
+        }),
+      )
+    },
+    [storageKey],
+  )
+
+  const sync = useCallback(async () => {
+    const sent = Array.from(unsynced.current).flatMap((key) => {
+      const config = latest.current.get(key)
+      return config ? [[key, config] as const] : []
+    })
+    try {
+      for (const key of Array.from(removed.current)) {
+        await deleteAlertConfig(feed, key)
+        removed.current.delete(key)
+      }
+      const saved =
+        sent.length > 0 ? await putAlertConfigs(feed, Object.fromEntries(sent)) : await fetchAlertConfigs(feed)
+      // Keys changed again while the request was in flight stay unsynced and keep their local value
+      sent.forEach(([key, config]) => {
+        if (latest.current.get(key) === config) unsynced.current.delete(key)
+      })
+      const merged = new Map(Object.entries(saved))
+      unsynced.current.forEach((key) => {
+        const config = latest.current.get(key)
+        if (config) merged.set(key, config)
+      })
+      removed.current.forEach((key) => merged.delete(key)) // Removed again while in flight
+      apply(merged)
+      setSyncStatus(unsynced.current.size + removed.current.size > 0 ? "offline" : "synced")
+    } catch (error) {
+      console.warn(`⚠️ Could not sync ${feed} alert configs with the server, keeping the local copy:`, error)
+      setSyncStatus("offline")
+    }
+  }, [feed, apply])
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      if (saved) {
+        const { configurations: local, unsynced: pending, removed: gone } = savedSchema.parse(JSON.parse(saved))
+        unsynced.current = new Set(pending)
+        removed.current = new Set(gone)
+        latest.current = new Map(Object.entries(local))
+        setConfigurations(latest.current)
+      }
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved alert configurations:", error)
+      localStorage.removeItem(storageKey)
+    }
+    sync()
+
+    const retry = setInterval(() => {
+      if (unsynced.current.size + removed.current.size > 0) sync()
+    }, RETRY_INTERVAL)
+    window.addEventListener("online", sync)
+    return () => {
+      clearInterval(retry)
+      window.removeEventListener("online", sync)
+      if (syncTimeout.current) clearTimeout(syncTimeout.current)
+    }
+  }, [storageKey, sync])
+
+  const saveConfiguration = useCallback(
+    (token: string, config: InactivityAlertConfig) => {
+      unsynced.current.add(token)
+      removed.current.delete(token)
+      apply(new Map(latest.current).set(token, config))
+      if (syncTimeout.current) clearTimeout(syncTimeout.current)
+      syncTimeout.current = setTimeout(sync, SYNC_DELAY)
+    },
+    [apply, sync],
+  )
+
+  // Back to no configuration, so group settings apply again
+  const removeConfiguration = useCallback(
+    (token: string) => {
+      unsynced.current.delete(token)
+      removed.current.add(token)
+      const next = new Map(latest.current)
+      next.delete(token)
+      apply(next)
+      if (syncTimeout.current) clearTimeout(syncTimeout.current)
+      syncTimeout.current = setTimeout(sync, SYNC_DELAY)
+    },
+    [apply, sync],
+  )
+
+  return { configurations, syncStatus, saveConfiguration, removeConfiguration }
+}
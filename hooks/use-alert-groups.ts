@@ -0,0 +1,34 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { alertGroupsSchema, type AlertGroup } from "@/utils/alert-groups"
+
+const STORAGE_KEY = "alert-groups"
+
+// Group alert settings (utils/alert-groups.ts) for one feed, saved in this browser
+export function useAlertGroups(feed: string) {
+  const [groups, setGroups] = useState<AlertGroup[]>([])
+  const storageKey = `${STORAGE_KEY}:${feed}`
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      setGroups(saved ? alertGroupsSchema.parse(JSON.parse(saved)) : [])
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved alert groups:", error)
+      localStorage.removeItem(storageKey)
+    }
+  }, [storageKey])
+
+  // Throws (with zod's message) on invalid groups
+  const saveGroups = useCallback(
+    (next: AlertGroup[]) => {
+      const validated = alertGroupsSchema.parse(next)
+      localStorage.setItem(storageKey, JSON.stringify(validated))
+      setGroups(validated)
+    },
+    [storageKey],
+  )
+
+  return { groups, saveGroups }
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { useEffect, useSyncExternalStore } from "react"
+import { getAlertLifecycleSettings } from "@/utils/alert-lifecycle"
+
+// The page-wide operator name and escalation delay, re-rendering when either changes
+export function useAlertLifecycleSettings() {
+  const store = getAlertLifecycleSettings()
+  const settings = useSyncExternalStore(store.subscribe, store.getState, store.getServerState)
+
+  useEffect(() => store.load(), [store])
+
+  return [settings, store.update] as const
+}
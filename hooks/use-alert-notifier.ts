@@ -0,0 +1,105 @@
+"use client"
+
+import { useEffect, useRef, useCallback } from "react"
+
+export interface AlertNotification {
+  title: string
+  body: string
+  tag: string // Replaces an earlier notification with the same tag
+}
+
+interface ActiveSound {
+  oscillator: OscillatorNode
+  gainNode: GainNode
+}
+
+// Continuous alert tones and desktop notifications shared by the alert hooks.
+// Each sound is keyed (by instrument, pair, ...) so it can be stopped when its
+// condition clears.
+export function useAlertNotifier() {
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const sounds = useRef<Map<string, ActiveSound>>(new Map())
+
+  // Initialize AudioContext on first user interaction (or attempt to)
+  useEffect(() => {
+    const initAudio = () => {
+      if (!audioContextRef.current) {
+        try {
+          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
+        } catch (e) {
+          console.error("Web Audio API is not supported in this browser")
+        }
+      }
+      window.removeEventListener("click", initAudio)
+    }
+    window.addEventListener("click", initAudio)
+    return () => window.removeEventListener("click", initAudio)
+  }, [])
+
+  const stopAlertSound = useCallback((key: string) => {
+    const sound = sounds.current.get(key)
+    if (!sound) return
+    try {
+      sound.oscillator.stop()
+      sound.oscillator.disconnect()
+      sound.gainNode.disconnect()
+    } catch (e) {
+      console.warn("Error stopping oscillator:", e)
+    } finally {
+      sounds.current.delete(key)
+    }
+  }, [])
+
+  const stopAllSounds = useCallback(() => {
+    Array.from(sounds.current.keys()).forEach(stopAlertSound)
+  }, [stopAlertSound])
+
+  const playAlertSound = useCallback(
+    (key: string, frequency = 440) => {
+      if (!audioContextRef.current) return
+
+      const ctx = audioContextRef.current
+      if (ctx.state === "suspended") {
+        ctx.resume()
+      }
+
+      // Stop any existing sound for this key first
+      stopAlertSound(key)
+
+      const oscillator = ctx.createOscillator()
+      const gainNode = ctx.createGain()
+
+      oscillator.connect(gainNode)
+      gainNode.connect(ctx.destination)
+
+      oscillator.type = "sine"
+      oscillator.frequency.setValueAtTime(frequency, ctx.currentTime)
+      gainNode.gain.setValueAtTime(0.5, ctx.currentTime) // Full volume
+
+      oscillator.start(ctx.currentTime)
+      sounds.current.set(key, { oscillator, gainNode })
+    },
+    [stopAlertSound],
+  )
+
+  const showBrowserNotification = useCallback((notification: AlertNotification) => {
+    if (!("Notification" in window)) {
+      console.log("This browser does not support desktop notification")
+      return
+    }
+    if (Notification.permission === "granted") {
+      new Notification(notification.title, { body: notification.body, icon: "/favicon.ico", tag: notification.tag })
+    } else if (Notification.permission !== "denied") {
+      Notification.requestPermission().then((permission) => {
+        if (permission === "granted") {
+          showBrowserNotification(notification)
+        }
+      })
+    }
+  }, [])
+
+  // Stop anything still sounding when the owner unmounts
+  useEffect(() => stopAllSounds, [stopAllSounds])
+
+  return { playAlertSound, stopAlertSound, stopAllSounds, showBrowserNotification }
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import {
+  activeAlertProfile,
+  alertProfilesSchema,
+  type AlertProfile,
+  type AlertProfileSwitch,
+} from "@/utils/alert-profiles"
+
+const STORAGE_KEY = "alert-profiles"
+const CHECK_INTERVAL = 15_000 // Schedules are in whole minutes
+const MAX_SWITCHES = 100
+
+// Scheduled alert profiles for one feed, saved in this browser. Tracks which
+// profile is active and logs every switch for the Alert Log.
+export function useAlertProfiles(feed: string) {
+  const [profiles, setProfiles] = useState<AlertProfile[]>([])
+  const [activeProfile, setActiveProfile] = useState<AlertProfile | null>(null)
+  const [switches, setSwitches] = useState<AlertProfileSwitch[]>([])
+  const current = useRef<{ id: string; name: string } | null>(null) // Survives the profile being deleted
+  const storageKey = `${STORAGE_KEY}:${feed}`
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      if (saved) setProfiles(alertProfilesSchema.parse(JSON.parse(saved)))
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved alert profiles:", error)
+      localStorage.removeItem(storageKey)
+    }
+  }, [storageKey])
+
+  useEffect(() => {
+    const evaluate = () => {
+      const next = activeAlertProfile(profiles)
+      // Picks up edits to the active profile without logging a switch
+      setActiveProfile(next)
+      if ((next?.id ?? null) === (current.current?.id ?? null)) return
+
+      const from = current.current?.name ?? null
+      current.current = next && { id: next.id, name: next.name }
+      const entry: AlertProfileSwitch = {
+        id: crypto.randomUUID(),
+        feed,
+        timestamp: Date.now(),
+        from,
+        to: next?.name ?? null,
+      }
+      setSwitches((prev) => [entry, ...prev].slice(0, MAX_SWITCHES))
+      console.log(`🔀 [${feed}] Alert profile: ${from ?? "saved settings"} → ${entry.to ?? "saved settings"}`)
+    }
+
+    evaluate()
+    const interval = setInterval(evaluate, CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [profiles, feed])
+
+  // Throws (with zod's message) on invalid profiles
+  const saveProfiles = useCallback(
+    (next: AlertProfile[]) => {
+      const validated = alertProfilesSchema.parse(next)
+      localStorage.setItem(storageKey, JSON.stringify(validated))
+      setProfiles(validated)
+    },
+    [storageKey],
+  )
+
+  const clearSwitches = useCallback(() => setSwitches([]), [])
+
+  return { profiles, activeProfile, switches, saveProfiles, clearSwitches }
+}
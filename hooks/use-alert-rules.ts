@@ -0,0 +1,107 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import type { TickData } from "./use-tick-data"
+import { useAlertNotifier } from "./use-alert-notifier"
+import { alertRulesSchema, createAlertRuleEngine, type AlertRule, type RuleAlert } from "@/utils/alert-rules"
+import { takeNewTicks } from "@/utils/tick-stream"
+
+const STORAGE_KEY = "alert-rules"
+const MAX_ALERTS = 100
+const CHECK_INTERVAL = 1000
+const ALERT_FREQUENCY = 880 // Above the inactivity and divergence tones
+
+const soundKey = (ruleId: string, instrumentKey: string) => `rule:${ruleId}:${instrumentKey}`
+
+// Runs the alert rules (utils/alert-rules.ts) over one feed's ticks, and the
+// zero-price and volume-regression rules also over the ticks the feed
+// quarantined. Rules are saved per feed in this browser. Every rule notifies; high-severity rules
+// also sound until their condition clears.
+export function useAlertRules(ticks: TickData[], feed: string, quarantinedTicks: TickData[] = []) {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [alerts, setAlerts] = useState<RuleAlert[]>([])
+  const [triggeredSymbols, setTriggeredSymbols] = useState<Set<string>>(new Set())
+  const newestSeen = useRef<string | null>(null)
+  const newestQuarantined = useRef<string | null>(null)
+  const { playAlertSound, stopAlertSound, stopAllSounds, showBrowserNotification } = useAlertNotifier()
+  const storageKey = `${STORAGE_KEY}:${feed}`
+
+  const engine = useRef<ReturnType<typeof createAlertRuleEngine> | null>(null)
+  if (!engine.current) {
+    engine.current = createAlertRuleEngine({
+      onTrigger: (alert) => {
+        setAlerts((prev) => [alert, ...prev].slice(0, MAX_ALERTS))
+        setTriggeredSymbols((prev) => new Set(prev).add(alert.instrumentKey))
+        if (alert.severity === "high") playAlertSound(soundKey(alert.ruleId, alert.instrumentKey), ALERT_FREQUENCY)
+        showBrowserNotification({
+          title: `${alert.ruleName}: ${alert.instrumentName}`,
+          body: `${alert.message} during ${alert.marketSession} session.`,
+          tag: `rule-${alert.ruleId}-${alert.instrumentKey}`,
+        })
+      },
+      onResolve: (ruleId, instrumentKey) => {
+        stopAlertSound(soundKey(ruleId, instrumentKey))
+        const stillTriggered = engine.current
+          ?.activeKeys()
+          .some((key) => key !== `${ruleId}:${instrumentKey}` && key.endsWith(`:${instrumentKey}`))
+        if (stillTriggered) return
+        setTriggeredSymbols((prev) => {
+          if (!prev.has(instrumentKey)) return prev
+          const next = new Set(prev)
+          next.delete(instrumentKey)
+          return next
+        })
+      },
+    })
+  }
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(storageKey)
+      const loaded = saved ? alertRulesSchema.parse(JSON.parse(saved)) : []
+      engine.current?.setRules(loaded)
+      setRules(loaded)
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved alert rules:", error)
+      localStorage.removeItem(storageKey)
+    }
+  }, [storageKey])
+
+  useEffect(() => {
+    // Oldest first, so windows and crossings see ticks in arrival order
+    const incoming = takeNewTicks(ticks, newestSeen.current).slice().reverse()
+    newestSeen.current = ticks[0]?.id ?? null
+    for (const tick of incoming) engine.current?.observe(tick)
+  }, [ticks])
+
+  useEffect(() => {
+    const incoming = takeNewTicks(quarantinedTicks, newestQuarantined.current).slice().reverse()
+    newestQuarantined.current = quarantinedTicks[0]?.id ?? null
+    for (const tick of incoming) engine.current?.observeQuarantined(tick)
+  }, [quarantinedTicks])
+
+  // Tick-rate rules fire on ticks not arriving, so they need a clock of their own
+  useEffect(() => {
+    const interval = setInterval(() => engine.current?.check(), CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Throws (with zod's message) on invalid rules
+  const saveRules = useCallback(
+    (next: AlertRule[]) => {
+      const validated = alertRulesSchema.parse(next)
+      localStorage.setItem(storageKey, JSON.stringify(validated))
+      engine.current?.setRules(validated)
+      setRules(validated)
+    },
+    [storageKey],
+  )
+
+  const clearAllAlerts = useCallback(() => {
+    setAlerts([])
+    stopAllSounds()
+    setTriggeredSymbols(new Set())
+  }, [stopAllSounds])
+
+  return { rules, alerts, triggeredSymbols, saveRules, clearAllAlerts }
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { useEffect, useSyncExternalStore } from "react"
+import { getClockSync } from "@/utils/clock-sync"
+
+const SYNC_INTERVAL = 5 * 60 * 1000
+
+// Keeps the page's clock offset estimate fresh and re-renders when it changes
+export function useClockSync(interval = SYNC_INTERVAL) {
+  const clock = getClockSync()
+  const state = useSyncExternalStore(clock.subscribe, clock.getState, clock.getState)
+
+  useEffect(() => {
+    clock.sync()
+    const timer = setInterval(() => clock.sync(), interval)
+    return () => clearInterval(timer)
+  }, [clock, interval])
+
+  return state
+}
@@ -0,0 +1,215 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { z } from "zod"
+import type { TickData } from "./use-tick-data"
+import { useAlertNotifier } from "./use-alert-notifier"
+import { getInstrumentName } from "@/utils/instruments"
+import { latestTicks, pairId, type InstrumentPair } from "@/utils/instrument-pairs"
+import { shouldAlertsBeActive, getDetailedMarketStatus } from "@/utils/market-timings"
+
+export const divergenceAlertConfigSchema = z.object({
+  enabled: z.boolean(),
+  thresholdType: z.enum(["absolute", "percent"]),
+  threshold: z.number().positive(), // ₹ for absolute, % of the Upstox price for percent
+  duration: z.number().int().positive(), // in seconds
+  respectMarketHours: z.boolean(),
+})
+
+export type DivergenceAlertConfig = z.infer<typeof divergenceAlertConfigSchema>
+
+export interface DivergenceAlert {
+  id: string
+  pairLabel: string
+  kiteKey: string
+  upstoxKey: string
+  timestamp: number
+  duration: number
+  thresholdType: DivergenceAlertConfig["thresholdType"]
+  threshold: number
+  kitePrice: number // Prices at the time of alert
+  upstoxPrice: number
+  priceDifference: number // Kite minus Upstox
+  percentageDifference: number
+  maxPercentageDifference: number // Widest gap seen while the divergence lasted
+  marketSession: string
+}
+
+export interface Divergence {
+  priceDifference: number
+  percentageDifference: number
+}
+
+interface PairState {
+  timerId: NodeJS.Timeout | null
+  kite: TickData
+  upstox: TickData
+  maxPercentageDifference: number
+}
+
+export const DEFAULT_DIVERGENCE_CONFIG: DivergenceAlertConfig = {
+  enabled: false,
+  thresholdType: "percent",
+  threshold: 0.1,
+  duration: 10,
+  respectMarketHours: true,
+}
+
+const STORAGE_KEY = "divergence-alert-config"
+const ALERT_FREQUENCY = 660 // Higher than the inactivity tone, so the two can be told apart
+
+// Kite minus Upstox; null until both sides have a usable price
+export function measureDivergence(kitePrice: number, upstoxPrice: number): Divergence | null {
+  if (kitePrice <= 0 || upstoxPrice <= 0) return null
+  const priceDifference = kitePrice - upstoxPrice
+  return { priceDifference, percentageDifference: (priceDifference / upstoxPrice) * 100 }
+}
+
+export function exceedsDivergenceThreshold(divergence: Divergence, config: DivergenceAlertConfig) {
+  const gap = config.thresholdType === "absolute" ? divergence.priceDifference : divergence.percentageDifference
+  return Math.abs(gap) > config.threshold
+}
+
+// Fires when the Kite and Upstox prices of a mapped pair stay further apart
+// than the configured threshold for the configured duration. Sounds and
+// notifies like useInactivityAlerts; the tone stops once the prices converge.
+export function useDivergenceAlerts(kiteTicks: TickData[], upstoxTicks: TickData[], pairs: InstrumentPair[]) {
+  const [config, setConfig] = useState<DivergenceAlertConfig>(DEFAULT_DIVERGENCE_CONFIG)
+  const [alerts, setAlerts] = useState<DivergenceAlert[]>([])
+  const [divergedPairs, setDivergedPairs] = useState<Set<string>>(new Set())
+  const pairStates = useRef<Map<string, PairState>>(new Map())
+  const { playAlertSound, stopAlertSound, showBrowserNotification } = useAlertNotifier()
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (saved) setConfig(divergenceAlertConfigSchema.parse(JSON.parse(saved)))
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved divergence alert settings:", error)
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }, [])
+
+  const clearPairState = useCallback(
+    (id: string) => {
+      const state = pairStates.current.get(id)
+      if (!state) return
+      if (state.timerId) clearTimeout(state.timerId)
+      stopAlertSound(`divergence:${id}`)
+      pairStates.current.delete(id)
+      setDivergedPairs((prev) => {
+        if (!prev.has(id)) return prev
+        const next = new Set(prev)
+        next.delete(id)
+        return next
+      })
+    },
+    [stopAlertSound],
+  )
+
+  const triggerAlert = useCallback(
+    (pair: InstrumentPair, state: PairState, config: DivergenceAlertConfig) => {
+      const id = pairId(pair)
+      state.timerId = null
+      const divergence = measureDivergence(state.kite.last_price, state.upstox.last_price)
+      if (!divergence) return
+
+      const newAlert: DivergenceAlert = {
+        id: crypto.randomUUID(),
+        pairLabel: pair.label,
+        kiteKey: pair.kiteKey,
+        upstoxKey: pair.upstoxKey,
+        timestamp: Date.now(),
+        duration: config.duration,
+        thresholdType: config.thresholdType,
+        threshold: config.threshold,
+        kitePrice: state.kite.last_price,
+        upstoxPrice: state.upstox.last_price,
+        ...divergence,
+        maxPercentageDifference: state.maxPercentageDifference,
+        marketSession: getDetailedMarketStatus(getInstrumentName(state.kite)).session,
+      }
+
+      setAlerts((prev) => [newAlert, ...prev].slice(0, 100))
+      setDivergedPairs((prev) => new Set(prev).add(id))
+      playAlertSound(`divergence:${id}`, ALERT_FREQUENCY) // Play continuous sound
+      showBrowserNotification({
+        title: `Divergence Alert: ${pair.label}`,
+        body:
+          `Kite ₹${newAlert.kitePrice.toFixed(2)} vs Upstox ₹${newAlert.upstoxPrice.toFixed(2)} ` +
+          `(${newAlert.percentageDifference.toFixed(3)}%) for over ${config.duration} seconds.`,
+        tag: `divergence-${id}`,
+      })
+    },
+    [playAlertSound, showBrowserNotification],
+  )
+
+  useEffect(() => {
+    const kiteLatest = latestTicks(kiteTicks, new Set(pairs.map((pair) => pair.kiteKey)))
+    const upstoxLatest = latestTicks(upstoxTicks, new Set(pairs.map((pair) => pair.upstoxKey)))
+
+    // Forget pairs that were removed from the mapping
+    const ids = new Set(pairs.map(pairId))
+    Array.from(pairStates.current.keys()).forEach((id) => {
+      if (!ids.has(id)) clearPairState(id)
+    })
+
+    for (const pair of pairs) {
+      const id = pairId(pair)
+      const kite = kiteLatest.get(pair.kiteKey)
+      const upstox = upstoxLatest.get(pair.upstoxKey)
+      if (!config.enabled || !kite || !upstox) {
+        clearPairState(id)
+        continue
+      }
+
+      const shouldAlert = config.respectMarketHours ? shouldAlertsBeActive(getInstrumentName(kite)) : true
+      const divergence = measureDivergence(kite.last_price, upstox.last_price)
+      if (!shouldAlert || !divergence || !exceedsDivergenceThreshold(divergence, config)) {
+        // Back within the threshold (or outside market hours): start over
+        clearPairState(id)
+        continue
+      }
+
+      const gap = Math.abs(divergence.percentageDifference)
+      const state = pairStates.current.get(id)
+      if (state) {
+        state.kite = kite
+        state.upstox = upstox
+        state.maxPercentageDifference = Math.max(state.maxPercentageDifference, gap)
+        continue
+      }
+
+      const newState: PairState = { timerId: null, kite, upstox, maxPercentageDifference: gap }
+      newState.timerId = setTimeout(() => triggerAlert(pair, newState, config), config.duration * 1000)
+      pairStates.current.set(id, newState)
+    }
+  }, [kiteTicks, upstoxTicks, pairs, config, clearPairState, triggerAlert])
+
+  // Pending timers must not fire after the dashboard unmounts
+  useEffect(() => {
+    const states = pairStates.current
+    return () => states.forEach((state) => state.timerId && clearTimeout(state.timerId))
+  }, [])
+
+  // Throws (with zod's message) on invalid settings
+  const updateConfig = useCallback(
+    (next: DivergenceAlertConfig) => {
+      const validated = divergenceAlertConfigSchema.parse(next)
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(validated))
+      // When config changes, every pair starts fresh
+      Array.from(pairStates.current.keys()).forEach(clearPairState)
+      setConfig(validated)
+    },
+    [clearPairState],
+  )
+
+  const clearAllAlerts = useCallback(() => {
+    setAlerts([])
+    // Stop all active sounds
+    pairStates.current.forEach((_, id) => stopAlertSound(`divergence:${id}`))
+    setDivergedPairs(new Set())
+  }, [stopAlertSound])
+
+  return { alerts, divergedPairs, config, updateConfig, clearAllAlerts }
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FeedDefinition } from "@/utils/feeds/types"
+import { CONFIGURED_FEEDS, feedDefinitionsSchema } from "@/utils/feeds/registry"
+
+const STORAGE_KEY = "feed-registry"
+
+// Feed definitions for this browser: the environment's list unless the
+// settings UI saved an override to localStorage.
+export function useFeedRegistry() {
+  const [feeds, setFeeds] = useState<FeedDefinition[]>(CONFIGURED_FEEDS)
+  const [isCustomized, setIsCustomized] = useState(false)
+  // Feeds only start once any saved override has been read, so they connect once
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (saved) {
+        setFeeds(feedDefinitionsSchema.parse(JSON.parse(saved)))
+        setIsCustomized(true)
+      }
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved feed settings:", error)
+      localStorage.removeItem(STORAGE_KEY)
+    }
+    setIsLoaded(true)
+  }, [])
+
+  const saveFeeds = useCallback((next: FeedDefinition[]) => {
+    const validated = feedDefinitionsSchema.parse(next)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(validated))
+    setFeeds(validated)
+    setIsCustomized(true)
+  }, [])
+
+  const resetFeeds = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY)
+    setFeeds(CONFIGURED_FEEDS)
+    setIsCustomized(false)
+  }, [])
+
+  return { feeds, isLoaded, isCustomized, saveFeeds, resetFeeds }
+}
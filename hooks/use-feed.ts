@@ -0,0 +1,387 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import type { Alert, ConnectionStatus, FeedAdapter, FeedConnection, TickData } from "@/utils/feeds/types"
+import { createSkewCompensator } from "@/utils/feeds/latency"
+import { getClockSync } from "@/utils/clock-sync"
+import {
+  createFreezeDetector,
+  describeFreeze,
+  describeResume,
+  type FreezeDetector,
+  type InstrumentFreeze,
+} from "@/utils/freeze-detector"
+import { createTickValidator, type DataQualitySummary } from "@/utils/tick-validator"
+
+export type { Alert, ConnectionStatus, FeedAdapter, TickData } from "@/utils/feeds/types"
+
+const MAX_RAW_MESSAGES = 20
+const MAX_DEBUG_INFO = 50
+const MAX_ALERTS = 20
+const MAX_INSTRUMENT_FREEZES = 100
+const MAX_QUARANTINED_TICKS = 100
+const FREEZE_CHECK_INTERVAL = 1000
+
+// Generic feed pipeline: connect, parse, validate, freeze detection and reconnect for any adapter.
+// The adapter must be a stable reference (a module-level constant).
+export function useFeed(adapter: FeedAdapter) {
+  const [ticks, setTicks] = useState<TickData[]>([])
+  const [isConnected, setIsConnected] = useState(false)
+  const [isFrozen, setIsFrozen] = useState(false)
+  const [lastTickTime, setLastTickTime] = useState<number | null>(null)
+  const [totalTicks, setTotalTicks] = useState(0)
+  const [freezingIncidents, setFreezingIncidents] = useState(0)
+  const [frozenInstruments, setFrozenInstruments] = useState<Set<string>>(new Set())
+  const [instrumentFreezes, setInstrumentFreezes] = useState<InstrumentFreeze[]>([])
+  const [freezeCounts, setFreezeCounts] = useState<Record<string, number>>({})
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("disconnected")
+  const [rawMessages, setRawMessages] = useState<string[]>([])
+  const [debugInfo, setDebugInfo] = useState<string[]>([])
+  const validator = useRef(createTickValidator())
+  const [dataQuality, setDataQuality] = useState<DataQualitySummary>(validator.current.summary)
+  // For the alert rules that watch for exactly what the validator rejects
+  const [quarantinedTicks, setQuarantinedTicks] = useState<TickData[]>([])
+
+  const connectionRef = useRef<FeedConnection | null>(null)
+  const freezeTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const connectionAttempts = useRef(0)
+  // Last tick timestamp for each instrument to calculate inter-tick interval
+  const lastTickTimestamps = useRef<Map<string, number>>(new Map())
+  const skew = useRef(createSkewCompensator())
+  // Correction applied to the latest latencies, for display
+  const [clockOffset, setClockOffset] = useState(0)
+  const freezeDetector = useRef<FreezeDetector | null>(null)
+
+  const addDebugInfo = useCallback(
+    (message: string) => {
+      const timestamp = new Date().toLocaleTimeString("en-IN", {
+        timeZone: "Asia/Kolkata",
+        hour12: false,
+      })
+      setDebugInfo((prev) => [`[${timestamp}] ${message}`, ...prev.slice(0, MAX_DEBUG_INFO - 1)])
+      console.log(`🔍 DEBUG [${adapter.name}]: ${message}`)
+    },
+    [adapter],
+  )
+
+  const addAlert = useCallback(
+    (type: Alert["type"], message: string, severity: Alert["severity"] = "medium", instrumentKey?: string) => {
+      const alert: Alert = {
+        id: Math.random().toString(36).substr(2, 9),
+        type,
+        message,
+        timestamp: Date.now(),
+        severity,
+        instrumentKey,
+      }
+      setAlerts((prev) => [alert, ...prev].slice(0, MAX_ALERTS - 1))
+      addDebugInfo(`Alert [${severity}]: ${message}`)
+    },
+    [addDebugInfo],
+  )
+
+  const clearAlerts = useCallback(() => {
+    setAlerts([])
+  }, [])
+
+  // Mean of a timing over the 50 most recent ticks
+  const calculateAverage = useCallback((ticksArray: TickData[], timing: "delay" | "latency") => {
+    if (ticksArray.length === 0) return 0
+    const recentTicks = ticksArray.slice(0, 50)
+    const total = recentTicks.reduce((sum, tick) => sum + tick[timing], 0)
+    return total / recentTicks.length
+  }, [])
+
+  const processTickData = useCallback(
+    (rawData: string, eventType = "unknown"): TickData[] => {
+      const receivedAt = Date.now()
+      const processedTicks: TickData[] = []
+      const rejectedTicks: TickData[] = []
+
+      try {
+        addDebugInfo(`Processing ${eventType} event with data length: ${rawData.length}`)
+
+        // Store raw message for debugging (truncated and limited)
+        setRawMessages((prev) => [
+          `[${eventType}] ${rawData.substring(0, 100)}...`,
+          ...prev.slice(0, MAX_RAW_MESSAGES - 1),
+        ])
+
+        const parsedTicks = adapter.parse(rawData, receivedAt, eventType)
+        for (const tick of parsedTicks) {
+          // Calculate inter-tick interval (difference from previous tick for this instrument)
+          const lastTickTimeForInstrument = lastTickTimestamps.current.get(tick.instrument_key)
+          const interTickDelay = lastTickTimeForInstrument ? tick.timestamp - lastTickTimeForInstrument : 0
+
+          const processedTick: TickData = {
+            ...tick,
+            id: `${tick.instrument_key}_${receivedAt}_${Math.random().toString(36).substr(2, 5)}`,
+            feed: adapter.id,
+            delay: Math.max(0, interTickDelay),
+            latency: 0,
+            receivedAt,
+          }
+          // Quarantined ticks only show up in the Debug tab's data-quality panel and the
+          // alert rules. They are checked first so a bad timestamp never reaches the skew
+          // compensator.
+          if (!validator.current.validate(processedTick, receivedAt + getClockSync().offset())) {
+            rejectedTicks.push(processedTick)
+            continue
+          }
+          processedTick.latency = skew.current.latency(receivedAt, tick.timestamp, getClockSync().offset())
+
+          lastTickTimestamps.current.set(tick.instrument_key, tick.timestamp)
+          processedTicks.push(processedTick)
+          freezeDetector.current?.observe(processedTick, receivedAt)
+        }
+
+        if (parsedTicks.length > 0) setDataQuality(validator.current.summary())
+        if (processedTicks.length > 0) setClockOffset(skew.current.offset())
+        if (rejectedTicks.length > 0) {
+          setQuarantinedTicks((prev) => [...rejectedTicks, ...prev].slice(0, MAX_QUARANTINED_TICKS))
+          addDebugInfo(`🚫 Quarantined ${rejectedTicks.length} ticks that failed validation`)
+        }
+
+        if (processedTicks.length > 0) {
+          addDebugInfo(
+            `✅ Successfully processed ${processedTicks.length} ticks (${processedTicks.filter((t) => t.last_price > 0).length} with prices)`,
+          )
+        }
+      } catch (error) {
+        addDebugInfo(`Error processing data: ${error}`)
+        addAlert("data", `Error processing data: ${error}`, "medium")
+      }
+
+      return processedTicks
+    },
+    [adapter, addAlert, addDebugInfo],
+  )
+
+  // Per-instrument history the pipeline keeps between ticks
+  const resetTickHistory = useCallback(() => {
+    lastTickTimestamps.current.clear()
+    skew.current.reset()
+    setClockOffset(skew.current.offset())
+    validator.current.reset()
+    setDataQuality(validator.current.summary())
+  }, [])
+
+  const storeTicks = useCallback(
+    (processedTicks: TickData[]) => {
+      setTicks((prev) => [...processedTicks, ...prev].slice(0, adapter.maxTicks))
+      setTotalTicks((prev) => prev + processedTicks.length)
+      setLastTickTime(Date.now())
+    },
+    [adapter],
+  )
+
+  // Add test tick function for debugging
+  const addTestTick = useCallback(
+    (testData: string) => {
+      addDebugInfo(`Adding test tick: ${testData}`)
+      const processedTicks = processTickData(testData, "test")
+
+      if (processedTicks.length > 0) {
+        storeTicks(processedTicks)
+        addDebugInfo(`Successfully added ${processedTicks.length} test tick(s)`)
+      }
+    },
+    [addDebugInfo, processTickData, storeTicks],
+  )
+
+  const connect = useCallback(() => {
+    if (connectionRef.current) {
+      connectionRef.current.close()
+    }
+
+    connectionAttempts.current++
+    setConnectionStatus("connecting")
+
+    addDebugInfo(`Attempt ${connectionAttempts.current}: Connecting to ${adapter.url}`)
+
+    try {
+      connectionRef.current = adapter.connect({
+        onOpen: () => {
+          addDebugInfo(`${adapter.name} connection opened successfully`)
+          setIsConnected(true)
+          setConnectionStatus("connected")
+          connectionAttempts.current = 0
+          addAlert("connection", `Successfully connected to ${adapter.name} stream`, "low")
+        },
+
+        onMessage: (data, eventType) => {
+          const processedTicks = processTickData(data, eventType)
+          if (processedTicks.length === 0) return
+
+          storeTicks(processedTicks)
+          setIsFrozen(false)
+
+          // Interval and latency have their own thresholds and alerts
+          const slowIntervalTicks = processedTicks.filter((tick) => tick.delay > adapter.intervalThreshold)
+          if (slowIntervalTicks.length > 0) {
+            addAlert("delay", `${slowIntervalTicks.length} ticks with long inter-tick interval detected`, "medium")
+          }
+          const lateTicks = processedTicks.filter((tick) => tick.latency > adapter.latencyThreshold)
+          if (lateTicks.length > 0) {
+            addAlert("latency", `${lateTicks.length} ticks with high transport latency detected`, "medium")
+          }
+
+          if (freezeTimeoutRef.current) {
+            clearTimeout(freezeTimeoutRef.current)
+          }
+
+          freezeTimeoutRef.current = setTimeout(() => {
+            setIsFrozen(true)
+            setFreezingIncidents((prev) => prev + 1)
+            addAlert("freeze", `No ${adapter.name} data received for ${adapter.freezeThreshold / 1000} seconds`, "high")
+          }, adapter.freezeThreshold)
+        },
+
+        onRestart: () => {
+          addDebugInfo(`${adapter.name} stream restarted from another point`)
+          resetTickHistory()
+        },
+
+        onError: (closed) => {
+          addDebugInfo(`${adapter.name} connection error, closed: ${closed}`)
+          if (!closed) {
+            // The transport is retrying on its own
+            setIsConnected(false)
+            setConnectionStatus("connecting")
+            return
+          }
+
+          setIsConnected(false)
+          setConnectionStatus("disconnected")
+
+          const delay = Math.min(5000 * Math.pow(2, Math.max(0, connectionAttempts.current - 1)), 30000)
+          addAlert("connection", `Connection lost. Reconnecting in ${delay / 1000}s...`, "high")
+
+          if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current)
+          reconnectTimeoutRef.current = setTimeout(connect, delay)
+        },
+      })
+    } catch (error) {
+      addDebugInfo(`Failed to create ${adapter.name} connection: ${error}`)
+      setConnectionStatus("disconnected")
+      addAlert("connection", `Connection failed: ${error}`, "high")
+    }
+  }, [adapter, addAlert, addDebugInfo, processTickData, resetTickHistory, storeTicks])
+
+  useEffect(() => {
+    connect()
+
+    return () => {
+      if (connectionRef.current) {
+        connectionRef.current.close()
+      }
+      if (freezeTimeoutRef.current) {
+        clearTimeout(freezeTimeoutRef.current)
+      }
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current)
+      }
+    }
+  }, [connect])
+
+  // A new clock measurement replaces the correction before the next tick arrives
+  useEffect(() => {
+    const clock = getClockSync()
+    let measured = clock.offset()
+    return clock.subscribe(() => {
+      if (clock.offset() === measured) return
+      measured = clock.offset()
+      setClockOffset(measured)
+    })
+  }, [])
+
+  // Per-instrument staleness, on top of the whole-feed freeze above
+  useEffect(() => {
+    const detector = createFreezeDetector({
+      onFreeze: (freeze) => {
+        setFrozenInstruments(new Set(detector.frozenInstruments))
+        setFreezeCounts(Object.fromEntries(detector.incidentCounts))
+        setInstrumentFreezes((prev) => [freeze, ...prev].slice(0, MAX_INSTRUMENT_FREEZES))
+        addAlert("freeze", describeFreeze(freeze), "high", freeze.instrumentKey)
+      },
+      onResume: (freeze) => {
+        setFrozenInstruments(new Set(detector.frozenInstruments))
+        setInstrumentFreezes((prev) => prev.map((previous) => (previous.id === freeze.id ? freeze : previous)))
+        addAlert("freeze", describeResume(freeze), "low", freeze.instrumentKey)
+      },
+    })
+    freezeDetector.current = detector
+
+    const interval = setInterval(() => {
+      detector.check()
+      // Closed markets clear their freezes without a resume
+      setFrozenInstruments((prev) =>
+        prev.size === detector.frozenInstruments.size ? prev : new Set(detector.frozenInstruments),
+      )
+    }, FREEZE_CHECK_INTERVAL)
+
+    return () => {
+      clearInterval(interval)
+      freezeDetector.current = null
+      setFrozenInstruments(new Set())
+      setInstrumentFreezes([])
+      setFreezeCounts({})
+    }
+  }, [addAlert])
+
+  // Subscription changes on transports that support them (WebSocket); no-ops for SSE
+  const subscribe = useCallback((instruments: string[]) => {
+    connectionRef.current?.subscribe?.(instruments)
+  }, [])
+
+  const unsubscribe = useCallback((instruments: string[]) => {
+    connectionRef.current?.unsubscribe?.(instruments)
+  }, [])
+
+  // Switching adapters (live <-> replay) starts from a clean slate
+  useEffect(() => {
+    return () => {
+      setTicks([])
+      setIsFrozen(false)
+      setLastTickTime(null)
+      setTotalTicks(0)
+      setFreezingIncidents(0)
+      setAlerts([])
+      setRawMessages([])
+      resetTickHistory()
+      setQuarantinedTicks([])
+      connectionAttempts.current = 0
+    }
+  }, [adapter, resetTickHistory])
+
+  const averageInterval = calculateAverage(ticks, "delay")
+  const averageLatency = calculateAverage(ticks, "latency")
+
+  return {
+    ticks,
+    isConnected,
+    isFrozen,
+    lastTickTime,
+    averageInterval,
+    averageLatency,
+    clockOffset,
+    totalTicks,
+    freezingIncidents,
+    frozenInstruments,
+    instrumentFreezes,
+    freezeCounts,
+    dataQuality,
+    quarantinedTicks,
+    alerts,
+    connectionStatus,
+    clearAlerts,
+    addAlert,
+    rawMessages,
+    debugInfo,
+    addTestTick,
+    subscribe,
+    unsubscribe,
+  }
+}
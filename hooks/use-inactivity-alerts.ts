@@ -1,12 +1,29 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
+import { useState, useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from "react"
 import type { TickData } from "./use-tick-data"
-import { getInstrumentName } from "@/components/market-data-grid"
+import { useAlertNotifier } from "./use-alert-notifier"
+import { useTickRateProfiles } from "./use-tick-rate-profiles"
+import { useAlertConfigs } from "./use-alert-configs"
+import { useAlertProfiles } from "./use-alert-profiles"
+import { useAlertGroups } from "./use-alert-groups"
+import { useAlertLifecycleSettings } from "./use-alert-lifecycle-settings"
+import { describeInstrument, resolveGroupConfigs } from "@/utils/alert-groups"
+import { inactivityWindow, SILENCE_PERCENTILE } from "@/utils/tick-rate-profile"
+import { getInstrumentName } from "@/utils/instruments"
+import { getInstrumentMaster } from "@/utils/instrument-master"
 import { shouldAlertsBeActive, getDetailedMarketStatus } from "@/utils/market-timings"
+import { acknowledge, advance, isLive, resolve, snooze, type AlertLifecycle } from "@/utils/alert-lifecycle"
+
+// deviation: the price stays within ±deviation for `duration` seconds.
+// adaptive: no ticks at all for longer than is normal for this instrument at
+// this time of day, learned from its tick history; `duration` applies until
+// there is enough history.
+export type InactivityAlertMode = "deviation" | "adaptive"
 
 export interface InactivityAlertConfig {
   enabled: boolean
+  mode: InactivityAlertMode
   deviation: number
   duration: number // in seconds
   respectMarketHours: boolean // New field to control market hours respect
@@ -14,10 +31,12 @@ export interface InactivityAlertConfig {
 
 export interface InactivityAlert {
   id: string
-  instrumentToken: number
+  instrumentKey: string
+  feed: string
   instrumentName: string
   timestamp: number
-  duration: number
+  mode: InactivityAlertMode
+  duration: number // Seconds the instrument was flat (deviation) or silent (adaptive)
   deviation: number
   baselinePrice: number // The price that remained static
   currentPrice: number // The price at the time of alert
@@ -26,115 +45,95 @@ export interface InactivityAlert {
   marketType: string // Type of market (equity, currency, commodity)
 }
 
+// An alert as the dashboard tracks it, from open to resolved (utils/alert-lifecycle.ts)
+export type TrackedInactivityAlert = InactivityAlert & AlertLifecycle
+
 interface SymbolState {
   baselinePrice: number
+  lastTickId: string
+  windowMs: number // How long the running timer waits
   timerId: NodeJS.Timeout | null
   priceHistory: { price: number; timestamp: number }[] // Track price history during monitoring
   lastMarketStatusCheck: number // Timestamp of last market status check
   wasMarketOpen: boolean // Previous market status
-  oscillator: OscillatorNode | null // Store the active oscillator for continuous sound
-  gainNode: GainNode | null // Store the gain node to control volume
 }
 
+const LIFECYCLE_CHECK_INTERVAL = 5000
+const ESCALATION_FREQUENCY = 660 // Higher than the 440 Hz of an open alert
+
 const DEFAULT_CONFIG: InactivityAlertConfig = {
   enabled: false,
+  mode: "deviation",
   deviation: 0.1,
   duration: 30,
   respectMarketHours: true, // Default to respecting market hours
 }
 
-export function useInactivityAlerts(ticks: TickData[]) {
-  const [configurations, setConfigurations] = useState<Map<number, InactivityAlertConfig>>(new Map())
-  const [alerts, setAlerts] = useState<InactivityAlert[]>([])
-  const [inactiveSymbols, setInactiveSymbols] = useState<Set<number>>(new Set())
-  const symbolStates = useRef<Map<number, SymbolState>>(new Map())
-  const audioContextRef = useRef<AudioContext | null>(null)
-
-  // Initialize AudioContext on first user interaction (or attempt to)
+export function useInactivityAlerts(ticks: TickData[], feed: string) {
+  const {
+    configurations: savedConfigurations,
+    syncStatus,
+    saveConfiguration,
+    removeConfiguration,
+  } = useAlertConfigs(feed)
+  const alertProfiles = useAlertProfiles(feed)
+  const { groups, saveGroups } = useAlertGroups(feed)
+
+  // The first tick of every instrument seen so far, for group matching. Only
+  // grows, so it changes when a new instrument appears rather than on every tick.
+  const [seenTicks, setSeenTicks] = useState<Map<string, TickData>>(new Map())
   useEffect(() => {
-    const initAudio = () => {
-      if (!audioContextRef.current) {
-        try {
-          audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
-        } catch (e) {
-          console.error("Web Audio API is not supported in this browser")
-        }
-      }
-      window.removeEventListener("click", initAudio)
-    }
-    window.addEventListener("click", initAudio)
-    return () => window.removeEventListener("click", initAudio)
-  }, [])
-
-  const stopAlertSound = useCallback((instrumentToken: number) => {
-    const state = symbolStates.current.get(instrumentToken)
-    if (state?.oscillator) {
-      try {
-        state.oscillator.stop()
-        state.oscillator.disconnect()
-        state.gainNode?.disconnect()
-      } catch (e) {
-        console.warn("Error stopping oscillator:", e)
-      } finally {
-        state.oscillator = null
-        state.gainNode = null
-      }
-    }
-  }, [])
-
-  const playAlertSound = useCallback(
-    (instrumentToken: number) => {
-      if (!audioContextRef.current) return
-
-      const ctx = audioContextRef.current
-      if (ctx.state === "suspended") {
-        ctx.resume()
-      }
-
-      // Stop any existing sound for this instrument first
-      stopAlertSound(instrumentToken)
-
-      const oscillator = ctx.createOscillator()
-      const gainNode = ctx.createGain()
-
-      oscillator.connect(gainNode)
-      gainNode.connect(ctx.destination)
-
-      oscillator.type = "sine"
-      oscillator.frequency.setValueAtTime(440, ctx.currentTime) // A4 note
-      gainNode.gain.setValueAtTime(0.5, ctx.currentTime) // Full volume
-
-      oscillator.start(ctx.currentTime)
-
-      // Store the oscillator and gainNode in the symbol state
-      const state = symbolStates.current.get(instrumentToken)
-      if (state) {
-        state.oscillator = oscillator
-        state.gainNode = gainNode
-      }
-    },
-    [stopAlertSound],
-  )
-
-  const showBrowserNotification = useCallback((alert: InactivityAlert) => {
-    if (!("Notification" in window)) {
-      console.log("This browser does not support desktop notification")
-      return
-    }
-    if (Notification.permission === "granted") {
-      new Notification(`Inactivity Alert: ${alert.instrumentName}`, {
-        body: `Price remained around ₹${alert.baselinePrice.toFixed(2)} (±${alert.deviation.toFixed(2)}) for ${alert.duration} seconds during ${alert.marketSession} session.`,
-        icon: "/favicon.ico",
-        tag: `inactivity-${alert.instrumentToken}`,
-      })
-    } else if (Notification.permission !== "denied") {
-      Notification.requestPermission().then((permission) => {
-        if (permission === "granted") {
-          showBrowserNotification(alert)
-        }
+    const added = ticks.filter((tick) => !seenTicks.has(tick.instrument_key))
+    if (added.length === 0) return
+    setSeenTicks((prev) => {
+      const next = new Map(prev)
+      added.forEach((tick) => {
+        if (!next.has(tick.instrument_key)) next.set(tick.instrument_key, tick)
       })
-    }
-  }, [])
+      return next
+    })
+  }, [ticks, seenTicks])
+
+  // Described again whenever the instrument master grows, so instruments seen
+  // before their records arrived get their real name, exchange and market type
+  const master = getInstrumentMaster()
+  const masterSize = useSyncExternalStore(master.subscribe, master.size, master.size)
+  const instruments = useMemo(() => Array.from(seenTicks.values(), describeInstrument), [seenTicks, masterSize])
+
+  const groupConfigurations = useMemo(() => resolveGroupConfigs(groups, instruments), [groups, instruments])
+
+  // Lowest to highest precedence: group settings, the instrument's own saved
+  // configuration, then the active scheduled profile
+  const configurations = useMemo(() => {
+    const overrides = alertProfiles.activeProfile?.configurations ?? {}
+    if (groupConfigurations.size === 0 && Object.keys(overrides).length === 0) return savedConfigurations
+    return new Map([
+      ...Array.from(groupConfigurations, ([token, { config }]) => [token, config] as const),
+      ...savedConfigurations,
+      ...Object.entries(overrides),
+    ])
+  }, [groupConfigurations, savedConfigurations, alertProfiles.activeProfile])
+  const [alerts, setAlerts] = useState<TrackedInactivityAlert[]>([])
+  const [inactiveSymbols, setInactiveSymbols] = useState<Set<string>>(new Set())
+  const symbolStates = useRef<Map<string, SymbolState>>(new Map())
+  const { playAlertSound, stopAlertSound, showBrowserNotification } = useAlertNotifier()
+  const [lifecycleSettings] = useAlertLifecycleSettings()
+  // Read by the lifecycle timer, which must not restart on every alert
+  const alertsRef = useRef(alerts)
+  alertsRef.current = alerts
+  const liveTokens = useRef<Set<string>>(new Set()) // Instruments with an alert that isn't resolved yet
+
+  const adaptiveKeys = useMemo(
+    () =>
+      Array.from(configurations)
+        .filter(([, config]) => config.enabled && config.mode === "adaptive")
+        .map(([token]) => token),
+    [configurations],
+  )
+  const profiles = useTickRateProfiles(feed, adaptiveKeys)
+  // Read by the timers, which must not restart whenever profiles are relearned
+  const profilesRef = useRef(profiles)
+  profilesRef.current = profiles
 
   const triggerAlert = useCallback(
     (tick: TickData, config: InactivityAlertConfig, state: SymbolState) => {
@@ -149,28 +148,46 @@ export function useInactivityAlerts(ticks: TickData[]) {
         max: Math.max(...prices),
       }
 
-      const newAlert: InactivityAlert = {
+      const newAlert: TrackedInactivityAlert = {
         id: crypto.randomUUID(),
-        instrumentToken: tick.instrument_token,
+        instrumentKey: tick.instrument_key,
+        feed: tick.feed,
         instrumentName,
         timestamp: Date.now(),
-        duration: config.duration,
+        mode: config.mode,
+        duration: Math.round(state.windowMs / 1000),
         deviation: config.deviation,
         baselinePrice: state.baselinePrice,
         currentPrice: tick.last_price,
         priceRange,
         marketSession: marketStatus.session,
         marketType: marketStatus.marketType,
+        state: "open",
       }
 
+      liveTokens.current.add(tick.instrument_key)
       setAlerts((prev) => [newAlert, ...prev].slice(0, 100))
-      setInactiveSymbols((prev) => new Set(prev).add(tick.instrument_token))
-      playAlertSound(tick.instrument_token) // Play continuous sound
-      showBrowserNotification(newAlert)
+      setInactiveSymbols((prev) => new Set(prev).add(tick.instrument_key))
+      playAlertSound(tick.instrument_key) // Play continuous sound
+      showBrowserNotification({
+        title: `Inactivity Alert: ${newAlert.instrumentName}`,
+        body:
+          config.mode === "adaptive"
+            ? `No ticks for ${newAlert.duration} seconds, longer than ${SILENCE_PERCENTILE}% of silences at this time of day, during ${newAlert.marketSession} session.`
+            : `Price remained around ₹${newAlert.baselinePrice.toFixed(2)} (±${newAlert.deviation.toFixed(2)}) for ${newAlert.duration} seconds during ${newAlert.marketSession} session.`,
+        tag: `inactivity-${newAlert.feed}-${newAlert.instrumentKey}`,
+      })
     },
     [playAlertSound, showBrowserNotification],
   )
 
+  // Ticks resumed, the market closed or the config changed
+  const resolveAlerts = useCallback((token: string) => {
+    if (!liveTokens.current.delete(token)) return
+    const now = Date.now()
+    setAlerts((prev) => prev.map((alert) => (alert.instrumentKey === token ? resolve(alert, now) : alert)))
+  }, [])
+
   const resetInactivityTimer = useCallback(
     (tick: TickData, config: InactivityAlertConfig, state: SymbolState) => {
       if (state.timerId) clearTimeout(state.timerId)
@@ -178,6 +195,7 @@ export function useInactivityAlerts(ticks: TickData[]) {
       // Reset price history when starting new monitoring period
       state.priceHistory = [{ price: tick.last_price, timestamp: Date.now() }]
 
+      state.windowMs = inactivityWindow(config, profilesRef.current.get(tick.instrument_key))
       state.timerId = setTimeout(() => {
         // Double-check market status before triggering alert
         const instrumentName = getInstrumentName(tick)
@@ -188,19 +206,20 @@ export function useInactivityAlerts(ticks: TickData[]) {
         } else {
           // Market closed during monitoring period, clear the alert state and stop sound
           console.log(`Market closed for ${instrumentName}, clearing alert state`)
-          stopAlertSound(tick.instrument_token) // Stop sound if market closes
-          clearSymbolState(tick.instrument_token) // This will also clear the inactive symbol
+          stopAlertSound(tick.instrument_key) // Stop sound if market closes
+          clearSymbolState(tick.instrument_key) // This will also clear the inactive symbol
         }
-      }, config.duration * 1000)
+      }, state.windowMs)
     },
     [triggerAlert, stopAlertSound],
   )
 
   const clearSymbolState = useCallback(
-    (token: number) => {
+    (token: string) => {
       const state = symbolStates.current.get(token)
       if (state?.timerId) clearTimeout(state.timerId)
       stopAlertSound(token) // Stop sound when clearing state
+      resolveAlerts(token)
       symbolStates.current.delete(token)
       setInactiveSymbols((prev) => {
         if (prev.has(token)) {
@@ -211,24 +230,35 @@ export function useInactivityAlerts(ticks: TickData[]) {
         return prev
       })
     },
-    [stopAlertSound],
+    [stopAlertSound, resolveAlerts],
   )
 
+  // When a config changes, here or on the server, reset the state for that symbol to start
+  // fresh. Declared before the tick effect below so that one starts over with the new config.
+  const previousConfigurations = useRef(configurations)
+  useEffect(() => {
+    const previous = previousConfigurations.current
+    previousConfigurations.current = configurations
+    configurations.forEach((config, token) => {
+      if (JSON.stringify(previous.get(token)) !== JSON.stringify(config)) clearSymbolState(token)
+    })
+  }, [configurations, clearSymbolState])
+
   useEffect(() => {
-    const latestTicks = new Map<number, TickData>()
+    const latestTicks = new Map<string, TickData>()
     for (const tick of ticks) {
       if (
-        !latestTicks.has(tick.instrument_token) ||
-        tick.receivedAt > latestTicks.get(tick.instrument_token)!.receivedAt
+        !latestTicks.has(tick.instrument_key) ||
+        tick.receivedAt > latestTicks.get(tick.instrument_key)!.receivedAt
       ) {
-        latestTicks.set(tick.instrument_token, tick)
+        latestTicks.set(tick.instrument_key, tick)
       }
     }
 
     latestTicks.forEach((tick) => {
-      const config = configurations.get(tick.instrument_token)
+      const config = configurations.get(tick.instrument_key)
       if (!config || !config.enabled) {
-        clearSymbolState(tick.instrument_token)
+        clearSymbolState(tick.instrument_key)
         return
       }
 
@@ -236,18 +266,18 @@ export function useInactivityAlerts(ticks: TickData[]) {
       const instrumentName = getInstrumentName(tick)
       const shouldAlert = config.respectMarketHours ? shouldAlertsBeActive(instrumentName) : true
 
-      let state = symbolStates.current.get(tick.instrument_token)
+      let state = symbolStates.current.get(tick.instrument_key)
       if (!state) {
         state = {
           baselinePrice: tick.last_price,
+          lastTickId: tick.id,
+          windowMs: config.duration * 1000,
           timerId: null,
           priceHistory: [{ price: tick.last_price, timestamp: Date.now() }],
           lastMarketStatusCheck: Date.now(),
           wasMarketOpen: shouldAlert,
-          oscillator: null, // Initialize oscillator to null
-          gainNode: null, // Initialize gainNode to null
         }
-        symbolStates.current.set(tick.instrument_token, state)
+        symbolStates.current.set(tick.instrument_key, state)
         if (shouldAlert) {
           resetInactivityTimer(tick, config, state)
         }
@@ -266,18 +296,19 @@ export function useInactivityAlerts(ticks: TickData[]) {
             state.baselinePrice = tick.last_price
             resetInactivityTimer(tick, config, state)
             // Clear from inactive symbols as we're starting fresh
-            if (inactiveSymbols.has(tick.instrument_token)) {
+            if (inactiveSymbols.has(tick.instrument_key)) {
               setInactiveSymbols((prev) => {
                 const newSet = new Set(prev)
-                newSet.delete(tick.instrument_token)
+                newSet.delete(tick.instrument_key)
                 return newSet
               })
             }
-            stopAlertSound(tick.instrument_token) // Ensure sound is stopped if market just opened
+            stopAlertSound(tick.instrument_key) // Ensure sound is stopped if market just opened
+            resolveAlerts(tick.instrument_key)
             return
           } else {
             // Market just closed, stop sound and clear timer
-            stopAlertSound(tick.instrument_token)
+            stopAlertSound(tick.instrument_key)
             if (state.timerId) {
               clearTimeout(state.timerId)
               state.timerId = null
@@ -289,7 +320,7 @@ export function useInactivityAlerts(ticks: TickData[]) {
 
       // If market is currently closed and alerts respect market hours, do nothing
       if (!shouldAlert && config.respectMarketHours) {
-        stopAlertSound(tick.instrument_token) // Ensure sound is stopped if market is closed
+        stopAlertSound(tick.instrument_key) // Ensure sound is stopped if market is closed
         if (state.timerId) {
           clearTimeout(state.timerId)
           state.timerId = null
@@ -304,33 +335,102 @@ export function useInactivityAlerts(ticks: TickData[]) {
       const fiveMinutesAgo = Date.now() - 5 * 60 * 1000
       state.priceHistory = state.priceHistory.filter((h) => h.timestamp > fiveMinutesAgo).slice(-100)
 
+      // Adaptive mode restarts the silence timer on every tick, whatever the price
+      if (config.mode === "adaptive") {
+        if (tick.id === state.lastTickId) return
+        state.lastTickId = tick.id
+        resetInactivityTimer(tick, config, state)
+        if (inactiveSymbols.has(tick.instrument_key)) {
+          setInactiveSymbols((prev) => {
+            const newSet = new Set(prev)
+            newSet.delete(tick.instrument_key)
+            return newSet
+          })
+        }
+        stopAlertSound(tick.instrument_key)
+        resolveAlerts(tick.instrument_key)
+        return
+      }
+
       const priceMoved = Math.abs(tick.last_price - state.baselinePrice) > config.deviation
       if (priceMoved) {
         state.baselinePrice = tick.last_price
         resetInactivityTimer(tick, config, state)
-        if (inactiveSymbols.has(tick.instrument_token)) {
+        if (inactiveSymbols.has(tick.instrument_key)) {
           setInactiveSymbols((prev) => {
             const newSet = new Set(prev)
-            newSet.delete(tick.instrument_token)
+            newSet.delete(tick.instrument_key)
             return newSet
           })
         }
-        stopAlertSound(tick.instrument_token) // Stop sound when price moves
+        stopAlertSound(tick.instrument_key) // Stop sound when price moves
+        resolveAlerts(tick.instrument_key)
       }
     })
-  }, [ticks, configurations, resetInactivityTimer, clearSymbolState, inactiveSymbols, stopAlertSound])
+  }, [ticks, configurations, resetInactivityTimer, clearSymbolState, inactiveSymbols, stopAlertSound, resolveAlerts])
 
-  const updateConfiguration = useCallback(
-    (token: number, config: InactivityAlertConfig) => {
-      setConfigurations((prev) => new Map(prev).set(token, config))
-      // When config changes, reset the state for that symbol to start fresh
-      clearSymbolState(token)
+  // Snoozes running out and alerts nobody acknowledged in time
+  useEffect(() => {
+    const escalateAfter = lifecycleSettings.escalateAfterMinutes * 60_000
+    const interval = setInterval(() => {
+      const now = Date.now()
+      const due = alertsRef.current.filter((alert) => advance(alert, now, escalateAfter) !== alert)
+      if (due.length === 0) return
+
+      due.forEach((alert) => {
+        if (!liveTokens.current.has(alert.instrumentKey)) return
+        const next = advance(alert, now, escalateAfter)
+        if (next.state !== "escalated") {
+          playAlertSound(alert.instrumentKey) // Snooze over
+          return
+        }
+        playAlertSound(alert.instrumentKey, ESCALATION_FREQUENCY)
+        console.warn(`🚨 [${feed}] Escalated unacknowledged inactivity alert for ${alert.instrumentName}`)
+        showBrowserNotification({
+          title: `Escalated: ${alert.instrumentName}`,
+          body: `Inactivity alert unacknowledged for ${lifecycleSettings.escalateAfterMinutes} minutes.`,
+          tag: `inactivity-${alert.feed}-${alert.instrumentKey}`,
+        })
+      })
+      // Advanced again here, in case an alert resolved in the meantime
+      const dueIds = new Set(due.map((alert) => alert.id))
+      setAlerts((prev) => prev.map((alert) => (dueIds.has(alert.id) ? advance(alert, now, escalateAfter) : alert)))
+    }, LIFECYCLE_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [lifecycleSettings.escalateAfterMinutes, feed, playAlertSound, showBrowserNotification])
+
+  // Acknowledging or snoozing silences the instrument's alert; the lifecycle timer brings a snoozed one back
+  const acknowledgeAlert = useCallback(
+    (token: string) => {
+      const now = Date.now()
+      stopAlertSound(token)
+      const by = lifecycleSettings.operator.trim() || "Unknown"
+      setAlerts((prev) => prev.map((alert) => (alert.instrumentKey === token ? acknowledge(alert, by, now) : alert)))
     },
-    [clearSymbolState],
+    [stopAlertSound, lifecycleSettings.operator],
   )
 
+  const snoozeAlert = useCallback(
+    (token: string, minutes: number) => {
+      const now = Date.now()
+      stopAlertSound(token)
+      setAlerts((prev) => prev.map((alert) => (alert.instrumentKey === token ? snooze(alert, minutes, now) : alert)))
+    },
+    [stopAlertSound],
+  )
+
+  // The newest unresolved alert of each instrument
+  const liveAlerts = useMemo(() => {
+    const live = new Map<string, TrackedInactivityAlert>()
+    alerts.forEach((alert) => {
+      if (isLive(alert) && !live.has(alert.instrumentKey)) live.set(alert.instrumentKey, alert)
+    })
+    return live
+  }, [alerts])
+
   const clearAllAlerts = useCallback(() => {
     setAlerts([])
+    liveTokens.current.clear()
     // Stop all active sounds
     symbolStates.current.forEach((_, token) => {
       stopAlertSound(token)
@@ -338,5 +438,21 @@ export function useInactivityAlerts(ticks: TickData[]) {
     setInactiveSymbols(new Set()) // Also clear inactive symbols from UI
   }, [stopAlertSound])
 
-  return { alerts, inactiveSymbols, configurations, updateConfiguration, clearAllAlerts }
+  return {
+    alerts,
+    liveAlerts,
+    inactiveSymbols,
+    configurations,
+    savedConfigurations, // Per-instrument only, without groups or the active profile
+    groupConfigurations,
+    configSyncStatus: syncStatus,
+    profiles: alertProfiles,
+    groups,
+    saveGroups,
+    updateConfiguration: saveConfiguration,
+    removeConfiguration,
+    acknowledgeAlert,
+    snoozeAlert,
+    clearAllAlerts,
+  }
 }
@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect, useRef, useSyncExternalStore } from "react"
+import type { TickData } from "@/utils/feeds/types"
+import { getInstrumentMaster, type InstrumentRecord } from "@/utils/instrument-master"
+
+const BATCH_SIZE = 200
+
+export async function fetchInstruments(keys: string[]): Promise<InstrumentRecord[]> {
+  const response = await fetch(`/api/instruments?keys=${encodeURIComponent(keys.join(","))}`)
+  if (!response.ok) throw new Error(`Instrument lookup failed with ${response.status}`)
+  const body = await response.json()
+  return body.instruments
+}
+
+// Looks up the instruments seen in `ticks` on the server's instrument master
+// (each key once per page) and re-renders when records arrive, so names resolve
+// as soon as the dumps know them. Returns the master's size as a render key.
+export function useInstrumentResolver(ticks: TickData[]) {
+  const master = getInstrumentMaster()
+  const requested = useRef(new Set<string>())
+  const size = useSyncExternalStore(master.subscribe, master.size, master.size)
+
+  useEffect(() => {
+    const missing = new Set<string>()
+    for (const tick of ticks) {
+      if (!master.has(tick.instrument_key) && !requested.current.has(tick.instrument_key)) {
+        missing.add(tick.instrument_key)
+      }
+    }
+    if (missing.size === 0) return
+
+    const keys = Array.from(missing)
+    keys.forEach((key) => requested.current.add(key))
+    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+      fetchInstruments(keys.slice(i, i + BATCH_SIZE))
+        .then(master.add)
+        .catch((error) => console.error("❌ Failed to resolve instruments:", error))
+    }
+  }, [master, ticks])
+
+  return size
+}
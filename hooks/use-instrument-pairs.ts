@@ -0,0 +1,48 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { DEFAULT_INSTRUMENT_PAIRS, instrumentPairsSchema, pairId, type InstrumentPair } from "@/utils/instrument-pairs"
+
+const STORAGE_KEY = "instrument-pairs"
+
+// Kite/Upstox pairs compared on the Compare tab, persisted in localStorage
+export function useInstrumentPairs() {
+  const [pairs, setPairs] = useState<InstrumentPair[]>(DEFAULT_INSTRUMENT_PAIRS)
+  const [isCustomized, setIsCustomized] = useState(false)
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (saved) {
+        setPairs(instrumentPairsSchema.parse(JSON.parse(saved)))
+        setIsCustomized(true)
+      }
+    } catch (error) {
+      console.error("❌ Ignoring invalid saved instrument pairs:", error)
+      localStorage.removeItem(STORAGE_KEY)
+    }
+  }, [])
+
+  // Throws (with zod's message) on invalid or duplicate pairs
+  const savePairs = useCallback((next: InstrumentPair[]) => {
+    const validated = instrumentPairsSchema.parse(next)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(validated))
+    setPairs(validated)
+    setIsCustomized(true)
+  }, [])
+
+  const addPair = useCallback((pair: InstrumentPair) => savePairs([...pairs, pair]), [pairs, savePairs])
+
+  const removePair = useCallback(
+    (pair: InstrumentPair) => savePairs(pairs.filter((p) => pairId(p) !== pairId(pair))),
+    [pairs, savePairs],
+  )
+
+  const resetPairs = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY)
+    setPairs(DEFAULT_INSTRUMENT_PAIRS)
+    setIsCustomized(false)
+  }, [])
+
+  return { pairs, isCustomized, addPair, removePair, resetPairs }
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { useState, useEffect, useRef, useMemo, useCallback } from "react"
+import type { TickData } from "./use-tick-data"
+import { pairId, type InstrumentPair } from "@/utils/instrument-pairs"
+import { takeNewTicks } from "@/utils/tick-stream"
+import { createLeadLagTracker, summarizeLags, type LagSample, type LagStats, type LeadLagSide } from "@/utils/lead-lag"
+
+export interface PairLeadLag {
+  pair: InstrumentPair
+  stats: LagStats | null
+  samples: LagSample[]
+}
+
+const groupByKey = (pairs: InstrumentPair[], key: (pair: InstrumentPair) => string) => {
+  const groups = new Map<string, string[]>()
+  for (const pair of pairs) groups.set(key(pair), [...(groups.get(key(pair)) ?? []), pairId(pair)])
+  return groups
+}
+
+// Lead/lag of Kite vs Upstox for every mapped pair, accumulated across tick
+// buffer rotations (see utils/lead-lag.ts for the matching)
+export function useLeadLag(kiteTicks: TickData[], upstoxTicks: TickData[], pairs: InstrumentPair[]) {
+  const tracker = useRef(createLeadLagTracker())
+  const newestSeen = useRef<Record<LeadLagSide, string | null>>({ kite: null, upstox: null })
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const pairsByKey: Record<LeadLagSide, Map<string, string[]>> = {
+      kite: groupByKey(pairs, (pair) => pair.kiteKey),
+      upstox: groupByKey(pairs, (pair) => pair.upstoxKey),
+    }
+
+    const incoming = [
+      ...takeNewTicks(kiteTicks, newestSeen.current.kite).map((tick) => ({ side: "kite" as const, tick })),
+      ...takeNewTicks(upstoxTicks, newestSeen.current.upstox).map((tick) => ({ side: "upstox" as const, tick })),
+    ]
+      .reverse()
+      .sort((a, b) => a.tick.receivedAt - b.tick.receivedAt)
+    newestSeen.current = { kite: kiteTicks[0]?.id ?? null, upstox: upstoxTicks[0]?.id ?? null }
+
+    let recorded = false
+    for (const { side, tick } of incoming) {
+      for (const id of pairsByKey[side].get(tick.instrument_key) ?? []) {
+        recorded = tracker.current.observe(id, side, tick) || recorded
+      }
+    }
+    if (recorded) setVersion((v) => v + 1)
+  }, [kiteTicks, upstoxTicks, pairs])
+
+  const results = useMemo<PairLeadLag[]>(
+    () =>
+      pairs.map((pair) => {
+        const samples = [...tracker.current.samples(pairId(pair))]
+        return { pair, stats: summarizeLags(samples), samples }
+      }),
+    [pairs, version], // version changes whenever the tracker records a sample
+  )
+
+  const reset = useCallback(() => {
+    tracker.current.reset()
+    setVersion((v) => v + 1)
+  }, [])
+
+  return { results, reset }
+}
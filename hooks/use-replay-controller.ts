@@ -0,0 +1,9 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+import type { ReplayController } from "@/utils/feeds/replay-adapter"
+
+// Subscribes a component to a replay adapter's playback state
+export function useReplayController(controller: ReplayController) {
+  return useSyncExternalStore(controller.subscribe, controller.getState, controller.getState)
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { useState, useCallback } from "react"
+import type { TickData } from "@/utils/feeds/types"
+
+export interface TickHistoryRequest {
+  feed: string
+  instrument: string
+  from?: string // YYYY-MM-DD or ISO timestamp
+  to?: string
+  limit?: number
+}
+
+const isBareDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+export async function fetchTickHistory(request: TickHistoryRequest): Promise<TickData[]> {
+  const params = new URLSearchParams({ feed: request.feed, instrument: request.instrument })
+  // Bare dates are IST trading days: from the start of `from` through the end of `to`
+  if (request.from) params.set("from", isBareDate(request.from) ? `${request.from}T00:00:00+05:30` : request.from)
+  if (request.to) params.set("to", isBareDate(request.to) ? `${request.to}T23:59:59.999+05:30` : request.to)
+  if (request.limit) params.set("limit", String(request.limit))
+
+  const response = await fetch(`/api/history?${params}`)
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `History request failed with ${response.status}`)
+  }
+  const body = await response.json()
+  return body.ticks
+}
+
+// Loads stored session ticks from /api/history on demand
+export function useTickHistory() {
+  const [ticks, setTicks] = useState<TickData[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async (request: TickHistoryRequest) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await fetchTickHistory(request)
+      setTicks(result)
+      return result
+    } catch (err) {
+      setError(String(err))
+      return []
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const clear = useCallback(() => setTicks([]), [])
+
+  return { ticks, isLoading, error, load, clear }
+}
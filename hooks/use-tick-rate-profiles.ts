@@ -0,0 +1,51 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import type { TickRateProfile } from "@/utils/tick-rate-profile"
+
+const REFRESH_INTERVAL = 60 * 60 * 1000 // Matches the server's relearn interval
+
+export async function fetchTickRateProfile(feed: string, instrument: string): Promise<TickRateProfile> {
+  const response = await fetch(`/api/tick-rates?${new URLSearchParams({ feed, instrument })}`)
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || `Tick rate request failed with ${response.status}`)
+  }
+  return response.json()
+}
+
+// Learned tick-rate profiles for the given instruments, refreshed hourly
+export function useTickRateProfiles(feed: string, instrumentKeys: string[]) {
+  const [profiles, setProfiles] = useState<Map<string, TickRateProfile>>(new Map())
+  const keys = [...instrumentKeys].sort().join("\n")
+
+  useEffect(() => {
+    if (!keys) {
+      setProfiles(new Map())
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      const results = await Promise.all(
+        keys.split("\n").map((key) =>
+          fetchTickRateProfile(feed, key).catch((error) => {
+            console.error(`❌ Failed to load tick rates for ${key}:`, error)
+            return null
+          }),
+        ),
+      )
+      if (cancelled) return
+      setProfiles(new Map(results.flatMap((profile) => (profile ? [[profile.instrumentKey, profile] as const] : []))))
+    }
+
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [feed, keys])
+
+  return profiles
+}
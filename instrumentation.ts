@@ -0,0 +1,14 @@
+// Next.js calls register() once per server start. Boot the ingestion worker
+// here so feeds are monitored even when no dashboard tab is open.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  // Optional local WebSocket stand-in (see README)
+  if (process.env.MOCK_WS_PORT) {
+    const { startMockWebSocketServer } = await import("./lib/server/mock-ws-server")
+    startMockWebSocketServer(Number(process.env.MOCK_WS_PORT))
+  }
+
+  const { getIngestionWorker } = await import("./lib/server/ingestion-worker")
+  getIngestionWorker()
+}
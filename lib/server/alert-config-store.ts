@@ -0,0 +1,88 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { z } from "zod"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { inactivityAlertConfigsSchema, type InactivityAlertConfigs } from "@/utils/inactivity-config"
+
+// By feed id, then instrument key
+const storeFileSchema = z.record(z.string(), inactivityAlertConfigsSchema)
+
+// Inactivity alert configurations for every feed, kept in one JSON file so they
+// survive restarts and are shared by every browser.
+export function createAlertConfigStore(file: string) {
+  let loaded: Promise<Record<string, InactivityAlertConfigs>> | null = null
+  let writing: Promise<void> = Promise.resolve()
+
+  const load = () => {
+    loaded ??= fs
+      .readFile(file, "utf8")
+      .then((text) => storeFileSchema.parse(JSON.parse(text)))
+      .catch((error) => {
+        if (error?.code !== "ENOENT") console.error(`❌ Ignoring unreadable alert configs in ${file}:`, error)
+        return {}
+      })
+    return loaded
+  }
+
+  // Through a temporary file, so a crash never leaves half a file
+  const write = async (all: Record<string, InactivityAlertConfigs>) => {
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(all, null, 2))
+      await fs.rename(`${file}.tmp`, file)
+    } catch (error) {
+      console.error(`❌ Failed to save alert configs to ${file}:`, error)
+      throw error
+    }
+  }
+
+  // Changes run one at a time, each on a copy of the latest saved state. The copy
+  // replaces the cache only once it is on disk, so a failed write changes nothing,
+  // and the queue itself never stays rejected.
+  const change = <T>(update: (all: Record<string, InactivityAlertConfigs>) => { next?: typeof all; result: T }) => {
+    const run = writing.then(async () => {
+      const { next, result } = update(await load())
+      if (next) {
+        await write(next)
+        loaded = Promise.resolve(next)
+      }
+      return result
+    })
+    writing = run.then(
+      () => undefined,
+      () => undefined,
+    )
+    return run
+  }
+
+  const list = async (feed: string): Promise<InactivityAlertConfigs> => (await load())[feed] ?? {}
+
+  // Adds or replaces the given instruments' configurations, leaving the rest alone
+  const upsert = (feed: string, configurations: Record<string, InactivityAlertConfig>) =>
+    change((all) => {
+      const next = { ...all, [feed]: { ...all[feed], ...configurations } }
+      return { next, result: next[feed] }
+    })
+
+  const remove = (feed: string, instrumentKey: string) =>
+    change((all) => {
+      if (!all[feed]?.[instrumentKey]) return { result: false }
+      const configurations = { ...all[feed] }
+      delete configurations[instrumentKey]
+      return { next: { ...all, [feed]: configurations }, result: true }
+    })
+
+  return { list, upsert, remove }
+}
+
+export type AlertConfigStore = ReturnType<typeof createAlertConfigStore>
+
+const globalForStore = globalThis as typeof globalThis & { __alertConfigStore?: AlertConfigStore }
+
+export function getAlertConfigStore(): AlertConfigStore {
+  if (!globalForStore.__alertConfigStore) {
+    const file = process.env.ALERT_CONFIG_FILE || path.join(process.cwd(), ".data", "alert-configs.json")
+    globalForStore.__alertConfigStore = createAlertConfigStore(file)
+  }
+  return globalForStore.__alertConfigStore
+}
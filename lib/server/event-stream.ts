@@ -0,0 +1,17 @@
+// Shared pieces of the text/event-stream responses served by the API routes
+
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET",
+  "Access-Control-Allow-Headers": "Cache-Control, Last-Event-ID",
+}
+
+// Multi-line payloads need one data: field per line
+export const formatServerSentEvent = (event: { id?: number | string; event: string; data: string }) =>
+  `${event.id !== undefined ? `id: ${event.id}\n` : ""}event: ${event.event}\n${event.data
+    .split(/\r?\n/)
+    .map((line) => `data: ${line}`)
+    .join("\n")}\n\n`
@@ -0,0 +1,126 @@
+import type { ConnectionStatus, FeedAdapter, FeedConnection } from "@/utils/feeds/types"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+
+const REPLAY_BUFFER_SIZE = 500
+const IDLE_DISCONNECT_DELAY = 30_000
+
+export interface HubEvent {
+  id: number
+  event: string
+  data: string
+}
+
+export interface HubSubscriber {
+  onEvent: (event: HubEvent) => void
+  onStatus?: (status: ConnectionStatus, reconnectDelay?: number) => void
+}
+
+// One upstream connection per feed, fanned out to every subscriber. Events get
+// sequential ids and the last few hundred are kept so clients can resume with
+// Last-Event-ID. The upstream is dropped once nobody has listened for a while.
+export function createFeedHub(adapter: FeedAdapter) {
+  const subscribers = new Set<HubSubscriber>()
+  let buffer: HubEvent[] = []
+  let nextId = 1
+  let status: ConnectionStatus = "disconnected"
+  let connection: FeedConnection | null = null
+  let connectionAttempts = 0
+  let reconnectTimeout: NodeJS.Timeout | null = null
+  let idleTimeout: NodeJS.Timeout | null = null
+
+  const setStatus = (next: ConnectionStatus, reconnectDelay?: number) => {
+    status = next
+    subscribers.forEach((subscriber) => subscriber.onStatus?.(next, reconnectDelay))
+  }
+
+  const publish = (data: string, eventType: string) => {
+    const event: HubEvent = { id: nextId++, event: eventType, data }
+    buffer.push(event)
+    if (buffer.length > REPLAY_BUFFER_SIZE) buffer = buffer.slice(-REPLAY_BUFFER_SIZE)
+    subscribers.forEach((subscriber) => subscriber.onEvent(event))
+  }
+
+  const connect = () => {
+    connection?.close()
+    connectionAttempts++
+    setStatus("connecting")
+    console.log(`[${adapter.name}] Attempt ${connectionAttempts}: Connecting upstream to ${adapter.url}`)
+
+    connection = adapter.connect({
+      onOpen: () => {
+        connectionAttempts = 0
+        setStatus("connected")
+      },
+      onMessage: publish,
+      onError: (closed) => {
+        if (!closed || !connection) return
+
+        const delay = Math.min(5000 * Math.pow(2, Math.max(0, connectionAttempts - 1)), 30000)
+        setStatus("disconnected", delay)
+        if (reconnectTimeout) clearTimeout(reconnectTimeout)
+        reconnectTimeout = setTimeout(connect, delay)
+      },
+    })
+  }
+
+  const disconnect = () => {
+    const current = connection
+    connection = null
+    current?.close()
+    if (reconnectTimeout) clearTimeout(reconnectTimeout)
+    reconnectTimeout = null
+    setStatus("disconnected")
+    console.log(`[${adapter.name}] No subscribers left, upstream closed`)
+  }
+
+  const subscribe = (subscriber: HubSubscriber, lastEventId?: number) => {
+    if (idleTimeout) {
+      clearTimeout(idleTimeout)
+      idleTimeout = null
+    }
+
+    if (lastEventId !== undefined) {
+      for (const event of buffer) {
+        if (event.id > lastEventId) subscriber.onEvent(event)
+      }
+    }
+
+    subscribers.add(subscriber)
+    subscriber.onStatus?.(status)
+    if (!connection) connect()
+
+    return () => {
+      subscribers.delete(subscriber)
+      if (subscribers.size === 0 && !idleTimeout) {
+        idleTimeout = setTimeout(() => {
+          idleTimeout = null
+          if (subscribers.size === 0) disconnect()
+        }, IDLE_DISCONNECT_DELAY)
+      }
+    }
+  }
+
+  return {
+    adapter,
+    subscribe,
+    status: () => status,
+    subscriberCount: () => subscribers.size,
+  }
+}
+
+export type FeedHub = ReturnType<typeof createFeedHub>
+
+const globalForHubs = globalThis as typeof globalThis & { __feedHubs?: Map<string, FeedHub> }
+
+// Process-wide hub for a feed id, shared by the /api/ticks proxy and the ingestion worker
+export function getFeedHub(feedId: string): FeedHub | undefined {
+  const hubs = (globalForHubs.__feedHubs ??= new Map())
+  let hub = hubs.get(feedId)
+  if (!hub) {
+    const adapter = getFeedAdapter(feedId)
+    if (!adapter) return undefined
+    hub = createFeedHub(adapter)
+    hubs.set(feedId, hub)
+  }
+  return hub
+}
@@ -0,0 +1,215 @@
+import type { Alert, ConnectionStatus, TickData } from "@/utils/feeds/types"
+import type { InactivityAlert, InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { createInactivityDetector } from "@/utils/inactivity-detector"
+import { createSkewCompensator } from "@/utils/feeds/latency"
+import { createFreezeDetector, describeFreeze, describeResume, type InstrumentFreeze } from "@/utils/freeze-detector"
+import { createTickValidator, type DataQualitySummary } from "@/utils/tick-validator"
+import type { FeedHub } from "./feed-hub"
+import { getTickRateLearner } from "./tick-rate-learner"
+import { isTickStoreEnabled } from "./tick-store"
+
+const MAX_ALERTS = 100
+const MAX_INACTIVITY_ALERTS = 100
+const MAX_INSTRUMENT_FREEZES = 100
+const CHECK_INTERVAL = 1000
+
+export interface FeedMonitorSnapshot {
+  feed: string
+  name: string
+  url: string
+  connectionStatus: ConnectionStatus
+  isFrozen: boolean
+  lastTickTime: number | null
+  totalTicks: number
+  freezingIncidents: number
+  frozenInstruments: string[]
+  instrumentFreezes: InstrumentFreeze[]
+  freezeCounts: Record<string, number>
+  dataQuality: DataQualitySummary
+  instruments: number
+  alerts: Alert[]
+  inactivityAlerts: InactivityAlert[]
+  inactiveSymbols: string[]
+  configurations: Record<string, InactivityAlertConfig>
+}
+
+type TickListener = (ticks: TickData[]) => void
+
+// Node-side counterpart of useFeed: stays subscribed to the feed's shared
+// upstream hub and runs validation, freeze and inactivity detection without a browser.
+export function createFeedMonitor(hub: FeedHub) {
+  const { adapter } = hub
+  let unsubscribe: (() => void) | null = null
+  let connectionStatus: ConnectionStatus = "disconnected"
+  let isFrozen = false
+  let lastTickTime: number | null = null
+  let totalTicks = 0
+  let freezingIncidents = 0
+  let alerts: Alert[] = []
+  let inactivityAlerts: InactivityAlert[] = []
+  let instrumentFreezes: InstrumentFreeze[] = []
+  let checkInterval: NodeJS.Timeout | null = null
+
+  const lastTickTimestamps = new Map<string, number>()
+  const skew = createSkewCompensator()
+  const validator = createTickValidator()
+  const latestTicks = new Map<string, TickData>()
+  const tickListeners = new Set<TickListener>()
+
+  const detector = createInactivityDetector(
+    (alert) => {
+      inactivityAlerts = [alert, ...inactivityAlerts].slice(0, MAX_INACTIVITY_ALERTS)
+      const what = alert.mode === "adaptive" ? "silent" : "flat"
+      console.warn(`🔔 [${adapter.name}] Inactivity alert: ${alert.instrumentName} ${what} for ${alert.duration}s`)
+    },
+    // Adaptive mode learns from the tick store; without it the configured duration applies
+    (instrumentKey) => (isTickStoreEnabled() ? getTickRateLearner().peek(adapter.id, instrumentKey) : undefined),
+  )
+
+  const addAlert = (
+    type: Alert["type"],
+    message: string,
+    severity: Alert["severity"] = "medium",
+    instrumentKey?: string,
+  ) => {
+    const alert: Alert = { id: crypto.randomUUID(), type, message, severity, timestamp: Date.now(), instrumentKey }
+    alerts = [alert, ...alerts].slice(0, MAX_ALERTS)
+    console.log(`[${adapter.name}] Alert [${severity}]: ${message}`)
+  }
+
+  const freezeDetector = createFreezeDetector({
+    onFreeze: (freeze) => {
+      instrumentFreezes = [freeze, ...instrumentFreezes].slice(0, MAX_INSTRUMENT_FREEZES)
+      addAlert("freeze", describeFreeze(freeze), "high", freeze.instrumentKey)
+    },
+    onResume: (freeze) => {
+      instrumentFreezes = instrumentFreezes.map((previous) => (previous.id === freeze.id ? freeze : previous))
+      addAlert("freeze", describeResume(freeze), "low", freeze.instrumentKey)
+    },
+  })
+
+  const handleMessage = (rawData: string, eventType: string) => {
+    const receivedAt = Date.now()
+    const processedTicks: TickData[] = []
+
+    try {
+      for (const tick of adapter.parse(rawData, receivedAt, eventType)) {
+        const previous = lastTickTimestamps.get(tick.instrument_key)
+        const processedTick: TickData = {
+          ...tick,
+          id: `${tick.instrument_key}_${receivedAt}_${Math.random().toString(36).substr(2, 5)}`,
+          feed: adapter.id,
+          delay: Math.max(0, previous ? tick.timestamp - previous : 0),
+          latency: 0,
+          receivedAt,
+        }
+        // Quarantined ticks are counted in the snapshot and never stored, or used for latency
+        if (!validator.validate(processedTick)) continue
+        processedTick.latency = skew.latency(receivedAt, tick.timestamp)
+        lastTickTimestamps.set(tick.instrument_key, tick.timestamp)
+        processedTicks.push(processedTick)
+      }
+    } catch (error) {
+      addAlert("data", `Error processing data: ${error}`, "medium")
+      return
+    }
+
+    if (processedTicks.length === 0) return
+
+    totalTicks += processedTicks.length
+    lastTickTime = receivedAt
+    if (isFrozen) {
+      isFrozen = false
+      addAlert("freeze", `${adapter.name} data resumed`, "low")
+    }
+
+    const slowIntervalTicks = processedTicks.filter((tick) => tick.delay > adapter.intervalThreshold)
+    if (slowIntervalTicks.length > 0) {
+      addAlert("delay", `${slowIntervalTicks.length} ticks with long inter-tick interval detected`, "medium")
+    }
+    const lateTicks = processedTicks.filter((tick) => tick.latency > adapter.latencyThreshold)
+    if (lateTicks.length > 0) {
+      addAlert("latency", `${lateTicks.length} ticks with high transport latency detected`, "medium")
+    }
+
+    for (const tick of processedTicks) {
+      latestTicks.set(tick.instrument_key, tick)
+      detector.observe(tick, receivedAt)
+      freezeDetector.observe(tick, receivedAt)
+    }
+    tickListeners.forEach((listener) => listener(processedTicks))
+  }
+
+  const check = () => {
+    const now = Date.now()
+    if (!isFrozen && lastTickTime && now - lastTickTime > adapter.freezeThreshold) {
+      isFrozen = true
+      freezingIncidents++
+      addAlert("freeze", `No ${adapter.name} data received for ${adapter.freezeThreshold / 1000} seconds`, "high")
+    }
+    detector.check(now)
+    freezeDetector.check(now)
+  }
+
+  const handleStatus = (status: ConnectionStatus, reconnectDelay?: number) => {
+    const previous = connectionStatus
+    connectionStatus = status
+    if (status === "connected" && previous !== "connected") {
+      addAlert("connection", `Successfully connected to ${adapter.name} stream`, "low")
+    } else if (status === "disconnected" && reconnectDelay !== undefined) {
+      addAlert("connection", `Connection lost. Reconnecting in ${reconnectDelay / 1000}s...`, "high")
+    }
+  }
+
+  const start = () => {
+    if (unsubscribe) return
+    unsubscribe = hub.subscribe({ onEvent: (event) => handleMessage(event.data, event.event), onStatus: handleStatus })
+    checkInterval = setInterval(check, CHECK_INTERVAL)
+  }
+
+  const stop = () => {
+    unsubscribe?.()
+    unsubscribe = null
+    connectionStatus = "disconnected"
+    if (checkInterval) clearInterval(checkInterval)
+  }
+
+  const onTicks = (listener: TickListener) => {
+    tickListeners.add(listener)
+    return () => {
+      tickListeners.delete(listener)
+    }
+  }
+
+  const snapshot = (): FeedMonitorSnapshot => ({
+    feed: adapter.id,
+    name: adapter.name,
+    url: adapter.url,
+    connectionStatus,
+    isFrozen,
+    lastTickTime,
+    totalTicks,
+    freezingIncidents,
+    frozenInstruments: Array.from(freezeDetector.frozenInstruments),
+    instrumentFreezes,
+    freezeCounts: Object.fromEntries(freezeDetector.incidentCounts),
+    dataQuality: validator.summary(),
+    instruments: latestTicks.size,
+    alerts,
+    inactivityAlerts,
+    inactiveSymbols: Array.from(detector.inactiveSymbols),
+    configurations: Object.fromEntries(detector.configurations),
+  })
+
+  return {
+    adapter,
+    start,
+    stop,
+    onTicks,
+    snapshot,
+    latestTicks: () => Array.from(latestTicks.values()),
+    setInactivityConfig: detector.setConfiguration,
+  }
+}
+
+export type FeedMonitor = ReturnType<typeof createFeedMonitor>
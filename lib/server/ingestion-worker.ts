@@ -0,0 +1,78 @@
+import { FEED_ADAPTERS } from "@/utils/feeds/registry"
+import { createFeedMonitor, type FeedMonitor } from "./feed-monitor"
+import { getFeedHub, type FeedHub } from "./feed-hub"
+import { getSessionRecorder, isSessionRecorderEnabled } from "./session-recorder"
+import { getTickStore, isTickStoreEnabled } from "./tick-store"
+import { ensureInstrumentsLoaded } from "./instrument-store"
+import { getAlertConfigStore } from "./alert-config-store"
+
+// Kept on globalThis so dev-mode module reloads don't open duplicate upstream connections
+const globalForWorker = globalThis as typeof globalThis & {
+  __ingestionWorker?: ReturnType<typeof createIngestionWorker>
+}
+
+function createIngestionWorker() {
+  const monitors = new Map<string, FeedMonitor>()
+  const hubs: FeedHub[] = []
+  for (const adapter of FEED_ADAPTERS) {
+    const hub = getFeedHub(adapter.id)
+    if (!hub) continue
+    hubs.push(hub)
+    monitors.set(adapter.id, createFeedMonitor(hub))
+  }
+
+  // Persist every tick the worker sees so history survives beyond the in-memory buffers
+  if (isTickStoreEnabled()) {
+    const store = getTickStore()
+    monitors.forEach((monitor) => monitor.onTicks(store.append))
+  }
+  const startedAt = Date.now()
+
+  return {
+    startedAt,
+    monitors,
+    getMonitor: (feed: string) => monitors.get(feed),
+    start: () => {
+      // Alert messages name instruments through the instrument master; names fill in once loaded
+      ensureInstrumentsLoaded()
+      monitors.forEach((monitor) => monitor.start())
+      // Saved inactivity alert configurations apply from startup, not only once a browser sends them
+      monitors.forEach(async (monitor, feed) => {
+        const configurations = await getAlertConfigStore().list(feed)
+        Object.entries(configurations).forEach(([key, config]) => monitor.setInactivityConfig(key, config))
+      })
+      // Raw payloads are recorded per trading day for replay
+      if (isSessionRecorderEnabled()) {
+        const recorder = getSessionRecorder()
+        hubs.forEach((hub) => recorder.start(hub))
+      }
+    },
+    stop: () => {
+      monitors.forEach((monitor) => monitor.stop())
+      if (isSessionRecorderEnabled()) getSessionRecorder().stop()
+    },
+    snapshot: () => ({
+      startedAt,
+      feeds: Array.from(monitors.values()).map((monitor) => monitor.snapshot()),
+    }),
+  }
+}
+
+export type IngestionWorker = ReturnType<typeof createIngestionWorker>
+
+export function isIngestionWorkerEnabled() {
+  return process.env.INGESTION_WORKER !== "disabled"
+}
+
+// Returns the process-wide worker, starting it on first use
+export function getIngestionWorker(): IngestionWorker {
+  if (!globalForWorker.__ingestionWorker) {
+    const worker = createIngestionWorker()
+    globalForWorker.__ingestionWorker = worker
+    if (isIngestionWorkerEnabled()) {
+      console.log("🚀 Starting server-side tick ingestion worker")
+      worker.start()
+    }
+  }
+  return globalForWorker.__ingestionWorker
+}
@@ -0,0 +1,54 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { getInstrumentMaster, parseInstrumentDump } from "@/utils/instrument-master"
+
+export interface InstrumentDumpSummary {
+  file: string
+  count: number
+  error?: string
+}
+
+// Loads every .csv/.json dump in the directory into the process-wide instrument
+// master. A bad file is reported and skipped rather than failing the rest.
+export async function loadInstrumentDumps(dir: string): Promise<InstrumentDumpSummary[]> {
+  let files: string[]
+  try {
+    files = (await fs.readdir(dir)).filter((file) => /\.(csv|json)$/i.test(file)).sort()
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+
+  const master = getInstrumentMaster()
+  const summaries: InstrumentDumpSummary[] = []
+  for (const file of files) {
+    try {
+      const records = parseInstrumentDump(await fs.readFile(path.join(dir, file), "utf8"))
+      master.add(records)
+      summaries.push({ file, count: records.length })
+    } catch (error) {
+      console.error(`❌ Failed to load instrument dump ${file}:`, error)
+      summaries.push({ file, count: 0, error: String(error) })
+    }
+  }
+
+  const total = summaries.reduce((sum, summary) => sum + summary.count, 0)
+  if (files.length > 0) console.log(`📇 Loaded ${total} instruments from ${files.length} dump(s) in ${dir}`)
+  return summaries
+}
+
+const globalForInstruments = globalThis as typeof globalThis & {
+  __instrumentDumps?: Promise<InstrumentDumpSummary[]>
+}
+
+// Loads the dumps in INSTRUMENTS_DIR (default .data/instruments) once per process
+export function ensureInstrumentsLoaded(): Promise<InstrumentDumpSummary[]> {
+  if (!globalForInstruments.__instrumentDumps) {
+    const dir = process.env.INSTRUMENTS_DIR || path.join(process.cwd(), ".data", "instruments")
+    globalForInstruments.__instrumentDumps = loadInstrumentDumps(dir).catch((error) => {
+      console.error("❌ Failed to load instrument dumps:", error)
+      return []
+    })
+  }
+  return globalForInstruments.__instrumentDumps
+}
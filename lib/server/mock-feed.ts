@@ -0,0 +1,260 @@
+import { encodeBase64 } from "@/utils/feeds/binary"
+import { encodeKiteBinary } from "@/utils/feeds/kite-binary"
+
+export type MockFeedFormat = "kite" | "upstox"
+
+export interface MockFeedOptions {
+  format: MockFeedFormat
+  instruments: string[] // Kite tokens or Upstox instrument keys
+  rate: number // Payloads per second
+  flat: string[] // Instruments whose price never moves (inactivity testing)
+  freezeEvery: number // Seconds between freezes, 0 = never
+  freezeFor: number // Seconds each freeze lasts
+  disconnectAfter: number // Seconds before the server drops the stream, 0 = never
+  malformedRate: number // Probability (0-1) that a payload is truncated JSON
+  seed: number // Same seed and options give the same sequence on every connection
+  binary: boolean // Kite only: full-mode binary packets (eventType "binary", base64) instead of JSON
+}
+
+export interface MockPayload {
+  event: string
+  data: string
+}
+
+const DEFAULT_INSTRUMENTS: Record<MockFeedFormat, string[]> = {
+  kite: ["256265", "265", "128083204", "408065"],
+  upstox: ["NSE_INDEX|Nifty 50", "BSE_INDEX|SENSEX", "NSE_EQ|INE002A01018"],
+}
+
+const BASE_PRICES: Record<string, number> = {
+  "256265": 24850,
+  "265": 81500,
+  "128083204": 2950,
+  "408065": 83.25,
+  "134657": 6200,
+  "NSE_INDEX|Nifty 50": 24850,
+  "BSE_INDEX|SENSEX": 81500,
+  "NSE_EQ|INE002A01018": 2950,
+}
+
+const TRADING_SYMBOLS: Record<string, string> = {
+  "256265": "NIFTY 50",
+  "265": "SENSEX",
+  "128083204": "RELIANCE",
+  "408065": "USDINR",
+  "134657": "CRUDEOIL",
+}
+
+const list = (value: string | null) =>
+  value
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : []
+
+const number = (value: string | null, fallback: number) => {
+  const parsed = Number(value)
+  return value !== null && Number.isFinite(parsed) ? parsed : fallback
+}
+
+// Options come straight from the query string so a feed URL fully describes a scenario:
+// /api/mock?feed=kite&rate=4&flat=265&freezeEvery=60&freezeFor=10&malformedRate=0.05
+export function parseMockFeedOptions(params: URLSearchParams): MockFeedOptions {
+  const format: MockFeedFormat = params.get("feed") === "upstox" ? "upstox" : "kite"
+  const instruments = list(params.get("instruments"))
+  return {
+    format,
+    instruments: instruments.length > 0 ? instruments : DEFAULT_INSTRUMENTS[format],
+    rate: Math.min(Math.max(number(params.get("rate"), 1), 0.1), 50),
+    flat: list(params.get("flat")),
+    freezeEvery: Math.max(0, number(params.get("freezeEvery"), 0)),
+    freezeFor: Math.max(0, number(params.get("freezeFor"), 10)),
+    disconnectAfter: Math.max(0, number(params.get("disconnectAfter"), 0)),
+    malformedRate: Math.min(Math.max(number(params.get("malformedRate"), 0), 0), 1),
+    seed: number(params.get("seed"), 1),
+    binary: format === "kite" && (params.get("binary") === "1" || params.get("binary") === "true"),
+  }
+}
+
+// mulberry32: tiny seeded PRNG so scenarios are reproducible
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const roundToTick = (price: number) => Math.max(0.05, Number((Math.round(price / 0.05) * 0.05).toFixed(2)))
+
+interface InstrumentState {
+  price: number
+  open: number
+  high: number
+  low: number
+  volume: number
+  totalValue: number
+  lastQuantity: number
+}
+
+// Generates Kite `event: tick` arrays or Upstox `live_feed` messages on a random walk
+export function createMockFeed(options: MockFeedOptions) {
+  const random = createRandom(options.seed)
+  const states = new Map<string, InstrumentState>()
+
+  // State is created on first use so WebSocket clients can subscribe to any instrument
+  const stateFor = (instrument: string) => {
+    let state = states.get(instrument)
+    if (!state) {
+      const price = BASE_PRICES[instrument] ?? roundToTick(100 + random() * 4900)
+      state = { price, open: price, high: price, low: price, volume: 0, totalValue: 0, lastQuantity: 0 }
+      states.set(instrument, state)
+    }
+    return state
+  }
+  options.instruments.forEach(stateFor)
+
+  const step = (instrument: string, state: InstrumentState) => {
+    if (!options.flat.includes(instrument)) {
+      state.price = roundToTick(state.price * (1 + (random() - 0.5) * 0.001))
+    }
+    state.lastQuantity = 1 + Math.floor(random() * 500)
+    state.volume += state.lastQuantity
+    state.totalValue += state.lastQuantity * state.price
+    state.high = Math.max(state.high, state.price)
+    state.low = Math.min(state.low, state.price)
+  }
+
+  const kitePayload = (instruments: string[], now: number) =>
+    JSON.stringify(
+      instruments.map((instrument) => {
+        const state = stateFor(instrument)
+        const token = Number(instrument)
+        return {
+          instrument_token: token,
+          tradingsymbol: TRADING_SYMBOLS[instrument],
+          last_price: state.price,
+          last_traded_quantity: state.lastQuantity,
+          average_traded_price: Number((state.totalValue / state.volume).toFixed(2)),
+          volume_traded: state.volume,
+          ohlc: { open: state.open, high: state.high, low: state.low, close: state.open },
+          timestamp: new Date(now).toISOString(),
+        }
+      }),
+    )
+
+  // The same ticks as a Kite full-mode binary message, with a synthetic five-level order book
+  const kiteBinaryPayload = (instruments: string[], now: number) =>
+    encodeKiteBinary(
+      instruments.map((instrument) => {
+        const state = stateFor(instrument)
+        const level = (i: number, side: number) => ({
+          price: roundToTick(state.price + side * 0.05 * (i + 1)),
+          quantity: 1 + Math.floor(random() * 1000),
+          orders: 1 + Math.floor(random() * 20),
+        })
+        const levels = [0, 1, 2, 3, 4]
+        return {
+          instrument_key: instrument,
+          instrument_token: Number(instrument),
+          last_price: state.price,
+          volume: state.volume,
+          average_price: state.totalValue / state.volume,
+          last_quantity: state.lastQuantity,
+          timestamp: now,
+          ohlc: { open: state.open, high: state.high, low: state.low, close: state.open },
+          depth: { buy: levels.map((i) => level(i, -1)), sell: levels.map((i) => level(i, 1)) },
+        }
+      }),
+    )
+
+  // v3-style full feed: indexFF for indices, marketFF with quotes (and OI for derivatives) otherwise
+  const upstoxPayload = (instruments: string[], now: number) =>
+    JSON.stringify({
+      type: "live_feed",
+      currentTs: String(now),
+      feeds: Object.fromEntries(
+        instruments.map((instrument) => {
+          const state = stateFor(instrument)
+          const ltpc = { ltp: state.price, ltt: String(now), ltq: String(state.lastQuantity), cp: state.open }
+          const marketOHLC = {
+            ohlc: [
+              {
+                interval: "1d",
+                open: state.open,
+                high: state.high,
+                low: state.low,
+                close: state.price,
+                vol: String(state.volume),
+                ts: String(now),
+              },
+            ],
+          }
+          if (instrument.includes("_INDEX|")) {
+            return [instrument, { fullFeed: { indexFF: { ltpc, marketOHLC } } }]
+          }
+
+          const bidAskQuote = [0, 1, 2, 3, 4].map((i) => ({
+            bidP: roundToTick(state.price - 0.05 * (i + 1)),
+            bidQ: String(1 + Math.floor(random() * 1000)),
+            askP: roundToTick(state.price + 0.05 * (i + 1)),
+            askQ: String(1 + Math.floor(random() * 1000)),
+          }))
+          return [
+            instrument,
+            {
+              fullFeed: {
+                marketFF: {
+                  ltpc,
+                  marketLevel: { bidAskQuote },
+                  marketOHLC,
+                  atp: Number((state.totalValue / state.volume).toFixed(2)),
+                  vtt: String(state.volume),
+                  oi: instrument.includes("_FO|") ? 100_000 + Math.floor(random() * 5000) : undefined,
+                  tbq: bidAskQuote.reduce((sum, quote) => sum + Number(quote.bidQ), 0),
+                  tsq: bidAskQuote.reduce((sum, quote) => sum + Number(quote.askQ), 0),
+                },
+              },
+            },
+          ]
+        }),
+      ),
+    })
+
+  // Whether the feed is inside a scheduled freeze, `elapsed` ms after connecting
+  const isFrozen = (elapsed: number) => {
+    if (options.freezeEvery <= 0) return false
+    const cycle = (options.freezeEvery + options.freezeFor) * 1000
+    return elapsed % cycle >= options.freezeEvery * 1000
+  }
+
+  const shouldDisconnect = (elapsed: number) =>
+    options.disconnectAfter > 0 && elapsed >= options.disconnectAfter * 1000
+
+  // Next payload; each instrument ticks with 80% probability so batches vary
+  const next = (now: number, subscribed: string[] = options.instruments): MockPayload => {
+    const ticked = subscribed.filter(() => random() < 0.8)
+    const instruments = ticked.length > 0 ? ticked : subscribed.slice(0, 1)
+    for (const instrument of instruments) step(instrument, stateFor(instrument))
+
+    if (options.binary) {
+      let bytes = kiteBinaryPayload(instruments, now)
+      if (random() < options.malformedRate) {
+        bytes = bytes.slice(0, Math.floor(bytes.length / 2))
+      }
+      return { event: "binary", data: encodeBase64(bytes) }
+    }
+
+    let data = options.format === "kite" ? kitePayload(instruments, now) : upstoxPayload(instruments, now)
+    if (random() < options.malformedRate) {
+      data = data.slice(0, Math.floor(data.length / 2))
+    }
+    return { event: options.format === "kite" ? "tick" : "message", data }
+  }
+
+  return { next, isFrozen, shouldDisconnect }
+}
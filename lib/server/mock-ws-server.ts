@@ -0,0 +1,183 @@
+import http from "http"
+import crypto from "crypto"
+import type { Duplex } from "stream"
+import { createMockFeed, parseMockFeedOptions } from "./mock-feed"
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+const OPCODE_TEXT = 0x1
+const OPCODE_BINARY = 0x2
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+interface Frame {
+  opcode: number
+  payload: Buffer
+}
+
+// Unmasked server-to-client frame (RFC 6455 section 5.2)
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length
+  let header: Buffer
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length])
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4)
+    header[0] = 0x80 | opcode
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+// Pulls complete (masked) client frames off the front of the buffer
+function decodeFrames(buffer: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = []
+  let offset = 0
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f
+    const masked = (buffer[offset + 1] & 0x80) !== 0
+    let length = buffer[offset + 1] & 0x7f
+    let headerLength = 2
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break
+      length = buffer.readUInt16BE(offset + 2)
+      headerLength = 4
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break
+      length = Number(buffer.readBigUInt64BE(offset + 2))
+      headerLength = 10
+    }
+
+    const maskLength = masked ? 4 : 0
+    const frameLength = headerLength + maskLength + length
+    if (buffer.length - offset < frameLength) break
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + frameLength))
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4)
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    }
+
+    frames.push({ opcode, payload })
+    offset += frameLength
+  }
+
+  return { frames, rest: buffer.subarray(offset) }
+}
+
+// Instruments named in a Kite ({"a":"subscribe","v":[...]}) or Upstox
+// ({"method":"sub","data":{"instrumentKeys":[...]}}) request
+function parseSubscription(text: string): { action: "subscribe" | "unsubscribe"; instruments: string[] } | null {
+  try {
+    const message = JSON.parse(text)
+    if (message?.a === "subscribe" || message?.a === "unsubscribe") {
+      return { action: message.a, instruments: (message.v ?? []).map(String) }
+    }
+    if (message?.method === "sub" || message?.method === "unsub") {
+      return {
+        action: message.method === "sub" ? "subscribe" : "unsubscribe",
+        instruments: (message.data?.instrumentKeys ?? []).map(String),
+      }
+    }
+  } catch {
+    // Not JSON; ignore like the real brokers do
+  }
+  return null
+}
+
+function runSession(socket: Duplex, params: URLSearchParams) {
+  const options = parseMockFeedOptions(params)
+  const mockFeed = createMockFeed(options)
+  const startedAt = Date.now()
+  // Until the client subscribes, stream the instruments from the URL (or the defaults)
+  let subscribed: Set<string> | null = null
+  let pending = Buffer.alloc(0)
+
+  const send = (opcode: number, payload: Buffer) => {
+    if (!socket.destroyed) socket.write(encodeFrame(opcode, payload))
+  }
+
+  const interval = setInterval(() => {
+    const now = Date.now()
+    const elapsed = now - startedAt
+    if (mockFeed.shouldDisconnect(elapsed)) {
+      console.log(`🧪 Mock ${options.format} WebSocket dropping the connection after ${options.disconnectAfter}s`)
+      socket.destroy() // Abrupt, like a network failure: no close frame
+      return
+    }
+    if (mockFeed.isFrozen(elapsed)) return
+
+    const instruments = subscribed ? Array.from(subscribed) : options.instruments
+    if (instruments.length === 0) return
+    const payload = mockFeed.next(now, instruments)
+    if (payload.event === "binary") send(OPCODE_BINARY, Buffer.from(payload.data, "base64"))
+    else send(OPCODE_TEXT, Buffer.from(payload.data))
+  }, 1000 / options.rate)
+
+  const cleanup = () => clearInterval(interval)
+  socket.on("close", cleanup)
+  socket.on("error", cleanup)
+
+  socket.on("data", (chunk: Buffer) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]))
+    pending = Buffer.from(rest)
+
+    for (const frame of frames) {
+      if (frame.opcode === OPCODE_CLOSE) {
+        send(OPCODE_CLOSE, frame.payload.subarray(0, 2))
+        socket.end()
+      } else if (frame.opcode === OPCODE_PING) {
+        send(OPCODE_PONG, frame.payload)
+      } else if (frame.opcode === OPCODE_TEXT || frame.opcode === OPCODE_BINARY) {
+        // Upstox sends its JSON requests as binary frames
+        const request = parseSubscription(frame.payload.toString("utf8"))
+        if (!request) continue
+        subscribed ??= new Set()
+        for (const instrument of request.instruments) {
+          if (request.action === "subscribe") subscribed.add(instrument)
+          else subscribed.delete(instrument)
+        }
+      }
+    }
+  })
+}
+
+// WebSocket counterpart of /api/mock for testing the WebSocket transport
+// locally. Route handlers can't upgrade connections, so this runs its own
+// HTTP server: ws://localhost:<port>/?feed=kite&rate=2 takes the same
+// query parameters as /api/mock.
+export function startMockWebSocketServer(port: number) {
+  const server = http.createServer((_request, response) => {
+    response.writeHead(426, { "Content-Type": "text/plain" })
+    response.end("WebSocket upgrade required")
+  })
+
+  server.on("upgrade", (request, socket) => {
+    const key = request.headers["sec-websocket-key"]
+    if (!key) {
+      socket.destroy()
+      return
+    }
+
+    const accept = crypto.createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64")
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    )
+    runSession(socket, new URL(request.url ?? "/", "http://localhost").searchParams)
+  })
+
+  server.listen(port, () => console.log(`🧪 Mock WebSocket feed listening on ws://localhost:${port}`))
+  return server
+}
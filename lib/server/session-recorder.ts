@@ -0,0 +1,188 @@
+import { promises as fs, createReadStream } from "fs"
+import path from "path"
+import readline from "readline"
+import type { FeedHub } from "./feed-hub"
+import { getTradingDay } from "./tick-store"
+
+const FLUSH_INTERVAL = 1000
+const EDGE_READ_BYTES = 64 * 1024
+
+// One raw SSE payload exactly as processTickData received it
+export interface RecordedEvent {
+  t: number // receivedAt on the server, ms
+  event: string
+  data: string
+}
+
+export interface RecordedSession {
+  feed: string
+  session: string // IST trading day, YYYY-MM-DD
+  start: number | null
+  end: number | null
+  size: number
+}
+
+const parseRecord = (line: string): RecordedEvent | null => {
+  try {
+    const record = JSON.parse(line)
+    return typeof record?.t === "number" && typeof record?.data === "string" ? record : null
+  } catch {
+    return null
+  }
+}
+
+// Records every upstream payload of a feed hub to <root>/<feed>/<YYYY-MM-DD>.ndjson
+// so incidents can be replayed through the client pipeline later.
+export function createSessionRecorder(rootDir: string) {
+  let pending = new Map<string, string[]>()
+  let flushTimeout: NodeJS.Timeout | null = null
+  let flushing: Promise<void> = Promise.resolve()
+  const subscriptions = new Map<string, () => void>()
+
+  const sessionPath = (feed: string, session: string) => path.join(rootDir, feed, `${session}.ndjson`)
+
+  const flush = () => {
+    if (flushTimeout) {
+      clearTimeout(flushTimeout)
+      flushTimeout = null
+    }
+
+    const batch = pending
+    pending = new Map()
+    flushing = flushing.then(async () => {
+      for (const [file, lines] of batch) {
+        try {
+          await fs.mkdir(path.dirname(file), { recursive: true })
+          await fs.appendFile(file, lines.join(""))
+        } catch (error) {
+          console.error(`❌ Failed to record ${lines.length} events to ${file}:`, error)
+        }
+      }
+    })
+    return flushing
+  }
+
+  const record = (feed: string, event: string, data: string) => {
+    const t = Date.now()
+    const file = sessionPath(feed, getTradingDay(t))
+    const lines = pending.get(file) ?? []
+    lines.push(`${JSON.stringify({ t, event, data } satisfies RecordedEvent)}\n`)
+    pending.set(file, lines)
+    if (!flushTimeout) flushTimeout = setTimeout(flush, FLUSH_INTERVAL)
+  }
+
+  const start = (hub: FeedHub) => {
+    const feed = hub.adapter.id
+    if (subscriptions.has(feed)) return
+    subscriptions.set(
+      feed,
+      hub.subscribe({ onEvent: (event) => record(feed, event.event, event.data) }),
+    )
+  }
+
+  const stop = () => {
+    subscriptions.forEach((unsubscribe) => unsubscribe())
+    subscriptions.clear()
+    return flush()
+  }
+
+  // Reads a slice from the start or end of a file to find the first/last record
+  const readEdgeRecord = async (file: string, size: number, fromEnd: boolean) => {
+    const handle = await fs.open(file, "r")
+    try {
+      const length = Math.min(size, EDGE_READ_BYTES)
+      const buffer = Buffer.alloc(length)
+      await handle.read(buffer, 0, length, fromEnd ? size - length : 0)
+      const lines = buffer.toString("utf8").split("\n").filter(Boolean)
+      const ordered = fromEnd ? lines.reverse() : lines
+      for (const line of ordered) {
+        const parsed = parseRecord(line)
+        if (parsed) return parsed
+      }
+      return null
+    } finally {
+      await handle.close()
+    }
+  }
+
+  const listSessions = async (feed: string): Promise<RecordedSession[]> => {
+    await flush()
+
+    let files: string[]
+    try {
+      files = await fs.readdir(path.join(rootDir, feed))
+    } catch {
+      return []
+    }
+
+    const sessions: RecordedSession[] = []
+    for (const file of files.filter((name) => name.endsWith(".ndjson")).sort().reverse()) {
+      const session = file.slice(0, -7)
+      const fullPath = sessionPath(feed, session)
+      const { size } = await fs.stat(fullPath)
+      const first = size > 0 ? await readEdgeRecord(fullPath, size, false) : null
+      const last = size > 0 ? await readEdgeRecord(fullPath, size, true) : null
+      sessions.push({ feed, session, start: first?.t ?? null, end: last?.t ?? null, size })
+    }
+    return sessions
+  }
+
+  // Streams a session's records in order, starting at `from` (ms)
+  // Records at or after `from` (ms) and past line `after`, each with its line
+  // number in the file: unlike the time, which several records can share, it
+  // says exactly where a replay stopped
+  async function* readSession(
+    feed: string,
+    session: string,
+    { from = 0, after = -1 }: { from?: number; after?: number } = {},
+  ): AsyncGenerator<RecordedEvent & { line: number }> {
+    await flush()
+
+    const file = sessionPath(feed, session)
+    try {
+      await fs.access(file)
+    } catch {
+      return
+    }
+
+    const lines = readline.createInterface({ input: createReadStream(file, "utf8"), crlfDelay: Infinity })
+    let number = -1
+    try {
+      for await (const line of lines) {
+        number++
+        if (!line || number <= after) continue
+        const parsed = parseRecord(line)
+        if (parsed && parsed.t >= from) yield { ...parsed, line: number }
+      }
+    } finally {
+      lines.close()
+    }
+  }
+
+  const hasSession = async (feed: string, session: string) => {
+    try {
+      await fs.access(sessionPath(feed, session))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  return { start, stop, flush, listSessions, readSession, hasSession }
+}
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>
+
+const globalForRecorder = globalThis as typeof globalThis & { __sessionRecorder?: SessionRecorder }
+
+export function isSessionRecorderEnabled() {
+  return process.env.SESSION_RECORDER !== "disabled"
+}
+
+export function getSessionRecorder(): SessionRecorder {
+  if (!globalForRecorder.__sessionRecorder) {
+    const rootDir = process.env.SESSION_DIR || path.join(process.cwd(), ".data", "sessions")
+    globalForRecorder.__sessionRecorder = createSessionRecorder(rootDir)
+  }
+  return globalForRecorder.__sessionRecorder
+}
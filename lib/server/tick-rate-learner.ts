@@ -0,0 +1,88 @@
+import { learnTickRateProfile, LEARNING_DAYS, type TickRateProfile } from "@/utils/tick-rate-profile"
+import { getTickStore, type TickStore } from "./tick-store"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PROFILE_TTL = 60 * 60 * 1000 // Relearn hourly so today's ticks count too
+const MAX_LEARNING_TICKS = 250_000 // The newest, so liquid instruments learn from their latest days
+const MAX_PROFILES = 1_000
+
+// Learns tick-rate profiles from the tick store and caches them per instrument
+export function createTickRateLearner(store: TickStore) {
+  const profiles = new Map<string, TickRateProfile>()
+  const loading = new Map<string, Promise<TickRateProfile>>()
+  // Learns run one at a time: each holds up to MAX_LEARNING_TICKS arrival times,
+  // and the dashboard asks for every adaptive instrument at once
+  let learning: Promise<unknown> = Promise.resolve()
+
+  const learnNow = async (feed: string, instrumentKey: string) => {
+    const to = Date.now()
+    // Calendar days, so weekends and holidays in between still leave enough trading days
+    const from = to - Math.ceil((LEARNING_DAYS * 7) / 5) * DAY_MS
+    const ticks = await store.queryReceivedAt({
+      feed,
+      instrument: instrumentKey,
+      from,
+      to,
+      limit: MAX_LEARNING_TICKS,
+      newest: true,
+    })
+    return learnTickRateProfile(feed, instrumentKey, ticks)
+  }
+
+  const learn = (feed: string, instrumentKey: string) => {
+    const run = learning.then(() => learnNow(feed, instrumentKey))
+    learning = run.catch(() => undefined)
+    return run
+  }
+
+  // Oldest first, so once full the least recently learned profile makes room
+  const remember = (key: string, profile: TickRateProfile) => {
+    profiles.delete(key)
+    const oldest = profiles.keys().next()
+    if (profiles.size >= MAX_PROFILES && !oldest.done) profiles.delete(oldest.value)
+    profiles.set(key, profile)
+  }
+
+  const get = (feed: string, instrumentKey: string): Promise<TickRateProfile> => {
+    const key = `${feed}:${instrumentKey}`
+    const cached = profiles.get(key)
+    if (cached && Date.now() - cached.learnedAt < PROFILE_TTL) return Promise.resolve(cached)
+
+    let pending = loading.get(key)
+    if (!pending) {
+      pending = learn(feed, instrumentKey)
+        .then((profile) => {
+          remember(key, profile)
+          return profile
+        })
+        .finally(() => loading.delete(key))
+      loading.set(key, pending)
+    }
+    return pending
+  }
+
+  // Synchronous lookup for the monitor's check loop: returns whatever is cached
+  // and starts (re)learning in the background when it is missing or stale
+  const peek = (feed: string, instrumentKey: string) => {
+    const cached = profiles.get(`${feed}:${instrumentKey}`)
+    if (!cached || Date.now() - cached.learnedAt >= PROFILE_TTL) {
+      get(feed, instrumentKey).catch((error) =>
+        console.error(`❌ Failed to learn tick rates for ${feed}:${instrumentKey}:`, error),
+      )
+    }
+    return cached
+  }
+
+  return { get, peek }
+}
+
+export type TickRateLearner = ReturnType<typeof createTickRateLearner>
+
+const globalForLearner = globalThis as typeof globalThis & { __tickRateLearner?: TickRateLearner }
+
+export function getTickRateLearner(): TickRateLearner {
+  if (!globalForLearner.__tickRateLearner) {
+    globalForLearner.__tickRateLearner = createTickRateLearner(getTickStore())
+  }
+  return globalForLearner.__tickRateLearner
+}
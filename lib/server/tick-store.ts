@@ -0,0 +1,179 @@
+import { promises as fs, createReadStream } from "fs"
+import path from "path"
+import readline from "readline"
+import { getFeedAdapter } from "@/utils/feeds/registry"
+import type { TickData } from "@/utils/feeds/types"
+
+const FLUSH_INTERVAL = 1000
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface TickHistoryQuery {
+  feed: string
+  instrument: string
+  from: number
+  to: number
+  limit?: number
+  newest?: boolean // With a limit, keep the newest ticks in the range rather than the oldest
+}
+
+// Trading days are IST calendar days
+export const getTradingDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" })
+
+// Append-only NDJSON store partitioned as <root>/<feed>/<YYYY-MM-DD>/<instrument>.ndjson.
+// Writes are buffered in memory and flushed once a second.
+export function createTickStore(rootDir: string) {
+  let pending = new Map<string, string[]>()
+  let flushTimeout: NodeJS.Timeout | null = null
+  let flushing: Promise<void> = Promise.resolve()
+
+  const filePath = (feed: string, day: string, instrument: string) =>
+    path.join(rootDir, feed, day, `${encodeURIComponent(instrument)}.ndjson`)
+
+  // Feed and day name directories, so only configured feeds and YYYY-MM-DD days are read
+  const isKnownFeed = (feed: string) => getFeedAdapter(feed) !== undefined
+
+  const flush = () => {
+    if (flushTimeout) {
+      clearTimeout(flushTimeout)
+      flushTimeout = null
+    }
+
+    const batch = pending
+    pending = new Map()
+    flushing = flushing.then(async () => {
+      for (const [file, lines] of batch) {
+        try {
+          await fs.mkdir(path.dirname(file), { recursive: true })
+          await fs.appendFile(file, lines.join(""))
+        } catch (error) {
+          console.error(`❌ Failed to write ${lines.length} ticks to ${file}:`, error)
+        }
+      }
+    })
+    return flushing
+  }
+
+  const append = (ticks: TickData[]) => {
+    for (const tick of ticks) {
+      const { raw_data, ...record } = tick
+      const file = filePath(tick.feed, getTradingDay(tick.receivedAt), tick.instrument_key)
+      const lines = pending.get(file) ?? []
+      lines.push(`${JSON.stringify(record)}\n`)
+      pending.set(file, lines)
+    }
+    if (!flushTimeout) flushTimeout = setTimeout(flush, FLUSH_INTERVAL)
+  }
+
+  // Streamed line by line, so a query can stop at its limit without reading the rest
+  async function* readPartition(file: string): AsyncGenerator<TickData> {
+    try {
+      await fs.access(file)
+    } catch {
+      return
+    }
+
+    const lines = readline.createInterface({ input: createReadStream(file, "utf8"), crlfDelay: Infinity })
+    try {
+      for await (const line of lines) {
+        if (!line) continue
+        try {
+          yield JSON.parse(line)
+        } catch {
+          // A torn final line from a crash mid-write; skip it
+        }
+      }
+    } finally {
+      lines.close()
+    }
+  }
+
+  // The feed's day partitions within [from, to], oldest first. Only days the store
+  // actually holds are visited, however wide the range.
+  const listDays = async (feed: string, from: number, to: number) => {
+    const first = getTradingDay(from)
+    const last = getTradingDay(to)
+    try {
+      const entries = await fs.readdir(path.join(rootDir, feed))
+      return entries.filter((day) => DAY_PATTERN.test(day) && day >= first && day <= last).sort()
+    } catch {
+      return []
+    }
+  }
+
+  // The newest `limit` ticks, reading days newest first and each one in full
+  const queryNewest = async <T>(
+    { feed, instrument, from, to }: TickHistoryQuery,
+    limit: number,
+    project: (tick: TickData) => T,
+  ) => {
+    const days: T[][] = []
+    let remaining = limit
+    for (const day of (await listDays(feed, from, to)).reverse()) {
+      let kept: T[] = []
+      for await (const tick of readPartition(filePath(feed, day, instrument))) {
+        if (tick.receivedAt < from || tick.receivedAt > to) continue
+        kept.push(project(tick))
+        if (kept.length >= remaining * 2) kept = kept.slice(-remaining)
+      }
+      kept = kept.slice(-remaining)
+      days.unshift(kept)
+      remaining -= kept.length
+      if (remaining <= 0) break
+    }
+    return days.flat()
+  }
+
+  // Matching ticks, oldest first and filtered on receivedAt, each reduced to what
+  // the caller keeps so large queries don't hold whole records
+  const select = async <T>(query: TickHistoryQuery, project: (tick: TickData) => T) => {
+    const { feed, instrument, from, to, limit = Number.POSITIVE_INFINITY, newest } = query
+    await flush()
+
+    const result: T[] = []
+    if (limit <= 0 || !isKnownFeed(feed)) return result
+    if (newest && limit < Number.POSITIVE_INFINITY) return queryNewest(query, limit, project)
+    for (const day of await listDays(feed, from, to)) {
+      for await (const tick of readPartition(filePath(feed, day, instrument))) {
+        if (tick.receivedAt < from || tick.receivedAt > to) continue
+        result.push(project(tick))
+        if (result.length >= limit) return result
+      }
+    }
+    return result
+  }
+
+  // Ticks for one instrument, oldest first, filtered on receivedAt
+  const query = (options: TickHistoryQuery) => select(options, (tick) => tick)
+
+  // Just the arrival times, for learning tick rates over many days of history
+  const queryReceivedAt = (options: TickHistoryQuery) => select(options, (tick) => ({ receivedAt: tick.receivedAt }))
+
+  const listInstruments = async (feed: string, day: string) => {
+    if (!isKnownFeed(feed) || !DAY_PATTERN.test(day)) return []
+    try {
+      const files = await fs.readdir(path.join(rootDir, feed, day))
+      return files.filter((file) => file.endsWith(".ndjson")).map((file) => decodeURIComponent(file.slice(0, -7)))
+    } catch {
+      return []
+    }
+  }
+
+  return { append, flush, query, queryReceivedAt, listInstruments }
+}
+
+export type TickStore = ReturnType<typeof createTickStore>
+
+const globalForStore = globalThis as typeof globalThis & { __tickStore?: TickStore }
+
+export function isTickStoreEnabled() {
+  return process.env.TICK_STORE !== "disabled"
+}
+
+export function getTickStore(): TickStore {
+  if (!globalForStore.__tickStore) {
+    const rootDir = process.env.TICK_STORE_DIR || path.join(process.cwd(), ".data", "ticks")
+    globalForStore.__tickStore = createTickStore(rootDir)
+  }
+  return globalForStore.__tickStore
+}
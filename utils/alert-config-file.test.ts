@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { diffAlertConfigs, parseAlertConfigs, serializeAlertConfigs, type AlertConfigFile } from "./alert-config-file"
+
+const config = (overrides: Partial<InactivityAlertConfig> = {}): InactivityAlertConfig => ({
+  enabled: true,
+  mode: "deviation",
+  deviation: 0.5,
+  duration: 30,
+  respectMarketHours: true,
+  ...overrides,
+})
+
+const FILE: AlertConfigFile = {
+  version: 1,
+  name: "expiry day: 'tight' #1",
+  feed: "upstox",
+  exportedAt: "2024-10-22T05:00:00.000Z",
+  configurations: {
+    "NSE_INDEX|Nifty 50": config({ mode: "adaptive", deviation: 0 }),
+    "NSE_EQ|INE002A01018": config({ deviation: 1.25, respectMarketHours: false }),
+    "256265": config({ enabled: false, duration: 120 }),
+  },
+}
+
+describe("alert config files", () => {
+  it.each(["json", "yaml"] as const)("round-trips through %s", (format) => {
+    expect(parseAlertConfigs(serializeAlertConfigs(FILE, format))).toEqual(FILE)
+  })
+
+  it("writes instruments in sorted order", () => {
+    const { configurations } = JSON.parse(serializeAlertConfigs(FILE, "json"))
+    expect(Object.keys(configurations)).toEqual(["256265", "NSE_EQ|INE002A01018", "NSE_INDEX|Nifty 50"])
+  })
+
+  it("reads hand-written YAML with comments and quoting", () => {
+    const file = parseAlertConfigs(`
+# Night session
+version: 1
+name: 'MCX night' # inline comment
+feed: kite
+configurations:
+  "134657":
+    enabled: true
+    mode: deviation
+    deviation: 2
+    duration: 60
+    respectMarketHours: false
+`)
+    expect(file).toEqual({
+      version: 1,
+      name: "MCX night",
+      feed: "kite",
+      configurations: { "134657": config({ deviation: 2, duration: 60, respectMarketHours: false }) },
+    })
+  })
+
+  it("reads YAML flow mappings", () => {
+    const file = parseAlertConfigs(`
+version: 1
+feed: kite
+configurations: { "134657": { enabled: true, mode: deviation, deviation: 0.5, duration: 30, respectMarketHours: true } }
+`)
+    expect(file.configurations).toEqual({ "134657": config() })
+  })
+
+  it("reports YAML errors with their line", () => {
+    expect(() => parseAlertConfigs("version: 1\nfeed: kite\nfeed: upstox\n")).toThrow("Line 3: Map keys must be unique")
+    expect(() => parseAlertConfigs("configurations:\n  - 256265\n")).toThrow("configurations: Expected object")
+  })
+
+  it("treats keys named like Object members as ordinary instruments", () => {
+    const file = parseAlertConfigs(`
+version: 1
+feed: kite
+configurations:
+  constructor: { enabled: true, mode: deviation, deviation: 0.5, duration: 30, respectMarketHours: true }
+  __proto__: { enabled: true, mode: deviation, deviation: 0.5, duration: 30, respectMarketHours: true }
+`)
+    expect(Object.getPrototypeOf(file.configurations)).toBe(Object.prototype)
+    expect(file.configurations.constructor).toEqual(config())
+    const changes = diffAlertConfigs(new Map([["toString", config()]]), file.configurations, true)
+    expect(changes.map((change) => [change.instrumentKey, change.kind])).toEqual([
+      ["constructor", "added"],
+      ["toString", "disabled"],
+    ])
+  })
+
+  it("reports schema errors by path", () => {
+    const text = JSON.stringify({ version: 1, feed: "kite", configurations: { "256265": config({ duration: 0 }) } })
+    expect(() => parseAlertConfigs(text)).toThrow("configurations.256265.duration")
+  })
+})
+
+describe("diffAlertConfigs", () => {
+  const current = new Map([
+    ["a", config()],
+    ["b", config({ deviation: 1 })],
+    ["c", config()],
+    ["d", config({ enabled: false })],
+  ])
+  const incoming = { a: config(), b: config({ deviation: 2 }), e: config() }
+
+  it("lists added and changed configurations as an overlay", () => {
+    expect(diffAlertConfigs(current, incoming, false)).toEqual([
+      { instrumentKey: "b", kind: "changed", before: current.get("b"), after: incoming.b, fields: ["deviation"] },
+      {
+        instrumentKey: "e",
+        kind: "added",
+        after: incoming.e,
+        fields: ["enabled", "mode", "deviation", "duration", "respectMarketHours"],
+      },
+    ])
+  })
+
+  it("switches off enabled configurations missing from the file when replacing", () => {
+    const changes = diffAlertConfigs(current, incoming, true)
+    expect(changes.map((change) => [change.instrumentKey, change.kind])).toEqual([
+      ["b", "changed"],
+      ["c", "disabled"],
+      ["e", "added"],
+    ])
+    expect(changes[1].after.enabled).toBe(false)
+  })
+})
@@ -0,0 +1,96 @@
+import { parse, stringify, YAMLParseError } from "yaml"
+import { z } from "zod"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { inactivityAlertConfigsSchema, type InactivityAlertConfigs } from "@/utils/inactivity-config"
+
+// Exported inactivity alert configurations ("alert profiles"), as JSON or YAML,
+// so they can be version-controlled and loaded back.
+
+export type AlertConfigFileFormat = "json" | "yaml"
+
+export const alertConfigFileSchema = z.object({
+  version: z.literal(1),
+  name: z.string().optional(), // "expiry day", "MCX night", ...
+  feed: z.string().min(1),
+  exportedAt: z.string().optional(),
+  configurations: inactivityAlertConfigsSchema,
+})
+
+export type AlertConfigFile = z.infer<typeof alertConfigFileSchema>
+
+export const CONFIG_FIELDS: (keyof InactivityAlertConfig)[] = [
+  "enabled",
+  "mode",
+  "deviation",
+  "duration",
+  "respectMarketHours",
+]
+
+// Just the message and line; the yaml package adds a code excerpt for the console
+const parseYaml = (text: string): unknown => {
+  try {
+    return parse(text)
+  } catch (error) {
+    if (!(error instanceof YAMLParseError) || !error.linePos) throw error
+    throw new Error(`Line ${error.linePos[0].line}: ${error.message.split(" at line ")[0]}`)
+  }
+}
+
+// Keys sorted, so exports of the same profile diff cleanly in version control
+export function serializeAlertConfigs(file: AlertConfigFile, format: AlertConfigFileFormat) {
+  const configurations = Object.fromEntries(
+    Object.keys(file.configurations)
+      .sort()
+      .map((key) => [key, Object.fromEntries(CONFIG_FIELDS.map((field) => [field, file.configurations[key][field]]))]),
+  )
+  const ordered = { ...file, configurations }
+  if (format === "json") return `${JSON.stringify(ordered, null, 2)}\n`
+  return `# Inactivity alert profile\n${stringify(ordered)}`
+}
+
+// JSON when it looks like JSON, YAML otherwise. Throws with a line number or the zod issues.
+export function parseAlertConfigs(text: string): AlertConfigFile {
+  const trimmed = text.trim()
+  const data = trimmed.startsWith("{") ? JSON.parse(trimmed) : parseYaml(text)
+  const result = alertConfigFileSchema.safeParse(data)
+  if (!result.success) {
+    throw new Error(result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("\n"))
+  }
+  return result.data
+}
+
+export interface AlertConfigChange {
+  instrumentKey: string
+  kind: "added" | "changed" | "disabled" // disabled: not in the imported file, switched off when replacing
+  before?: InactivityAlertConfig
+  after: InactivityAlertConfig
+  fields: (keyof InactivityAlertConfig)[] // Fields that differ
+}
+
+// What importing `incoming` over `current` would change. With `replace`,
+// enabled configurations missing from the file are switched off, so the import
+// becomes the whole profile rather than an overlay.
+export function diffAlertConfigs(
+  current: Map<string, InactivityAlertConfig>,
+  incoming: InactivityAlertConfigs,
+  replace: boolean,
+): AlertConfigChange[] {
+  const changes: AlertConfigChange[] = []
+
+  Object.entries(incoming).forEach(([instrumentKey, after]) => {
+    const before = current.get(instrumentKey)
+    const fields = CONFIG_FIELDS.filter((field) => before?.[field] !== after[field])
+    if (!before) changes.push({ instrumentKey, kind: "added", after, fields })
+    else if (fields.length > 0) changes.push({ instrumentKey, kind: "changed", before, after, fields })
+  })
+
+  if (replace) {
+    current.forEach((before, instrumentKey) => {
+      if (Object.hasOwn(incoming, instrumentKey) || !before.enabled) return
+      const after = { ...before, enabled: false }
+      changes.push({ instrumentKey, kind: "disabled", before, after, fields: ["enabled"] })
+    })
+  }
+
+  return changes.sort((a, b) => a.instrumentKey.localeCompare(b.instrumentKey))
+}
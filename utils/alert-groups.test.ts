@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import type { TickData } from "@/utils/feeds/types"
+import {
+  alertGroupsSchema,
+  describeInstrument,
+  groupMatches,
+  patternToRegExp,
+  resolveGroupConfigs,
+  type AlertGroup,
+  type AlertGroupMatch,
+  type AlertGroupTarget,
+} from "./alert-groups"
+
+const config = (duration: number): InactivityAlertConfig => ({
+  enabled: true,
+  mode: "deviation",
+  deviation: 0.1,
+  duration,
+  respectMarketHours: true,
+})
+
+const group = (name: string, match: AlertGroupMatch, duration = 30): AlertGroup => ({
+  id: name,
+  name,
+  match,
+  config: config(duration),
+})
+
+const target = (name: string, exchange: string, marketType: AlertGroupTarget["marketType"] = "equity") => ({
+  instrumentKey: `key:${name}`,
+  name,
+  exchange,
+  marketType,
+})
+
+const NIFTY_FUT = target("NIFTY24OCTFUT", "NFO")
+const BANKNIFTY_FUT = target("BANKNIFTY24OCTFUT", "NFO")
+const RELIANCE = target("RELIANCE", "NSE")
+const USDINR = target("USDINR24OCTFUT", "CDS", "currency")
+
+describe("patternToRegExp", () => {
+  it("treats * and ? as wildcards and everything else literally", () => {
+    expect(patternToRegExp("NIFTY*FUT").test("NIFTY24OCTFUT")).toBe(true)
+    expect(patternToRegExp("NIFTY*FUT").test("BANKNIFTY24OCTFUT")).toBe(false)
+    expect(patternToRegExp("NIFTY 5?").test("NIFTY 50")).toBe(true)
+    expect(patternToRegExp("M&M.NS").test("M&MXNS")).toBe(false)
+    expect(patternToRegExp("(A+B)").test("(A+B)")).toBe(true)
+  })
+
+  it("ignores case and surrounding spaces", () => {
+    expect(patternToRegExp("  nifty*fut ").test("NIFTY24OCTFUT")).toBe(true)
+  })
+})
+
+describe("groupMatches", () => {
+  it("matches on exchange", () => {
+    expect(groupMatches({ kind: "exchange", exchange: "nfo " }, NIFTY_FUT)).toBe(true)
+    expect(groupMatches({ kind: "exchange", exchange: "NFO" }, RELIANCE)).toBe(false)
+  })
+
+  it("matches on market type", () => {
+    expect(groupMatches({ kind: "market_type", marketType: "currency" }, USDINR)).toBe(true)
+    expect(groupMatches({ kind: "market_type", marketType: "currency" }, RELIANCE)).toBe(false)
+  })
+
+  it("matches watchlists on instrument key or trading symbol", () => {
+    const watchlist: AlertGroupMatch = { kind: "watchlist", instruments: ["key:RELIANCE", "usdinr24octfut"] }
+    expect(groupMatches(watchlist, RELIANCE)).toBe(true)
+    expect(groupMatches(watchlist, USDINR)).toBe(true)
+    expect(groupMatches(watchlist, NIFTY_FUT)).toBe(false)
+  })
+})
+
+describe("resolveGroupConfigs", () => {
+  it("gives each instrument the first group in list order that matches", () => {
+    const narrow = group("NIFTY futures", { kind: "pattern", pattern: "NIFTY*FUT" }, 10)
+    const broad = group("NFO", { kind: "exchange", exchange: "NFO" }, 60)
+    const resolved = resolveGroupConfigs([narrow, broad], [NIFTY_FUT, BANKNIFTY_FUT, RELIANCE])
+
+    expect(resolved.get(NIFTY_FUT.instrumentKey)).toEqual({
+      groupId: "NIFTY futures",
+      groupName: "NIFTY futures",
+      config: config(10),
+    })
+    expect(resolved.get(BANKNIFTY_FUT.instrumentKey)?.groupName).toBe("NFO")
+    expect(resolved.has(RELIANCE.instrumentKey)).toBe(false)
+
+    expect(resolveGroupConfigs([broad, narrow], [NIFTY_FUT]).get(NIFTY_FUT.instrumentKey)?.groupName).toBe("NFO")
+  })
+
+  it("resolves nothing without groups", () => {
+    expect(resolveGroupConfigs([], [NIFTY_FUT]).size).toBe(0)
+  })
+})
+
+describe("describeInstrument", () => {
+  it("falls back to the tick's own fields for instruments the master doesn't know", () => {
+    const tick = {
+      instrument_key: "NSE_FO|99999",
+      tradingsymbol: "GOLDPETAL24NOVFUT",
+      exchange: "MCX",
+    } as TickData
+    expect(describeInstrument(tick)).toEqual({
+      instrumentKey: "NSE_FO|99999",
+      name: "GOLDPETAL24NOVFUT",
+      exchange: "MCX",
+      marketType: "commodity",
+    })
+  })
+})
+
+describe("alertGroupsSchema", () => {
+  it("rejects empty patterns and watchlists", () => {
+    const result = alertGroupsSchema.safeParse([
+      group("Empty pattern", { kind: "pattern", pattern: "  " }),
+      group("Empty watchlist", { kind: "watchlist", instruments: [] }),
+    ])
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual(["Enter a pattern", "Add an instrument"])
+  })
+})
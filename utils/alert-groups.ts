@@ -0,0 +1,118 @@
+import { z } from "zod"
+import type { TickData } from "@/utils/feeds/types"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { inactivityAlertConfigSchema } from "@/utils/inactivity-config"
+import { getExchange, getInstrumentName } from "@/utils/instruments"
+import { getMarketTypeForInstrument, MARKET_TIMINGS, type MarketType } from "@/utils/market-timings"
+
+// Inactivity alert settings for a group of instruments rather than one:
+// everything on an exchange, of a market type, matching a symbol pattern or
+// on a watchlist. Instruments pick up their group's settings as soon as they
+// appear; a per-instrument configuration always wins over a group.
+
+const MARKET_TYPES = Object.keys(MARKET_TIMINGS) as [MarketType, ...MarketType[]]
+
+export const alertGroupMatchSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("exchange"), exchange: z.string().trim().min(1, "Pick an exchange") }),
+  z.object({ kind: z.literal("market_type"), marketType: z.enum(MARKET_TYPES) }),
+  // * for any run of characters, ? for one, e.g. NIFTY*FUT
+  z.object({ kind: z.literal("pattern"), pattern: z.string().trim().min(1, "Enter a pattern") }),
+  // Instrument keys or trading symbols
+  z.object({ kind: z.literal("watchlist"), instruments: z.array(z.string().min(1)).min(1, "Add an instrument") }),
+])
+
+export const alertGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  match: alertGroupMatchSchema,
+  config: inactivityAlertConfigSchema,
+})
+
+export const alertGroupsSchema = z.array(alertGroupSchema)
+
+export type AlertGroup = z.infer<typeof alertGroupSchema>
+export type AlertGroupMatch = z.infer<typeof alertGroupMatchSchema>
+export type AlertGroupMatchKind = AlertGroupMatch["kind"]
+
+export const ALERT_GROUP_MATCHES: Record<AlertGroupMatchKind, string> = {
+  exchange: "Exchange",
+  market_type: "Market type",
+  pattern: "Symbol pattern",
+  watchlist: "Watchlist",
+}
+
+// What a group can match an instrument on
+export interface AlertGroupTarget {
+  instrumentKey: string
+  name: string
+  exchange: string
+  marketType: MarketType
+}
+
+export interface GroupConfiguration {
+  groupId: string
+  groupName: string
+  config: InactivityAlertConfig
+}
+
+export const describeInstrument = (tick: TickData): AlertGroupTarget => {
+  const name = getInstrumentName(tick)
+  return {
+    instrumentKey: tick.instrument_key,
+    name,
+    exchange: getExchange(tick),
+    marketType: getMarketTypeForInstrument(name),
+  }
+}
+
+export const patternToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .trim()
+      .split("")
+      .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+      .join("")}$`,
+    "i",
+  )
+
+export function groupMatches(match: AlertGroupMatch, target: AlertGroupTarget) {
+  switch (match.kind) {
+    case "exchange":
+      return target.exchange.toUpperCase() === match.exchange.trim().toUpperCase()
+    case "market_type":
+      return target.marketType === match.marketType
+    case "pattern":
+      return patternToRegExp(match.pattern).test(target.name)
+    case "watchlist":
+      return match.instruments.some(
+        (entry) => entry === target.instrumentKey || entry.toUpperCase() === target.name.toUpperCase(),
+      )
+  }
+}
+
+// The group configuration of every target that a group matches. Groups are
+// tried in list order and the first match wins, so put narrow groups
+// ("NIFTY*FUT") above broad ones ("NFO").
+export function resolveGroupConfigs(groups: AlertGroup[], targets: Iterable<AlertGroupTarget>) {
+  const resolved = new Map<string, GroupConfiguration>()
+  if (groups.length === 0) return resolved
+
+  for (const target of targets) {
+    const group = groups.find((candidate) => groupMatches(candidate.match, target))
+    if (group) resolved.set(target.instrumentKey, { groupId: group.id, groupName: group.name, config: group.config })
+  }
+  return resolved
+}
+
+export const describeGroupMatch = (match: AlertGroupMatch) => {
+  switch (match.kind) {
+    case "exchange":
+      return `Exchange ${match.exchange}`
+    case "market_type":
+      return `${match.marketType} instruments`
+    case "pattern":
+      return `Symbols matching ${match.pattern}`
+    case "watchlist":
+      return `${match.instruments.length} watchlist instruments`
+  }
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  acknowledge,
+  advance,
+  createAlertLifecycleSettings,
+  isLive,
+  isSounding,
+  resolve,
+  snooze,
+  type AlertLifecycle,
+} from "./alert-lifecycle"
+
+const FIRED_AT = Date.parse("2024-10-22T05:00:00Z")
+const MINUTE = 60_000
+
+const alert = (lifecycle: Partial<AlertLifecycle> = {}) => ({
+  timestamp: FIRED_AT,
+  state: "open" as AlertLifecycle["state"],
+  ...lifecycle,
+})
+
+describe("alert lifecycle", () => {
+  it("sounds while open or escalated", () => {
+    expect(isSounding(alert())).toBe(true)
+    expect(isSounding(alert({ state: "escalated" }))).toBe(true)
+    expect(isSounding(alert({ state: "acknowledged" }))).toBe(false)
+    expect(isSounding(alert({ state: "snoozed" }))).toBe(false)
+  })
+
+  it("records who acknowledged and when", () => {
+    expect(acknowledge(alert(), "Asha", FIRED_AT + MINUTE)).toEqual({
+      timestamp: FIRED_AT,
+      state: "acknowledged",
+      acknowledgedBy: "Asha",
+      acknowledgedAt: FIRED_AT + MINUTE,
+    })
+  })
+
+  it("reopens a snoozed alert once the snooze runs out", () => {
+    const snoozed = snooze(alert(), 5, FIRED_AT)
+    expect(snoozed).toMatchObject({ state: "snoozed", snoozedUntil: FIRED_AT + 5 * MINUTE })
+    expect(advance(snoozed, FIRED_AT + 4 * MINUTE, 10 * MINUTE)).toBe(snoozed)
+    expect(advance(snoozed, FIRED_AT + 5 * MINUTE, 10 * MINUTE)).toMatchObject({
+      state: "open",
+      snoozedUntil: undefined,
+    })
+  })
+
+  it("escalates open alerts nobody acknowledged in time", () => {
+    const open = alert()
+    expect(advance(open, FIRED_AT + 4 * MINUTE, 5 * MINUTE)).toBe(open)
+    expect(advance(open, FIRED_AT + 5 * MINUTE, 5 * MINUTE)).toMatchObject({
+      state: "escalated",
+      escalatedAt: FIRED_AT + 5 * MINUTE,
+    })
+    expect(advance(alert({ state: "acknowledged" }), FIRED_AT + 60 * MINUTE, 5 * MINUTE).state).toBe("acknowledged")
+  })
+
+  it("can still be acknowledged or snoozed once escalated", () => {
+    const escalated = alert({ state: "escalated", escalatedAt: FIRED_AT + 5 * MINUTE })
+    expect(acknowledge(escalated, "Asha", FIRED_AT + 6 * MINUTE).state).toBe("acknowledged")
+    expect(snooze(escalated, 15, FIRED_AT + 6 * MINUTE).state).toBe("snoozed")
+  })
+
+  it("stays resolved whatever happens next", () => {
+    const resolved = resolve(alert(), FIRED_AT + MINUTE)
+    expect(resolved).toMatchObject({ state: "resolved", resolvedAt: FIRED_AT + MINUTE })
+    expect(isLive(resolved)).toBe(false)
+    expect(acknowledge(resolved, "Asha", FIRED_AT + 2 * MINUTE)).toBe(resolved)
+    expect(snooze(resolved, 5, FIRED_AT + 2 * MINUTE)).toBe(resolved)
+    expect(resolve(resolved, FIRED_AT + 2 * MINUTE)).toBe(resolved)
+    expect(advance(resolved, FIRED_AT + 60 * MINUTE, MINUTE)).toBe(resolved)
+  })
+})
+
+describe("createAlertLifecycleSettings", () => {
+  const saved = new Map<string, string>()
+
+  beforeEach(() => {
+    saved.clear()
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => saved.get(key) ?? null,
+      setItem: (key: string, value: string) => saved.set(key, value),
+      removeItem: (key: string) => saved.delete(key),
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("saves updates and loads them back", () => {
+    const settings = createAlertLifecycleSettings()
+    const listener = vi.fn()
+    settings.subscribe(listener)
+    settings.update({ operator: "Asha" })
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    const reloaded = createAlertLifecycleSettings()
+    reloaded.load()
+    expect(reloaded.getState()).toEqual({ operator: "Asha", escalateAfterMinutes: 5 })
+  })
+
+  it("drops invalid saved settings", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+    saved.set("alert-lifecycle-settings", JSON.stringify({ operator: "Asha", escalateAfterMinutes: 0 }))
+
+    const settings = createAlertLifecycleSettings()
+    settings.load()
+    expect(settings.getState()).toEqual({ operator: "", escalateAfterMinutes: 5 })
+    expect(saved.has("alert-lifecycle-settings")).toBe(false)
+    expect(error).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,137 @@
+import { z } from "zod"
+
+// Lifecycle of an inactivity alert from the moment it fires:
+//
+//   open ──acknowledge──▶ acknowledged
+//    │  ╲──snooze N min──▶ snoozed ──N min later──▶ open
+//    └──M min, nobody acknowledged──▶ escalated (acknowledge or snooze as above)
+//
+// Any state ends in resolved once the instrument ticks (or moves) again.
+// Acknowledged and snoozed alerts stay silent; open and escalated ones sound.
+
+export type AlertState = "open" | "acknowledged" | "snoozed" | "resolved" | "escalated"
+
+export interface AlertLifecycle {
+  state: AlertState
+  acknowledgedBy?: string
+  acknowledgedAt?: number
+  snoozedUntil?: number
+  escalatedAt?: number
+  resolvedAt?: number
+}
+
+export const ALERT_STATES: Record<AlertState, { label: string; className: string }> = {
+  open: { label: "Open", className: "text-orange-600 border-orange-300" },
+  acknowledged: { label: "Acknowledged", className: "text-blue-600 border-blue-300" },
+  snoozed: { label: "Snoozed", className: "text-gray-600 border-gray-300" },
+  resolved: { label: "Resolved", className: "text-green-600 border-green-300" },
+  escalated: { label: "Escalated", className: "text-red-600 border-red-300 font-bold" },
+}
+
+export const SNOOZE_MINUTES = [5, 15, 30, 60]
+
+export const isLive = (lifecycle: AlertLifecycle) => lifecycle.state !== "resolved"
+export const isSounding = (lifecycle: AlertLifecycle) => lifecycle.state === "open" || lifecycle.state === "escalated"
+
+export const acknowledge = <T extends AlertLifecycle>(alert: T, by: string, now: number): T =>
+  isLive(alert) ? { ...alert, state: "acknowledged", acknowledgedBy: by, acknowledgedAt: now } : alert
+
+export const snooze = <T extends AlertLifecycle>(alert: T, minutes: number, now: number): T =>
+  isLive(alert) ? { ...alert, state: "snoozed", snoozedUntil: now + minutes * 60_000 } : alert
+
+export const resolve = <T extends AlertLifecycle>(alert: T, now: number): T =>
+  isLive(alert) ? { ...alert, state: "resolved", resolvedAt: now } : alert
+
+// The timed transitions due at `now`: snoozes running out, then open alerts
+// nobody acknowledged within `escalateAfter` ms of firing. Returns the alert
+// unchanged when nothing is due.
+export function advance<T extends AlertLifecycle & { timestamp: number }>(
+  alert: T,
+  now: number,
+  escalateAfter: number,
+): T {
+  if (alert.state === "snoozed" && alert.snoozedUntil !== undefined && now >= alert.snoozedUntil) {
+    return { ...alert, state: "open", snoozedUntil: undefined }
+  }
+  if (alert.state === "open" && now - alert.timestamp >= escalateAfter) {
+    return { ...alert, state: "escalated", escalatedAt: now }
+  }
+  return alert
+}
+
+export const describeLifecycle = (lifecycle: AlertLifecycle) => {
+  const time = (timestamp?: number) =>
+    timestamp === undefined
+      ? ""
+      : new Date(timestamp).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour12: false })
+  switch (lifecycle.state) {
+    case "acknowledged":
+      return `by ${lifecycle.acknowledgedBy} at ${time(lifecycle.acknowledgedAt)}`
+    case "snoozed":
+      return `until ${time(lifecycle.snoozedUntil)}`
+    case "escalated":
+      return `at ${time(lifecycle.escalatedAt)}`
+    case "resolved":
+      return `at ${time(lifecycle.resolvedAt)}`
+    default:
+      return ""
+  }
+}
+
+export const alertLifecycleSettingsSchema = z.object({
+  operator: z.string(), // Recorded on acknowledgements
+  escalateAfterMinutes: z.number().positive(),
+})
+
+export type AlertLifecycleSettings = z.infer<typeof alertLifecycleSettingsSchema>
+
+const SETTINGS_KEY = "alert-lifecycle-settings"
+const DEFAULT_SETTINGS: AlertLifecycleSettings = { operator: "", escalateAfterMinutes: 5 }
+
+// Who is watching this dashboard and how long alerts wait before escalating.
+// Shared by every feed, so one store per page; saved in this browser.
+export function createAlertLifecycleSettings() {
+  let state = DEFAULT_SETTINGS
+  let loaded = false
+  const listeners = new Set<() => void>()
+
+  const setState = (next: AlertLifecycleSettings) => {
+    state = next
+    listeners.forEach((listener) => listener())
+  }
+
+  return {
+    getState: () => state,
+    getServerState: () => DEFAULT_SETTINGS,
+    // localStorage only exists in the browser, so this runs from an effect
+    load: () => {
+      if (loaded) return
+      loaded = true
+      try {
+        const saved = localStorage.getItem(SETTINGS_KEY)
+        if (saved) setState(alertLifecycleSettingsSchema.parse(JSON.parse(saved)))
+      } catch (error) {
+        console.error("❌ Ignoring invalid saved alert lifecycle settings:", error)
+        localStorage.removeItem(SETTINGS_KEY)
+      }
+    },
+    update: (changes: Partial<AlertLifecycleSettings>) => {
+      setState({ ...state, ...changes })
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(state))
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type AlertLifecycleSettingsStore = ReturnType<typeof createAlertLifecycleSettings>
+
+const globalForLifecycle = globalThis as typeof globalThis & { __alertLifecycleSettings?: AlertLifecycleSettingsStore }
+
+export function getAlertLifecycleSettings(): AlertLifecycleSettingsStore {
+  return (globalForLifecycle.__alertLifecycleSettings ??= createAlertLifecycleSettings())
+}
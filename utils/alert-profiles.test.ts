@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  activeAlertProfile,
+  alertProfileScheduleSchema,
+  describeSchedule,
+  isScheduleActive,
+  type AlertProfile,
+  type AlertProfileSchedule,
+} from "./alert-profiles"
+
+const TUESDAY_1030_IST = "2024-10-22T05:00:00Z" // 75 minutes after the equity open
+const SATURDAY_1030_IST = "2024-10-26T05:00:00Z"
+const HOLIDAY_1030_IST = "2024-11-01T05:00:00Z" // Diwali Balipratipada
+
+const schedule = (overrides: Partial<AlertProfileSchedule> = {}): AlertProfileSchedule => ({
+  enabled: true,
+  marketType: "equity",
+  days: [1, 2, 3, 4, 5],
+  fromMinute: 0,
+  toMinute: null,
+  ...overrides,
+})
+
+const profile = (name: string, overrides: Partial<AlertProfileSchedule> = {}): AlertProfile => ({
+  id: name,
+  name,
+  configurations: {},
+  schedule: schedule(overrides),
+})
+
+describe("isScheduleActive", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(TUESDAY_1030_IST))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("holds from its start minute up to, not including, its end", () => {
+    expect(isScheduleActive(schedule({ fromMinute: 0, toMinute: 76 }))).toBe(true)
+    expect(isScheduleActive(schedule({ fromMinute: 75, toMinute: null }))).toBe(true)
+    expect(isScheduleActive(schedule({ fromMinute: 0, toMinute: 75 }))).toBe(false)
+    expect(isScheduleActive(schedule({ fromMinute: 76, toMinute: null }))).toBe(false)
+  })
+
+  it("only holds on its days", () => {
+    expect(isScheduleActive(schedule({ days: [4] }))).toBe(false)
+    expect(isScheduleActive(schedule({ days: [2] }))).toBe(true)
+  })
+
+  it("measures from the open of its own market type", () => {
+    // Currency opens at 09:00, so 10:30 is 90 minutes in
+    expect(isScheduleActive(schedule({ marketType: "currency", fromMinute: 80, toMinute: 100 }))).toBe(true)
+    expect(isScheduleActive(schedule({ marketType: "equity", fromMinute: 80, toMinute: 100 }))).toBe(false)
+  })
+
+  it("never holds while the market is closed", () => {
+    vi.setSystemTime(new Date(SATURDAY_1030_IST))
+    expect(isScheduleActive(schedule({ days: [0, 1, 2, 3, 4, 5, 6] }))).toBe(false)
+    vi.setSystemTime(new Date(HOLIDAY_1030_IST))
+    expect(isScheduleActive(schedule())).toBe(false)
+  })
+
+  it("never holds when switched off", () => {
+    expect(isScheduleActive(schedule({ enabled: false }))).toBe(false)
+  })
+})
+
+describe("activeAlertProfile", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(TUESDAY_1030_IST))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("picks the first profile in list order whose schedule holds", () => {
+    const opening = profile("Opening", { toMinute: 30 })
+    const expiry = profile("Expiry", { days: [2] })
+    const allDay = profile("All day")
+    expect(activeAlertProfile([opening, expiry, allDay])?.name).toBe("Expiry")
+    expect(activeAlertProfile([allDay, expiry])?.name).toBe("All day")
+    expect(activeAlertProfile([opening])).toBeNull()
+  })
+})
+
+describe("alertProfileScheduleSchema", () => {
+  it("rejects schedules that end before they start", () => {
+    const result = alertProfileScheduleSchema.safeParse(schedule({ fromMinute: 60, toMinute: 30 }))
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(["toMinute"])
+  })
+
+  it("needs at least one day", () => {
+    expect(alertProfileScheduleSchema.safeParse(schedule({ days: [] })).success).toBe(false)
+  })
+})
+
+describe("describeSchedule", () => {
+  it("lists days in week order", () => {
+    expect(describeSchedule(schedule({ days: [4, 1], fromMinute: 0, toMinute: 30 }))).toBe(
+      "Mon, Thu, equity open + 0 min to open + 30 min",
+    )
+    expect(describeSchedule(schedule({ days: [4], fromMinute: 30 }))).toBe("Thu, equity open + 30 min to the close")
+  })
+})
@@ -0,0 +1,68 @@
+import { z } from "zod"
+import { inactivityAlertConfigsSchema } from "@/utils/inactivity-config"
+import { getISTWeekday, getMinutesSinceOpen, MARKET_TIMINGS, type MarketType } from "@/utils/market-timings"
+
+// Named sets of inactivity alert configurations that take over from the saved
+// ones on a schedule: tight thresholds just after the open, looser ones
+// midday, a separate set on expiry days. Schedules are measured from the
+// normal session open of a market type, so they follow utils/market-timings.ts
+// (weekends and holidays included).
+
+const MARKET_TYPES = Object.keys(MARKET_TIMINGS) as [MarketType, ...MarketType[]]
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+export const alertProfileScheduleSchema = z
+  .object({
+    enabled: z.boolean(),
+    marketType: z.enum(MARKET_TYPES),
+    days: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"), // IST, 0 = Sunday
+    fromMinute: z.number().int().nonnegative(), // Minutes after the normal session opens
+    toMinute: z.number().int().positive().nullable(), // Exclusive; null runs until the close
+  })
+  .refine((schedule) => schedule.toMinute === null || schedule.toMinute > schedule.fromMinute, {
+    message: "Must end after it starts",
+    path: ["toMinute"],
+  })
+
+export const alertProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  configurations: inactivityAlertConfigsSchema,
+  schedule: alertProfileScheduleSchema,
+})
+
+export const alertProfilesSchema = z.array(alertProfileSchema)
+
+export type AlertProfile = z.infer<typeof alertProfileSchema>
+export type AlertProfileSchedule = z.infer<typeof alertProfileScheduleSchema>
+
+export interface AlertProfileSwitch {
+  id: string
+  feed: string
+  timestamp: number
+  from: string | null // Profile names; null is the saved configurations
+  to: string | null
+}
+
+export const isScheduleActive = (schedule: AlertProfileSchedule) => {
+  if (!schedule.enabled || !schedule.days.includes(getISTWeekday())) return false
+  const minutes = getMinutesSinceOpen(schedule.marketType)
+  if (minutes === null || minutes < schedule.fromMinute) return false
+  return schedule.toMinute === null || minutes < schedule.toMinute
+}
+
+// The first profile, in list order, whose schedule holds right now. Order is
+// priority: put "expiry day" above "midday" so it wins on Thursdays.
+export const activeAlertProfile = (profiles: AlertProfile[]) =>
+  profiles.find((profile) => isScheduleActive(profile.schedule)) ?? null
+
+export const describeSchedule = (schedule: AlertProfileSchedule) => {
+  const days = schedule.days
+    .slice()
+    .sort()
+    .map((day) => WEEKDAYS[day])
+    .join(", ")
+  const until = schedule.toMinute === null ? "the close" : `open + ${schedule.toMinute} min`
+  return `${days}, ${schedule.marketType} open + ${schedule.fromMinute} min to ${until}`
+}
@@ -0,0 +1,271 @@
+import { describe, expect, it } from "vitest"
+import type { TickData } from "@/utils/feeds/types"
+import { createAlertRuleEngine, type AlertRule, type RuleAlert } from "./alert-rules"
+
+const T = Date.parse("2024-10-22T05:00:00Z") // 10:30 IST
+const SECOND = 1000
+const BHEL = "281836549"
+
+let sequence = 0
+const tick = (overrides: Partial<TickData> = {}): TickData => ({
+  id: `tick-${++sequence}`,
+  feed: "kite",
+  instrument_key: BHEL,
+  tradingsymbol: "BHEL",
+  last_price: 250,
+  volume: 1_000,
+  average_price: 250,
+  last_quantity: 10,
+  timestamp: T,
+  delay: 0,
+  latency: 0,
+  receivedAt: T,
+  ...overrides,
+})
+
+type RuleOf<K extends AlertRule["type"]> = Extract<AlertRule, { type: K }>
+
+const rule = <K extends AlertRule["type"]>(fields: Pick<RuleOf<K>, "type"> & Partial<RuleOf<K>>) =>
+  ({
+    id: fields.type,
+    name: fields.type,
+    enabled: true,
+    instrumentKeys: [BHEL],
+    severity: "medium",
+    cooldown: 0,
+    respectMarketHours: false,
+    ...fields,
+  }) as RuleOf<K>
+
+// An engine with the given rules that records what it fires and resolves
+const setup = (...rules: AlertRule[]) => {
+  const triggered: RuleAlert[] = []
+  const resolved: string[] = []
+  const engine = createAlertRuleEngine({
+    onTrigger: (alert) => triggered.push(alert),
+    onResolve: (ruleId, instrumentKey) => resolved.push(`${ruleId}:${instrumentKey}`),
+  })
+  engine.setRules(rules)
+  return { engine, triggered, resolved }
+}
+
+// Price and cumulative volume at seconds after T
+const at = (seconds: number, last_price = 250, volume = 1_000) =>
+  tick({ receivedAt: T + seconds * SECOND, timestamp: T + seconds * SECOND, last_price, volume })
+
+describe("price_cross", () => {
+  it("fires on the tick that crosses the level and resolves on the next", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "price_cross", level: 251, direction: "above" }))
+    engine.observe(at(0, 250))
+    engine.observe(at(1, 251.5))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL crossed above 251 at 251.5"])
+    expect(triggered[0]).toMatchObject({ ruleId: "price_cross", instrumentKey: BHEL, price: 251.5, severity: "medium" })
+
+    engine.observe(at(2, 252))
+    expect(resolved).toEqual([`price_cross:${BHEL}`])
+    expect(engine.activeKeys()).toEqual([])
+  })
+
+  it("only fires in its direction", () => {
+    const { engine, triggered } = setup(rule({ type: "price_cross", level: 251, direction: "below" }))
+    engine.observe(at(0, 250))
+    engine.observe(at(1, 252))
+    expect(triggered).toHaveLength(0)
+    engine.observe(at(2, 250))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL crossed below 251 at 250"])
+  })
+
+  it("waits out the cooldown before firing again", () => {
+    const { engine, triggered } = setup(rule({ type: "price_cross", level: 251, direction: "either", cooldown: 60 }))
+    ;[250, 252, 252, 250, 250].forEach((price, i) => engine.observe(at(i, price)))
+    expect(triggered).toHaveLength(1)
+    engine.observe(at(61, 252))
+    expect(triggered).toHaveLength(2)
+  })
+
+  it("ignores instruments the rule doesn't list", () => {
+    const { engine, triggered } = setup(rule({ type: "price_cross", level: 251, direction: "either" }))
+    engine.observe(tick({ instrument_key: "256265", last_price: 250 }))
+    engine.observe(tick({ instrument_key: "256265", last_price: 252 }))
+    expect(triggered).toHaveLength(0)
+  })
+})
+
+describe("percent_move", () => {
+  it("compares against the oldest price within the window", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "percent_move", percent: 1, windowSeconds: 60 }))
+    engine.observe(at(0, 250))
+    engine.observe(at(30, 251))
+    expect(triggered).toHaveLength(0)
+    engine.observe(at(50, 247.25))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL moved -1.10% in 60s"])
+
+    // The 250 has left the window; 251 to 247.25 is still a move, so nothing resolves
+    engine.observe(at(70, 247.25))
+    expect(resolved).toHaveLength(0)
+    engine.observe(at(120, 247.25))
+    expect(resolved).toEqual([`percent_move:${BHEL}`])
+  })
+})
+
+describe("volume_spike", () => {
+  it("fires when a window trades more than the multiple of the ten before it", () => {
+    const { engine, triggered } = setup(rule({ type: "volume_spike", multiplier: 3, windowSeconds: 10 }))
+    // 100 shares every 10 s, then 500
+    for (let i = 0; i <= 10; i++) engine.observe(at(i * 10, 250, 1_000 + i * 100))
+    expect(triggered).toHaveLength(0)
+    engine.observe(at(110, 250, 2_500))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL traded 500 in 10s, 5.0x the usual"])
+  })
+
+  it("needs a full baseline first", () => {
+    const { engine, triggered } = setup(rule({ type: "volume_spike", multiplier: 3, windowSeconds: 10 }))
+    engine.observe(at(95, 250, 1_000))
+    engine.observe(at(100, 250, 1_100))
+    engine.observe(at(110, 250, 10_000))
+    expect(triggered).toHaveLength(0)
+  })
+})
+
+describe("spread_widening", () => {
+  const withQuote = (bid: number, ask: number) =>
+    tick({
+      depth: {
+        buy: [{ price: bid, quantity: 10, orders: 1 }],
+        sell: [{ price: ask, quantity: 10, orders: 1 }],
+      },
+    })
+
+  it("measures the spread in rupees", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "spread_widening", maxSpread: 0.5, unit: "absolute" }))
+    engine.observe(withQuote(250, 250.5))
+    expect(triggered).toHaveLength(0)
+    engine.observe(withQuote(250, 251))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL spread ₹1.00 (bid 250, ask 251)"])
+    engine.observe(withQuote(250, 250.2))
+    expect(resolved).toEqual([`spread_widening:${BHEL}`])
+  })
+
+  it("measures the spread as a percentage of the mid price", () => {
+    const { engine, triggered } = setup(rule({ type: "spread_widening", maxSpread: 1, unit: "percent" }))
+    engine.observe(withQuote(99, 101))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL spread 2.000% (bid 99, ask 101)"])
+  })
+
+  it("needs market depth", () => {
+    const { engine, triggered } = setup(rule({ type: "spread_widening", maxSpread: 0.5, unit: "absolute" }))
+    engine.observe(tick())
+    expect(triggered).toHaveLength(0)
+  })
+})
+
+describe("tick_rate_drop", () => {
+  it("fires from check() when ticks slow down and resolves when they pick up", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "tick_rate_drop", dropPercent: 50, windowSeconds: 10 }))
+    for (let i = 0; i <= 110; i++) engine.observe(at(i))
+    engine.check(T + 110 * SECOND)
+    expect(triggered).toHaveLength(0)
+
+    engine.check(T + 118 * SECOND)
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL: 2 ticks in the last 10s against 10.0 usually"])
+
+    for (let i = 119; i <= 130; i++) engine.observe(at(i))
+    engine.check(T + 130 * SECOND)
+    expect(resolved).toEqual([`tick_rate_drop:${BHEL}`])
+  })
+
+  it("needs a full baseline first", () => {
+    const { engine, triggered } = setup(rule({ type: "tick_rate_drop", dropPercent: 50, windowSeconds: 10 }))
+    for (let i = 50; i <= 110; i++) engine.observe(at(i))
+    engine.check(T + 140 * SECOND)
+    expect(triggered).toHaveLength(0)
+  })
+})
+
+describe("zero_price", () => {
+  it("fires on a zero price and resolves on the next good one", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "zero_price" }))
+    engine.observe(at(0, 250))
+    engine.observe(at(1, 0))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL reported a price of 0"])
+    engine.observe(at(2, 250))
+    expect(resolved).toEqual([`zero_price:${BHEL}`])
+  })
+
+  it("also fires on quarantined ticks, which the next accepted tick resolves", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "zero_price" }))
+    engine.observe(at(0, 250))
+    engine.observeQuarantined(at(1, -1))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL reported a price of -1"])
+    engine.observe(at(2, 250))
+    expect(resolved).toEqual([`zero_price:${BHEL}`])
+  })
+})
+
+describe("volume_regression", () => {
+  it("fires when the day's volume goes backwards", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "volume_regression" }))
+    engine.observe(at(0, 250, 1_000))
+    engine.observe(at(1, 250, 900))
+    expect(triggered.map((alert) => alert.message)).toEqual(["BHEL cumulative volume fell from 1000 to 900"])
+    engine.observe(at(2, 250, 950))
+    expect(resolved).toEqual([`volume_regression:${BHEL}`])
+  })
+
+  it("compares a quarantined tick against the last accepted one without keeping it", () => {
+    const { engine, triggered, resolved } = setup(rule({ type: "volume_regression" }))
+    engine.observe(at(0, 250, 1_000))
+    engine.observeQuarantined(at(1, 250, 900))
+    expect(triggered).toHaveLength(1)
+    // Measured from 1,000, not from the quarantined 900
+    engine.observe(at(2, 250, 1_100))
+    expect(resolved).toEqual([`volume_regression:${BHEL}`])
+    expect(triggered).toHaveLength(1)
+  })
+
+  it("doesn't compare across trading days", () => {
+    const { engine, triggered } = setup(rule({ type: "volume_regression" }))
+    engine.observe(at(0, 250, 1_000_000))
+    engine.observe(at(24 * 60 * 60, 250, 1_000))
+    expect(triggered).toHaveLength(0)
+  })
+
+  it("is the only kind besides zero_price to look at quarantined ticks", () => {
+    const { engine, triggered } = setup(rule({ type: "price_cross", level: 251, direction: "either" }))
+    engine.observe(at(0, 250))
+    engine.observeQuarantined(at(1, 252))
+    expect(triggered).toHaveLength(0)
+  })
+})
+
+describe("setRules", () => {
+  const zeroPrice = rule({ type: "zero_price", cooldown: 600 })
+
+  it("keeps the state of rules that didn't change", () => {
+    const { engine, triggered, resolved } = setup(zeroPrice)
+    engine.observe(at(0, 0))
+    engine.setRules([{ ...zeroPrice }])
+    expect(resolved).toHaveLength(0)
+    expect(engine.activeKeys()).toEqual([`zero_price:${BHEL}`])
+
+    engine.observe(at(1, 250))
+    engine.observe(at(2, 0))
+    expect(triggered).toHaveLength(1) // Still cooling down
+  })
+
+  it("resolves and forgets rules that were edited or removed", () => {
+    const { engine, triggered, resolved } = setup(zeroPrice)
+    engine.observe(at(0, 0))
+    engine.setRules([{ ...zeroPrice, severity: "high" }])
+    expect(resolved).toEqual([`zero_price:${BHEL}`])
+    expect(engine.activeKeys()).toEqual([])
+
+    // The edited rule starts over, cooldown and all
+    engine.observe(at(1, 0))
+    expect(triggered.map((alert) => alert.severity)).toEqual(["medium", "high"])
+
+    engine.setRules([])
+    expect(resolved).toHaveLength(2)
+    expect(engine.activeKeys()).toEqual([])
+  })
+})
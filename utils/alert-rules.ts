@@ -0,0 +1,315 @@
+import { z } from "zod"
+import type { TickData } from "@/utils/feeds/types"
+import { getInstrumentName } from "@/utils/instruments"
+import { getDetailedMarketStatus, shouldAlertsBeActive } from "@/utils/market-timings"
+
+// Typed alert rules evaluated over the tick stream, next to the inactivity
+// rule. A rule fires when its condition becomes true for an instrument and
+// re-arms once the condition clears and the cooldown has passed.
+
+const ruleBase = {
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  enabled: z.boolean(),
+  instrumentKeys: z.array(z.string().min(1)).min(1, "Pick at least one instrument"),
+  severity: z.enum(["low", "medium", "high"]),
+  cooldown: z.number().int().nonnegative(), // Seconds before the same rule can fire again for an instrument
+  respectMarketHours: z.boolean(),
+}
+
+const windowSeconds = z.number().int().positive().max(600)
+
+export const alertRuleSchema = z.discriminatedUnion("type", [
+  // The price crosses a level
+  z.object({
+    ...ruleBase,
+    type: z.literal("price_cross"),
+    level: z.number().positive(),
+    direction: z.enum(["above", "below", "either"]),
+  }),
+  // The price moves by at least `percent` within the window
+  z.object({ ...ruleBase, type: z.literal("percent_move"), percent: z.number().positive(), windowSeconds }),
+  // Volume traded in the window exceeds `multiplier` times the average of the preceding windows
+  z.object({ ...ruleBase, type: z.literal("volume_spike"), multiplier: z.number().gt(1), windowSeconds }),
+  // Best bid/ask spread wider than the limit; needs market depth
+  z.object({
+    ...ruleBase,
+    type: z.literal("spread_widening"),
+    maxSpread: z.number().positive(),
+    unit: z.enum(["absolute", "percent"]), // ₹, or % of the mid price
+  }),
+  // Ticks in the window fall by `dropPercent` against the average of the preceding windows
+  z.object({
+    ...ruleBase,
+    type: z.literal("tick_rate_drop"),
+    dropPercent: z.number().positive().max(100),
+    windowSeconds,
+  }),
+  // A zero or negative last price
+  z.object({ ...ruleBase, type: z.literal("zero_price") }),
+  // Cumulative day volume going backwards, a sign of a corrupt or replayed feed
+  z.object({ ...ruleBase, type: z.literal("volume_regression") }),
+])
+
+export const alertRulesSchema = z.array(alertRuleSchema)
+
+export type AlertRule = z.infer<typeof alertRuleSchema>
+export type AlertRuleType = AlertRule["type"]
+
+export const ALERT_RULE_TYPES: Record<AlertRuleType, string> = {
+  price_cross: "Price crosses level",
+  percent_move: "Percent move in window",
+  volume_spike: "Volume spike",
+  spread_widening: "Spread widening",
+  tick_rate_drop: "Tick rate drop",
+  zero_price: "Zero or negative price",
+  volume_regression: "Cumulative volume decreases",
+}
+
+export interface RuleAlert {
+  id: string
+  ruleId: string
+  ruleName: string
+  ruleType: AlertRuleType
+  severity: AlertRule["severity"]
+  instrumentKey: string
+  feed: string
+  instrumentName: string
+  timestamp: number
+  message: string
+  price: number
+  marketSession: string
+}
+
+interface Sample {
+  time: number // receivedAt
+  price: number
+  volume: number
+}
+
+interface RuleState {
+  active: boolean // Condition currently holds
+  lastFiredAt: number
+}
+
+const BASELINE_WINDOWS = 10 // Preceding windows averaged by the spike and drop rules
+const MAX_SAMPLES = 20_000 // Per instrument
+
+const istDay = (timestamp: number) => new Date(timestamp + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+// How far back a rule looks, in ms
+const ruleSpan = (rule: AlertRule) => {
+  switch (rule.type) {
+    case "percent_move":
+      return rule.windowSeconds * 1000
+    case "volume_spike":
+    case "tick_rate_drop":
+      return rule.windowSeconds * 1000 * (BASELINE_WINDOWS + 1)
+    default:
+      return 0
+  }
+}
+
+// Latest sample at or before a time; samples are oldest first
+const sampleAt = (samples: Sample[], time: number) => {
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i].time <= time) return samples[i]
+  }
+  return null
+}
+
+const countSince = (samples: Sample[], from: number, to: number) =>
+  samples.filter((sample) => sample.time > from && sample.time <= to).length
+
+// Rules about ticks the validator rejects, so they also run on quarantined ones
+const QUARANTINE_RULES = new Set<AlertRuleType>(["zero_price", "volume_regression"])
+
+// The condition of a tick-driven rule for the newest tick: a message when it holds
+function evaluateTick(rule: AlertRule, samples: Sample[], tick: TickData, name: string): string | null {
+  const current = samples[samples.length - 1]
+  const previous = samples.length > 1 ? samples[samples.length - 2] : null
+
+  switch (rule.type) {
+    case "price_cross": {
+      if (!previous || previous.price <= 0 || current.price <= 0) return null
+      const crossedUp = previous.price < rule.level && current.price >= rule.level
+      const crossedDown = previous.price > rule.level && current.price <= rule.level
+      if (crossedUp && rule.direction !== "below") return `${name} crossed above ${rule.level} at ${current.price}`
+      if (crossedDown && rule.direction !== "above") return `${name} crossed below ${rule.level} at ${current.price}`
+      return null
+    }
+    case "percent_move": {
+      const start = samples.find((sample) => sample.time >= current.time - rule.windowSeconds * 1000)
+      if (!start || start === current || start.price <= 0 || current.price <= 0) return null
+      const move = ((current.price - start.price) / start.price) * 100
+      if (Math.abs(move) < rule.percent) return null
+      return `${name} moved ${move > 0 ? "+" : ""}${move.toFixed(2)}% in ${rule.windowSeconds}s`
+    }
+    case "volume_spike": {
+      const windowMs = rule.windowSeconds * 1000
+      const windowStart = sampleAt(samples, current.time - windowMs)
+      const baselineStart = sampleAt(samples, current.time - windowMs * (BASELINE_WINDOWS + 1))
+      // Not enough history yet
+      if (!windowStart || !baselineStart || baselineStart === windowStart) return null
+      const windowVolume = current.volume - windowStart.volume
+      const baseline = (windowStart.volume - baselineStart.volume) / BASELINE_WINDOWS
+      if (baseline <= 0 || windowVolume <= baseline * rule.multiplier) return null
+      const ratio = (windowVolume / baseline).toFixed(1)
+      return `${name} traded ${windowVolume} in ${rule.windowSeconds}s, ${ratio}x the usual`
+    }
+    case "spread_widening": {
+      const bid = tick.depth?.buy[0]?.price
+      const ask = tick.depth?.sell[0]?.price
+      if (!bid || !ask) return null
+      const spread = ask - bid
+      const value = rule.unit === "absolute" ? spread : (spread / ((bid + ask) / 2)) * 100
+      if (value <= rule.maxSpread) return null
+      const formatted = rule.unit === "absolute" ? `₹${spread.toFixed(2)}` : `${value.toFixed(3)}%`
+      return `${name} spread ${formatted} (bid ${bid}, ask ${ask})`
+    }
+    case "zero_price":
+      return tick.last_price <= 0 ? `${name} reported a price of ${tick.last_price}` : null
+    case "volume_regression": {
+      if (!previous || istDay(previous.time) !== istDay(current.time)) return null
+      if (current.volume >= previous.volume) return null
+      return `${name} cumulative volume fell from ${previous.volume} to ${current.volume}`
+    }
+    case "tick_rate_drop":
+      return null // Evaluated by check(), since the point is that ticks stop coming
+  }
+}
+
+function evaluateTickRate(rule: Extract<AlertRule, { type: "tick_rate_drop" }>, samples: Sample[], now: number) {
+  const windowMs = rule.windowSeconds * 1000
+  // Needs a full baseline of history before it can call anything a drop
+  if (samples.length === 0 || samples[0].time > now - windowMs * (BASELINE_WINDOWS + 1)) return null
+  const recent = countSince(samples, now - windowMs, now)
+  const baseline = countSince(samples, now - windowMs * (BASELINE_WINDOWS + 1), now - windowMs) / BASELINE_WINDOWS
+  if (baseline < 1 || recent >= baseline * (1 - rule.dropPercent / 100)) return null
+  return `${recent} ticks in the last ${rule.windowSeconds}s against ${baseline.toFixed(1)} usually`
+}
+
+interface RuleEngineCallbacks {
+  onTrigger: (alert: RuleAlert) => void
+  onResolve: (ruleId: string, instrumentKey: string) => void
+}
+
+export function createAlertRuleEngine({ onTrigger, onResolve }: RuleEngineCallbacks) {
+  let rules: AlertRule[] = []
+  let retention = 0
+  const samples = new Map<string, Sample[]>()
+  const lastTicks = new Map<string, TickData>()
+  const states = new Map<string, RuleState>() // By ruleId:instrumentKey
+
+  const stateKey = (ruleId: string, instrumentKey: string) => `${ruleId}:${instrumentKey}`
+
+  const applies = (rule: AlertRule, tick: TickData) =>
+    rule.enabled &&
+    rule.instrumentKeys.includes(tick.instrument_key) &&
+    (!rule.respectMarketHours || shouldAlertsBeActive(getInstrumentName(tick)))
+
+  const update = (rule: AlertRule, tick: TickData, message: string | null, now: number) => {
+    const key = stateKey(rule.id, tick.instrument_key)
+    const state = states.get(key) ?? { active: false, lastFiredAt: 0 }
+    states.set(key, state)
+
+    if (!message) {
+      if (state.active) onResolve(rule.id, tick.instrument_key)
+      state.active = false
+      return
+    }
+    if (state.active || now - state.lastFiredAt < rule.cooldown * 1000) return
+
+    state.active = true
+    state.lastFiredAt = now
+    const instrumentName = getInstrumentName(tick)
+    onTrigger({
+      id: crypto.randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.type,
+      severity: rule.severity,
+      instrumentKey: tick.instrument_key,
+      feed: tick.feed,
+      instrumentName,
+      timestamp: now,
+      message,
+      price: tick.last_price,
+      marketSession: getDetailedMarketStatus(instrumentName).session,
+    })
+  }
+
+  const setRules = (next: AlertRule[]) => {
+    const ids = new Set(next.map((rule) => rule.id))
+    // Forget the state of rules that were removed or edited
+    states.forEach((state, key) => {
+      const [ruleId, ...rest] = key.split(":")
+      const previous = rules.find((rule) => rule.id === ruleId)
+      const current = next.find((rule) => rule.id === ruleId)
+      if (ids.has(ruleId) && JSON.stringify(previous) === JSON.stringify(current)) return
+      if (state.active) onResolve(ruleId, rest.join(":"))
+      states.delete(key)
+    })
+    rules = next
+    retention = Math.max(0, ...next.map(ruleSpan))
+  }
+
+  const observe = (tick: TickData, now = tick.receivedAt) => {
+    const history = samples.get(tick.instrument_key) ?? []
+    history.push({ time: tick.receivedAt, price: tick.last_price, volume: tick.volume })
+    // Keep one sample older than the retention, as the baseline for the oldest window
+    const cutoff = tick.receivedAt - retention
+    const firstKept = history.findIndex((sample) => sample.time >= cutoff)
+    if (firstKept > 1) history.splice(0, firstKept - 1)
+    if (history.length > MAX_SAMPLES) history.splice(0, history.length - MAX_SAMPLES)
+    samples.set(tick.instrument_key, history)
+    lastTicks.set(tick.instrument_key, tick)
+
+    const name = getInstrumentName(tick)
+    for (const rule of rules) {
+      if (rule.type === "tick_rate_drop" || !applies(rule, tick)) continue
+      update(rule, tick, evaluateTick(rule, history, tick, name), now)
+    }
+  }
+
+  // A tick the validator quarantined. Only the zero-price and volume-regression
+  // rules look at it, against the last accepted tick; it is not kept as history,
+  // so the next accepted tick resolves the alert through observe().
+  const observeQuarantined = (tick: TickData, now = tick.receivedAt) => {
+    const history = (samples.get(tick.instrument_key) ?? []).slice(-1)
+    history.push({ time: tick.receivedAt, price: tick.last_price, volume: tick.volume })
+    const name = getInstrumentName(tick)
+    for (const rule of rules) {
+      if (!QUARANTINE_RULES.has(rule.type) || !applies(rule, tick)) continue
+      update(rule, tick, evaluateTick(rule, history, tick, name), now)
+    }
+  }
+
+  // Time-driven rules; call periodically
+  const check = (now = Date.now()) => {
+    for (const rule of rules) {
+      if (rule.type !== "tick_rate_drop") continue
+      for (const instrumentKey of rule.instrumentKeys) {
+        const tick = lastTicks.get(instrumentKey)
+        if (!tick || !applies(rule, tick)) continue
+        const message = evaluateTickRate(rule, samples.get(instrumentKey) ?? [], now)
+        update(rule, tick, message && `${getInstrumentName(tick)}: ${message}`, now)
+      }
+    }
+  }
+
+  const reset = () => {
+    samples.clear()
+    lastTicks.clear()
+    states.clear()
+  }
+
+  const activeKeys = () =>
+    Array.from(states.entries())
+      .filter(([, state]) => state.active)
+      .map(([key]) => key)
+
+  return { setRules, observe, observeQuarantined, check, reset, activeKeys }
+}
+
+export type AlertRuleEngine = ReturnType<typeof createAlertRuleEngine>
@@ -12,12 +12,12 @@ export interface CandlestickData {
 
 export function generateCandlestickData(
   ticks: TickData[],
-  instrumentToken: number,
+  instrumentKey: string,
   ticksPerCandle = 3,
 ): CandlestickData[] {
   // Filter ticks for the specific instrument and sort by timestamp
   const instrumentTicks = ticks
-    .filter((tick) => tick.instrument_token === instrumentToken)
+    .filter((tick) => tick.instrument_key === instrumentKey)
     .sort((a, b) => a.timestamp - b.timestamp)
 
   if (instrumentTicks.length === 0) return []
@@ -0,0 +1,89 @@
+// NTP-style estimate of how far the browser clock is off from the server's.
+// Each exchange records four timestamps: t0 client send, t1 server receive,
+// t2 server send, t3 client receive. offset = ((t1 - t0) + (t2 - t3)) / 2 is
+// what to add to the local clock; rtt = (t3 - t0) - (t2 - t1) is the network
+// round trip. Of a burst of exchanges, the lowest-RTT one is trusted most, as
+// asymmetric delays can skew the offset by at most half the RTT.
+
+export interface ClockSample {
+  offset: number // Server clock minus local clock, ms
+  rtt: number
+  at: number // Local time the sample completed
+}
+
+export interface ClockSyncState {
+  offset: number // 0 until the first successful sync
+  rtt: number | null
+  syncedAt: number | null
+  error: string | null
+}
+
+export interface ServerTime {
+  receivedAt: number
+  sentAt: number
+}
+
+const BURST_SIZE = 4
+
+// Skew beyond this gets a warning on the dashboard
+export const CLOCK_SKEW_WARNING_THRESHOLD = 500
+
+export function computeClockSample(t0: number, t1: number, t2: number, t3: number): ClockSample {
+  return { offset: (t1 - t0 + (t2 - t3)) / 2, rtt: t3 - t0 - (t2 - t1), at: t3 }
+}
+
+export function createClockSync(fetchServerTime: () => Promise<ServerTime>, now: () => number = Date.now) {
+  let state: ClockSyncState = { offset: 0, rtt: null, syncedAt: null, error: null }
+  const listeners = new Set<() => void>()
+
+  const setState = (next: ClockSyncState) => {
+    state = next
+    listeners.forEach((listener) => listener())
+  }
+
+  const sample = async () => {
+    const t0 = now()
+    const { receivedAt, sentAt } = await fetchServerTime()
+    return computeClockSample(t0, receivedAt, sentAt, now())
+  }
+
+  const sync = async (burst = BURST_SIZE) => {
+    try {
+      const samples: ClockSample[] = []
+      for (let i = 0; i < burst; i++) samples.push(await sample())
+      const best = samples.reduce((a, b) => (b.rtt < a.rtt ? b : a))
+      setState({ offset: best.offset, rtt: best.rtt, syncedAt: best.at, error: null })
+    } catch (error) {
+      // Keep the last good offset
+      setState({ ...state, error: String(error) })
+    }
+    return state
+  }
+
+  return {
+    getState: () => state,
+    offset: () => state.offset,
+    sync,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type ClockSync = ReturnType<typeof createClockSync>
+
+const fetchServerTime = async (): Promise<ServerTime> => {
+  const response = await fetch("/api/time", { cache: "no-store" })
+  if (!response.ok) throw new Error(`Time request failed with ${response.status}`)
+  return response.json()
+}
+
+// One estimate per page, shared by every feed
+const globalForClock = globalThis as typeof globalThis & { __clockSync?: ClockSync }
+
+export function getClockSync(): ClockSync {
+  return (globalForClock.__clockSync ??= createClockSync(fetchServerTime))
+}
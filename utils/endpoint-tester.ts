@@ -1,3 +1,5 @@
+import type { FeedDefinition } from "@/utils/feeds/types"
+
 export async function testEndpoint(url: string): Promise<{
   available: boolean
   status?: number
@@ -26,20 +28,24 @@ export async function testEndpoint(url: string): Promise<{
   }
 }
 
-export async function findAvailableEndpoints(): Promise<
+// Tests every registered feed URL plus the base URL of each host they live on
+export async function findAvailableEndpoints(feeds: FeedDefinition[]): Promise<
   Array<{
     url: string
     name: string
     result: Awaited<ReturnType<typeof testEndpoint>>
   }>
 > {
-  const endpoints = [
-    { url: "https://ticks.rvinod.com/ticks", name: "Original Feed" },
-    { url: "https://ticks.rvinod.com/upstox", name: "Upstox Feed" },
-    { url: "https://ticks.rvinod.com/upstox-feed", name: "Upstox Feed Alt" },
-    { url: "https://ticks.rvinod.com/api/upstox", name: "Upstox API" },
-    { url: "https://ticks.rvinod.com", name: "Base URL" },
-  ]
+  const endpoints = feeds.map((feed) => ({ url: feed.url, name: `${feed.name} Feed` }))
+  const origins = new Set<string>()
+  for (const feed of feeds) {
+    try {
+      origins.add(new URL(feed.url, window.location.origin).origin)
+    } catch {
+      // Invalid URLs still show up as unavailable feed entries
+    }
+  }
+  origins.forEach((origin) => endpoints.push({ url: origin, name: "Base URL" }))
 
   const results = await Promise.all(
     endpoints.map(async (endpoint) => ({
@@ -0,0 +1,70 @@
+import type { DepthLevel, FeedWireFormat, NormalizedTick } from "./types"
+import { decodeKiteBinary } from "./kite-binary"
+
+// kiteconnect's JSON depth entries: { quantity, price, orders }
+const parseDepthLevels = (levels: unknown): DepthLevel[] =>
+  Array.isArray(levels)
+    ? levels.map((level) => ({
+        price: Number(level?.price) || 0,
+        quantity: Number(level?.quantity) || 0,
+        orders: Number(level?.orders) || 0,
+      }))
+    : []
+
+// The relay sends `event: tick` with a JSON array of Kite ticks
+export function parseKiteTicks(rawData: string, receivedAt: number): NormalizedTick[] {
+  const ticksArray = JSON.parse(rawData)
+  if (!Array.isArray(ticksArray)) {
+    // Kite's WebSocket sends order updates and errors as typed JSON text frames
+    if (ticksArray?.type) return []
+    throw new Error("Expected a JSON array of ticks")
+  }
+
+  const ticks: NormalizedTick[] = []
+  for (const tickData of ticksArray) {
+    if (!tickData || typeof tickData !== "object" || !tickData.instrument_token) continue
+
+    const token = Number(tickData.instrument_token)
+    ticks.push({
+      instrument_key: String(token),
+      instrument_token: token,
+      last_price: tickData.last_price || 0,
+      volume: tickData.volume_traded || 0,
+      average_price: tickData.average_traded_price || tickData.last_price || 0,
+      last_quantity: tickData.last_traded_quantity || 0,
+      timestamp: tickData.timestamp ? new Date(tickData.timestamp).getTime() : receivedAt,
+      tradingsymbol: tickData.tradingsymbol || undefined,
+      // Quote/full-mode fields, when the relay forwards them
+      ohlc: tickData.ohlc || undefined,
+      oi: tickData.oi ?? undefined,
+      oi_day_high: tickData.oi_day_high ?? undefined,
+      oi_day_low: tickData.oi_day_low ?? undefined,
+      total_buy_quantity: tickData.total_buy_quantity ?? undefined,
+      total_sell_quantity: tickData.total_sell_quantity ?? undefined,
+      depth: tickData.depth
+        ? { buy: parseDepthLevels(tickData.depth.buy), sell: parseDepthLevels(tickData.depth.sell) }
+        : undefined,
+    })
+  }
+  return ticks
+}
+
+export const kiteFormat: FeedWireFormat = {
+  id: "kite",
+  name: "Kite ticks (event: tick)",
+  eventTypes: ["tick"],
+  freezeThreshold: 5000,
+  latencyThreshold: 1000,
+  intervalThreshold: 1000,
+  maxTicks: 200,
+  parse: parseKiteTicks,
+  // Raw Kite ticker packets (WebSocket binary frames or recorded dumps)
+  parseBinary: decodeKiteBinary,
+  // Kite Connect WebSocket: subscribe by token, then ask for full-mode packets
+  encodeSubscription: (action, instruments) => {
+    const tokens = instruments.map(Number)
+    return action === "subscribe"
+      ? [JSON.stringify({ a: "subscribe", v: tokens }), JSON.stringify({ a: "mode", v: ["full", tokens] })]
+      : [JSON.stringify({ a: "unsubscribe", v: tokens })]
+  },
+}
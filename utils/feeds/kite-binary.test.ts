@@ -0,0 +1,128 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { decodeKiteBinary, encodeKiteBinary } from "./kite-binary"
+
+// Messages laid out byte for byte as in Kite's message structure docs, one
+// hex file each under __fixtures__/kite-binary
+const fixture = (name: string) => {
+  const hex = readFileSync(new URL(`./__fixtures__/kite-binary/${name}.hex`, import.meta.url), "utf8")
+  return Uint8Array.from(hex.replace(/\s/g, "").match(/../g) ?? [], (byte) => Number.parseInt(byte, 16))
+}
+
+const RECEIVED_AT = 1_729_569_605_000
+
+describe("decodeKiteBinary", () => {
+  it("decodes an ltp packet", () => {
+    expect(decodeKiteBinary(fixture("ltp"), RECEIVED_AT)).toEqual([
+      {
+        instrument_key: "408065",
+        instrument_token: 408065,
+        last_price: 1452.35,
+        volume: 0,
+        average_price: 1452.35,
+        last_quantity: 0,
+        timestamp: RECEIVED_AT,
+      },
+    ])
+  })
+
+  it("decodes a quote packet", () => {
+    const [tick] = decodeKiteBinary(fixture("quote"), RECEIVED_AT)
+    expect(tick).toMatchObject({
+      instrument_token: 408065,
+      last_price: 1452.35,
+      last_quantity: 10,
+      average_price: 1450.12,
+      volume: 1234567,
+      total_buy_quantity: 5000,
+      total_sell_quantity: 6000,
+      ohlc: { open: 1440, high: 1460, low: 1435, close: 1439 },
+      timestamp: RECEIVED_AT, // Quote packets carry no exchange timestamp
+    })
+    expect(tick.depth).toBeUndefined()
+  })
+
+  it("decodes a full packet with open interest, exchange time and depth", () => {
+    const [tick] = decodeKiteBinary(fixture("full"), RECEIVED_AT)
+    expect(tick).toMatchObject({
+      instrument_token: 13368834,
+      last_price: 24150.5,
+      volume: 9876500,
+      ohlc: { open: 24000, high: 24200, low: 23950, close: 23980 },
+      oi: 14500000,
+      oi_day_high: 14800000,
+      oi_day_low: 14200000,
+      timestamp: 1_729_569_601_000,
+    })
+    expect(tick.depth?.buy).toHaveLength(5)
+    expect(tick.depth?.sell).toHaveLength(5)
+    expect(tick.depth?.buy[0]).toEqual({ quantity: 75, price: 24150, orders: 3 })
+    expect(tick.depth?.sell[4]).toEqual({ quantity: 250, price: 24153, orders: 10 })
+  })
+
+  it("decodes index quote and full packets", () => {
+    const expected = {
+      instrument_token: 256265,
+      last_price: 24150.5,
+      volume: 0,
+      ohlc: { high: 24200, low: 23950, open: 24000, close: 23980 },
+    }
+    expect(decodeKiteBinary(fixture("index-quote"), RECEIVED_AT)).toEqual([
+      expect.objectContaining({ ...expected, timestamp: RECEIVED_AT }),
+    ])
+    expect(decodeKiteBinary(fixture("index-full"), RECEIVED_AT)).toEqual([
+      expect.objectContaining({ ...expected, timestamp: 1_729_569_601_000 }),
+    ])
+  })
+
+  it("scales currency derivative prices by the segment's divisor", () => {
+    const [cds] = decodeKiteBinary(fixture("cds-quote"), RECEIVED_AT)
+    expect(cds.last_price).toBe(83.9725)
+    expect(cds.average_price).toBe(83.97)
+    expect(cds.ohlc).toEqual({ open: 83.95, high: 84, low: 83.94, close: 83.96 })
+
+    const [bcd] = decodeKiteBinary(fixture("bcd-ltp"), RECEIVED_AT)
+    expect(bcd.last_price).toBe(83.9725)
+  })
+
+  it("decodes every packet of a multi-packet message in order", () => {
+    const ticks = decodeKiteBinary(fixture("multi-packet"), RECEIVED_AT)
+    expect(ticks.map((tick) => tick.instrument_token)).toEqual([408065, 256265, 13368834])
+    expect(ticks.map((tick) => tick.last_price)).toEqual([1452.35, 24150.5, 24150.5])
+  })
+
+  it("throws on a truncated packet", () => {
+    expect(() => decodeKiteBinary(fixture("truncated-packet"), RECEIVED_AT)).toThrow(
+      "Truncated Kite binary packet 1",
+    )
+  })
+
+  it("throws when the message has fewer packets than its count", () => {
+    expect(() => decodeKiteBinary(fixture("missing-packet"), RECEIVED_AT)).toThrow(
+      "Truncated Kite binary message at packet 2",
+    )
+  })
+
+  it("returns nothing for heartbeats", () => {
+    expect(decodeKiteBinary(fixture("heartbeat"), RECEIVED_AT)).toEqual([])
+  })
+
+  it("skips packets of unknown length", () => {
+    const message = Uint8Array.from([0, 1, 0, 4, 0, 0, 0, 1])
+    expect(decodeKiteBinary(message, RECEIVED_AT)).toEqual([])
+  })
+})
+
+describe("encodeKiteBinary", () => {
+  it("reproduces the fixtures byte for byte", () => {
+    for (const name of ["ltp", "quote", "index-quote", "cds-quote", "bcd-ltp"]) {
+      const mode = name.endsWith("ltp") ? "ltp" : "quote"
+      expect(encodeKiteBinary(decodeKiteBinary(fixture(name), RECEIVED_AT), mode), name).toEqual(fixture(name))
+    }
+  })
+
+  it("round-trips a full packet", () => {
+    const ticks = decodeKiteBinary(fixture("full"), RECEIVED_AT)
+    expect(decodeKiteBinary(encodeKiteBinary(ticks, "full"), RECEIVED_AT)).toEqual(ticks)
+  })
+})
@@ -0,0 +1,192 @@
+import type { DepthLevel, NormalizedTick } from "./types"
+
+// Kite Connect's native WebSocket ticker format. A message is a big-endian
+// int16 packet count followed by [int16 length][packet] pairs; the packet
+// length identifies the mode. Prices are integers in paise (or finer for
+// currency segments). Single-byte messages are heartbeats.
+// https://kite.trade/docs/connect/v3/websocket/#message-structure
+
+export type KiteBinaryMode = "ltp" | "quote" | "full"
+
+const SEGMENT_CDS = 3
+const SEGMENT_BCD = 6
+const SEGMENT_INDICES = 9
+
+const LTP_LENGTH = 8
+const INDEX_QUOTE_LENGTH = 28
+const INDEX_FULL_LENGTH = 32
+const QUOTE_LENGTH = 44
+const FULL_LENGTH = 184
+
+const DEPTH_OFFSET = 64
+const DEPTH_LEVELS = 5 // Per side; buy levels come first
+const DEPTH_ENTRY_LENGTH = 12 // int32 quantity, int32 price, int16 orders, 2 bytes padding
+
+// The low byte of the token is the exchange segment, which sets the price scale
+const priceDivisor = (token: number) => {
+  const segment = token & 0xff
+  if (segment === SEGMENT_CDS) return 10_000_000
+  if (segment === SEGMENT_BCD) return 10_000
+  return 100
+}
+
+const isIndexToken = (token: number) => (token & 0xff) === SEGMENT_INDICES
+
+function decodeDepth(packet: DataView, divisor: number) {
+  const levels: DepthLevel[] = []
+  for (let i = 0; i < DEPTH_LEVELS * 2; i++) {
+    const offset = DEPTH_OFFSET + i * DEPTH_ENTRY_LENGTH
+    levels.push({
+      quantity: packet.getInt32(offset),
+      price: packet.getInt32(offset + 4) / divisor,
+      orders: packet.getInt16(offset + 8),
+    })
+  }
+  return { buy: levels.slice(0, DEPTH_LEVELS), sell: levels.slice(DEPTH_LEVELS) }
+}
+
+function decodePacket(packet: DataView, receivedAt: number): NormalizedTick | null {
+  if (packet.byteLength < LTP_LENGTH) return null
+
+  const token = packet.getUint32(0)
+  const divisor = priceDivisor(token)
+  const price = (offset: number) => packet.getInt32(offset) / divisor
+  const lastPrice = price(4)
+
+  const tick: NormalizedTick = {
+    instrument_key: String(token),
+    instrument_token: token,
+    last_price: lastPrice,
+    volume: 0,
+    average_price: lastPrice,
+    last_quantity: 0,
+    timestamp: receivedAt,
+  }
+
+  switch (packet.byteLength) {
+    case LTP_LENGTH:
+      return tick
+
+    case INDEX_QUOTE_LENGTH:
+    case INDEX_FULL_LENGTH:
+      tick.ohlc = { high: price(8), low: price(12), open: price(16), close: price(20) }
+      if (packet.byteLength === INDEX_FULL_LENGTH) tick.timestamp = packet.getUint32(28) * 1000
+      return tick
+
+    case QUOTE_LENGTH:
+    case FULL_LENGTH:
+      tick.last_quantity = packet.getInt32(8)
+      tick.average_price = price(12)
+      tick.volume = packet.getInt32(16)
+      tick.total_buy_quantity = packet.getInt32(20)
+      tick.total_sell_quantity = packet.getInt32(24)
+      tick.ohlc = { open: price(28), high: price(32), low: price(36), close: price(40) }
+      if (packet.byteLength === QUOTE_LENGTH) return tick
+
+      tick.oi = packet.getInt32(48)
+      tick.oi_day_high = packet.getInt32(52)
+      tick.oi_day_low = packet.getInt32(56)
+      tick.timestamp = packet.getUint32(60) * 1000
+      tick.depth = decodeDepth(packet, divisor)
+      return tick
+
+    default:
+      // Packet types this decoder doesn't know yet are skipped, as Kite's own clients do
+      return null
+  }
+}
+
+// Throws on truncated messages; returns [] for heartbeats
+export function decodeKiteBinary(bytes: Uint8Array, receivedAt: number): NormalizedTick[] {
+  if (bytes.byteLength < 2) return []
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const packetCount = view.getUint16(0)
+  const ticks: NormalizedTick[] = []
+  let offset = 2
+
+  for (let i = 0; i < packetCount; i++) {
+    if (offset + 2 > bytes.byteLength) throw new Error(`Truncated Kite binary message at packet ${i + 1}`)
+    const length = view.getUint16(offset)
+    offset += 2
+    if (offset + length > bytes.byteLength) throw new Error(`Truncated Kite binary packet ${i + 1}`)
+
+    const tick = decodePacket(new DataView(bytes.buffer, bytes.byteOffset + offset, length), receivedAt)
+    if (tick) ticks.push(tick)
+    offset += length
+  }
+
+  return ticks
+}
+
+function packetLength(token: number, mode: KiteBinaryMode) {
+  if (mode === "ltp") return LTP_LENGTH
+  if (isIndexToken(token)) return mode === "full" ? INDEX_FULL_LENGTH : INDEX_QUOTE_LENGTH
+  return mode === "full" ? FULL_LENGTH : QUOTE_LENGTH
+}
+
+// Inverse of decodeKiteBinary, for the local mock and recorded fixtures.
+// Index tokens get index packets; timestamps are truncated to whole seconds.
+export function encodeKiteBinary(ticks: NormalizedTick[], mode: KiteBinaryMode = "full"): Uint8Array {
+  const packets = ticks.map((tick) => {
+    const token = tick.instrument_token ?? Number(tick.instrument_key)
+    const divisor = priceDivisor(token)
+    const packet = new DataView(new ArrayBuffer(packetLength(token, mode)))
+    const setPrice = (offset: number, value: number) => packet.setInt32(offset, Math.round(value * divisor))
+    const seconds = Math.floor(tick.timestamp / 1000)
+    const ohlc = tick.ohlc ?? { open: 0, high: 0, low: 0, close: 0 }
+
+    packet.setUint32(0, token)
+    setPrice(4, tick.last_price)
+
+    if (packet.byteLength === INDEX_QUOTE_LENGTH || packet.byteLength === INDEX_FULL_LENGTH) {
+      setPrice(8, ohlc.high)
+      setPrice(12, ohlc.low)
+      setPrice(16, ohlc.open)
+      setPrice(20, ohlc.close)
+      setPrice(24, tick.last_price - ohlc.close)
+      if (packet.byteLength === INDEX_FULL_LENGTH) packet.setUint32(28, seconds)
+    } else if (packet.byteLength >= QUOTE_LENGTH) {
+      packet.setInt32(8, tick.last_quantity)
+      setPrice(12, tick.average_price)
+      packet.setInt32(16, tick.volume)
+      packet.setInt32(20, tick.total_buy_quantity ?? 0)
+      packet.setInt32(24, tick.total_sell_quantity ?? 0)
+      setPrice(28, ohlc.open)
+      setPrice(32, ohlc.high)
+      setPrice(36, ohlc.low)
+      setPrice(40, ohlc.close)
+    }
+
+    if (packet.byteLength === FULL_LENGTH) {
+      packet.setUint32(44, seconds) // Last trade time
+      packet.setInt32(48, tick.oi ?? 0)
+      packet.setInt32(52, tick.oi_day_high ?? 0)
+      packet.setInt32(56, tick.oi_day_low ?? 0)
+      packet.setUint32(60, seconds) // Exchange timestamp
+
+      const levels = [...(tick.depth?.buy ?? []).slice(0, DEPTH_LEVELS)]
+      while (levels.length < DEPTH_LEVELS) levels.push({ price: 0, quantity: 0, orders: 0 })
+      levels.push(...(tick.depth?.sell ?? []).slice(0, DEPTH_LEVELS))
+      levels.forEach((level, i) => {
+        const offset = DEPTH_OFFSET + i * DEPTH_ENTRY_LENGTH
+        packet.setInt32(offset, level.quantity)
+        setPrice(offset + 4, level.price)
+        packet.setInt16(offset + 8, level.orders)
+      })
+    }
+
+    return new Uint8Array(packet.buffer)
+  })
+
+  const message = new Uint8Array(2 + packets.reduce((sum, packet) => sum + 2 + packet.byteLength, 0))
+  const view = new DataView(message.buffer)
+  view.setUint16(0, packets.length)
+  let offset = 2
+  for (const packet of packets) {
+    view.setUint16(offset, packet.byteLength)
+    message.set(packet, offset + 2)
+    offset += 2 + packet.byteLength
+  }
+  return message
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { createSkewCompensator, formatDuration, MAX_RESIDUAL_SKEW, timingColor } from "./latency"
+
+const T = Date.parse("2024-10-22T05:00:00Z")
+
+describe("createSkewCompensator", () => {
+  it("corrects latency by the measured clock offset", () => {
+    const skew = createSkewCompensator()
+    // Local clock 300 ms behind the server: received "at" T is really T + 300
+    expect(skew.latency(T, T - 200, 300)).toBe(500)
+    expect(skew.offset()).toBe(300)
+  })
+
+  it("covers unmeasured skew with the most negative latency seen", () => {
+    const skew = createSkewCompensator()
+    expect(skew.latency(T, T + 800)).toBe(0) // Arrived before it happened: local clock is behind
+    expect(skew.offset()).toBe(800)
+    expect(skew.latency(T + 10, T - 90)).toBeCloseTo(900, 0)
+  })
+
+  it("caps the residual at what the validator lets through", () => {
+    const skew = createSkewCompensator()
+    skew.latency(T, T + 60_000)
+    expect(skew.offset()).toBe(MAX_RESIDUAL_SKEW)
+  })
+
+  it("lets the residual decay when nothing keeps it up", () => {
+    const skew = createSkewCompensator()
+    skew.latency(T, T + 1_000)
+    skew.latency(T + 60_000, T + 59_000) // A minute later, with no skew of its own
+    expect(skew.offset()).toBeCloseTo(500, 5)
+  })
+
+  it("starts over when a new offset is measured", () => {
+    const skew = createSkewCompensator()
+    skew.latency(T, T + 1_000)
+    expect(skew.latency(T + 10, T - 40, 200)).toBe(250)
+    expect(skew.offset()).toBe(200)
+  })
+
+  it("forgets the residual on reset", () => {
+    const skew = createSkewCompensator()
+    skew.latency(T, T + 1_000)
+    skew.reset()
+    expect(skew.offset()).toBe(0)
+  })
+})
+
+describe("formatDuration", () => {
+  it("picks a unit by size", () => {
+    expect(formatDuration(0)).toBe("N/A")
+    expect(formatDuration(245.6)).toBe("246ms")
+    expect(formatDuration(1_500)).toBe("1.5s")
+    expect(formatDuration(90_000)).toBe("1.5m")
+  })
+})
+
+describe("timingColor", () => {
+  it("turns yellow over half the threshold and red over it", () => {
+    expect(timingColor(400, 1_000)).toBe("text-green-600")
+    expect(timingColor(600, 1_000)).toBe("text-yellow-600")
+    expect(timingColor(1_200, 1_000)).toBe("text-red-600")
+  })
+})
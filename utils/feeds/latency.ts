@@ -0,0 +1,63 @@
+// Two different timings are tracked per tick:
+// - latency: transport latency, receivedAt minus the tick's exchange timestamp
+// - delay: the inter-tick interval, the gap since the previous tick for the same instrument
+// Latency is only meaningful when the local clock agrees with the exchange's,
+// so it is corrected by the measured clock offset (utils/clock-sync.ts).
+
+export interface TimingThresholds {
+  latency: number // ms
+  interval: number // ms
+}
+
+export const DEFAULT_TIMING_THRESHOLDS: TimingThresholds = { latency: 1000, interval: 1000 }
+
+// How far a tick may claim to be from the future before the validator
+// quarantines it (utils/tick-validator.ts), so also the most the residual can
+// make up for
+export const MAX_RESIDUAL_SKEW = 5_000
+// The residual halves every minute unless new ticks keep it up, so one early
+// tick doesn't inflate every later latency for the rest of the session
+const RESIDUAL_HALF_LIFE = 60_000
+
+// Applies the measured offset (server minus local clock), then covers whatever
+// skew remains (exchange vs server, or no measurement yet) by assuming the clock
+// is at least as far behind as the most negative latency seen recently: a tick
+// can't arrive before it happened. Only feed it ticks that passed validation.
+export function createSkewCompensator() {
+  let residual = 0
+  let lastOffset = 0
+  let lastAt: number | null = null
+
+  return {
+    latency: (receivedAt: number, exchangeTimestamp: number, measuredOffset = 0) => {
+      // A new measurement supersedes whatever was inferred without it
+      if (measuredOffset !== lastOffset) residual = 0
+      lastOffset = measuredOffset
+      if (lastAt !== null && receivedAt > lastAt) residual *= 0.5 ** ((receivedAt - lastAt) / RESIDUAL_HALF_LIFE)
+      lastAt = receivedAt
+
+      const corrected = receivedAt + measuredOffset - exchangeTimestamp
+      if (corrected + residual < 0) residual = Math.min(-corrected, MAX_RESIDUAL_SKEW)
+      return Math.max(0, corrected + residual)
+    },
+    // Total correction applied to the latest latency
+    offset: () => lastOffset + residual,
+    reset: () => {
+      residual = 0
+      lastAt = null
+    },
+  }
+}
+
+export type SkewCompensator = ReturnType<typeof createSkewCompensator>
+
+export const formatDuration = (ms: number) => {
+  if (ms === 0) return "N/A"
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  return `${(ms / 60000).toFixed(1)}m`
+}
+
+// Red over the threshold, yellow over half of it
+export const timingColor = (ms: number, threshold: number) =>
+  ms > threshold ? "text-red-600" : ms > threshold / 2 ? "text-yellow-600" : "text-green-600"
@@ -0,0 +1,115 @@
+import { z } from "zod"
+import type { FeedAdapter, FeedDefinition, FeedWireFormat } from "./types"
+import { kiteFormat } from "./kite-adapter"
+import { upstoxFormat } from "./upstox-adapter"
+import { connectEventSource } from "./sse-transport"
+import { connectWebSocket } from "./ws-transport"
+import { decodeBase64 } from "./binary"
+
+export const FEED_FORMATS: Record<string, FeedWireFormat> = {
+  [kiteFormat.id]: kiteFormat,
+  [upstoxFormat.id]: upstoxFormat,
+}
+
+export const FEED_PROTOCOLS = ["sse", "websocket"] as const
+
+// Built-in feeds; the per-feed URL variables point them elsewhere (e.g. the local mock)
+export const DEFAULT_FEEDS: FeedDefinition[] = [
+  {
+    id: "kite",
+    name: "Kite",
+    url: process.env.NEXT_PUBLIC_KITE_TICKS_URL || "https://ticks.rvinod.com/ticks",
+    protocol: "sse",
+    adapter: "kite",
+    enabled: true,
+  },
+  {
+    id: "upstox",
+    name: "Upstox",
+    url: process.env.NEXT_PUBLIC_UPSTOX_FEED_URL || "https://ticks.rvinod.com/upstox",
+    protocol: "sse",
+    adapter: "upstox",
+    enabled: true,
+  },
+]
+
+const feedDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "id must be lowercase letters, digits or dashes"),
+  name: z.string().min(1),
+  url: z.string().min(1),
+  protocol: z.enum(FEED_PROTOCOLS),
+  adapter: z.string().refine((id) => id in FEED_FORMATS, "unknown adapter"),
+  enabled: z.boolean().default(true),
+  freezeThreshold: z.number().positive().optional(),
+  latencyThreshold: z.number().positive().optional(),
+  intervalThreshold: z.number().positive().optional(),
+  maxTicks: z.number().int().positive().optional(),
+  instruments: z.array(z.string()).optional(),
+})
+
+export const feedDefinitionsSchema = z
+  .array(feedDefinitionSchema)
+  .refine((feeds) => new Set(feeds.map((feed) => feed.id)).size === feeds.length, "feed ids must be unique")
+
+// NEXT_PUBLIC_FEEDS, a JSON array of feed definitions, replaces the built-in list
+function loadConfiguredFeeds(): FeedDefinition[] {
+  const raw = process.env.NEXT_PUBLIC_FEEDS
+  if (!raw) return DEFAULT_FEEDS
+
+  try {
+    return feedDefinitionsSchema.parse(JSON.parse(raw))
+  } catch (error) {
+    console.error("❌ Ignoring invalid NEXT_PUBLIC_FEEDS:", error)
+    return DEFAULT_FEEDS
+  }
+}
+
+export const CONFIGURED_FEEDS = loadConfiguredFeeds()
+
+const adapterCache = new Map<string, FeedAdapter>()
+
+// Builds the adapter for a definition. Memoized on the definition's contents so
+// useFeed sees a stable reference until the feed's settings actually change.
+export function createFeedAdapter(definition: FeedDefinition): FeedAdapter {
+  const cacheKey = JSON.stringify(definition)
+  const cached = adapterCache.get(cacheKey)
+  if (cached) return cached
+
+  const format = FEED_FORMATS[definition.adapter]
+  if (!format) throw new Error(`Unknown feed adapter "${definition.adapter}" for ${definition.name}`)
+
+  const isWebSocket = definition.protocol === "websocket"
+  const adapter: FeedAdapter = {
+    id: definition.id,
+    name: definition.name,
+    url: definition.url,
+    freezeThreshold: definition.freezeThreshold ?? format.freezeThreshold,
+    latencyThreshold: definition.latencyThreshold ?? format.latencyThreshold,
+    intervalThreshold: definition.intervalThreshold ?? format.intervalThreshold,
+    maxTicks: definition.maxTicks ?? format.maxTicks,
+    // WebSocket frames have no event names; the transport tags them by frame type
+    eventTypes: isWebSocket ? ["message", "binary"] : format.eventTypes,
+    parse: (rawData, receivedAt, eventType) => {
+      if (eventType !== "binary") return format.parse(rawData, receivedAt)
+      if (!format.parseBinary) throw new Error(`${format.name} has no binary frame decoder`)
+      return format.parseBinary(decodeBase64(rawData), receivedAt)
+    },
+    connect: (handlers) =>
+      isWebSocket
+        ? connectWebSocket(
+            definition.url,
+            { instruments: definition.instruments, encodeSubscription: format.encodeSubscription },
+            handlers,
+          )
+        : connectEventSource(definition.url, format.eventTypes, handlers),
+  }
+  adapterCache.set(cacheKey, adapter)
+  return adapter
+}
+
+// Server-side feeds (ingestion worker, /api/ticks) come from the environment only
+export const FEED_ADAPTERS: FeedAdapter[] = CONFIGURED_FEEDS.filter((feed) => feed.enabled).map(createFeedAdapter)
+
+export function getFeedAdapter(feedId: string): FeedAdapter | undefined {
+  return FEED_ADAPTERS.find((adapter) => adapter.id === feedId)
+}
@@ -0,0 +1,183 @@
+import type { FeedAdapter, FeedConnection, FeedConnectionHandlers } from "./types"
+import { connectEventSource } from "./sse-transport"
+
+// Where the dashboard's feeds come from: the live endpoints or recorded sessions
+export type FeedSource = "live" | "replay"
+
+export type ReplaySpeed = 1 | 10 | 0 // 0 = as fast as the browser can take it
+
+export interface ReplaySession {
+  session: string // IST trading day, YYYY-MM-DD
+  start: number | null
+  end: number | null
+}
+
+export interface ReplayState {
+  session: ReplaySession | null
+  speed: ReplaySpeed
+  paused: boolean
+  position: number | null // Recorded time of the last payload played
+  finished: boolean
+}
+
+type ReplayListener = (state: ReplayState) => void
+
+// Replay event ids are "<line>:<recorded time>". Several payloads can share a
+// millisecond, so resuming goes by the line in the recording; the time only
+// moves the position slider.
+export const formatReplayEventId = (line: number, t: number) => `${line}:${t}`
+
+export function parseReplayEventId(id: string) {
+  const [line, t] = id.split(":").map(Number)
+  return Number.isInteger(line) && Number.isFinite(t) ? { line, t } : null
+}
+
+// Playback state for one feed's recorded sessions. The adapter it belongs to
+// reopens the /api/replay stream whenever the session, speed or position changes.
+function createReplayController(onChange: () => void) {
+  let state: ReplayState = { session: null, speed: 1, paused: false, position: null, finished: false }
+  const listeners = new Set<ReplayListener>()
+  let seekTarget: number | null = null
+  let lastLine: number | null = null // Of the last payload played
+
+  const update = (patch: Partial<ReplayState>, restart = true) => {
+    state = { ...state, ...patch }
+    listeners.forEach((listener) => listener(state))
+    if (restart) onChange()
+  }
+
+  return {
+    getState: () => state,
+    subscribe: (listener: ReplayListener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    load: (session: ReplaySession) => {
+      lastLine = null
+      update({ session, position: null, paused: false, finished: false })
+    },
+    setSpeed: (speed: ReplaySpeed) => update({ speed }),
+    pause: () => update({ paused: true }),
+    // Resuming a finished session plays it again from the top
+    resume: () => {
+      if (state.finished) lastLine = null
+      update({ paused: false, finished: false, position: state.finished ? null : state.position })
+    },
+    seek: (position: number) => {
+      seekTarget = position
+      lastLine = null
+      update({ position, finished: false })
+    },
+    // Progress reported by the stream itself; must not restart it
+    advance: (line: number, position: number) => {
+      lastLine = line
+      update({ position }, false)
+    },
+    finish: () => update({ finished: true }, false),
+    // Where the next stream should start: just after the last payload played, otherwise
+    // exactly at the seek target (or the position a seek left behind)
+    takeStart: (): { from?: number; after?: number } => {
+      const from = seekTarget ?? state.position
+      seekTarget = null
+      if (lastLine !== null) return { after: lastLine }
+      return from !== null ? { from } : {}
+    },
+  }
+}
+
+export type ReplayController = ReturnType<typeof createReplayController>
+
+// Wraps a live adapter so recorded payloads go through the same parse() and
+// useFeed pipeline. Pause, seek and speed changes reconnect to the replay
+// stream from the current position behind useFeed's back; seeks and restarts
+// tell it through onRestart.
+export function createReplayAdapter(source: FeedAdapter): FeedAdapter & { replay: ReplayController } {
+  let handlers: FeedConnectionHandlers | null = null
+  let stream: FeedConnection | null = null
+  let opened = false
+
+  const closeStream = () => {
+    stream?.close()
+    stream = null
+  }
+
+  const openStream = () => {
+    closeStream()
+    const { session, speed, paused, finished } = replay.getState()
+    if (!handlers || !session || paused || finished) return
+
+    const params = new URLSearchParams({ feed: source.id, session: session.session, speed: String(speed) })
+    const { from, after } = replay.takeStart()
+    if (from !== undefined) params.set("from", String(from))
+    if (after !== undefined) params.set("after", String(after))
+
+    const active = handlers
+    // Anything but picking up after the last payload played is a jump in the recording
+    if (opened && after === undefined) active.onRestart?.()
+    stream = connectEventSource(`/api/replay?${params}`, [...source.eventTypes, "end"], {
+      onOpen: () => {
+        // Only the first open is a real "connection" as far as the pipeline is concerned
+        if (opened) return
+        opened = true
+        active.onOpen()
+      },
+      onMessage: (data, eventType, eventId) => {
+        if (eventType === "end") {
+          closeStream()
+          replay.finish()
+          return
+        }
+        const played = eventId ? parseReplayEventId(eventId) : null
+        if (played) replay.advance(played.line, played.t)
+        active.onMessage(data, eventType, eventId)
+      },
+      onError: (closed) => {
+        if (closed) stream = null
+        active.onError(closed)
+      },
+    })
+  }
+
+  const replay = createReplayController(openStream)
+
+  return {
+    id: source.id,
+    name: `${source.name} (replay)`,
+    url: `/api/replay?feed=${source.id}`,
+    freezeThreshold: source.freezeThreshold,
+    // Recorded ticks keep their original timestamps, so their latency is meaningless
+    latencyThreshold: Infinity,
+    intervalThreshold: source.intervalThreshold,
+    maxTicks: source.maxTicks,
+    eventTypes: source.eventTypes,
+    parse: source.parse,
+    replay,
+    connect: (connectionHandlers) => {
+      handlers = connectionHandlers
+      opened = false
+      openStream()
+      return {
+        close: () => {
+          handlers = null
+          closeStream()
+        },
+      }
+    },
+  }
+}
+
+export type ReplayAdapter = ReturnType<typeof createReplayAdapter>
+
+const replayAdapters = new WeakMap<FeedAdapter, ReplayAdapter>()
+
+// One replay adapter (and playback state) per live adapter
+export function getReplayAdapter(source: FeedAdapter): ReplayAdapter {
+  let replayAdapter = replayAdapters.get(source)
+  if (!replayAdapter) {
+    replayAdapter = createReplayAdapter(source)
+    replayAdapters.set(source, replayAdapter)
+  }
+  return replayAdapter
+}
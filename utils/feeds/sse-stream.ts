@@ -0,0 +1,91 @@
+import type { FeedConnection, FeedConnectionHandlers } from "./types"
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+  id?: string
+}
+
+// Splits a text/event-stream buffer into complete events. Returns the
+// unconsumed remainder so callers can prepend it to the next chunk.
+export function parseEventStream(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const events: ServerSentEvent[] = []
+  const blocks = buffer.split(/\r?\n\r?\n/)
+  const rest = blocks.pop() ?? ""
+
+  for (const block of blocks) {
+    let event = "message"
+    let id: string | undefined
+    const data: string[] = []
+
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue // comments/heartbeats
+      const separator = line.indexOf(":")
+      const field = separator === -1 ? line : line.slice(0, separator)
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "")
+
+      if (field === "event") event = value
+      else if (field === "data") data.push(value)
+      else if (field === "id") id = value
+    }
+
+    if (data.length > 0) {
+      events.push({ event, data: data.join("\n"), id })
+    }
+  }
+
+  return { events, rest }
+}
+
+// fetch-based SSE client for runtimes without EventSource (Node). Never
+// retries on its own: a dropped stream is reported as onError(true).
+export function connectFetchEventStream(
+  url: string,
+  eventTypes: string[],
+  handlers: FeedConnectionHandlers,
+): FeedConnection {
+  const controller = new AbortController()
+
+  const run = async () => {
+    const response = await fetch(url, {
+      headers: { Accept: "text/event-stream", "Cache-Control": "no-cache" },
+      signal: controller.signal,
+    })
+    if (!response.ok || !response.body) {
+      throw new Error(`Upstream responded with ${response.status}`)
+    }
+
+    handlers.onOpen()
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const { events, rest } = parseEventStream(buffer)
+      buffer = rest
+
+      for (const event of events) {
+        if (eventTypes.includes(event.event)) {
+          handlers.onMessage(event.data, event.event, event.id)
+        }
+      }
+    }
+  }
+
+  run()
+    .catch((error) => {
+      if (!controller.signal.aborted) console.error(`❌ Event stream error for ${url}:`, error)
+    })
+    .finally(() => {
+      if (!controller.signal.aborted) handlers.onError(true)
+    })
+
+  return {
+    close: () => controller.abort(),
+  }
+}
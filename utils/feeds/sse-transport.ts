@@ -0,0 +1,51 @@
+import type { FeedConnection, FeedConnectionHandlers } from "./types"
+import { connectFetchEventStream } from "./sse-stream"
+
+const CONNECTION_TIMEOUT = 15000
+
+// Opens an EventSource and forwards the given event types to the handlers.
+// "message" covers unnamed SSE events. Falls back to a fetch-based reader
+// where EventSource does not exist (the Node runtime).
+export function connectEventSource(
+  url: string,
+  eventTypes: string[],
+  handlers: FeedConnectionHandlers,
+): FeedConnection {
+  if (typeof EventSource === "undefined") {
+    return connectFetchEventStream(url, eventTypes, handlers)
+  }
+
+  const eventSource = new EventSource(url)
+
+  const connectionTimeout = setTimeout(() => {
+    if (eventSource.readyState === EventSource.CONNECTING) {
+      eventSource.close()
+      handlers.onError(true)
+    }
+  }, CONNECTION_TIMEOUT)
+
+  eventSource.onopen = () => {
+    clearTimeout(connectionTimeout)
+    handlers.onOpen()
+  }
+
+  for (const eventType of eventTypes) {
+    eventSource.addEventListener(eventType, (event) => {
+      const message = event as MessageEvent
+      handlers.onMessage(message.data, eventType, message.lastEventId || undefined)
+    })
+  }
+
+  eventSource.onerror = () => {
+    clearTimeout(connectionTimeout)
+    const closed = eventSource.readyState === EventSource.CLOSED
+    handlers.onError(closed)
+  }
+
+  return {
+    close: () => {
+      clearTimeout(connectionTimeout)
+      eventSource.close()
+    },
+  }
+}
@@ -0,0 +1,134 @@
+// Canonical tick model shared by every feed adapter
+
+export interface TickData {
+  id: string
+  feed: string // Adapter id the tick came from ("kite", "upstox", ...)
+  instrument_key: string // Feed-unique instrument identifier, always a string
+  instrument_token?: number // Native numeric token for brokers that have one (Kite)
+  last_price: number
+  volume: number
+  average_price: number
+  last_quantity: number
+  timestamp: number // Timestamp from the tick data itself
+  delay: number // Inter-tick interval: time since the previous tick for the same instrument
+  latency: number // Transport latency: receivedAt minus timestamp, corrected for clock skew
+  receivedAt: number // When the tick was received by the client
+  raw_data?: string
+  tradingsymbol?: string
+  exchange?: string
+  // Quote/full-mode fields; absent when the feed only sends last price
+  ohlc?: OHLC
+  oi?: number // Open interest (derivatives)
+  oi_day_high?: number
+  oi_day_low?: number
+  total_buy_quantity?: number
+  total_sell_quantity?: number
+  depth?: MarketDepth
+  previous_close?: number
+  greeks?: OptionGreeks // Options only
+}
+
+export interface OHLC {
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+export interface DepthLevel {
+  price: number
+  quantity: number
+  orders: number
+}
+
+// Best levels first; Kite full mode carries five a side
+export interface MarketDepth {
+  buy: DepthLevel[]
+  sell: DepthLevel[]
+}
+
+export interface OptionGreeks {
+  delta: number
+  theta: number
+  gamma: number
+  vega: number
+  rho: number
+  iv?: number // Implied volatility
+}
+
+export interface Alert {
+  id: string
+  type: "freeze" | "delay" | "latency" | "connection" | "data" | "market" // "delay" is the inter-tick interval
+  message: string
+  timestamp: number
+  severity: "low" | "medium" | "high"
+  instrumentKey?: string // Set for instrument-specific alerts
+}
+
+export type ConnectionStatus = "connecting" | "connected" | "disconnected"
+
+// What an adapter hands back after parsing; the pipeline fills in the rest
+export type NormalizedTick = Omit<TickData, "id" | "feed" | "delay" | "latency" | "receivedAt">
+
+export interface FeedConnectionHandlers {
+  onOpen: () => void
+  onMessage: (data: string, eventType: string, eventId?: string) => void
+  onError: (closed: boolean) => void
+  // The stream jumped to another point (a replay seek or restart), so what came
+  // before says nothing about the ticks that follow
+  onRestart?: () => void
+}
+
+export interface FeedConnection {
+  close: () => void
+  // Only transports with a request channel (WebSocket) support these
+  subscribe?: (instruments: string[]) => void
+  unsubscribe?: (instruments: string[]) => void
+}
+
+export interface FeedAdapter {
+  id: string
+  name: string
+  url: string
+  freezeThreshold: number // ms without ticks before the feed counts as frozen
+  latencyThreshold: number // ms of transport latency before a tick counts as late
+  intervalThreshold: number // ms between ticks of an instrument before the gap is reported
+  maxTicks: number // How many ticks the client keeps in memory
+  eventTypes: string[] // SSE event names that carry payloads for parse()
+  connect: (handlers: FeedConnectionHandlers) => FeedConnection
+  // Throws on malformed payloads; returns [] for messages that carry no ticks.
+  // Binary frames arrive base64-encoded with eventType "binary".
+  parse: (rawData: string, receivedAt: number, eventType?: string) => NormalizedTick[]
+}
+
+export type FeedProtocol = "sse" | "websocket"
+
+// How a relay encodes ticks; feeds pick one by id through FeedDefinition.adapter
+export interface FeedWireFormat {
+  id: string
+  name: string
+  eventTypes: string[]
+  freezeThreshold: number
+  latencyThreshold: number
+  intervalThreshold: number
+  maxTicks: number
+  parse: (rawData: string, receivedAt: number) => NormalizedTick[]
+  parseBinary?: (bytes: Uint8Array, receivedAt: number) => NormalizedTick[]
+  // WebSocket request messages for this broker's subscribe/unsubscribe protocol
+  encodeSubscription?: (action: "subscribe" | "unsubscribe", instruments: string[]) => (string | ArrayBuffer)[]
+}
+
+// One configured feed, as stored in the registry (env, settings UI)
+export interface FeedDefinition {
+  id: string
+  name: string
+  url: string
+  protocol: FeedProtocol
+  adapter: string // FeedWireFormat id: "kite" | "upstox"
+  enabled: boolean
+  freezeThreshold?: number // Overrides the wire format default
+  latencyThreshold?: number
+  intervalThreshold?: number
+  maxTicks?: number
+  instruments?: string[] // Subscribed on connect (WebSocket feeds)
+}
@@ -0,0 +1,112 @@
+import type { FeedWireFormat, MarketDepth, NormalizedTick, OHLC, OptionGreeks } from "./types"
+import { decodeUpstoxFeedResponse } from "./upstox-protobuf"
+
+// Optional numeric field; Upstox sends int64s as strings
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || value === "" ? undefined : Number(value)
+
+// bidAskQuote entries: v3 uses {bidP, bidQ, askP, askQ}, v2 {bp, bq, bno, ap, aq, ano}
+function parseDepth(quotes: any[] | undefined): MarketDepth | undefined {
+  if (!Array.isArray(quotes) || quotes.length === 0) return undefined
+  return {
+    buy: quotes.map((quote) => ({
+      price: Number(quote.bidP ?? quote.bp ?? 0),
+      quantity: Number(quote.bidQ ?? quote.bq ?? 0),
+      orders: Number(quote.bno ?? 0),
+    })),
+    sell: quotes.map((quote) => ({
+      price: Number(quote.askP ?? quote.ap ?? 0),
+      quantity: Number(quote.askQ ?? quote.aq ?? 0),
+      orders: Number(quote.ano ?? 0),
+    })),
+  }
+}
+
+function parseGreeks(greeks: any, iv: unknown): OptionGreeks | undefined {
+  if (!greeks) return undefined
+  return {
+    delta: Number(greeks.delta ?? 0),
+    theta: Number(greeks.theta ?? 0),
+    gamma: Number(greeks.gamma ?? 0),
+    vega: Number(greeks.vega ?? 0),
+    rho: Number(greeks.rho ?? 0),
+    iv: optionalNumber(greeks.iv ?? iv),
+  }
+}
+
+// Upstox relays `live_feed` messages keyed by instrument_key ("NSE_EQ|INE...").
+// Each feed is `ff` (v2) or `fullFeed` (v3) holding marketFF for tradable
+// instruments or indexFF for indices; ltpc-mode feeds carry only `ltpc`, and
+// option_greeks-mode feeds have it under firstLevelWithGreeks.
+// v2 nests trade stats under eFeedDetails, v3 puts them on marketFF itself.
+function normalizeUpstoxFeed(payload: any, receivedAt: number): NormalizedTick[] {
+  if (payload?.type !== "live_feed" || !payload.feeds) return []
+
+  const ticks: NormalizedTick[] = []
+  for (const [key, item] of Object.entries<any>(payload.feeds)) {
+    const feed = item?.ff ?? item?.fullFeed
+    const market = feed?.marketFF
+    const index = feed?.indexFF
+    const ltpc = market?.ltpc ?? index?.ltpc ?? item?.ltpc ?? item?.firstLevelWithGreeks?.ltpc
+    if (!ltpc?.ltp) continue
+
+    const details = market?.eFeedDetails ?? {}
+    const dayCandle = (market ?? index)?.marketOHLC?.ohlc?.find((candle: any) => candle.interval === "1d")
+    const ohlc: OHLC | undefined = dayCandle
+      ? {
+          open: Number(dayCandle.open),
+          high: Number(dayCandle.high),
+          low: Number(dayCandle.low),
+          close: Number(dayCandle.close),
+        }
+      : undefined
+    const lastPrice = Number(ltpc.ltp)
+
+    ticks.push({
+      instrument_key: key,
+      exchange: key.split("|")[0],
+      last_price: lastPrice,
+      last_quantity: Number(ltpc.ltq ?? 0),
+      average_price: optionalNumber(market?.atp ?? details.atp) ?? lastPrice,
+      volume: optionalNumber(market?.vtt ?? details.vtt ?? dayCandle?.vol ?? dayCandle?.volume) ?? 0,
+      timestamp: Number(ltpc.ltt ?? receivedAt),
+      previous_close: optionalNumber(ltpc.cp ?? details.cp),
+      ohlc,
+      oi: optionalNumber(market?.oi ?? details.oi),
+      total_buy_quantity: optionalNumber(market?.tbq ?? details.tbq),
+      total_sell_quantity: optionalNumber(market?.tsq ?? details.tsq),
+      depth: parseDepth(market?.marketLevel?.bidAskQuote),
+      greeks: parseGreeks(market?.optionGreeks, market?.iv),
+    })
+  }
+  return ticks
+}
+
+export const parseUpstoxFeed = (rawData: string, receivedAt: number) =>
+  normalizeUpstoxFeed(JSON.parse(rawData), receivedAt)
+
+// Upstox's own v3 WebSocket sends protobuf FeedResponse frames
+export const parseUpstoxBinary = (bytes: Uint8Array, receivedAt: number) =>
+  normalizeUpstoxFeed(decodeUpstoxFeedResponse(bytes), receivedAt)
+
+export const upstoxFormat: FeedWireFormat = {
+  id: "upstox",
+  name: "Upstox live_feed",
+  eventTypes: ["message"],
+  freezeThreshold: 30_000,
+  latencyThreshold: 1000,
+  intervalThreshold: 1000,
+  maxTicks: 1_000,
+  parse: parseUpstoxFeed,
+  parseBinary: parseUpstoxBinary,
+  // Upstox v3 market data feed expects its JSON requests as binary frames
+  encodeSubscription: (action, instruments) => [
+    new TextEncoder().encode(
+      JSON.stringify({
+        guid: `${action}-${Date.now()}`,
+        method: action === "subscribe" ? "sub" : "unsub",
+        data: { mode: "full", instrumentKeys: instruments },
+      }),
+    ).buffer as ArrayBuffer,
+  ],
+}
@@ -0,0 +1,75 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { decodeUpstoxFeedResponse } from "./upstox-protobuf"
+import { parseUpstoxBinary } from "./upstox-adapter"
+
+// FeedResponse messages encoded field by field from MarketDataFeedV3.proto,
+// one hex file each under __fixtures__/upstox-protobuf
+const fixture = (name: string) => {
+  const hex = readFileSync(new URL(`./__fixtures__/upstox-protobuf/${name}.hex`, import.meta.url), "utf8")
+  return Uint8Array.from(hex.replace(/\s/g, "").match(/../g) ?? [], (byte) => Number.parseInt(byte, 16))
+}
+
+const RECEIVED_AT = 1_729_569_603_000
+
+describe("decodeUpstoxFeedResponse", () => {
+  it("decodes a live feed into the JSON form's shape", () => {
+    const response = decodeUpstoxFeedResponse(fixture("live-feed"))
+    expect(response.type).toBe("live_feed")
+    expect(response.currentTs).toBe(1_729_569_602_500)
+    expect(Object.keys(response.feeds)).toEqual(["NSE_EQ|INE002A01018", "NSE_INDEX|Nifty 50", "NSE_FO|45450"])
+
+    const market = response.feeds["NSE_EQ|INE002A01018"].fullFeed.marketFF
+    expect(market.ltpc).toEqual({ ltp: 2901.1, ltt: 1_729_569_601_000, ltq: 25, cp: 2885.45 })
+    expect(market.marketLevel.bidAskQuote).toEqual([
+      { bidQ: 120, bidP: 2901, askQ: 80, askP: 2901.2 },
+      { bidQ: 300, bidP: 2900.95, askQ: 150, askP: 2901.25 },
+    ])
+    expect(market.marketOHLC.ohlc.map((candle: { interval: string }) => candle.interval)).toEqual(["1d", "I1"])
+    expect(market).not.toHaveProperty("99")
+  })
+
+  it("names the enum's default when the type is left off the wire", () => {
+    expect(decodeUpstoxFeedResponse(fixture("initial-feed")).type).toBe("initial_feed")
+  })
+
+  it("throws on a truncated message", () => {
+    expect(() => decodeUpstoxFeedResponse(fixture("truncated"))).toThrow("Truncated Upstox protobuf message")
+  })
+})
+
+describe("parseUpstoxBinary", () => {
+  it("normalizes market, index and ltpc feeds", () => {
+    const [equity, index, option] = parseUpstoxBinary(fixture("live-feed"), RECEIVED_AT)
+
+    expect(equity).toMatchObject({
+      instrument_key: "NSE_EQ|INE002A01018",
+      exchange: "NSE_EQ",
+      last_price: 2901.1,
+      last_quantity: 25,
+      average_price: 2897.42,
+      volume: 4567890,
+      timestamp: 1_729_569_601_000,
+      previous_close: 2885.45,
+      ohlc: { open: 2890, high: 2915.5, low: 2880.25, close: 2901.1 },
+      oi: 0,
+      total_buy_quantity: 250000,
+      total_sell_quantity: 310000,
+    })
+    expect(equity.depth?.buy[0]).toEqual({ price: 2901, quantity: 120, orders: 0 })
+    expect(equity.depth?.sell[1]).toEqual({ price: 2901.25, quantity: 150, orders: 0 })
+
+    expect(index).toMatchObject({
+      instrument_key: "NSE_INDEX|Nifty 50",
+      last_price: 24150.5,
+      previous_close: 23980,
+      ohlc: { open: 24000, high: 24200, low: 23950, close: 24150.5 },
+    })
+
+    expect(option).toMatchObject({ instrument_key: "NSE_FO|45450", last_price: 152.35, last_quantity: 75 })
+  })
+
+  it("ignores the initial snapshot, like the JSON feed", () => {
+    expect(parseUpstoxBinary(fixture("initial-feed"), RECEIVED_AT)).toEqual([])
+  })
+})
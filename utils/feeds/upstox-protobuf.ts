@@ -0,0 +1,205 @@
+// Decoder for Upstox's v3 market data feed, which sends FeedResponse messages
+// (MarketDataFeedV3.proto) as protobuf binary frames. Decodes into the same
+// object shape as the JSON form of the feed, so parseUpstoxFeed's normalizer
+// handles both. Only the fields the dashboard reads are listed; others are skipped.
+// https://upstox.com/developer/api-documentation/v3/get-market-data-feed
+
+type FieldKind = "double" | "int64" | "string" | "enum" | "message" | "map"
+
+interface Field {
+  name: string
+  kind: FieldKind
+  message?: Schema // For message fields, and map values
+  repeated?: boolean
+  values?: string[] // Enum names by number
+}
+
+type Schema = Record<number, Field>
+
+const WIRE_VARINT = 0
+const WIRE_FIXED64 = 1
+const WIRE_LENGTH_DELIMITED = 2
+const WIRE_FIXED32 = 5
+
+const LTPC: Schema = {
+  1: { name: "ltp", kind: "double" },
+  2: { name: "ltt", kind: "int64" },
+  3: { name: "ltq", kind: "int64" },
+  4: { name: "cp", kind: "double" },
+}
+
+const QUOTE: Schema = {
+  1: { name: "bidQ", kind: "int64" },
+  2: { name: "bidP", kind: "double" },
+  3: { name: "askQ", kind: "int64" },
+  4: { name: "askP", kind: "double" },
+}
+
+const OPTION_GREEKS: Schema = {
+  1: { name: "delta", kind: "double" },
+  2: { name: "theta", kind: "double" },
+  3: { name: "gamma", kind: "double" },
+  4: { name: "vega", kind: "double" },
+  5: { name: "rho", kind: "double" },
+}
+
+const MARKET_OHLC: Schema = {
+  1: {
+    name: "ohlc",
+    kind: "message",
+    repeated: true,
+    message: {
+      1: { name: "interval", kind: "string" },
+      2: { name: "open", kind: "double" },
+      3: { name: "high", kind: "double" },
+      4: { name: "low", kind: "double" },
+      5: { name: "close", kind: "double" },
+      6: { name: "vol", kind: "int64" },
+      7: { name: "ts", kind: "int64" },
+    },
+  },
+}
+
+const MARKET_FULL_FEED: Schema = {
+  1: { name: "ltpc", kind: "message", message: LTPC },
+  2: {
+    name: "marketLevel",
+    kind: "message",
+    message: { 1: { name: "bidAskQuote", kind: "message", repeated: true, message: QUOTE } },
+  },
+  3: { name: "optionGreeks", kind: "message", message: OPTION_GREEKS },
+  4: { name: "marketOHLC", kind: "message", message: MARKET_OHLC },
+  5: { name: "atp", kind: "double" },
+  6: { name: "vtt", kind: "int64" },
+  7: { name: "oi", kind: "double" },
+  8: { name: "iv", kind: "double" },
+  9: { name: "tbq", kind: "double" },
+  10: { name: "tsq", kind: "double" },
+}
+
+const FEED: Schema = {
+  1: { name: "ltpc", kind: "message", message: LTPC },
+  2: {
+    name: "fullFeed",
+    kind: "message",
+    message: {
+      1: { name: "marketFF", kind: "message", message: MARKET_FULL_FEED },
+      2: {
+        name: "indexFF",
+        kind: "message",
+        message: {
+          1: { name: "ltpc", kind: "message", message: LTPC },
+          2: { name: "marketOHLC", kind: "message", message: MARKET_OHLC },
+        },
+      },
+    },
+  },
+  3: {
+    name: "firstLevelWithGreeks",
+    kind: "message",
+    message: {
+      1: { name: "ltpc", kind: "message", message: LTPC },
+      2: { name: "firstDepth", kind: "message", message: QUOTE },
+      3: { name: "optionGreeks", kind: "message", message: OPTION_GREEKS },
+      4: { name: "vtt", kind: "int64" },
+      5: { name: "oi", kind: "double" },
+      6: { name: "iv", kind: "double" },
+    },
+  },
+}
+
+const FEED_RESPONSE: Schema = {
+  1: { name: "type", kind: "enum", values: ["initial_feed", "live_feed", "market_info"] },
+  2: { name: "feeds", kind: "map", message: FEED },
+  3: { name: "currentTs", kind: "int64" },
+}
+
+// map<string, Feed> entries are messages of their own
+const mapEntry = (value: Schema): Schema => ({
+  1: { name: "key", kind: "string" },
+  2: { name: "value", kind: "message", message: value },
+})
+
+function decodeMessage(bytes: Uint8Array, schema: Schema): Record<string, any> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const result: Record<string, any> = {}
+  let offset = 0
+
+  // Unsigned varint; int64s the feed sends (times, volumes) fit in a double exactly
+  const varint = () => {
+    let value = 0
+    for (let shift = 0; ; shift += 7) {
+      if (offset >= bytes.length) throw new Error("Truncated Upstox protobuf varint")
+      const byte = bytes[offset++]
+      value += (byte & 0x7f) * 2 ** shift
+      if (byte < 0x80) return value
+    }
+  }
+
+  const take = (length: number) => {
+    if (offset + length > bytes.length) throw new Error("Truncated Upstox protobuf message")
+    const slice = bytes.subarray(offset, offset + length)
+    offset += length
+    return slice
+  }
+
+  while (offset < bytes.length) {
+    const tag = varint()
+    const wireType = tag & 0x7
+    const field = schema[Math.floor(tag / 8)]
+
+    let value: unknown
+    switch (wireType) {
+      case WIRE_VARINT:
+        value = varint()
+        break
+      case WIRE_FIXED64:
+        take(8)
+        value = view.getFloat64(offset - 8, true)
+        break
+      case WIRE_LENGTH_DELIMITED:
+        value = take(varint())
+        break
+      case WIRE_FIXED32:
+        take(4)
+        break
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`)
+    }
+    if (!field) continue
+
+    switch (field.kind) {
+      case "string":
+        result[field.name] = new TextDecoder().decode(value as Uint8Array)
+        break
+      case "enum":
+        result[field.name] = field.values?.[value as number] ?? value
+        break
+      case "message": {
+        const message = decodeMessage(value as Uint8Array, field.message ?? {})
+        if (field.repeated) (result[field.name] ??= []).push(message)
+        else result[field.name] = message
+        break
+      }
+      case "map": {
+        const entry = decodeMessage(value as Uint8Array, mapEntry(field.message ?? {}))
+        const map = (result[field.name] ??= {})
+        map[entry.key ?? ""] = entry.value ?? {}
+        break
+      }
+      default:
+        result[field.name] = value
+    }
+  }
+
+  // proto3 leaves defaults off the wire; the JSON form names the enum's zero value
+  for (const field of Object.values(schema)) {
+    if (field.kind === "enum" && !(field.name in result)) result[field.name] = field.values?.[0]
+  }
+  return result
+}
+
+// A FeedResponse in the shape of the feed's JSON form
+export function decodeUpstoxFeedResponse(bytes: Uint8Array): Record<string, any> {
+  return decodeMessage(bytes, FEED_RESPONSE)
+}
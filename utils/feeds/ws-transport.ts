@@ -0,0 +1,114 @@
+import type { FeedConnection, FeedConnectionHandlers, FeedWireFormat } from "./types"
+import { encodeBase64 } from "./binary"
+
+const CONNECTION_TIMEOUT = 15000
+
+export interface WebSocketReconnectPolicy {
+  baseDelay: number
+  maxDelay: number
+  maxAttempts: number // Consecutive failures before giving up to the pipeline
+}
+
+const DEFAULT_RECONNECT: WebSocketReconnectPolicy = { baseDelay: 1000, maxDelay: 30_000, maxAttempts: 5 }
+
+export interface WebSocketOptions {
+  instruments?: string[] // Subscribed on every (re)connect
+  encodeSubscription?: FeedWireFormat["encodeSubscription"]
+  reconnect?: Partial<WebSocketReconnectPolicy>
+}
+
+// Opens a WebSocket feed. Text frames are forwarded as eventType "message" and
+// binary frames as base64 with eventType "binary". Unlike SSE, the socket
+// reconnects on its own (exponential backoff with jitter, re-subscribing each
+// time) and reports onError(false) meanwhile; only after maxAttempts failures in
+// a row does it report onError(true) and leave retrying to the caller.
+export function connectWebSocket(url: string, options: WebSocketOptions, handlers: FeedConnectionHandlers): FeedConnection {
+  const policy = { ...DEFAULT_RECONNECT, ...options.reconnect }
+  const subscriptions = new Set(options.instruments ?? [])
+  let socket: WebSocket | null = null
+  let attempts = 0
+  let closed = false
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  let connectionTimeout: ReturnType<typeof setTimeout> | null = null
+
+  const send = (action: "subscribe" | "unsubscribe", instruments: string[]) => {
+    if (!options.encodeSubscription || instruments.length === 0) return
+    if (!socket || socket.readyState !== WebSocket.OPEN) return // Sent on the next open instead
+    for (const message of options.encodeSubscription(action, instruments)) {
+      socket.send(message)
+    }
+  }
+
+  const scheduleReconnect = () => {
+    attempts++
+    if (attempts > policy.maxAttempts) {
+      handlers.onError(true)
+      return
+    }
+
+    const delay = Math.min(policy.baseDelay * Math.pow(2, attempts - 1), policy.maxDelay)
+    const jitter = Math.random() * delay * 0.2
+    handlers.onError(false)
+    reconnectTimeout = setTimeout(open, delay + jitter)
+  }
+
+  function open() {
+    if (closed) return
+    if (typeof WebSocket === "undefined") {
+      console.error(`❌ WebSocket is not available in this runtime, cannot connect to ${url}`)
+      handlers.onError(true)
+      return
+    }
+
+    const ws = new WebSocket(url)
+    ws.binaryType = "arraybuffer"
+    socket = ws
+
+    connectionTimeout = setTimeout(() => {
+      if (ws.readyState === WebSocket.CONNECTING) ws.close()
+    }, CONNECTION_TIMEOUT)
+
+    ws.onopen = () => {
+      if (connectionTimeout) clearTimeout(connectionTimeout)
+      attempts = 0
+      handlers.onOpen()
+      send("subscribe", Array.from(subscriptions))
+    }
+
+    ws.onmessage = (event) => {
+      if (typeof event.data === "string") {
+        handlers.onMessage(event.data, "message")
+      } else {
+        handlers.onMessage(encodeBase64(event.data as ArrayBuffer), "binary")
+      }
+    }
+
+    // onclose always follows onerror, so reconnecting is handled there
+    ws.onclose = () => {
+      if (connectionTimeout) clearTimeout(connectionTimeout)
+      if (socket === ws) socket = null
+      if (!closed) scheduleReconnect()
+    }
+  }
+
+  open()
+
+  return {
+    close: () => {
+      closed = true
+      if (reconnectTimeout) clearTimeout(reconnectTimeout)
+      if (connectionTimeout) clearTimeout(connectionTimeout)
+      socket?.close()
+      socket = null
+    },
+    subscribe: (instruments) => {
+      const added = instruments.filter((instrument) => !subscriptions.has(instrument))
+      added.forEach((instrument) => subscriptions.add(instrument))
+      send("subscribe", added)
+    },
+    unsubscribe: (instruments) => {
+      const removed = instruments.filter((instrument) => subscriptions.delete(instrument))
+      send("unsubscribe", removed)
+    },
+  }
+}
@@ -0,0 +1,114 @@
+import type { TickData } from "@/utils/feeds/types"
+import { getInstrumentName } from "@/utils/instruments"
+import { getCurrentMarketStatus, getMarketTypeForInstrument, type MarketType } from "@/utils/market-timings"
+
+// How long an instrument may go without a tick while its market is open.
+// Liquid equity and F&O tick several times a second; bonds can legitimately
+// sit quiet for minutes.
+export const INSTRUMENT_FREEZE_THRESHOLDS: Record<MarketType, number> = {
+  equity: 30_000,
+  currency: 60_000,
+  commodity: 60_000,
+  gsec: 300_000,
+  bonds: 900_000,
+}
+
+export interface InstrumentFreeze {
+  id: string
+  instrumentKey: string
+  feed: string
+  instrumentName: string
+  marketType: MarketType
+  marketSession: string
+  lastTickAt: number // When the instrument last ticked
+  detectedAt: number
+  threshold: number // ms
+  resumedAt: number | null
+}
+
+export const describeFreeze = (freeze: InstrumentFreeze) =>
+  `No ${freeze.instrumentName} ticks for ${freeze.threshold / 1000} seconds during ${freeze.marketSession} session`
+
+export const describeResume = (freeze: InstrumentFreeze) => {
+  const quietFor = Math.round(((freeze.resumedAt ?? freeze.detectedAt) - freeze.lastTickAt) / 1000)
+  return `${freeze.instrumentName} ticks resumed after ${quietFor} seconds`
+}
+
+interface InstrumentState {
+  tick: TickData
+  quietSince: number // Last tick, or market open if the market was closed since
+  freeze: InstrumentFreeze | null
+}
+
+interface FreezeCallbacks {
+  onFreeze: (freeze: InstrumentFreeze) => void
+  onResume: (freeze: InstrumentFreeze) => void
+}
+
+// Per-instrument staleness: a feed can keep streaming some instruments while
+// others have gone silent. Feed it ticks with observe() and call check()
+// periodically. Instruments whose market is closed are never flagged.
+export function createFreezeDetector(
+  { onFreeze, onResume }: FreezeCallbacks,
+  thresholds: Record<MarketType, number> = INSTRUMENT_FREEZE_THRESHOLDS,
+) {
+  const states = new Map<string, InstrumentState>()
+  const frozenInstruments = new Set<string>()
+  const incidentCounts = new Map<string, number>()
+
+  const observe = (tick: TickData, now = Date.now()) => {
+    const state = states.get(tick.instrument_key)
+    states.set(tick.instrument_key, { tick, quietSince: now, freeze: null })
+    if (!state?.freeze) return
+
+    frozenInstruments.delete(tick.instrument_key)
+    onResume({ ...state.freeze, resumedAt: now })
+  }
+
+  const check = (now = Date.now()) => {
+    states.forEach((state, instrumentKey) => {
+      const instrumentName = getInstrumentName(state.tick)
+      const marketType = getMarketTypeForInstrument(instrumentName)
+      const marketStatus = getCurrentMarketStatus(marketType)
+
+      if (!marketStatus.isOpen) {
+        // Silence after the close is expected; start counting again from the open
+        state.quietSince = now
+        if (state.freeze) {
+          state.freeze = null
+          frozenInstruments.delete(instrumentKey)
+        }
+        return
+      }
+
+      const threshold = thresholds[marketType]
+      if (state.freeze || now - state.quietSince < threshold) return
+
+      state.freeze = {
+        id: crypto.randomUUID(),
+        instrumentKey,
+        feed: state.tick.feed,
+        instrumentName,
+        marketType,
+        marketSession: marketStatus.session,
+        lastTickAt: state.tick.receivedAt,
+        detectedAt: now,
+        threshold,
+        resumedAt: null,
+      }
+      frozenInstruments.add(instrumentKey)
+      incidentCounts.set(instrumentKey, (incidentCounts.get(instrumentKey) ?? 0) + 1)
+      onFreeze(state.freeze)
+    })
+  }
+
+  const reset = () => {
+    states.clear()
+    frozenInstruments.clear()
+    incidentCounts.clear()
+  }
+
+  return { frozenInstruments, incidentCounts, observe, check, reset }
+}
+
+export type FreezeDetector = ReturnType<typeof createFreezeDetector>
@@ -0,0 +1,17 @@
+import { z } from "zod"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+
+// Validates inactivity alert configurations wherever they cross a boundary:
+// the alert config API, its store file and the browser's offline copy.
+export const inactivityAlertConfigSchema: z.ZodType<InactivityAlertConfig> = z.object({
+  enabled: z.boolean(),
+  mode: z.enum(["deviation", "adaptive"]),
+  deviation: z.number().nonnegative(),
+  duration: z.number().positive(), // Seconds
+  respectMarketHours: z.boolean(),
+})
+
+// By instrument key
+export const inactivityAlertConfigsSchema = z.record(z.string().min(1), inactivityAlertConfigSchema)
+
+export type InactivityAlertConfigs = z.infer<typeof inactivityAlertConfigsSchema>
@@ -0,0 +1,100 @@
+import type { TickData } from "@/utils/feeds/types"
+import type { InactivityAlert, InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { getInstrumentName } from "@/utils/instruments"
+import { shouldAlertsBeActive, getDetailedMarketStatus } from "@/utils/market-timings"
+import { inactivityWindow, type TickRateProfile } from "@/utils/tick-rate-profile"
+
+interface DetectorState {
+  tick: TickData
+  baselinePrice: number
+  baselineSince: number
+  priceRange: { min: number; max: number }
+  alerted: boolean
+}
+
+// Timer-free version of the useInactivityAlerts rule for non-React callers
+// (the server-side ingestion worker). Feed it ticks with observe() and call
+// check() periodically; onAlert fires once per inactivity period. profileFor
+// supplies learned tick rates for instruments in adaptive mode.
+export function createInactivityDetector(
+  onAlert: (alert: InactivityAlert) => void,
+  profileFor: (instrumentKey: string) => TickRateProfile | undefined = () => undefined,
+) {
+  const configurations = new Map<string, InactivityAlertConfig>()
+  const states = new Map<string, DetectorState>()
+  const inactiveSymbols = new Set<string>()
+
+  const resetState = (tick: TickData, now: number) => {
+    states.set(tick.instrument_key, {
+      tick,
+      baselinePrice: tick.last_price,
+      baselineSince: now,
+      priceRange: { min: tick.last_price, max: tick.last_price },
+      alerted: false,
+    })
+    inactiveSymbols.delete(tick.instrument_key)
+  }
+
+  const setConfiguration = (instrumentKey: string, config: InactivityAlertConfig) => {
+    configurations.set(instrumentKey, config)
+    // When config changes, start fresh for that symbol
+    states.delete(instrumentKey)
+    inactiveSymbols.delete(instrumentKey)
+  }
+
+  const observe = (tick: TickData, now = Date.now()) => {
+    const config = configurations.get(tick.instrument_key)
+    if (!config?.enabled) return
+
+    const state = states.get(tick.instrument_key)
+    // Adaptive mode measures silence, so any tick starts a new period
+    if (!state || config.mode === "adaptive" || Math.abs(tick.last_price - state.baselinePrice) > config.deviation) {
+      resetState(tick, now)
+      return
+    }
+
+    state.tick = tick
+    state.priceRange.min = Math.min(state.priceRange.min, tick.last_price)
+    state.priceRange.max = Math.max(state.priceRange.max, tick.last_price)
+  }
+
+  const check = (now = Date.now()) => {
+    states.forEach((state, instrumentKey) => {
+      const config = configurations.get(instrumentKey)
+      if (!config?.enabled || state.alerted) return
+
+      const instrumentName = getInstrumentName(state.tick)
+      if (config.respectMarketHours && !shouldAlertsBeActive(instrumentName)) {
+        // Market closed: keep moving the baseline so the period restarts at open
+        state.baselineSince = now
+        return
+      }
+
+      const waitMs = inactivityWindow(config, profileFor(instrumentKey), now)
+      if (now - state.baselineSince < waitMs) return
+
+      const marketStatus = getDetailedMarketStatus(instrumentName)
+      state.alerted = true
+      inactiveSymbols.add(instrumentKey)
+      onAlert({
+        id: crypto.randomUUID(),
+        instrumentKey,
+        feed: state.tick.feed,
+        instrumentName,
+        timestamp: now,
+        mode: config.mode,
+        duration: Math.round(waitMs / 1000),
+        deviation: config.deviation,
+        baselinePrice: state.baselinePrice,
+        currentPrice: state.tick.last_price,
+        priceRange: { ...state.priceRange },
+        marketSession: marketStatus.session,
+        marketType: marketStatus.marketType,
+      })
+    })
+  }
+
+  return { configurations, inactiveSymbols, setConfiguration, observe, check }
+}
+
+export type InactivityDetector = ReturnType<typeof createInactivityDetector>
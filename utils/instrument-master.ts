@@ -0,0 +1,243 @@
+// Instrument master: one place that resolves a feed's instrument key to its
+// tradingsymbol, exchange, segment, lot size, tick size and expiry. Records
+// come from broker instrument dumps (see lib/server/instrument-store.ts) plus a
+// few built-ins so the dashboard still has names without them.
+
+export type InstrumentBroker = "kite" | "upstox"
+
+export interface InstrumentRecord {
+  broker: InstrumentBroker
+  key: string // What the feed's ticks carry as instrument_key: Kite token or Upstox instrument_key
+  token?: number // Kite instrument_token
+  exchangeToken?: string
+  tradingsymbol: string
+  name?: string // Underlying or company name
+  exchange: string // NSE, BSE, NFO, BFO, CDS, MCX, ...
+  segment: string // Kite: NSE, NFO-OPT, INDICES, ...; Upstox: NSE_EQ, NSE_FO, NSE_INDEX, ...
+  instrumentType: string // EQ, FUT, CE, PE, INDEX
+  lotSize: number
+  tickSize: number
+  expiry?: string // YYYY-MM-DD
+  strike?: number
+  isin?: string // Upstox only; equity keys are "<segment>|<ISIN>"
+}
+
+// Used until (or unless) dumps are loaded: [broker, key, tradingsymbol, exchange, segment, type, tick size]
+const BUILTIN_INSTRUMENTS: InstrumentRecord[] = (
+  [
+    ["kite", "256265", "NIFTY 50", "NSE", "INDICES", "INDEX", 0.05],
+    ["kite", "265", "SENSEX", "BSE", "INDICES", "INDEX", 0.05],
+    ["kite", "128083204", "RELIANCE", "BSE", "BSE", "EQ", 0.05],
+    ["kite", "281836549", "BHEL", "NSE", "NSE", "EQ", 0.05],
+    ["kite", "408065", "USDINR", "CDS", "CDS-FUT", "FUT", 0.0025],
+    ["kite", "134657", "CRUDEOIL", "MCX", "MCX-FUT", "FUT", 1],
+    ["upstox", "NSE_INDEX|Nifty 50", "NIFTY 50", "NSE", "NSE_INDEX", "INDEX", 0.05],
+    ["upstox", "BSE_INDEX|SENSEX", "SENSEX", "BSE", "BSE_INDEX", "INDEX", 0.05],
+    ["upstox", "NSE_EQ|INE002A01018", "RELIANCE", "NSE", "NSE_EQ", "EQ", 0.05],
+  ] as const
+).map(([broker, key, tradingsymbol, exchange, segment, instrumentType, tickSize]) => ({
+  broker,
+  key,
+  token: broker === "kite" ? Number(key) : undefined,
+  tradingsymbol,
+  exchange,
+  segment,
+  instrumentType,
+  lotSize: 1,
+  tickSize,
+}))
+
+// --- Dump parsing ---
+
+export const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/
+
+// Minimal RFC 4180 line splitter: quoted fields may contain commas and "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      fields.push(field)
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields
+}
+
+function parseCsvRows(text: string): Record<string, string>[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim())
+  if (lines.length === 0) return []
+  const header = splitCsvLine(lines[0]).map((column) => column.trim().toLowerCase())
+  return lines.slice(1).map((line) => {
+    const values = splitCsvLine(line)
+    return Object.fromEntries(header.map((column, i) => [column, values[i]?.trim() ?? ""]))
+  })
+}
+
+const optionalNumber = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// Dumps use "2025-01-30", epoch milliseconds (Upstox JSON) or nothing
+function normalizeExpiry(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const millis = typeof value === "number" ? value : /^\d+$/.test(String(value)) ? Number(value) : null
+  if (millis !== null) return new Date(millis).toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" })
+  return String(value).slice(0, 10)
+}
+
+// Kite: https://api.kite.trade/instruments (CSV)
+function toKiteRecord(row: Record<string, any>): InstrumentRecord | null {
+  const token = optionalNumber(row.instrument_token)
+  if (!token || !row.tradingsymbol) return null
+  return {
+    broker: "kite",
+    key: String(token),
+    token,
+    exchangeToken: row.exchange_token ? String(row.exchange_token) : undefined,
+    tradingsymbol: String(row.tradingsymbol),
+    name: row.name || undefined,
+    exchange: String(row.exchange ?? ""),
+    segment: String(row.segment ?? row.exchange ?? ""),
+    instrumentType: String(row.instrument_type ?? ""),
+    lotSize: optionalNumber(row.lot_size) ?? 1,
+    tickSize: optionalNumber(row.tick_size) ?? 0.05,
+    expiry: normalizeExpiry(row.expiry),
+    strike: optionalNumber(row.strike) || undefined,
+  }
+}
+
+// Upstox: the complete.json / complete.csv BOD dumps. The JSON quotes tick_size
+// in paise, the CSV in rupees.
+function toUpstoxRecord(row: Record<string, any>, tickSizeInPaise: boolean): InstrumentRecord | null {
+  const key = row.instrument_key
+  const tradingsymbol = row.trading_symbol ?? row.tradingsymbol
+  if (!key || !tradingsymbol) return null
+  const tickSize = optionalNumber(row.tick_size)
+  const exchange = String(row.exchange ?? key.split("_")[0])
+  const keyId = String(key).split("|")[1] ?? ""
+  return {
+    broker: "upstox",
+    key: String(key),
+    exchangeToken: row.exchange_token ? String(row.exchange_token) : undefined,
+    tradingsymbol: String(tradingsymbol),
+    name: row.name || undefined,
+    // The CSV's exchange column holds the segment ("NSE_EQ")
+    exchange: exchange.split("_")[0],
+    segment: String(row.segment ?? key.split("|")[0]),
+    instrumentType: String(row.instrument_type ?? row.option_type ?? ""),
+    lotSize: optionalNumber(row.lot_size) ?? 1,
+    tickSize: tickSize === undefined ? 0.05 : tickSizeInPaise ? tickSize / 100 : tickSize,
+    expiry: normalizeExpiry(row.expiry),
+    strike: optionalNumber(row.strike_price ?? row.strike) || undefined,
+    isin: row.isin || (ISIN_PATTERN.test(keyId) ? keyId : undefined),
+  }
+}
+
+// Parses a Kite or Upstox dump, CSV or JSON; the broker is recognised from the columns
+export function parseInstrumentDump(text: string): InstrumentRecord[] {
+  const isJson = text.trimStart().startsWith("[")
+  const rows: Record<string, any>[] = isJson ? JSON.parse(text) : parseCsvRows(text)
+  if (rows.length === 0) return []
+
+  const isUpstox = "instrument_key" in rows[0]
+  if (!isUpstox && !("instrument_token" in rows[0])) {
+    throw new Error("Unrecognised instrument dump: expected instrument_token (Kite) or instrument_key (Upstox) columns")
+  }
+
+  const records: InstrumentRecord[] = []
+  for (const row of rows) {
+    const record = isUpstox ? toUpstoxRecord(row, isJson) : toKiteRecord(row)
+    if (record) records.push(record)
+  }
+  return records
+}
+
+// --- Lookup ---
+
+export function createInstrumentMaster(initial: InstrumentRecord[] = []) {
+  const byKey = new Map<string, InstrumentRecord>()
+  const bySymbol = new Map<string, InstrumentRecord[]>()
+  const listeners = new Set<() => void>()
+
+  const symbolKey = (broker: string, tradingsymbol: string) => `${broker}:${tradingsymbol.toUpperCase()}`
+
+  // Kite tokens are numeric and Upstox keys contain "|", so one key space serves both
+  const add = (records: InstrumentRecord[]) => {
+    for (const record of records) {
+      const previous = byKey.get(record.key)
+      if (previous) {
+        const symbol = symbolKey(previous.broker, previous.tradingsymbol)
+        bySymbol.set(symbol, (bySymbol.get(symbol) ?? []).filter((candidate) => candidate !== previous))
+      }
+      byKey.set(record.key, record)
+      const symbol = symbolKey(record.broker, record.tradingsymbol)
+      bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), record])
+    }
+    if (records.length > 0) listeners.forEach((listener) => listener())
+  }
+
+  add(initial)
+
+  const filter = (predicate: (record: InstrumentRecord) => boolean, limit = Infinity) => {
+    const matches: InstrumentRecord[] = []
+    for (const record of byKey.values()) {
+      if (matches.length >= limit) break
+      if (predicate(record)) matches.push(record)
+    }
+    return matches
+  }
+
+  return {
+    add,
+    get: (key: string) => byKey.get(key),
+    has: (key: string) => byKey.has(key),
+    // Same symbol on several exchanges (RELIANCE on NSE and BSE) returns several records
+    findBySymbol: (broker: InstrumentBroker, tradingsymbol: string, exchange?: string) =>
+      (bySymbol.get(symbolKey(broker, tradingsymbol)) ?? []).filter(
+        (record) => !exchange || record.exchange === exchange,
+      ),
+    filter,
+    search: (query: string, limit = 20) => {
+      const needle = query.trim().toUpperCase()
+      if (!needle) return []
+      const matches = (value?: string) => !!value?.toUpperCase().includes(needle)
+      return filter((record) => matches(record.tradingsymbol) || matches(record.name), limit)
+    },
+    size: () => byKey.size,
+    // Notified after records are added, so views can re-resolve names
+    subscribe: (listener: () => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  }
+}
+
+export type InstrumentMaster = ReturnType<typeof createInstrumentMaster>
+
+// One master per process (server) or page (browser)
+const globalForMaster = globalThis as typeof globalThis & { __instrumentMaster?: InstrumentMaster }
+
+export function getInstrumentMaster(): InstrumentMaster {
+  return (globalForMaster.__instrumentMaster ??= createInstrumentMaster(BUILTIN_INSTRUMENTS))
+}
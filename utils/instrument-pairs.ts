@@ -0,0 +1,110 @@
+import { z } from "zod"
+import type { TickData } from "@/utils/feeds/types"
+import { ISIN_PATTERN, type InstrumentMaster, type InstrumentRecord } from "@/utils/instrument-master"
+
+// One instrument as seen by both brokers, compared tick for tick on the Compare tab
+export interface InstrumentPair {
+  label: string
+  kiteKey: string // Kite instrument token
+  upstoxKey: string // Upstox instrument_key
+}
+
+// Stable identity for a pair, for React keys and per-pair state
+export const pairId = (pair: InstrumentPair) => `${pair.kiteKey}:${pair.upstoxKey}`
+
+// Latest tick per instrument key, for the keys asked for
+export function latestTicks(ticks: TickData[], keys: Set<string>) {
+  const latest = new Map<string, TickData>()
+  for (const tick of ticks) {
+    if (!keys.has(tick.instrument_key)) continue
+    const current = latest.get(tick.instrument_key)
+    if (!current || tick.timestamp > current.timestamp) latest.set(tick.instrument_key, tick)
+  }
+  return latest
+}
+
+export const instrumentPairsSchema = z
+  .array(
+    z.object({
+      label: z.string().min(1),
+      kiteKey: z.string().regex(/^\d+$/, "Kite key must be a numeric instrument token"),
+      upstoxKey: z.string().regex(/^[A-Z_]+\|.+$/, "Upstox key must look like NSE_EQ|INE002A01018"),
+    }),
+  )
+  .refine(
+    (pairs) => new Set(pairs.map(pairId)).size === pairs.length,
+    "pairs must be unique",
+  )
+
+// Pairs for the built-in instruments; everything else is added from the mapping editor
+export const DEFAULT_INSTRUMENT_PAIRS: InstrumentPair[] = [
+  { label: "NIFTY 50", kiteKey: "256265", upstoxKey: "NSE_INDEX|Nifty 50" },
+  { label: "SENSEX", kiteKey: "265", upstoxKey: "BSE_INDEX|SENSEX" },
+  { label: "RELIANCE (BSE)", kiteKey: "128083204", upstoxKey: "BSE_EQ|INE002A01018" },
+  { label: "BHEL", kiteKey: "281836549", upstoxKey: "NSE_EQ|INE257A01026" },
+]
+
+// Kite exchange (plus segment, for indices) to the Upstox segment prefix
+const UPSTOX_SEGMENTS: Record<string, string> = {
+  NSE: "NSE_EQ",
+  BSE: "BSE_EQ",
+  NFO: "NSE_FO",
+  BFO: "BSE_FO",
+  CDS: "NCD_FO",
+  BCD: "BCD_FO",
+  MCX: "MCX_FO",
+}
+
+const upstoxSegmentFor = (kite: InstrumentRecord) =>
+  kite.segment === "INDICES" ? `${kite.exchange}_INDEX` : UPSTOX_SEGMENTS[kite.exchange]
+
+const normalize = (value?: string) => value?.toUpperCase().replace(/[^A-Z0-9]/g, "") ?? ""
+
+// Derivatives match on underlying, type, expiry and strike (the brokers spell
+// their symbols differently); everything else on symbol or name
+function isSameInstrument(kite: InstrumentRecord, upstox: InstrumentRecord) {
+  if (upstox.broker !== "upstox" || upstox.segment !== upstoxSegmentFor(kite)) return false
+  if (kite.expiry || upstox.expiry) {
+    return (
+      kite.expiry === upstox.expiry &&
+      kite.instrumentType === upstox.instrumentType &&
+      (kite.strike ?? 0) === (upstox.strike ?? 0) &&
+      normalize(kite.name) === normalize(upstox.name)
+    )
+  }
+  const kiteSymbol = normalize(kite.tradingsymbol)
+  return kiteSymbol === normalize(upstox.tradingsymbol) || kiteSymbol === normalize(upstox.name)
+}
+
+const toPair = (kite: InstrumentRecord, upstox: InstrumentRecord): InstrumentPair => ({
+  label: kite.tradingsymbol,
+  kiteKey: kite.key,
+  upstoxKey: upstox.key,
+})
+
+// Candidate pairs for a tradingsymbol, name or ISIN, from whatever dumps the master has loaded
+export function suggestInstrumentPairs(master: InstrumentMaster, query: string, limit = 20): InstrumentPair[] {
+  const needle = query.trim().toUpperCase()
+  if (!needle) return []
+
+  if (ISIN_PATTERN.test(needle)) {
+    const upstoxRecords = master.filter((record) => record.broker === "upstox" && record.isin === needle)
+    const kiteRecords = master.filter((record) => record.broker === "kite" && !record.expiry)
+    return upstoxRecords
+      .flatMap((upstox) =>
+        kiteRecords.filter((kite) => isSameInstrument(kite, upstox)).map((kite) => toPair(kite, upstox)),
+      )
+      .slice(0, limit)
+  }
+
+  const pairs: InstrumentPair[] = []
+  const kiteCandidates = master.filter(
+    (record) => record.broker === "kite" && normalize(record.tradingsymbol).includes(normalize(needle)),
+    limit,
+  )
+  for (const kite of kiteCandidates) {
+    const upstox = master.filter((record) => isSameInstrument(kite, record), 1)[0]
+    if (upstox) pairs.push(toPair(kite, upstox))
+  }
+  return pairs
+}
@@ -0,0 +1,33 @@
+import type { TickData } from "@/utils/feeds/types"
+import { getMarketTypeForInstrument } from "@/utils/market-timings"
+import { getInstrumentMaster } from "@/utils/instrument-master"
+
+export const getInstrumentRecord = (tick: TickData) => getInstrumentMaster().get(tick.instrument_key)
+
+export const getInstrumentName = (tick: TickData) => {
+  const record = getInstrumentRecord(tick)
+  if (record) return record.tradingsymbol
+  if (tick.tradingsymbol) return tick.tradingsymbol
+  if (tick.instrument_token === undefined) return tick.instrument_key
+  return `TOKEN_${tick.instrument_token}`
+}
+
+export const getExchange = (tick: TickData) => {
+  const record = getInstrumentRecord(tick)
+  if (record) return record.exchange
+  if (tick.exchange) return tick.exchange
+
+  // Unknown instrument: guess from the name
+  const name = getInstrumentName(tick)
+  const marketType = getMarketTypeForInstrument(name)
+  switch (marketType) {
+    case "currency":
+      return "CDS"
+    case "commodity":
+      return "MCX"
+    default:
+      if (name.includes("NIFTY")) return "NFO"
+      if (name.includes("SENSEX")) return "BFO"
+      return "NSE"
+  }
+}
@@ -0,0 +1,135 @@
+import type { TickData } from "@/utils/feeds/types"
+
+// Lead/lag between the Kite and Upstox feeds of a mapped pair. Each feed's
+// price changes are matched to the same change on the other feed (same new
+// price, closest exchange timestamp, received within the match window); the
+// difference in receive times is how long one feed lagged the other.
+
+export type LeadLagSide = "kite" | "upstox"
+
+interface PriceChange {
+  price: number
+  exchangeTime: number
+  receivedAt: number
+}
+
+export interface LagSample {
+  time: number // When the later of the two feeds received the change
+  lag: number // Upstox receive time minus Kite receive time: positive when Kite led
+}
+
+export interface LagStats {
+  count: number
+  p50: number
+  p95: number
+  p99: number
+  mean: number
+  kiteLeadShare: number // Fraction of matched changes Kite delivered first
+}
+
+export interface HistogramBin {
+  from: number // Inclusive lower edge, in ms
+  to: number
+  count: number
+}
+
+interface PairTrack {
+  lastPrice: Record<LeadLagSide, number | null>
+  pending: Record<LeadLagSide, PriceChange[]> // Changes still waiting for the other feed
+  samples: LagSample[]
+}
+
+const MATCH_WINDOW = 5_000 // Changes further apart than this are different moves
+const MAX_SAMPLES = 500 // Per pair
+
+// Nearest-rank percentile of an ascending array
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))]
+}
+
+export function summarizeLags(samples: LagSample[]): LagStats | null {
+  if (samples.length === 0) return null
+  const lags = samples.map((sample) => sample.lag).sort((a, b) => a - b)
+  return {
+    count: lags.length,
+    p50: percentile(lags, 50),
+    p95: percentile(lags, 95),
+    p99: percentile(lags, 99),
+    mean: lags.reduce((sum, lag) => sum + lag, 0) / lags.length,
+    kiteLeadShare: lags.filter((lag) => lag > 0).length / lags.length,
+  }
+}
+
+// Fixed-width bins covering every sample, aligned to multiples of the width
+export function lagHistogram(samples: LagSample[], binWidth = 50): HistogramBin[] {
+  if (samples.length === 0) return []
+  const lags = samples.map((sample) => sample.lag)
+  const first = Math.floor(Math.min(...lags) / binWidth)
+  const last = Math.floor(Math.max(...lags) / binWidth)
+  const bins: HistogramBin[] = []
+  for (let i = first; i <= last; i++) bins.push({ from: i * binWidth, to: (i + 1) * binWidth, count: 0 })
+  for (const lag of lags) bins[Math.floor(lag / binWidth) - first].count++
+  return bins
+}
+
+export function createLeadLagTracker(matchWindow = MATCH_WINDOW, maxSamples = MAX_SAMPLES) {
+  const tracks = new Map<string, PairTrack>()
+
+  const trackFor = (pairId: string) => {
+    let track = tracks.get(pairId)
+    if (!track) {
+      track = { lastPrice: { kite: null, upstox: null }, pending: { kite: [], upstox: [] }, samples: [] }
+      tracks.set(pairId, track)
+    }
+    return track
+  }
+
+  // Feed ticks in receive order, across both feeds. Returns true when a new sample was recorded.
+  const observe = (pairId: string, side: LeadLagSide, tick: TickData) => {
+    const track = trackFor(pairId)
+    if (track.lastPrice[side] === tick.last_price) return false
+    const isFirstPrice = track.lastPrice[side] === null
+    track.lastPrice[side] = tick.last_price
+    // The first price seen is where the feed happened to start, not a move
+    if (isFirstPrice) return false
+
+    const change: PriceChange = { price: tick.last_price, exchangeTime: tick.timestamp, receivedAt: tick.receivedAt }
+    const otherSide: LeadLagSide = side === "kite" ? "upstox" : "kite"
+    const cutoff = change.receivedAt - matchWindow
+    track.pending.kite = track.pending.kite.filter((pending) => pending.receivedAt >= cutoff)
+    track.pending.upstox = track.pending.upstox.filter((pending) => pending.receivedAt >= cutoff)
+
+    let matchIndex = -1
+    track.pending[otherSide].forEach((candidate, i) => {
+      if (candidate.price !== change.price) return
+      const best = track.pending[otherSide][matchIndex]
+      const distance = Math.abs(candidate.exchangeTime - change.exchangeTime)
+      if (!best || distance < Math.abs(best.exchangeTime - change.exchangeTime)) matchIndex = i
+    })
+
+    if (matchIndex === -1) {
+      track.pending[side].push(change)
+      return false
+    }
+
+    const match = track.pending[otherSide][matchIndex]
+    // Anything the other feed sent before the match has been overtaken
+    track.pending[otherSide] = track.pending[otherSide].slice(matchIndex + 1)
+    const lag = side === "upstox" ? change.receivedAt - match.receivedAt : match.receivedAt - change.receivedAt
+    track.samples.push({ time: change.receivedAt, lag })
+    if (track.samples.length > maxSamples) track.samples.splice(0, track.samples.length - maxSamples)
+    return true
+  }
+
+  return {
+    observe,
+    samples: (pairId: string) => tracks.get(pairId)?.samples ?? [],
+    stats: (pairId: string) => summarizeLags(tracks.get(pairId)?.samples ?? []),
+    forget: (pairId: string) => tracks.delete(pairId),
+    reset: () => tracks.clear(),
+  }
+}
+
+export type LeadLagTracker = ReturnType<typeof createLeadLagTracker>
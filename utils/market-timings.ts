@@ -280,3 +280,19 @@ export function getTimeUntilMarketClose(marketType: MarketType): number | null {
 
   return Math.max(0, closeMinutes - currentMinutes)
 }
+
+// Minutes since the market type's normal session opened today (IST), or null while the
+// market is closed. Negative during the equity pre-market.
+export function getMinutesSinceOpen(marketType: MarketType): number | null {
+  const status = getCurrentMarketStatus(marketType)
+  if (!status.isOpen) return null
+
+  const istTime = new Date(new Date().toLocaleString("en-US", { timeZone: "Asia/Kolkata" }))
+  const currentMinutes = istTime.getHours() * 60 + istTime.getMinutes()
+  return currentMinutes - timeToMinutes(MARKET_TIMINGS[marketType].normal.start)
+}
+
+// Day of the week in IST, 0 = Sunday
+export function getISTWeekday(): number {
+  return new Date(new Date().toLocaleString("en-US", { timeZone: "Asia/Kolkata" })).getDay()
+}
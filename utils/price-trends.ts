@@ -7,12 +7,12 @@ interface PriceTrend {
 }
 
 export function calculatePriceTrend(tick: TickData, previousTicks: TickData[]): PriceTrend {
-  const instrumentToken = tick.instrument_token
+  const instrumentKey = tick.instrument_key
   const currentPrice = tick.last_price
 
   // Get previous prices for this instrument, sorted by timestamp (oldest first)
   const instrumentTicks = previousTicks
-    .filter((t) => t.instrument_token === instrumentToken && t.timestamp < tick.timestamp)
+    .filter((t) => t.instrument_key === instrumentKey && t.timestamp < tick.timestamp)
     .sort((a, b) => b.timestamp - a.timestamp) // Most recent first
     .slice(0, 10) // Last 10 ticks before current
 
@@ -48,12 +48,12 @@ export function calculatePriceTrend(tick: TickData, previousTicks: TickData[]):
 
 // Alternative: Calculate trend from first tick of the day
 export function calculateDayTrend(tick: TickData, allTicks: TickData[]): PriceTrend {
-  const instrumentToken = tick.instrument_token
+  const instrumentKey = tick.instrument_key
   const currentPrice = tick.last_price
 
   // Get all ticks for this instrument, sorted by timestamp
   const instrumentTicks = allTicks
-    .filter((t) => t.instrument_token === instrumentToken)
+    .filter((t) => t.instrument_key === instrumentKey)
     .sort((a, b) => a.timestamp - b.timestamp)
 
   if (instrumentTicks.length < 2) {
@@ -84,6 +84,18 @@ export function calculateDayTrend(tick: TickData, allTicks: TickData[]): PriceTr
   }
 }
 
+// Change against the previous session's close, for feeds that send one
+export function calculateChangeFromClose(tick: TickData): PriceTrend | null {
+  if (!tick.previous_close || tick.previous_close <= 0) return null
+
+  const change = tick.last_price - tick.previous_close
+  return {
+    change: Number(change.toFixed(2)),
+    changePercent: Number(((change / tick.previous_close) * 100).toFixed(4)),
+    direction: change > 0 ? "up" : change < 0 ? "down" : "neutral",
+  }
+}
+
 export function getInstrumentBasePrice(instrumentToken: number): number {
   // This should only be used as fallback if no real price is available
   return 0 // Return 0 to indicate no real data available
@@ -0,0 +1,9 @@
+import type { DepthLevel, TickData } from "@/utils/feeds/types"
+
+// Top of book from the tick's market depth; levels with no quantity count as empty
+export function getBestBidAsk(tick: TickData): { bid: DepthLevel | null; ask: DepthLevel | null } {
+  const bid = tick.depth?.buy.find((level) => level.quantity > 0) ?? null
+  const ask = tick.depth?.sell.find((level) => level.quantity > 0) ?? null
+  return { bid, ask }
+}
+
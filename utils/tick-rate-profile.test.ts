@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import type { TickData } from "@/utils/feeds/types"
+import {
+  formatBucket,
+  inactivityWindow,
+  learnTickRateProfile,
+  sessionBucket,
+  silenceThreshold,
+} from "./tick-rate-profile"
+
+const OPEN = Date.parse("2024-10-22T03:45:00Z") // 09:15 IST
+const NEXT_DAY_OPEN = OPEN + 24 * 60 * 60 * 1000
+const OPENING_BUCKET = 37 // 09:15-09:30 IST
+
+// Ticks starting at `start`, each `gaps[i]` ms after the one before
+const ticksWithGaps = (start: number, gaps: number[]) => {
+  let receivedAt = start
+  const times = [start, ...gaps.map((gap) => (receivedAt += gap))]
+  return times.map((time) => ({ instrument_key: "256265", receivedAt: time }) as TickData)
+}
+
+const busyOpening = (start: number) =>
+  ticksWithGaps(start, [...Array(1_797).fill(400), 20_000, 20_000, 20_000])
+
+const config: InactivityAlertConfig = {
+  enabled: true,
+  mode: "adaptive",
+  deviation: 0,
+  duration: 30,
+  respectMarketHours: true,
+}
+
+describe("sessionBucket", () => {
+  it("buckets by 15-minute IST slots", () => {
+    expect(sessionBucket(OPEN)).toBe(OPENING_BUCKET)
+    expect(sessionBucket(OPEN + 15 * 60 * 1000 - 1)).toBe(OPENING_BUCKET)
+    expect(formatBucket(OPENING_BUCKET)).toBe("09:15-09:30")
+  })
+})
+
+describe("learnTickRateProfile", () => {
+  it("takes each bucket's tail from its own gaps", () => {
+    const profile = learnTickRateProfile("kite", "256265", busyOpening(OPEN))
+    expect(profile.buckets[OPENING_BUCKET]).toEqual({ count: 1_800, p50: 400, p99: 400, p999: 20_000 })
+    expect(profile.days).toBe(1)
+    expect(silenceThreshold(profile, OPEN + 60_000)).toBe(20_000)
+  })
+
+  it("needs a thousand gaps before a bucket has a p99.9 of its own", () => {
+    const quiet = ticksWithGaps(OPEN + 15 * 60 * 1000, Array(999).fill(100))
+    const profile = learnTickRateProfile("kite", "256265", [...busyOpening(OPEN), ...quiet])
+    expect(profile.buckets[OPENING_BUCKET + 1]).toBeUndefined()
+    // So the next bucket falls back to the whole day's gaps
+    expect(silenceThreshold(profile, OPEN + 20 * 60 * 1000)).toBe(profile.overall?.p999)
+  })
+
+  it("has no profile at all with too little history", () => {
+    const profile = learnTickRateProfile("kite", "256265", ticksWithGaps(OPEN, Array(500).fill(1_000)))
+    expect(profile.overall).toBeNull()
+    expect(silenceThreshold(profile, OPEN)).toBeNull()
+    expect(inactivityWindow(config, profile, OPEN)).toBe(30_000)
+  })
+
+  it("doesn't count the overnight close as a silence", () => {
+    const profile = learnTickRateProfile("kite", "256265", [...busyOpening(OPEN), ...busyOpening(NEXT_DAY_OPEN)])
+    expect(profile.days).toBe(2)
+    expect(profile.buckets[OPENING_BUCKET].count).toBe(3_600)
+    expect(profile.overall?.count).toBe(3_600)
+  })
+
+  it("never sets the threshold below five seconds", () => {
+    const profile = learnTickRateProfile("kite", "256265", ticksWithGaps(OPEN, Array(1_500).fill(200)))
+    expect(silenceThreshold(profile, OPEN)).toBe(5_000)
+  })
+})
+
+describe("inactivityWindow", () => {
+  const profile = learnTickRateProfile("kite", "256265", busyOpening(OPEN))
+
+  it("uses the learned threshold in adaptive mode", () => {
+    expect(inactivityWindow(config, profile, OPEN)).toBe(20_000)
+  })
+
+  it("uses the configured duration in deviation mode", () => {
+    expect(inactivityWindow({ ...config, mode: "deviation" }, profile, OPEN)).toBe(30_000)
+  })
+})
@@ -0,0 +1,110 @@
+import type { TickData } from "@/utils/feeds/types"
+import type { InactivityAlertConfig } from "@/hooks/use-inactivity-alerts"
+import { percentile } from "@/utils/lead-lag"
+
+// An instrument's normal silences, learned from its tick history. Tick rates
+// follow the session (busy open and close, quiet lunch), so gaps between
+// consecutive ticks are bucketed by the IST time of day they started in. A
+// silence is abnormal once it outlasts nearly every gap seen in its bucket.
+
+export const SESSION_BUCKET_MINUTES = 15
+export const SILENCE_PERCENTILE = 99.9
+export const LEARNING_DAYS = 5 // Trading days of history to learn from
+// p99.9 of fewer gaps than this is just the longest one seen, not a tail estimate
+const MIN_BUCKET_GAPS = 1_000
+// The busiest instruments tick every few hundred ms; their tail is still too short to alert on
+const MIN_SILENCE_THRESHOLD = 5_000
+
+export interface GapStats {
+  count: number
+  p50: number // ms
+  p99: number
+  p999: number
+}
+
+export interface TickRateProfile {
+  feed: string
+  instrumentKey: string
+  learnedAt: number
+  days: number // Trading days the history covered
+  buckets: Record<number, GapStats> // By bucket index, see sessionBucket
+  overall: GapStats | null
+}
+
+const istMinuteOfDay = (timestamp: number) => {
+  const ist = new Date(timestamp + 5.5 * 60 * 60 * 1000)
+  return ist.getUTCHours() * 60 + ist.getUTCMinutes()
+}
+
+const istDay = (timestamp: number) => new Date(timestamp + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+// Index of the 15-minute IST bucket a time falls in (0 = 00:00-00:15)
+export const sessionBucket = (timestamp: number) => Math.floor(istMinuteOfDay(timestamp) / SESSION_BUCKET_MINUTES)
+
+export const formatBucket = (bucket: number) => {
+  const format = (minutes: number) =>
+    `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`
+  return `${format(bucket * SESSION_BUCKET_MINUTES)}-${format((bucket + 1) * SESSION_BUCKET_MINUTES)}`
+}
+
+const gapStats = (gaps: number[]): GapStats => {
+  const sorted = [...gaps].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p99: percentile(sorted, 99),
+    p999: percentile(sorted, SILENCE_PERCENTILE),
+  }
+}
+
+// Ticks oldest first, as the tick store returns them. Gaps spanning two trading
+// days are the overnight close, not silences.
+export function learnTickRateProfile(
+  feed: string,
+  instrumentKey: string,
+  ticks: Pick<TickData, "receivedAt">[],
+): TickRateProfile {
+  const gapsByBucket = new Map<number, number[]>()
+  const allGaps: number[] = []
+  const days = new Set(ticks.slice(0, 1).map((tick) => istDay(tick.receivedAt)))
+
+  for (let i = 1; i < ticks.length; i++) {
+    const previous = ticks[i - 1].receivedAt
+    const current = ticks[i].receivedAt
+    days.add(istDay(current))
+    if (current <= previous || istDay(previous) !== istDay(current)) continue
+
+    const bucket = sessionBucket(previous)
+    const gaps = gapsByBucket.get(bucket) ?? []
+    gaps.push(current - previous)
+    gapsByBucket.set(bucket, gaps)
+    allGaps.push(current - previous)
+  }
+
+  const buckets: Record<number, GapStats> = {}
+  gapsByBucket.forEach((gaps, bucket) => {
+    if (gaps.length >= MIN_BUCKET_GAPS) buckets[bucket] = gapStats(gaps)
+  })
+
+  return {
+    feed,
+    instrumentKey,
+    learnedAt: Date.now(),
+    days: days.size,
+    buckets,
+    overall: allGaps.length >= MIN_BUCKET_GAPS ? gapStats(allGaps) : null,
+  }
+}
+
+// The longest normal silence at this time of day, falling back to the whole
+// day's distribution for buckets with too little history. Null when the
+// instrument has no usable history at all.
+export function silenceThreshold(profile: TickRateProfile | undefined, now = Date.now()) {
+  const stats = profile && (profile.buckets[sessionBucket(now)] ?? profile.overall)
+  return stats ? Math.max(stats.p999, MIN_SILENCE_THRESHOLD) : null
+}
+
+// How long an inactivity timer waits: the learned silence threshold in adaptive
+// mode, once there is history, otherwise the configured duration
+export const inactivityWindow = (config: InactivityAlertConfig, profile?: TickRateProfile, now = Date.now()) =>
+  (config.mode === "adaptive" ? silenceThreshold(profile, now) : null) ?? config.duration * 1000
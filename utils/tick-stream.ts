@@ -0,0 +1,8 @@
+import type { TickData } from "@/utils/feeds/types"
+
+// Ticks newer than the newest one seen last time. Tick arrays are newest first;
+// if the marker has rotated out of the buffer, everything is new.
+export function takeNewTicks(ticks: TickData[], newestSeenId: string | null) {
+  const end = newestSeenId ? ticks.findIndex((tick) => tick.id === newestSeenId) : -1
+  return end === -1 ? ticks : ticks.slice(0, end)
+}
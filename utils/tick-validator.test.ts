@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest"
+import type { TickData } from "@/utils/feeds/types"
+import { getInstrumentMaster } from "@/utils/instrument-master"
+import { createTickValidator } from "./tick-validator"
+
+const T = Date.parse("2024-10-22T05:00:00Z") // 10:30 IST
+const BHEL = "281836549" // A built-in NSE equity
+const NIFTY_CALL = "12345678"
+
+getInstrumentMaster().add([
+  {
+    broker: "kite",
+    key: NIFTY_CALL,
+    tradingsymbol: "NIFTY24O2424000CE",
+    exchange: "NFO",
+    segment: "NFO-OPT",
+    instrumentType: "CE",
+    lotSize: 25,
+    tickSize: 0.05,
+  },
+])
+
+let sequence = 0
+const tick = (overrides: Partial<TickData> = {}): TickData => ({
+  id: `tick-${++sequence}`,
+  feed: "kite",
+  instrument_key: BHEL,
+  last_price: 250,
+  volume: 1_000,
+  average_price: 250,
+  last_quantity: 10,
+  timestamp: T,
+  delay: 0,
+  latency: 0,
+  receivedAt: T,
+  ...overrides,
+})
+
+// A run of ticks for one instrument, each a second and 100 shares after the last
+const series = (count: number, overrides: Partial<TickData> = {}) =>
+  Array.from({ length: count }, (_, i) => tick({ timestamp: T + i * 1000, volume: 1_000 + i * 100, ...overrides }))
+
+describe("createTickValidator", () => {
+  it("accepts good ticks", () => {
+    const validator = createTickValidator()
+    expect(series(3).map((t) => validator.validate(t))).toEqual([true, true, true])
+    expect(validator.summary()).toMatchObject({ accepted: 3, rejected: 0, samples: [] })
+  })
+
+  it("quarantines zero and negative prices", () => {
+    const validator = createTickValidator()
+    expect(validator.validate(tick({ last_price: 0 }))).toBe(false)
+    expect(validator.validate(tick({ last_price: -1 }))).toBe(false)
+    expect(validator.summary().violationCounts.non_positive_price).toBe(2)
+  })
+
+  it("quarantines equity prices outside the circuit band", () => {
+    const validator = createTickValidator()
+    expect(validator.validate(tick({ last_price: 320, previous_close: 250 }))).toBe(false)
+    expect(validator.summary().samples[0]).toMatchObject({
+      instrumentKey: BHEL,
+      instrumentName: "BHEL",
+      violations: ["outside_circuit_band"],
+    })
+    expect(validator.validate(tick({ last_price: 290, previous_close: 250 }))).toBe(true)
+  })
+
+  it("doesn't band-check options or instruments the master doesn't know", () => {
+    const validator = createTickValidator()
+    expect(validator.validate(tick({ instrument_key: NIFTY_CALL, last_price: 900, previous_close: 150 }))).toBe(true)
+    expect(validator.validate(tick({ instrument_key: "999999", last_price: 900, previous_close: 150 }))).toBe(true)
+  })
+
+  it("allows a few seconds of clock drift into the future", () => {
+    const validator = createTickValidator()
+    expect(validator.validate(tick({ timestamp: T + 4_000 }), T)).toBe(true)
+    expect(validator.validate(tick({ timestamp: T + 10_000, volume: 2_000 }), T)).toBe(false)
+    expect(validator.summary().violationCounts.future_timestamp).toBe(1)
+  })
+
+  it("quarantines ticks older than the last good one", () => {
+    const validator = createTickValidator()
+    const [first, second] = series(2)
+    expect(validator.validate(second)).toBe(true)
+    expect(validator.validate(first)).toBe(false)
+    expect(validator.summary().samples[0].violations).toContain("timestamp_regression")
+  })
+
+  it("quarantines day volume going down, but not across days", () => {
+    const validator = createTickValidator()
+    expect(validator.validate(tick({ volume: 5_000 }))).toBe(true)
+    expect(validator.validate(tick({ timestamp: T + 1000, volume: 4_000 }))).toBe(false)
+    expect(validator.summary().violationCounts.volume_regression).toBe(1)
+
+    const nextDay = T + 24 * 60 * 60 * 1000
+    expect(validator.validate(tick({ timestamp: nextDay, receivedAt: nextDay, volume: 100 }))).toBe(true)
+  })
+
+  it("quarantines exact repeats", () => {
+    const validator = createTickValidator()
+    const original = tick()
+    expect(validator.validate(original)).toBe(true)
+    expect(validator.validate({ ...original, id: "resend" })).toBe(false)
+    expect(validator.summary().violationCounts.duplicate).toBe(1)
+  })
+
+  it("trusts the feed again after ten ordering rejections in a row", () => {
+    const validator = createTickValidator()
+    expect(validator.validate(tick({ timestamp: T + 60_000, volume: 1_000_000 }), T + 60_000)).toBe(true)
+
+    // The baseline above was bad; the feed's real ticks all look like regressions
+    const real = series(11)
+    const results = real.map((t) => validator.validate(t, T + 60_000))
+    expect(results.slice(0, 10)).toEqual(Array(10).fill(false))
+    expect(results[10]).toBe(true)
+    expect(validator.validate(tick({ timestamp: T + 11_000, volume: 3_000 }), T + 60_000)).toBe(true)
+  })
+
+  it("keeps the raw payload of rejected ticks, truncated", () => {
+    const validator = createTickValidator()
+    validator.validate(tick({ last_price: 0, raw_data: "x".repeat(1_000) }))
+    expect(validator.summary().samples[0].payload).toHaveLength(500)
+  })
+
+  it("forgets everything on reset", () => {
+    const validator = createTickValidator()
+    const original = tick()
+    validator.validate(original)
+    validator.validate(tick({ last_price: 0 }))
+    validator.reset()
+    expect(validator.summary()).toMatchObject({ accepted: 0, rejected: 0, samples: [] })
+    expect(validator.validate({ ...original, id: "again" })).toBe(true)
+  })
+})
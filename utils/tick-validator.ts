@@ -0,0 +1,178 @@
+import type { TickData } from "@/utils/feeds/types"
+import { getInstrumentName, getInstrumentRecord } from "@/utils/instruments"
+
+// Per-field checks on incoming ticks. A tick that fails any of them is
+// quarantined: counted and sampled for the Debug tab, but never displayed,
+// stored or fed to the alert detectors, apart from the alert rules that look
+// for exactly these ticks.
+
+export type TickViolation =
+  | "non_positive_price"
+  | "outside_circuit_band"
+  | "timestamp_regression"
+  | "volume_regression"
+  | "duplicate"
+  | "future_timestamp"
+
+export const TICK_VIOLATIONS: Record<TickViolation, string> = {
+  non_positive_price: "Zero or negative price",
+  outside_circuit_band: "Outside circuit band",
+  timestamp_regression: "Timestamp went backwards",
+  volume_regression: "Day volume decreased",
+  duplicate: "Duplicate tick",
+  future_timestamp: "Timestamp in the future",
+}
+
+// Widest daily band around the previous close, in %, by instrument type. Options
+// are left out: they can legitimately move several hundred percent in a day.
+// So is any instrument the instrument master doesn't know (yet), since it may
+// well be an option.
+export const CIRCUIT_BANDS: Record<string, number> = {
+  EQ: 20,
+  INDEX: 20,
+  FUT: 20,
+}
+const FUTURE_TOLERANCE = 5_000 // Exchange clocks may run slightly ahead
+// After this many rejections in a row for ordering reasons, the feed is trusted
+// again: a single bad baseline must not quarantine an instrument all day
+const MAX_CONSECUTIVE_REJECTIONS = 10
+const ORDERING_VIOLATIONS = new Set<TickViolation>(["timestamp_regression", "volume_regression"])
+const MAX_REJECTED_SAMPLES = 50
+const MAX_PAYLOAD_LENGTH = 500
+
+export interface RejectedTick {
+  id: string
+  feed: string
+  instrumentKey: string
+  instrumentName: string
+  receivedAt: number
+  violations: TickViolation[]
+  details: string[]
+  payload: string // The normalized tick (or the raw data, when the adapter kept it), truncated
+}
+
+export interface DataQualitySummary {
+  accepted: number
+  rejected: number
+  violationCounts: Record<TickViolation, number>
+  samples: RejectedTick[] // Newest first
+}
+
+interface InstrumentState {
+  timestamp: number
+  volume: number
+  day: string
+  signature: string
+  rejectedInARow: number
+}
+
+const istDay = (timestamp: number) => new Date(timestamp + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+// The fields an exchange update carries; a resend repeats all of them
+const signature = (tick: TickData) =>
+  JSON.stringify([
+    tick.timestamp,
+    tick.last_price,
+    tick.volume,
+    tick.last_quantity,
+    tick.oi,
+    tick.total_buy_quantity,
+    tick.total_sell_quantity,
+    tick.depth,
+  ])
+
+const circuitBand = (tick: TickData) => {
+  const type = getInstrumentRecord(tick)?.instrumentType
+  return type ? (CIRCUIT_BANDS[type] ?? null) : null
+}
+
+const emptyCounts = () =>
+  Object.fromEntries(Object.keys(TICK_VIOLATIONS).map((violation) => [violation, 0])) as Record<TickViolation, number>
+
+export function createTickValidator() {
+  const states = new Map<string, InstrumentState>()
+  let summary: DataQualitySummary = { accepted: 0, rejected: 0, violationCounts: emptyCounts(), samples: [] }
+
+  // Violations with a human-readable detail each; empty when the tick is good
+  const inspect = (tick: TickData, now: number) => {
+    const found: [TickViolation, string][] = []
+    const previous = states.get(tick.instrument_key)
+
+    if (!(tick.last_price > 0)) found.push(["non_positive_price", `price ${tick.last_price}`])
+
+    const reference = tick.previous_close ?? tick.ohlc?.close
+    const band = circuitBand(tick)
+    if (band !== null && reference && reference > 0 && tick.last_price > 0) {
+      const move = ((tick.last_price - reference) / reference) * 100
+      if (Math.abs(move) > band) {
+        found.push(["outside_circuit_band", `${move.toFixed(2)}% from previous close ${reference}, band ±${band}%`])
+      }
+    }
+
+    if (tick.timestamp > now + FUTURE_TOLERANCE) {
+      found.push(["future_timestamp", `${((tick.timestamp - now) / 1000).toFixed(1)}s ahead of the clock`])
+    }
+
+    if (previous) {
+      if (tick.timestamp < previous.timestamp) {
+        found.push(["timestamp_regression", `${previous.timestamp - tick.timestamp} ms before the previous tick`])
+      }
+      if (istDay(tick.timestamp) === previous.day && tick.volume < previous.volume) {
+        found.push(["volume_regression", `volume ${tick.volume} after ${previous.volume}`])
+      }
+      if (signature(tick) === previous.signature) found.push(["duplicate", "identical to the previous tick"])
+    }
+    return found
+  }
+
+  // True when the tick may be used
+  const validate = (tick: TickData, now = tick.receivedAt) => {
+    const found = inspect(tick, now)
+    const previous = states.get(tick.instrument_key)
+    const orderingOnly = found.every(([violation]) => ORDERING_VIOLATIONS.has(violation))
+    const resync = found.length > 0 && orderingOnly && (previous?.rejectedInARow ?? 0) >= MAX_CONSECUTIVE_REJECTIONS
+
+    if (found.length === 0 || resync) {
+      states.set(tick.instrument_key, {
+        timestamp: tick.timestamp,
+        volume: tick.volume,
+        day: istDay(tick.timestamp),
+        signature: signature(tick),
+        rejectedInARow: 0,
+      })
+      summary = { ...summary, accepted: summary.accepted + 1 }
+      return true
+    }
+
+    if (previous) previous.rejectedInARow++
+    const violationCounts = { ...summary.violationCounts }
+    found.forEach(([violation]) => violationCounts[violation]++)
+    const sample: RejectedTick = {
+      id: tick.id,
+      feed: tick.feed,
+      instrumentKey: tick.instrument_key,
+      instrumentName: getInstrumentName(tick),
+      receivedAt: tick.receivedAt,
+      violations: found.map(([violation]) => violation),
+      details: found.map(([, detail]) => detail),
+      payload: (tick.raw_data ?? JSON.stringify(tick)).slice(0, MAX_PAYLOAD_LENGTH),
+    }
+    summary = {
+      accepted: summary.accepted,
+      rejected: summary.rejected + 1,
+      violationCounts,
+      samples: [sample, ...summary.samples].slice(0, MAX_REJECTED_SAMPLES),
+    }
+    return false
+  }
+
+  const reset = () => {
+    states.clear()
+    summary = { accepted: 0, rejected: 0, violationCounts: emptyCounts(), samples: [] }
+  }
+
+  // A new object whenever anything changed, so it can go straight into React state
+  return { validate, reset, summary: () => summary }
+}
+
+export type TickValidator = ReturnType<typeof createTickValidator>